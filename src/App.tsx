@@ -1,96 +1,40 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { isAfter, startOfToday } from 'date-fns';
 import { ClipboardList, AlertCircle, ArrowRight } from 'lucide-react';
-import { SecurityRoleRequest } from './types';
+import { SecurityRoleRequest, SessionUser } from './types';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from './lib/supabase';
 import { toast } from 'sonner';
 import Header from './components/Header';
 import AgencySelect from './components/AgencySelect';
+import NonEmployeeFields from './components/NonEmployeeFields';
 import UserSelect from './components/UserSelect';
-
-async function copyExistingUserRoles(newRequestId: string, copyFromEmployeeId: string) {
-  try {
-    console.log('Looking for existing user with employee ID:', copyFromEmployeeId);
-    
-    // Find the most recent request for the user we want to copy from
-    const { data: existingRequest, error: requestError } = await supabase
-      .from('security_role_requests')
-      .select('id')
-      .eq('employee_id', copyFromEmployeeId)
-      .eq('status', 'completed') // Only copy from completed requests
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (requestError) {
-      console.error('Error finding existing request:', requestError);
-      return;
-    }
-
-    if (!existingRequest) {
-      console.log('No completed request found for employee ID:', copyFromEmployeeId);
-      return;
-    }
-
-    console.log('Found existing request to copy from:', existingRequest.id);
-
-    // Get the role selections from the existing user
-    const { data: existingRoles, error: rolesError } = await supabase
-      .from('security_role_selections')
-      .select('*')
-      .eq('request_id', existingRequest.id)
-      .maybeSingle();
-
-    if (rolesError) {
-      console.error('Error fetching existing roles:', rolesError);
-      return;
-    }
-
-    if (!existingRoles) {
-      console.log('No role selections found for existing request');
-      return;
-    }
-
-    console.log('Found existing roles to copy:', existingRoles);
-
-    // Create a copy of the role selections for the new request
-    const newRoleSelections = {
-      ...existingRoles,
-      id: undefined, // Remove the ID so a new one is generated
-      request_id: newRequestId, // Set to the new request ID
-      created_at: undefined, // Let the database set the timestamp
-      updated_at: undefined,
-      role_justification: existingRoles.role_justification || 'Copied from existing user access'
-    };
-
-    // Insert the copied role selections
-    const { error: insertError } = await supabase
-      .from('security_role_selections')
-      .insert(newRoleSelections);
-
-    if (insertError) {
-      console.error('Error copying role selections:', insertError);
-      return;
-    }
-
-    console.log('Successfully copied role selections to new request');
-
-  } catch (error) {
-    console.error('Error in copyExistingUserRoles:', error);
-  }
-}
+import RoleRemovalSelect from './components/RoleRemovalSelect';
+import HrApproverNotice from './components/HrApproverNotice';
+import SodConflictPanel from './components/SodConflictPanel';
+import { copyExistingUserRoles } from './lib/copyUserRoles';
+import { useCopiedSodConflicts } from './lib/sodRules';
+import { recordRequestRevision } from './lib/requestRevisions';
+import { securityAreaLabels, sortSecurityAreas, startRoleSelection, toSecurityAreaRows } from './lib/securityAreas';
+import { RequestType, requestTypeDescriptions, requestTypeLabels, saveRoleRemovals } from './lib/requestTypes';
+import { AccessUser, getGrantedRoles, getRoleKey, UserAccess } from './lib/userAccess';
+import { AgencyApprovers, applyAgencyApprovers, DirectoryRole, directoryRoleLabels, fetchAgencyApprovers, getDirectoryFilledRoles } from './lib/approverDirectory';
 
 function App() {
   const navigate = useNavigate();
   const [selectedOption, setSelectedOption] = useState<'copy' | 'select' | null>(null);
-  const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
   const [saving, setSaving] = useState(false);
-  const [selectedCopyUser, setSelectedCopyUser] = useState<{employee_name: string; employee_id: string; email: string} | null>(null);
-
-  const handleUserChange = (userName: string | null) => {
-    setCurrentUser(userName);
+  const [selectedCopyUser, setSelectedCopyUser] = useState<AccessUser | null>(null);
+  const [accessSourceUser, setAccessSourceUser] = useState<AccessUser | null>(null);
+  const [currentAccess, setCurrentAccess] = useState<UserAccess | null>(null);
+  const [rolesToRemove, setRolesToRemove] = useState<string[]>([]);
+  const [removeAllAccess, setRemoveAllAccess] = useState(false);
+  const [agencyApprovers, setAgencyApprovers] = useState<AgencyApprovers | null>(null);
+
+  const handleUserChange = (user: SessionUser | null) => {
+    setCurrentUser(user);
   };
 
   const [isTestMode, setIsTestMode] = useState(() => {
@@ -117,14 +61,44 @@ function App() {
     watch,
     setValue,
     formState: { errors },
-  } = useForm<SecurityRoleRequest>();
+  } = useForm<SecurityRoleRequest>({
+    defaultValues: { requestType: 'add' }
+  });
+
+  // Change and removal requests start from the employee's current access
+  const requestType = watch('requestType') || 'add';
+  const isRemoval = requestType === 'remove';
+  const startsFromCurrentAccess = requestType !== 'add';
+  const grantedRoles = getGrantedRoles(currentAccess);
+  const hasRemovalSelection = removeAllAccess || rolesToRemove.length > 0;
 
   // Watch for security area selection
-  const selectedSecurityArea = watch('securityArea');
+  const selectedSecurityAreas = sortSecurityAreas(watch('securityAreas') || []);
+  const selectedAreasKey = selectedSecurityAreas.join(',');
+  const selectedAreaLabels = selectedSecurityAreas.map(area => securityAreaLabels[area]).join(', ');
   const isNonEmployee = watch('isNonEmployee');
 
-  // Check if a security area is selected
-  const hasSelectedSecurityArea = !!selectedSecurityArea;
+  // Check if at least one security area is selected
+  const hasSelectedSecurityArea = selectedSecurityAreas.length > 0;
+
+  // HR / Payroll approvals can only be routed when the agency has an HR director on file
+  const agencyCode = watch('agencyCode');
+  const isHrApproverMissing = selectedSecurityAreas.includes('hr_payroll') && !!agencyApprovers && !agencyApprovers.hr_director;
+  const directoryFilledRoles = getDirectoryFilledRoles(agencyApprovers || {});
+  // Directory approvers are enforced by the database and cannot be changed here
+  const isDirectoryApprover = (role: DirectoryRole) => !!agencyApprovers?.[role];
+
+  // Copied access can hold conflicting duties; their justifications are entered here
+  const copyUserEmployeeId = watch('copyUserEmployeeId');
+  const copySod = useCopiedSodConflicts(
+    null,
+    selectedOption === 'copy' && !isRemoval ? copyUserEmployeeId || null : null,
+    grantedRoles.map(getRoleKey).filter(key => !rolesToRemove.includes(key))
+  );
+
+  const canSubmit = isRemoval
+    ? !!accessSourceUser && hasRemovalSelection
+    : hasSelectedSecurityArea && !!selectedOption;
 
   // Generate test data
   const getTestData = () => {
@@ -146,8 +120,8 @@ function App() {
       agencyName: randomAgency.name,
       agencyCode: randomAgency.code,
       justification: 'This is test data for development and testing purposes.',
-      submitterName: currentUser || 'Test Submitter',
-      submitterEmail: `${(currentUser || 'testsubmitter').toLowerCase().replace(/\s+/g, '.')}@state.mn.us`,
+      submitterName: 'Test Submitter',
+      submitterEmail: currentUser?.email || 'testsubmitter@state.mn.us',
       supervisorName: supervisorName,
       supervisorUsername: getRandomEmail(supervisorName),
       securityAdminName: securityAdminName,
@@ -238,10 +212,10 @@ function App() {
     return `${randomBuilding}, ${randomRoom}`;
   };
 
-  // Auto-populate test data when test mode is enabled and security area is selected
+  // Auto-populate test data when test mode is enabled and security areas are selected
   useEffect(() => {
     if (isTestMode && currentUser) {
-      console.log('Auto-populating test data for security area:', selectedSecurityArea);
+      console.log('Auto-populating test data for security areas:', selectedAreasKey);
       const testData = getTestData();
       
       // Populate basic fields
@@ -261,31 +235,33 @@ function App() {
       setValue('securityAdminName', testData.securityAdminName);
       setValue('securityAdminUsername', testData.securityAdminUsername);
 
-      // Populate security area specific fields
-      if (selectedSecurityArea === 'accounting_procurement') {
-        setValue('accountingDirector', testData.accountingDirector);
-        setValue('accountingDirectorUsername', testData.accountingDirectorUsername);
-      } else if (selectedSecurityArea === 'elm') {
-        setValue('elmKeyAdmin', testData.elmKeyAdmin);
-        setValue('elmKeyAdminUsername', testData.elmKeyAdminUsername);
-      }
+      // Populate security area specific fields (only used for the selected areas)
+      setValue('accountingDirector', testData.accountingDirector);
+      setValue('accountingDirectorUsername', testData.accountingDirectorUsername);
+      setValue('elmKeyAdmin', testData.elmKeyAdmin);
+      setValue('elmKeyAdminUsername', testData.elmKeyAdminUsername);
     }
-  }, [isTestMode, selectedSecurityArea, setValue, currentUser]);
+  }, [isTestMode, selectedAreasKey, setValue, currentUser]);
 
-  // Handle security area selection - navigate to specific role selection if needed
-  useEffect(() => {
-    if (selectedSecurityArea === 'elm') {
-      // Don't navigate immediately, let user complete the form first
-      console.log('ELM selected - user will be redirected after form submission');
+  // Look up the agency's approvers and fill in the ones the directory lists
+  const loadAgencyApprovers = useCallback(async (code: string) => {
+    setAgencyApprovers(null);
+    try {
+      const approvers = await fetchAgencyApprovers(code);
+      setAgencyApprovers(approvers);
+      applyAgencyApprovers(approvers, setValue);
+    } catch (error) {
+      console.error('Error fetching agency approvers:', error);
     }
-  }, [selectedSecurityArea]);
+  }, [setValue]);
 
   const handleAgencyChange = (agencyName: string, agencyCode: string) => {
     setValue('agencyName', agencyName);
     setValue('agencyCode', agencyCode);
+    loadAgencyApprovers(agencyCode);
   };
 
-  const handleCopyUserChange = (user: {employee_name: string; employee_id: string; email: string} | null) => {
+  const handleCopyUserChange = (user: AccessUser | null) => {
     console.log('🔧 App handleCopyUserChange called with:', user);
     setSelectedCopyUser(user);
     if (user) {
@@ -297,19 +273,50 @@ function App() {
     }
   };
 
-  const getSecurityAreaLabel = (area: string) => {
-    const labels: Record<string, string> = {
-      'accounting_procurement': 'Accounting/Procurement',
-      'hr_payroll': 'HR/Payroll',
-      'epm_data_warehouse': 'EPM Data Warehouse',
-      'elm': 'ELM'
-    };
-    return labels[area] || area;
+  const handleAccessSourceChange = (user: AccessUser | null) => {
+    setAccessSourceUser(user);
+    setRolesToRemove([]);
+    setRemoveAllAccess(false);
+    if (user) {
+      setValue('employeeName', user.employee_name);
+      setValue('employeeId', user.employee_id);
+      setValue('email', user.email);
+    }
+  };
+
+  const handleCurrentAccessLoaded = useCallback((access: UserAccess | null) => {
+    setCurrentAccess(access);
+    if (access?.userDetails) {
+      setValue('agencyName', access.userDetails.agency_name || '');
+      setValue('agencyCode', access.userDetails.agency_code || '');
+      setValue('isNonEmployee', !!access.userDetails.is_non_employee);
+      loadAgencyApprovers(access.userDetails.agency_code || '');
+    }
+  }, [setValue, loadAgencyApprovers]);
+
+  const handleRequestTypeChange = (type: RequestType) => {
+    setValue('requestType', type);
+    if (type === 'add') {
+      handleAccessSourceChange(null);
+      setCurrentAccess(null);
+    }
   };
 
+  // Request type fields shared by every way of creating a request
+  const getRequestTypeData = () => ({
+    request_type: requestType,
+    source_request_id: startsFromCurrentAccess ? accessSourceUser?.request_id || null : null,
+    remove_all_access: isRemoval && removeAllAccess
+  });
+
   const handleProceedToRoleSelection = async () => {
-    if (!hasSelectedSecurityArea || !selectedSecurityArea) {
-      toast.error('Please select a security area first.');
+    if (!hasSelectedSecurityArea) {
+      toast.error('Please select at least one security area first.');
+      return;
+    }
+
+    if (startsFromCurrentAccess && !accessSourceUser) {
+      toast.error('Please select the employee whose access is changing.');
       return;
     }
 
@@ -322,6 +329,11 @@ function App() {
       return;
     }
 
+    if (isHrApproverMissing) {
+      toast.error('HR / Payroll requests cannot be routed until the agency has an HR director in the approver directory.');
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -332,10 +344,14 @@ function App() {
 
       // Create the main request
       const requestData = {
+        ...getRequestTypeData(),
         start_date: formData.startDate,
         employee_name: formData.employeeName,
         employee_id: formData.employeeId,
         is_non_employee: formData.isNonEmployee,
+        non_employee_type: formData.isNonEmployee ? formData.nonEmployeeType : null,
+        access_end_date: formData.isNonEmployee ? formData.accessEndDate : null,
+        security_measures: formData.isNonEmployee ? formData.securityMeasures : null,
         work_location: formData.workLocation,
         work_phone: formattedPhone,
         email: formData.email,
@@ -348,7 +364,7 @@ function App() {
         supervisor_email: formData.supervisorUsername,
         security_admin_name: formData.securityAdminName,
         security_admin_email: formData.securityAdminUsername,
-        poc_user: currentUser
+        submitted_by: currentUser?.id
       };
 
       const { data: request, error: requestError } = await supabase
@@ -359,36 +375,16 @@ function App() {
 
       if (requestError) throw requestError;
 
-      // Create security area record
-      const securityAreas = [];
-      if (selectedSecurityArea === 'accounting_procurement') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'accounting_procurement',
-          director_name: formData.accountingDirector,
-          director_email: formData.accountingDirectorUsername,
-        });
-      } else if (selectedSecurityArea === 'hr_payroll') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'hr_payroll',
-          director_name: formData.hrMainframeLogonId,
-          director_email: formData.hrViewStatewide ? 'hr_statewide_access@state.mn.us' : 'hr_standard_access@state.mn.us',
-        });
-      } else if (selectedSecurityArea === 'epm_data_warehouse') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'epm_data_warehouse',
-        });
-      } else if (selectedSecurityArea === 'elm') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'elm',
-          director_name: formData.elmKeyAdmin,
-          director_email: formData.elmKeyAdminUsername,
-        });
+      if (startsFromCurrentAccess) {
+        await saveRoleRemovals(request.id, grantedRoles, rolesToRemove, false);
       }
 
+      // Create a security area record for each selected area
+      const securityAreas = toSecurityAreaRows(formData).map(area => ({
+        ...area,
+        request_id: request.id
+      }));
+
       if (securityAreas.length > 0) {
         const { error: areasError } = await supabase
           .from('security_areas')
@@ -397,16 +393,9 @@ function App() {
         if (areasError) throw areasError;
       }
 
-      // Navigate to the appropriate role selection page
-      if (selectedSecurityArea === 'elm') {
-        navigate('/elm-roles', { state: { requestId: request.id } });
-      } else if (selectedSecurityArea === 'epm_data_warehouse') {
-        navigate('/epm-dwh-roles', { state: { requestId: request.id } });
-      } else if (selectedSecurityArea === 'hr_payroll') {
-        navigate('/hr-payroll-roles', { state: { requestId: request.id } });
-      } else {
-        navigate('/select-roles', { state: { requestId: request.id } });
-      }
+      // Walk through the role selection page for each selected area in turn
+      const next = startRoleSelection(request.id, formData.securityAreas);
+      navigate(next.path, { state: next.state });
 
     } catch (error) {
       console.error('Error creating request:', error);
@@ -417,7 +406,22 @@ function App() {
   };
 
   const onSubmit = async (data: SecurityRoleRequest) => {
-    if (!hasSelectedSecurityArea) {
+    if (startsFromCurrentAccess && !accessSourceUser) {
+      toast.error('Please select the employee whose access is changing.');
+      return;
+    }
+
+    if (isRemoval ? !hasRemovalSelection : !hasSelectedSecurityArea) {
+      return;
+    }
+
+    if (!isRemoval && isHrApproverMissing) {
+      toast.error('HR / Payroll requests cannot be routed until the agency has an HR director in the approver directory.');
+      return;
+    }
+
+    if (!isRemoval && selectedOption === 'copy' && copySod.error) {
+      toast.error(copySod.error);
       return;
     }
 
@@ -430,10 +434,14 @@ function App() {
 
       // Create the main request with POC user tracking
       const requestData = {
+        ...getRequestTypeData(),
         start_date: data.startDate,
         employee_name: data.employeeName,
         employee_id: data.employeeId,
         is_non_employee: data.isNonEmployee,
+        non_employee_type: data.isNonEmployee ? data.nonEmployeeType : null,
+        access_end_date: data.isNonEmployee ? data.accessEndDate : null,
+        security_measures: data.isNonEmployee ? data.securityMeasures : null,
         work_location: data.workLocation,
         work_phone: formattedPhone,
         email: data.email,
@@ -446,7 +454,7 @@ function App() {
         supervisor_email: data.supervisorUsername,
         security_admin_name: data.securityAdminName,
         security_admin_email: data.securityAdminUsername,
-        poc_user: currentUser // Track which POC user created this request
+        submitted_by: currentUser?.id // Tie the request to the signed-in user
       };
 
       console.log('Inserting main request:', requestData);
@@ -460,36 +468,24 @@ function App() {
       if (requestError) throw requestError;
       console.log('Main request created:', request);
 
-      // Create security area record
-      const securityAreas = [];
-      if (data.securityArea === 'accounting_procurement') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'accounting_procurement',
-          director_name: data.accountingDirector,
-          director_email: data.accountingDirectorUsername,
-        });
-      } else if (data.securityArea === 'hr_payroll') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'hr_payroll',
-          director_name: data.hrMainframeLogonId,
-          director_email: data.hrViewStatewide ? 'hr_statewide_access@state.mn.us' : 'hr_standard_access@state.mn.us',
-        });
-      } else if (data.securityArea === 'epm_data_warehouse') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'epm_data_warehouse',
-        });
-      } else if (data.securityArea === 'elm') {
-        securityAreas.push({
-          request_id: request.id,
-          area_type: 'elm',
-          director_name: data.elmKeyAdmin,
-          director_email: data.elmKeyAdminUsername,
-        });
+      if (startsFromCurrentAccess) {
+        await saveRoleRemovals(request.id, grantedRoles, rolesToRemove, isRemoval && removeAllAccess);
       }
 
+      // Removals only revoke roles; there are no areas or role pages to fill in
+      if (isRemoval) {
+        await recordRequestRevision(request.id);
+        toast.success('Removal request submitted successfully!');
+        navigate('/success', { state: { requestId: request.id } });
+        return;
+      }
+
+      // Create a security area record for each selected area
+      const securityAreas = toSecurityAreaRows(data).map(area => ({
+        ...area,
+        request_id: request.id
+      }));
+
       if (securityAreas.length > 0) {
         console.log('Inserting security areas:', securityAreas);
         const { error: areasError } = await supabase
@@ -518,7 +514,9 @@ function App() {
         console.log('Copy user details created successfully');
 
         // Find and copy the existing user's role selections
+        await copySod.save(request.id);
         await copyExistingUserRoles(request.id, data.copyUserEmployeeId);
+        await recordRequestRevision(request.id);
       }
 
       toast.success('Request submitted successfully!');
@@ -526,14 +524,9 @@ function App() {
       // Navigate based on selection
       if (selectedOption === 'copy') {
         navigate('/success', { state: { requestId: request.id } });
-      } else if (data.securityArea === 'elm') {
-        navigate('/elm-roles', { state: { requestId: request.id } });
-      } else if (data.securityArea === 'epm_data_warehouse') {
-        navigate('/epm-dwh-roles', { state: { requestId: request.id } });
-      } else if (data.securityArea === 'hr_payroll') {
-        navigate('/hr-payroll-roles', { state: { requestId: request.id } });
       } else {
-        navigate('/select-roles', { state: { requestId: request.id } });
+        const next = startRoleSelection(request.id, data.securityAreas);
+        navigate(next.path, { state: next.state });
       }
 
     } catch (error) {
@@ -554,9 +547,9 @@ function App() {
         <div className="py-8 px-4 sm:px-6 lg:px-8">
           <div className="max-w-4xl mx-auto text-center">
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-blue-900 mb-2">User Identification Required</h3>
+              <h3 className="text-lg font-medium text-blue-900 mb-2">Sign In Required</h3>
               <p className="text-blue-700">
-                Please identify yourself to submit requests.
+                Please sign in to submit requests.
               </p>
             </div>
           </div>
@@ -565,13 +558,71 @@ function App() {
       <div className="py-8 px-4 sm:px-6 lg:px-8">
         <div className="max-w-4xl mx-auto">
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-8 bg-white p-8 rounded-lg shadow">
+            {/* Request Type */}
+            <div className="space-y-6">
+              <h3 className="text-xl font-semibold text-gray-900 border-b pb-2">Request Type</h3>
+
+              <input type="hidden" {...register('requestType')} />
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                {(Object.keys(requestTypeLabels) as RequestType[]).map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => handleRequestTypeChange(type)}
+                    className={`p-4 text-left rounded-lg border-2 transition-colors ${
+                      requestType === type
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:border-blue-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <h4 className="text-sm font-medium text-gray-900">{requestTypeLabels[type]}</h4>
+                    <p className="mt-1 text-xs text-gray-500">{requestTypeDescriptions[type]}</p>
+                  </button>
+                ))}
+              </div>
+
+              {startsFromCurrentAccess && (
+                <div className="space-y-6 bg-gray-50 p-6 rounded-lg border border-gray-200">
+                  <UserSelect
+                    selectedUser={accessSourceUser}
+                    onUserChange={handleAccessSourceChange}
+                    onAccessLoaded={handleCurrentAccessLoaded}
+                    required={true}
+                    currentUser={currentUser}
+                    label="Select Employee"
+                    detailsTitle="Current Access"
+                  />
+
+                  {accessSourceUser && currentAccess && (
+                    <div className="bg-white p-4 rounded-lg border border-gray-200">
+                      <RoleRemovalSelect
+                        roles={grantedRoles}
+                        selectedKeys={rolesToRemove}
+                        onChange={setRolesToRemove}
+                        removeAll={isRemoval && removeAllAccess}
+                        onRemoveAllChange={isRemoval ? setRemoveAllAccess : undefined}
+                        error={isRemoval && !hasRemovalSelection ? 'Select at least one role to remove' : undefined}
+                      />
+                      {!isRemoval && (
+                        <p className="mt-3 text-sm text-gray-500">
+                          Optional. Roles to add are chosen in the Security Details and Role Selection sections below.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Section 1: Employee Details */}
             <div className="space-y-6">
               <h3 className="text-xl font-semibold text-gray-900 border-b pb-2">Employee Details</h3>
               
               <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700">Start Date of Access*</label>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {isRemoval ? 'Date to Remove Access*' : 'Start Date of Access*'}
+                  </label>
                   <input
                     type="date"
                     {...register('startDate', {
@@ -702,6 +753,10 @@ function App() {
                 </div>
               </div>
 
+              {isNonEmployee && !isRemoval && (
+                <NonEmployeeFields register={register} errors={errors} startDate={watch('startDate')} />
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700">Request Justification</label>
                 <textarea
@@ -753,6 +808,13 @@ function App() {
             {/* Section 3: Approver Details */}
             <div className="space-y-6">
               <h3 className="text-xl font-semibold text-gray-900 border-b pb-2">Approver Details</h3>
+
+              {directoryFilledRoles.length > 0 && (
+                <p className="text-sm text-gray-500">
+                  Filled in from the agency approver directory: {directoryFilledRoles.map(role => directoryRoleLabels[role]).join(', ')}.
+                  Only a reference data administrator can change them, in the approver directory.
+                </p>
+              )}
               
               <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
                 <div>
@@ -791,7 +853,8 @@ function App() {
                   <input
                     type="text"
                     {...register('securityAdminName', { required: 'Security admin name is required' })}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    readOnly={isDirectoryApprover('security_admin')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                   />
                   {errors.securityAdminName && (
                     <p className="mt-1 text-sm text-red-600">{errors.securityAdminName.message}</p>
@@ -809,7 +872,8 @@ function App() {
                         message: 'Please enter a valid email address'
                       }
                     })}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    readOnly={isDirectoryApprover('security_admin')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                     placeholder="admin@example.com"
                   />
                   {errors.securityAdminUsername && (
@@ -820,10 +884,11 @@ function App() {
             </div>
 
             {/* Section 4: Security Details */}
+            {!isRemoval && (
             <div className="space-y-6">
               <h3 className="text-xl font-semibold text-gray-900 border-b pb-2">Security Details</h3>
               
-              <p className="text-sm text-gray-700">Please select the security area you need access to</p>
+              <p className="text-sm text-gray-700">Please select each security area you need access to</p>
 
               {!hasSelectedSecurityArea && (
                 <div className="rounded-md bg-yellow-50 p-4">
@@ -837,7 +902,7 @@ function App() {
                       </h3>
                       <div className="mt-2 text-sm text-yellow-700">
                         <p>
-                          Please select a security area to proceed.
+                          Please select at least one security area to proceed.
                         </p>
                       </div>
                     </div>
@@ -849,22 +914,25 @@ function App() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea', { required: 'Please select a security area' })}
+                      type="checkbox"
+                      {...register('securityAreas', {
+                        validate: value => (value && value.length > 0) || 'Please select at least one security area'
+                      })}
                       value="accounting_procurement"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">Accounting / Procurement</span>
                   </label>
 
-                  {selectedSecurityArea === 'accounting_procurement' && (
+                  {selectedSecurityAreas.includes('accounting_procurement') && (
                     <div className="ml-6 mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
                       <div>
                         <label className="block text-sm font-medium text-gray-700">Accounting Director/CFO*</label>
                         <input
                           type="text"
                           {...register('accountingDirector', { required: 'Accounting Director is required' })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('accounting_director')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                         />
                         {errors.accountingDirector && (
                           <p className="mt-1 text-sm text-red-600">{errors.accountingDirector.message}</p>
@@ -882,7 +950,8 @@ function App() {
                               message: 'Please enter a valid email address'
                             }
                           })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('accounting_director')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                           placeholder="director@example.com"
                         />
                         {errors.accountingDirectorUsername && (
@@ -896,15 +965,15 @@ function App() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea')}
+                      type="checkbox"
+                      {...register('securityAreas')}
                       value="hr_payroll"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">HR / Payroll</span>
                   </label>
 
-                  {selectedSecurityArea === 'hr_payroll' && (
+                  {selectedSecurityAreas.includes('hr_payroll') && (
                     <div className="ml-6 mt-2 space-y-4">
                       <div>
                         <label className="block text-sm font-medium text-gray-700">
@@ -934,6 +1003,8 @@ function App() {
                         </label>
                       </div>
 
+                      <HrApproverNotice approvers={agencyApprovers} agencyCode={agencyCode} />
+
                       <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4">
                         <div className="flex">
                           <div className="flex-shrink-0">
@@ -958,10 +1029,10 @@ function App() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea')}
+                      type="checkbox"
+                      {...register('securityAreas')}
                       value="epm_data_warehouse"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">EPM / Data Warehouse</span>
                   </label>
@@ -970,10 +1041,10 @@ function App() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea')}
+                      type="checkbox"
+                      {...register('securityAreas')}
                       value="elm"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">ELM</span>
                   </label>
@@ -981,14 +1052,15 @@ function App() {
                     DON'T SELECT ELM unless you are seeking access privileges for administrative functions. All staff automatically have access to ELM courses.
                   </p>
 
-                  {selectedSecurityArea === 'elm' && (
+                  {selectedSecurityAreas.includes('elm') && (
                     <div className="ml-6 mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
                       <div>
                         <label className="block text-sm font-medium text-gray-700">ELM Key Administrator*</label>
                         <input
                           type="text"
                           {...register('elmKeyAdmin', { required: 'ELM Key Administrator is required' })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('elm_key_admin')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                         />
                         {errors.elmKeyAdmin && (
                           <p className="mt-1 text-sm text-red-600">{errors.elmKeyAdmin.message}</p>
@@ -1006,7 +1078,8 @@ function App() {
                               message: 'Please enter a valid email address'
                             }
                           })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('elm_key_admin')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                           placeholder="admin@example.com"
                         />
                         {errors.elmKeyAdminUsername && (
@@ -1018,12 +1091,14 @@ function App() {
                 </div>
               </div>
 
-              {errors.securityArea && (
-                <p className="mt-1 text-sm text-red-600">{errors.securityArea.message}</p>
+              {errors.securityAreas && (
+                <p className="mt-1 text-sm text-red-600">{errors.securityAreas.message}</p>
               )}
             </div>
+            )}
 
             {/* Role Selection Section */}
+            {!isRemoval && (
             <div className="space-y-6">
               <h3 className="text-xl font-semibold text-gray-900 border-b pb-2">Role Selection Method</h3>
               
@@ -1097,13 +1172,19 @@ function App() {
                           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                         />
                       </div>
+
+                      <SodConflictPanel
+                        conflicts={copySod.conflicts}
+                        justifications={copySod.justifications}
+                        onJustificationChange={copySod.setJustification}
+                      />
                     </div>
                   )}
 
                   {selectedOption === 'select' && (
                     <div className="mt-6 space-y-4 bg-white p-6 rounded-lg border border-gray-200">
                       <p className="text-sm text-gray-600">
-                        You will be taken to a detailed role selection page for {getSecurityAreaLabel(selectedSecurityArea || '')}.
+                        You will be taken to a detailed role selection page for each selected area: {selectedAreaLabels}.
                       </p>
                       <button
                         type="button"
@@ -1116,27 +1197,28 @@ function App() {
                         }`}
                       >
                         <ArrowRight className="h-4 w-4 mr-2" />
-                        {saving ? 'Processing...' : `Proceed to ${getSecurityAreaLabel(selectedSecurityArea || '')} Role Selection`}
+                        {saving ? 'Processing...' : `Proceed to ${securityAreaLabels[selectedSecurityAreas[0]] || ''} Role Selection`}
                       </button>
                     </div>
                   )}
                 </div>
               </div>
             </div>
+            )}
 
             {/* Submit Button */}
             <div className="flex justify-end">
               <button
                 type="submit"
-                disabled={!hasSelectedSecurityArea || !selectedOption}
+                disabled={!canSubmit}
                 className={`flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white ${
-                  hasSelectedSecurityArea && selectedOption
+                  canSubmit
                     ? 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
                     : 'bg-gray-400 cursor-not-allowed'
                 }`}
               >
                 <ClipboardList className="mr-2 h-5 w-5" />
-                Submit Request
+                {isRemoval ? 'Submit Removal Request' : 'Submit Request'}
               </button>
             </div>
           </form>
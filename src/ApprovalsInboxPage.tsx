@@ -0,0 +1,352 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow, format } from 'date-fns';
+import { AlertTriangle, Inbox, PenLine, RefreshCw } from 'lucide-react';
+import clsx from 'clsx';
+import { toast } from 'sonner';
+import { supabase } from './lib/supabase';
+import Header from './components/Header';
+import { SessionUser } from './types';
+import { getBlockingApprovals, getCurrentApprovals, isApprovalOverdue, stepLabels } from './lib/approvalSteps';
+import { securityAreaLabels, SecurityAreaType, sortSecurityAreas } from './lib/securityAreas';
+import { RequestType, requestTypeLabels } from './lib/requestTypes';
+
+interface ChainStep {
+  id: string;
+  step: string;
+  status: string;
+  created_at: string;
+}
+
+interface InboxApproval {
+  id: string;
+  request_id: string;
+  step: string;
+  status: string;
+  created_at: string;
+  notified_at: string | null;
+  due_at: string | null;
+  approved_at: string | null;
+  rejected_at: string | null;
+  comments: string | null;
+  request: {
+    employee_name: string;
+    agency_name: string;
+    agency_code: string;
+    request_type: RequestType;
+    status: string;
+    created_at: string;
+    security_areas: { area_type: string }[];
+    request_approvals: ChainStep[];
+  } | null;
+}
+
+type InboxTab = 'pending' | 'history';
+
+// Requests in these states are not waiting on any approver
+const closedRequestStatuses = ['denied', 'completed'];
+
+const isMyTurn = (approval: InboxApproval) =>
+  approval.request?.status === 'pending' &&
+  getBlockingApprovals(approval, approval.request.request_approvals).length === 0;
+
+const getWaitingSince = (approval: InboxApproval) =>
+  approval.notified_at || approval.request?.created_at || approval.created_at;
+
+const getDecidedAt = (approval: InboxApproval) => approval.approved_at || approval.rejected_at;
+
+function ApprovalsInboxPage() {
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [approvals, setApprovals] = useState<InboxApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<InboxTab>('pending');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const handleUserChange = (user: SessionUser | null) => {
+    setCurrentUser(user);
+  };
+
+  const userEmail = currentUser?.email;
+  useEffect(() => {
+    if (!userEmail) return;
+
+    const fetchApprovals = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .from('request_approvals')
+          .select(`
+            id,
+            request_id,
+            step,
+            status,
+            created_at,
+            notified_at,
+            due_at,
+            approved_at,
+            rejected_at,
+            comments,
+            request:security_role_requests (
+              employee_name,
+              agency_name,
+              agency_code,
+              request_type,
+              status,
+              created_at,
+              security_areas (
+                area_type
+              ),
+              request_approvals (
+                id,
+                step,
+                status,
+                created_at
+              )
+            )
+          `)
+          // Exact, case-insensitive match on the signed-in approver's email
+          .ilike('approver_email', userEmail.replace(/[\\%_]/g, '\\$&'))
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setApprovals((data || []) as unknown as InboxApproval[]);
+      } catch (err) {
+        console.error('Error fetching approvals:', err);
+        toast.error('Failed to load your approvals');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchApprovals();
+  }, [userEmail, reloadKey]);
+
+  const pending = approvals
+    .filter(approval =>
+      approval.status === 'pending' &&
+      approval.request &&
+      !closedRequestStatuses.includes(approval.request.status)
+    )
+    // Steps that are the approver's turn first, then the longest waiting
+    .sort((a, b) =>
+      Number(isMyTurn(b)) - Number(isMyTurn(a)) ||
+      new Date(getWaitingSince(a)).getTime() - new Date(getWaitingSince(b)).getTime()
+    );
+
+  const history = approvals
+    .filter(approval => approval.status !== 'pending')
+    .sort((a, b) =>
+      new Date(getDecidedAt(b) || b.created_at).getTime() - new Date(getDecidedAt(a) || a.created_at).getTime()
+    );
+
+  const rows = activeTab === 'pending' ? pending : history;
+
+  const renderAreas = (approval: InboxApproval) => {
+    const areas = sortSecurityAreas(
+      (approval.request?.security_areas || []).map(area => area.area_type as SecurityAreaType)
+    );
+
+    if (areas.length === 0) {
+      return <span className="text-gray-400 text-xs">{approval.request?.request_type === 'remove' ? 'Removal' : 'None'}</span>;
+    }
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {areas.map(area => (
+          <span
+            key={area}
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+          >
+            {securityAreaLabels[area]}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  const renderCurrentStep = (approval: InboxApproval) => {
+    if (!approval.request) return null;
+
+    if (approval.request.status === 'returned') {
+      return <span className="text-orange-700">Returned to submitter</span>;
+    }
+    if (isMyTurn(approval)) {
+      return <span className="font-medium text-green-700">Your signature</span>;
+    }
+
+    const current = getCurrentApprovals(approval.request.request_approvals);
+    return (
+      <span className="text-gray-500">
+        Waiting on {current.map(step => stepLabels[step.step] || step.step).join(', ') || 'earlier steps'}
+      </span>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header
+        title="My Approvals"
+        subtitle="Requests waiting for your signature"
+        onUserChange={handleUserChange}
+      />
+
+      {!currentUser ? (
+        <div className="py-8 px-4 sm:px-6 lg:px-8">
+          <div className="max-w-4xl mx-auto text-center">
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-blue-900 mb-2">Sign In Required</h3>
+              <p className="text-blue-700">
+                Please sign in to see the requests assigned to you.
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+      <div className="py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center mb-6">
+            <nav className="-mb-px flex space-x-8 border-b border-gray-200">
+              {(['pending', 'history'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                    activeTab === tab
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {tab === 'pending' ? `Pending (${pending.length})` : `History (${history.length})`}
+                </button>
+              ))}
+            </nav>
+            <button
+              onClick={() => setReloadKey(key => key + 1)}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="text-center py-12 bg-white rounded-lg shadow">
+              <Inbox className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                {activeTab === 'pending' ? 'Nothing waiting for you' : 'No past approvals'}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {activeTab === 'pending'
+                  ? `Requests that need ${currentUser.email} to sign will appear here.`
+                  : 'Requests you have signed, denied or returned will appear here.'}
+              </p>
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agency</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Areas</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Your Step</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {activeTab === 'pending' ? 'Current Step' : 'Decision'}
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {activeTab === 'pending' ? 'Waiting' : 'Date'}
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {rows.map(approval => (
+                    <tr key={approval.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {approval.request?.employee_name}
+                        {approval.request && approval.request.request_type !== 'add' && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {requestTypeLabels[approval.request.request_type]}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {approval.request?.agency_name}
+                        {approval.request?.agency_code && ` (${approval.request.agency_code})`}
+                      </td>
+                      <td className="px-6 py-4 text-sm">{renderAreas(approval)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {stepLabels[approval.step] || approval.step}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {activeTab === 'pending' ? renderCurrentStep(approval) : (
+                          <span className={clsx(
+                            'px-2 inline-flex text-xs leading-5 font-semibold rounded-full',
+                            {
+                              'bg-green-100 text-green-800': approval.status === 'approved',
+                              'bg-red-100 text-red-800': approval.status === 'denied',
+                              'bg-orange-100 text-orange-800': approval.status === 'returned',
+                              'bg-gray-100 text-gray-800': approval.status === 'cancelled'
+                            }
+                          )}>
+                            {approval.status.charAt(0).toUpperCase() + approval.status.slice(1)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {activeTab === 'pending' ? (
+                          <>
+                            {formatDistanceToNow(new Date(getWaitingSince(approval)))}
+                            {isApprovalOverdue(approval) && (
+                              <span
+                                className="ml-2 px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+                                title="This step is past its due date"
+                              >
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                Overdue
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          getDecidedAt(approval) ? format(new Date(getDecidedAt(approval) as string), 'MMM d, yyyy') : ''
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-3">
+                          {activeTab === 'pending' && isMyTurn(approval) && (
+                            <Link
+                              to={`/signature/${approval.request_id}/${approval.id}`}
+                              className="inline-flex items-center text-blue-600 hover:text-blue-900"
+                            >
+                              <PenLine className="h-4 w-4 mr-1" />
+                              Review &amp; Sign
+                            </Link>
+                          )}
+                          <Link
+                            to={`/requests/${approval.request_id}`}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            View Details
+                          </Link>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+      )}
+    </div>
+  );
+}
+
+export default ApprovalsInboxPage;
@@ -2,95 +2,26 @@ import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { isAfter, startOfToday } from 'date-fns';
 import { ClipboardList, AlertCircle, ArrowLeft, Save } from 'lucide-react';
-import { SecurityRoleRequest } from './types';
+import { SecurityRoleRequest, SessionUser } from './types';
 import { useNavigate, Link, useParams } from 'react-router-dom';
 import { supabase } from './lib/supabase';
 import { toast } from 'sonner';
 import Header from './components/Header';
 import AgencySelect from './components/AgencySelect';
-
-async function copyExistingUserRoles(newRequestId: string, copyFromEmployeeId: string) {
-  try {
-    console.log('Looking for existing user with employee ID:', copyFromEmployeeId);
-    
-    // Find the most recent completed request for the user we want to copy from
-    const { data: existingRequest, error: requestError } = await supabase
-      .from('security_role_requests')
-      .select('id')
-      .eq('employee_id', copyFromEmployeeId)
-      .eq('status', 'completed') // Only copy from completed requests
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (requestError) {
-      console.error('Error finding existing request:', requestError);
-      return;
-    }
-
-    if (!existingRequest) {
-      console.log('No completed request found for employee ID:', copyFromEmployeeId);
-      return;
-    }
-
-    console.log('Found existing request to copy from:', existingRequest.id);
-
-    // Get the role selections from the existing user
-    const { data: existingRoles, error: rolesError } = await supabase
-      .from('security_role_selections')
-      .select('*')
-      .eq('request_id', existingRequest.id)
-      .maybeSingle();
-
-    if (rolesError) {
-      console.error('Error fetching existing roles:', rolesError);
-      return;
-    }
-
-    if (!existingRoles) {
-      console.log('No role selections found for existing request');
-      return;
-    }
-
-    console.log('Found existing roles to copy:', existingRoles);
-
-    // Delete existing role selections for this request first
-    await supabase
-      .from('security_role_selections')
-      .delete()
-      .eq('request_id', newRequestId);
-
-    // Create a copy of the role selections for the new request
-    const newRoleSelections = {
-      ...existingRoles,
-      id: undefined, // Remove the ID so a new one is generated
-      request_id: newRequestId, // Set to the new request ID
-      created_at: undefined, // Let the database set the timestamp
-      updated_at: undefined,
-      role_justification: existingRoles.role_justification || 'Copied from existing user access'
-    };
-
-    // Insert the copied role selections
-    const { error: insertError } = await supabase
-      .from('security_role_selections')
-      .insert(newRoleSelections);
-
-    if (insertError) {
-      console.error('Error copying role selections:', insertError);
-      return;
-    }
-
-    console.log('Successfully copied role selections to new request');
-
-  } catch (error) {
-    console.error('Error in copyExistingUserRoles:', error);
-  }
-}
+import NonEmployeeFields from './components/NonEmployeeFields';
+import HrApproverNotice from './components/HrApproverNotice';
+import SodConflictPanel from './components/SodConflictPanel';
+import { copyExistingUserRoles } from './lib/copyUserRoles';
+import { useCopiedSodConflicts } from './lib/sodRules';
+import { recordRequestRevision } from './lib/requestRevisions';
+import { AgencyApprovers, applyAgencyApprovers, DirectoryRole, fetchAgencyApprovers } from './lib/approverDirectory';
+import { roleSelectionTables, SecurityAreaType, sortSecurityAreas, startRoleSelection, toSecurityAreaRows } from './lib/securityAreas';
 
 interface SecurityArea {
   area_type: string;
   director_name: string | null;
   director_email: string | null;
+  hr_view_statewide: boolean;
 }
 
 interface CopyUserDetails {
@@ -101,10 +32,14 @@ interface CopyUserDetails {
 
 interface RequestData {
   id: string;
+  request_type: string;
   start_date: string;
   employee_name: string;
   employee_id: string | null;
   is_non_employee: boolean;
+  non_employee_type: string | null;
+  access_end_date: string | null;
+  security_measures: string | null;
   work_location: string | null;
   work_phone: string | null;
   email: string;
@@ -129,10 +64,11 @@ function EditRequestPage() {
   const [saving, setSaving] = useState(false);
   const [selectedOption, setSelectedOption] = useState<'copy' | 'select' | null>(null);
   const [requestData, setRequestData] = useState<RequestData | null>(null);
-  const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [agencyApprovers, setAgencyApprovers] = useState<AgencyApprovers | null>(null);
 
-  const handleUserChange = (userName: string | null) => {
-    setCurrentUser(userName);
+  const handleUserChange = (user: SessionUser | null) => {
+    setCurrentUser(user);
   };
 
   const {
@@ -145,11 +81,24 @@ function EditRequestPage() {
   } = useForm<SecurityRoleRequest>();
 
   // Watch for security area selection
-  const selectedSecurityArea = watch('securityArea');
+  const selectedSecurityAreas = sortSecurityAreas(watch('securityAreas') || []);
   const isNonEmployee = watch('isNonEmployee');
 
-  // Check if a security area is selected
-  const hasSelectedSecurityArea = !!selectedSecurityArea;
+  // Check if at least one security area is selected
+  const hasSelectedSecurityArea = selectedSecurityAreas.length > 0;
+
+  // HR / Payroll approvals can only be routed when the agency has an HR director on file
+  const agencyCode = watch('agencyCode');
+  const isHrApproverMissing = selectedSecurityAreas.includes('hr_payroll') && !!agencyApprovers && !agencyApprovers.hr_director;
+  // Directory approvers are enforced by the database and cannot be changed here
+  const isDirectoryApprover = (role: DirectoryRole) => !!agencyApprovers?.[role];
+
+  // Removal requests have no areas or role pages; their roles are chosen when created
+  const isRemoval = requestData?.request_type === 'remove';
+
+  // Copied access can hold conflicting duties; their justifications are entered here
+  const copyUserEmployeeId = watch('copyUserEmployeeId');
+  const copySod = useCopiedSodConflicts(id || null, selectedOption === 'copy' && !isRemoval ? copyUserEmployeeId || null : null);
 
   useEffect(() => {
     if (id) {
@@ -157,16 +106,19 @@ function EditRequestPage() {
     }
   }, [id]);
 
-  // Handle security area selection - navigate to specific role selection if needed
-  useEffect(() => {
-    if (selectedSecurityArea === 'elm' && id) {
-      navigate('/elm-roles', { state: { requestId: id } });
-    }
-  }, [selectedSecurityArea, id, navigate]);
-
-  const handleAgencyChange = (agencyName: string, agencyCode: string) => {
+  // Approvers listed in the directory replace those on the request
+  const handleAgencyChange = async (agencyName: string, agencyCode: string) => {
     setValue('agencyName', agencyName);
     setValue('agencyCode', agencyCode);
+
+    setAgencyApprovers(null);
+    try {
+      const approvers = await fetchAgencyApprovers(agencyCode);
+      setAgencyApprovers(approvers);
+      applyAgencyApprovers(approvers, setValue);
+    } catch (error) {
+      console.error('Error fetching agency approvers:', error);
+    }
   };
 
   const fetchRequestData = async () => {
@@ -180,7 +132,8 @@ function EditRequestPage() {
           security_areas (
             area_type,
             director_name,
-            director_email
+            director_email,
+            hr_view_statewide
           )
         `)
         .eq('id', id)
@@ -188,8 +141,8 @@ function EditRequestPage() {
 
       if (requestError) throw requestError;
 
-      // Check if request can be edited (only pending requests)
-      if (requestData.status !== 'pending') {
+      // Check if request can be edited (pending requests, or requests returned for changes)
+      if (!['pending', 'returned'].includes(requestData.status)) {
         toast.error('This request cannot be edited as it has already been processed.');
         navigate(`/requests/${id}`);
         return;
@@ -217,8 +170,7 @@ function EditRequestPage() {
         return email;
       };
 
-      // Determine the selected security area (take the first one since we now only allow one)
-      const primarySecurityArea = formattedData.security_areas[0]?.area_type as SecurityRoleRequest['securityArea'];
+      const existingSecurityAreas = formattedData.security_areas.map(area => area.area_type as SecurityAreaType);
 
       // Set form values
       reset({
@@ -226,6 +178,9 @@ function EditRequestPage() {
         employeeName: formattedData.employee_name,
         employeeId: formattedData.employee_id || '',
         isNonEmployee: formattedData.is_non_employee,
+        nonEmployeeType: formattedData.non_employee_type || '',
+        accessEndDate: formattedData.access_end_date || '',
+        securityMeasures: formattedData.security_measures || '',
         workLocation: formattedData.work_location || '',
         workPhone: formattedData.work_phone || '',
         email: formattedData.email,
@@ -238,11 +193,11 @@ function EditRequestPage() {
         supervisorUsername: extractUsername(formattedData.supervisor_email),
         securityAdminName: formattedData.security_admin_name,
         securityAdminUsername: extractUsername(formattedData.security_admin_email),
-        securityArea: primarySecurityArea,
+        securityAreas: existingSecurityAreas,
         accountingDirector: formattedData.security_areas.find(area => area.area_type === 'accounting_procurement')?.director_name || '',
         accountingDirectorUsername: extractUsername(formattedData.security_areas.find(area => area.area_type === 'accounting_procurement')?.director_email || ''),
         hrMainframeLogonId: formattedData.security_areas.find(area => area.area_type === 'hr_payroll')?.director_name || '',
-        hrViewStatewide: formattedData.security_areas.find(area => area.area_type === 'hr_payroll')?.director_email?.includes('statewide') || false,
+        hrViewStatewide: formattedData.security_areas.find(area => area.area_type === 'hr_payroll')?.hr_view_statewide || false,
         elmKeyAdmin: formattedData.security_areas.find(area => area.area_type === 'elm')?.director_name || '',
         elmKeyAdminUsername: extractUsername(formattedData.security_areas.find(area => area.area_type === 'elm')?.director_email || ''),
         copyUserName: formattedData.copy_user_details?.copy_user_name || '',
@@ -250,6 +205,13 @@ function EditRequestPage() {
         copyUserSema4Id: formattedData.copy_user_details?.copy_user_sema4_id || ''
       });
 
+      fetchAgencyApprovers(formattedData.agency_code)
+        .then(approvers => {
+          setAgencyApprovers(approvers);
+          applyAgencyApprovers(approvers, setValue);
+        })
+        .catch(error => console.error('Error fetching agency approvers:', error));
+
       // Set the selected option based on existing data
       if (formattedData.copy_user_details) {
         setSelectedOption('copy');
@@ -267,7 +229,17 @@ function EditRequestPage() {
   };
 
   const onSubmit = async (data: SecurityRoleRequest) => {
-    if (!hasSelectedSecurityArea) {
+    if (!hasSelectedSecurityArea && !isRemoval) {
+      return;
+    }
+
+    if (!isRemoval && isHrApproverMissing) {
+      toast.error('HR / Payroll requests cannot be routed until the agency has an HR director in the approver directory.');
+      return;
+    }
+
+    if (!isRemoval && selectedOption === 'copy' && copySod.error) {
+      toast.error(copySod.error);
       return;
     }
 
@@ -290,6 +262,9 @@ function EditRequestPage() {
           employee_name: data.employeeName,
           employee_id: data.employeeId,
           is_non_employee: data.isNonEmployee,
+          non_employee_type: data.isNonEmployee ? data.nonEmployeeType : null,
+          access_end_date: data.isNonEmployee ? data.accessEndDate : null,
+          security_measures: data.isNonEmployee ? data.securityMeasures : null,
           work_location: data.workLocation,
           work_phone: formattedPhone,
           email: data.email,
@@ -308,84 +283,52 @@ function EditRequestPage() {
       if (requestError) throw requestError;
       console.log('Main request updated successfully');
 
-      // Prepare new security area data
-      const securityAreas = [];
-      if (data.securityArea === 'accounting_procurement') {
-        securityAreas.push({
-          area_type: 'accounting_procurement',
-          director_name: data.accountingDirector,
-          director_email: data.accountingDirectorUsername,
-        });
-      } else if (data.securityArea === 'hr_payroll') {
-        securityAreas.push({
-          area_type: 'hr_payroll',
-          director_name: data.hrMainframeLogonId,
-          director_email: data.hrViewStatewide ? 'hr_statewide_access@state.mn.us' : 'hr_standard_access@state.mn.us',
-        });
-      } else if (data.securityArea === 'epm_data_warehouse') {
-        securityAreas.push({
-          area_type: 'epm_data_warehouse',
-        });
-      } else if (data.securityArea === 'elm') {
-        securityAreas.push({
-          area_type: 'elm',
-          director_name: data.elmKeyAdmin,
-          director_email: data.elmKeyAdminUsername,
-        });
-      }
+      // Add or update a security area for each selected area. Director approvals
+      // follow the request's areas via a database trigger.
+      const securityAreas = toSecurityAreaRows(data).map(area => ({
+        ...area,
+        request_id: id
+      }));
 
-      // Check if the selected security area type is the same as existing
-      const existingSecurityArea = requestData?.security_areas[0];
-      const newSecurityArea = securityAreas[0];
-
-      if (existingSecurityArea && newSecurityArea && existingSecurityArea.area_type === newSecurityArea.area_type) {
-        // Update existing security area
-        console.log('Updating existing security area:', newSecurityArea);
-        const { error: updateAreaError } = await supabase
+      if (securityAreas.length > 0) {
+        const { error: areasError } = await supabase
           .from('security_areas')
-          .update(newSecurityArea)
-          .eq('request_id', id)
-          .eq('area_type', newSecurityArea.area_type);
+          .upsert(securityAreas, { onConflict: 'request_id,area_type' });
 
-        if (updateAreaError) throw updateAreaError;
-        console.log('Security area updated successfully');
-      } else {
-        // Security area type has changed or doesn't exist - delete and insert
-        console.log('Security area type changed, replacing with:', newSecurityArea);
-        
-        // Delete existing security areas
+        if (areasError) throw areasError;
+        console.log('Security areas saved:', securityAreas.map(area => area.area_type));
+      }
+
+      // Remove areas that were deselected
+      const selectedAreas = sortSecurityAreas(data.securityAreas || []);
+      const removedAreas = (requestData?.security_areas || [])
+        .map(area => area.area_type as SecurityAreaType)
+        .filter(area => !selectedAreas.includes(area));
+
+      if (removedAreas.length > 0) {
         const { error: deleteAreasError } = await supabase
           .from('security_areas')
           .delete()
-          .eq('request_id', id);
+          .eq('request_id', id)
+          .in('area_type', removedAreas);
 
         if (deleteAreasError) throw deleteAreasError;
-        console.log('Existing security areas deleted');
-
-        // Delete existing area-specific approvals to prevent orphaned approvals
-        const { error: deleteApprovalsError } = await supabase
-          .from('request_approvals')
-          .delete()
-          .eq('request_id', id)
-          .in('step', ['accounting_director_approval', 'hr_director_approval', 'elm_admin_approval']);
-
-        if (deleteApprovalsError) throw deleteApprovalsError;
-        console.log('Existing area-specific approvals deleted');
-
-        // Insert the new security area (this will trigger the approval creation via triggers)
-        if (securityAreas.length > 0) {
-          const securityAreaWithRequestId = {
-            ...newSecurityArea,
-            request_id: id
-          };
-          
-          const { error: areasError } = await supabase
-            .from('security_areas')
-            .insert(securityAreaWithRequestId);
-
-          if (areasError) throw areasError;
-          console.log('New security area inserted successfully');
+        console.log('Security areas removed:', removedAreas);
+
+        // Clear role selections that belonged only to removed areas; selections for
+        // areas that are kept are pre-filled on their role pages. Accounting and ELM
+        // share a table, so it is only cleared when neither remains.
+        const keptTables = selectedAreas.map(area => roleSelectionTables[area]);
+        const tablesToClear = Array.from(new Set(removedAreas.map(area => roleSelectionTables[area])))
+          .filter(table => !keptTables.includes(table));
+
+        for (const table of tablesToClear) {
+          await supabase
+            .from(table)
+            .delete()
+            .eq('request_id', id);
         }
+        console.log('Role selections for removed security areas deleted');
       }
 
       // Handle copy user details
@@ -408,6 +351,11 @@ function EditRequestPage() {
 
         if (copyError) throw copyError;
         console.log('Copy user details updated');
+
+        if (data.copyUserEmployeeId) {
+          await copySod.save(id);
+          await copyExistingUserRoles(id, data.copyUserEmployeeId);
+        }
       } else {
         // Delete copy user details if switching to select option
         await supabase
@@ -417,34 +365,22 @@ function EditRequestPage() {
         console.log('Copy user details removed');
       }
 
-      // Delete existing security role selections to start fresh
-      await supabase
-        .from('security_role_selections')
-        .delete()
-        .eq('request_id', id);
-      console.log('Existing security role selections deleted');
-
-      // Reset any remaining approvals to pending (except user signature)
-      const { error: resetApprovalsError } = await supabase
-        .from('request_approvals')
-        .update({
-          status: 'pending',
-          signature_data: null,
-          approved_at: null
-        })
-        .eq('request_id', id)
-        .neq('step', 'user_signature');
-
-      if (resetApprovalsError) throw resetApprovalsError;
-      console.log('Remaining approvals reset to pending');
+      // Record the edit as a new revision, which also puts a returned request back
+      // in the approval chain. Only approvals covering what changed go back to
+      // pending. Role changes made on the role pages are recorded when the
+      // last of them is saved; the database resets their approvals as each
+      // one is saved.
+      const revision = await recordRequestRevision(id);
+      console.log('Request saved as revision', revision);
 
       toast.success('Request updated successfully!');
       
-      if (selectedOption === 'copy') {
+      if (selectedOption === 'copy' || isRemoval) {
         // Navigate back to requests list with refresh flag
         navigate('/requests', { state: { refreshData: true } });
       } else {
-        navigate('/select-roles', { state: { requestId: id } });
+        const next = startRoleSelection(id, data.securityAreas);
+        navigate(next.path, { state: next.state });
       }
 
     } catch (error) {
@@ -498,9 +434,9 @@ function EditRequestPage() {
         <div className="py-8 px-4 sm:px-6 lg:px-8">
           <div className="max-w-4xl mx-auto text-center">
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-blue-900 mb-2">User Identification Required</h3>
+              <h3 className="text-lg font-medium text-blue-900 mb-2">Sign In Required</h3>
               <p className="text-blue-700">
-                Please identify yourself to edit requests.
+                Please sign in to edit requests.
               </p>
             </div>
           </div>
@@ -656,6 +592,9 @@ function EditRequestPage() {
                 </div>
               </div>
 
+              {isNonEmployee && (
+                <NonEmployeeFields register={register} errors={errors} startDate={watch('startDate')} />
+              )}
             </div>
 
             {/* Section 2: Submitter Details */}
@@ -736,7 +675,8 @@ function EditRequestPage() {
                   <input
                     type="text"
                     {...register('securityAdminName', { required: 'Security admin name is required' })}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    readOnly={isDirectoryApprover('security_admin')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                   />
                   {errors.securityAdminName && (
                     <p className="mt-1 text-sm text-red-600">{errors.securityAdminName.message}</p>
@@ -754,7 +694,8 @@ function EditRequestPage() {
                         message: 'Please enter a valid email address'
                       }
                     })}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    readOnly={isDirectoryApprover('security_admin')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                     placeholder="admin@example.com"
                   />
                   {errors.securityAdminUsername && (
@@ -765,10 +706,11 @@ function EditRequestPage() {
             </div>
 
             {/* Section 4: Security Details */}
+            {!isRemoval && (
             <div className="space-y-6">
               <h3 className="text-xl font-semibold text-gray-900 border-b pb-2">Security Details</h3>
               
-              <p className="text-sm text-gray-700">Please select the security area you need access to</p>
+              <p className="text-sm text-gray-700">Please select each security area you need access to</p>
 
               {!hasSelectedSecurityArea && (
                 <div className="rounded-md bg-yellow-50 p-4">
@@ -782,7 +724,7 @@ function EditRequestPage() {
                       </h3>
                       <div className="mt-2 text-sm text-yellow-700">
                         <p>
-                          Please select a security area to proceed.
+                          Please select at least one security area to proceed.
                         </p>
                       </div>
                     </div>
@@ -794,22 +736,25 @@ function EditRequestPage() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea', { required: 'Please select a security area' })}
+                      type="checkbox"
+                      {...register('securityAreas', {
+                        validate: value => (value && value.length > 0) || 'Please select at least one security area'
+                      })}
                       value="accounting_procurement"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">Accounting / Procurement</span>
                   </label>
 
-                  {selectedSecurityArea === 'accounting_procurement' && (
+                  {selectedSecurityAreas.includes('accounting_procurement') && (
                     <div className="ml-6 mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
                       <div>
                         <label className="block text-sm font-medium text-gray-700">Accounting Director/CFO*</label>
                         <input
                           type="text"
                           {...register('accountingDirector', { required: 'Accounting Director is required' })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('accounting_director')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                         />
                         {errors.accountingDirector && (
                           <p className="mt-1 text-sm text-red-600">{errors.accountingDirector.message}</p>
@@ -827,7 +772,8 @@ function EditRequestPage() {
                               message: 'Please enter a valid email address'
                             }
                           })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('accounting_director')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                           placeholder="director@example.com"
                         />
                         {errors.accountingDirectorUsername && (
@@ -841,15 +787,15 @@ function EditRequestPage() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea')}
+                      type="checkbox"
+                      {...register('securityAreas')}
                       value="hr_payroll"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">HR / Payroll</span>
                   </label>
 
-                  {selectedSecurityArea === 'hr_payroll' && (
+                  {selectedSecurityAreas.includes('hr_payroll') && (
                     <div className="ml-6 mt-2 space-y-4">
                       <div>
                         <label className="block text-sm font-medium text-gray-700">
@@ -879,6 +825,8 @@ function EditRequestPage() {
                         </label>
                       </div>
 
+                      <HrApproverNotice approvers={agencyApprovers} agencyCode={agencyCode} />
+
                       <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4">
                         <div className="flex">
                           <div className="flex-shrink-0">
@@ -903,10 +851,10 @@ function EditRequestPage() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea')}
+                      type="checkbox"
+                      {...register('securityAreas')}
                       value="epm_data_warehouse"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">EPM / Data Warehouse</span>
                   </label>
@@ -915,10 +863,10 @@ function EditRequestPage() {
                 <div>
                   <label className="inline-flex items-center">
                     <input
-                      type="radio"
-                      {...register('securityArea')}
+                      type="checkbox"
+                      {...register('securityAreas')}
                       value="elm"
-                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="ml-2 text-sm text-gray-700">ELM</span>
                   </label>
@@ -926,14 +874,15 @@ function EditRequestPage() {
                     DON'T SELECT ELM unless you are seeking access privileges for administrative functions. All staff automatically have access to ELM courses.
                   </p>
 
-                  {selectedSecurityArea === 'elm' && (
+                  {selectedSecurityAreas.includes('elm') && (
                     <div className="ml-6 mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
                       <div>
                         <label className="block text-sm font-medium text-gray-700">ELM Key Administrator*</label>
                         <input
                           type="text"
                           {...register('elmKeyAdmin', { required: 'ELM Key Administrator is required' })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('elm_key_admin')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                         />
                         {errors.elmKeyAdmin && (
                           <p className="mt-1 text-sm text-red-600">{errors.elmKeyAdmin.message}</p>
@@ -951,7 +900,8 @@ function EditRequestPage() {
                               message: 'Please enter a valid email address'
                             }
                           })}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          readOnly={isDirectoryApprover('elm_key_admin')}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 read-only:bg-gray-50"
                           placeholder="admin@example.com"
                         />
                         {errors.elmKeyAdminUsername && (
@@ -963,12 +913,14 @@ function EditRequestPage() {
                 </div>
               </div>
 
-              {errors.securityArea && (
-                <p className="mt-1 text-sm text-red-600">{errors.securityArea.message}</p>
+              {errors.securityAreas && (
+                <p className="mt-1 text-sm text-red-600">{errors.securityAreas.message}</p>
               )}
             </div>
+            )}
 
             {/* Role Selection Section */}
+            {!isRemoval && (
             <div className="space-y-6">
               <h3 className="text-xl font-semibold text-gray-900 border-b pb-2">Role Selection Method</h3>
               
@@ -1055,6 +1007,12 @@ function EditRequestPage() {
                         />
                       </div>
 
+                      <SodConflictPanel
+                        conflicts={copySod.conflicts}
+                        justifications={copySod.justifications}
+                        onJustificationChange={copySod.setJustification}
+                      />
+
                       <button
                         type="submit"
                         disabled={!hasSelectedSecurityArea || saving}
@@ -1089,6 +1047,24 @@ function EditRequestPage() {
                 </div>
               </div>
             </div>
+            )}
+
+            {isRemoval && (
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className={`flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white ${
+                    !saving
+                      ? 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+                      : 'bg-gray-400 cursor-not-allowed'
+                  }`}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </button>
+              </div>
+            )}
           </form>
         </div>
       </div>
@@ -1,86 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
-import { ArrowLeft, Save, AlertTriangle, BookOpen, Users, Shield, Settings, BarChart3, UserCheck, GraduationCap, Database } from 'lucide-react';
+import { ArrowLeft, Save, AlertTriangle, BookOpen, Users, Shield, Settings, UserCheck, Database, LucideIcon } from 'lucide-react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from './lib/supabase';
 import { toast } from 'sonner';
 import Header from './components/Header';
+import { advanceRoleSelection } from './lib/securityAreas';
+import { getCatalogRoles, hasHighRiskCatalogRoles, hasSelectedCatalogRoles, toRoleColumns } from './lib/roleCatalog';
+import { useSodConflicts } from './lib/sodRules';
+import SodConflictPanel from './components/SodConflictPanel';
 
 interface ElmRoleSelection {
-  // 8 Main ELM Roles
-  learningAdministrator: boolean;
-  learningCatalogAdministrator: boolean;
-  rosterAdministrator: boolean;
-  enrollmentAdministrator: boolean;
-  maintainApprovals: boolean;
-  profileAdministrator: boolean;
-  externalLearnerSecurityAdministrator: boolean;
-  sandboxAccess: boolean;
-  
+  // Role checkboxes, keyed by role catalog id
+  roles: Record<string, boolean>;
+
   // Justification
   roleJustification: string;
   supervisorApproval: boolean;
 }
 
-const elmRoles = [
-  {
-    id: 'learningAdministrator',
-    title: 'Learning Administrator',
-    description: 'As a lead administrator for your agency, you will request this role. This has expanded menu options in the Enterprise Learning Folder.',
-    icon: Shield,
-    isHighRisk: true
-  },
-  {
-    id: 'learningCatalogAdministrator',
-    title: 'Learning Catalog Administrator',
-    description: 'This role provides access to create and manage Learner Groups, create and maintain catalog functions; Manage Programs, Manage Courses, and Manage Classes.',
-    icon: BookOpen,
-    isHighRisk: false
-  },
-  {
-    id: 'rosterAdministrator',
-    title: 'Roster Administrator',
-    description: 'This role will allow you to review and administer both Class and Program rosters in the Learner Tasks folder. You will also have the ability to create Ad Hoc announcements in the Notifications folder. This role also give you access to run both delivered and custom ELM reports.',
-    icon: Users,
-    isHighRisk: false
-  },
-  {
-    id: 'enrollmentAdministrator',
-    title: 'Enrollment Administrator',
-    description: 'This role provides you with the menus to enroll learners in a class. Learners can be enrolled from the Enroll menu as well as directly from the rosters. You will also have access to maintain learning requests and add supplemental learning for your agency\'s learners. Monitoring and maintaining approvals are also part of the role.',
-    icon: UserCheck,
-    isHighRisk: false
-  },
-  {
-    id: 'maintainApprovals',
-    title: 'Maintain Approvals',
-    description: 'This role is generally assigned to Agency Training Coordinators. You will have access to the Learner Task folder to monitor and maintain approvals.',
-    icon: Settings,
-    isHighRisk: false
-  },
-  {
-    id: 'profileAdministrator',
-    title: 'Profile Administrator',
-    description: 'This role provides access to the User Profiles and Organization folders. You will be able to review internal learners\' profiles, and review and add External learner profiles. You will also have the ability to review reporting relationships in your agency.',
-    icon: Users,
-    isHighRisk: false
-  },
-  {
-    id: 'externalLearnerSecurityAdministrator',
-    title: 'External Learner Security Administrator',
-    description: 'This role, combined with the External Learner Security role, provides you the ability to create external learners. (M_HR_External_Learner_Security and M_LMLELM_External_Learning_Adm)',
-    icon: Shield,
-    isHighRisk: true
-  },
-  {
-    id: 'sandboxAccess',
-    title: 'Sandbox Access',
-    description: 'If this box is checked, the person will need same security roles in ELM92UQ in addition to ELM92AP. (M_ELM_TRAINING_LINK)',
-    icon: Database,
-    isHighRisk: false,
-    specialNote: 'Note: If this box is checked, the person will need same security roles in ELM92UQ in addition to ELM92AP.'
-  }
-];
+const elmRoles = getCatalogRoles('elm');
+
+const elmRoleIcons: Record<string, LucideIcon> = {
+  learningAdministrator: Shield,
+  learningCatalogAdministrator: BookOpen,
+  rosterAdministrator: Users,
+  enrollmentAdministrator: UserCheck,
+  maintainApprovals: Settings,
+  profileAdministrator: Users,
+  externalLearnerSecurityAdministrator: Shield,
+  sandboxAccess: Database
+};
 
 function ElmRoleSelectionPage() {
   const navigate = useNavigate();
@@ -99,15 +49,11 @@ function ElmRoleSelectionPage() {
   // Watch for role selections to show warnings
   const selectedRoles = watch();
   const supervisorApproval = watch('supervisorApproval');
-  const sandboxAccess = watch('sandboxAccess');
-
-  // Check if any high-risk roles are selected
-  const hasHighRiskRoles = elmRoles
-    .filter(role => role.isHighRisk)
-    .some(role => selectedRoles?.[role.id as keyof ElmRoleSelection]);
+  const sandboxAccess = watch('roles.sandboxAccess');
 
-  // Check if any roles are selected
-  const hasSelectedRoles = elmRoles.some(role => selectedRoles?.[role.id as keyof ElmRoleSelection]);
+  const hasHighRiskRoles = hasHighRiskCatalogRoles('elm', selectedRoles?.roles);
+  const hasSelectedRoles = hasSelectedCatalogRoles('elm', selectedRoles?.roles);
+  const sod = useSodConflicts(requestId, 'security_role_selections', toRoleColumns('elm', selectedRoles?.roles));
 
   useEffect(() => {
     // Try to get requestId from location state
@@ -131,7 +77,7 @@ function ElmRoleSelectionPage() {
     try {
       const { data, error } = await supabase
         .from('security_role_requests')
-        .select('employee_name, agency_name, agency_code')
+        .select('employee_name, agency_name, agency_code, security_areas(area_type)')
         .eq('id', id)
         .single();
 
@@ -154,6 +100,11 @@ function ElmRoleSelectionPage() {
       return;
     }
 
+    if (sod.error) {
+      toast.error(sod.error);
+      return;
+    }
+
     if (!requestId) {
       toast.error('No request found. Please start from the main form.');
       navigate('/');
@@ -163,26 +114,26 @@ function ElmRoleSelectionPage() {
     setSaving(true);
 
     try {
+      // Accounting / Procurement roles share this row when both areas are requested;
+      // keep its business unit and justification and store ours separately.
+      const hasAccountingArea = (requestDetails?.security_areas || [])
+        .some((area: { area_type: string }) => area.area_type === 'accounting_procurement');
+
       // Store ELM role selections - mapping to database fields
       const elmRoleData = {
         request_id: requestId,
-        home_business_unit: requestDetails?.agency_code?.padEnd(5, '0') || '00000', // Use agency code from request
-        
-        // Map the 8 ELM roles to existing database fields
-        elm_system_administrator: data.learningAdministrator || false,
-        elm_key_administrator: data.externalLearnerSecurityAdministrator || false,
-        elm_course_administrator: data.learningCatalogAdministrator || false,
-        elm_reporting_administrator: data.rosterAdministrator || false,
-        
-        // Use existing fields for other roles
-        manage_user_accounts: data.profileAdministrator || false,
-        assign_user_roles: data.enrollmentAdministrator || false,
-        view_user_progress: data.maintainApprovals || false,
-        system_backup_access: data.sandboxAccess || false,
+        ...(hasAccountingArea ? {} : {
+          home_business_unit: requestDetails?.agency_code?.padEnd(5, '0') || '00000', // Use agency code from request
+          role_justification: data.roleJustification
+        }),
         
-        role_justification: data.roleJustification
+        ...toRoleColumns('elm', data.roles),
+
+        elm_role_justification: data.roleJustification
       };
 
+      await sod.save();
+
       // Update or insert ELM role selections with explicit conflict resolution
       const { error } = await supabase
         .from('security_role_selections')
@@ -191,7 +142,8 @@ function ElmRoleSelectionPage() {
       if (error) throw error;
 
       toast.success('ELM role selections saved successfully!');
-      navigate('/success', { state: { requestId } });
+      const next = await advanceRoleSelection(requestId, location.state?.areaQueue);
+      navigate(next.path, { state: next.state });
 
     } catch (error) {
       console.error('Error saving ELM role selections:', error);
@@ -270,12 +222,13 @@ function ElmRoleSelectionPage() {
                 
                 <div className="grid grid-cols-1 gap-6">
                   {elmRoles.map((role) => {
-                    const IconComponent = role.icon;
+                    const IconComponent = elmRoleIcons[role.id] || Shield;
+                    const isHighRisk = role.riskLevel === 'high';
                     return (
                       <div
                         key={role.id}
                         className={`border rounded-lg p-4 ${
-                          selectedRoles?.[role.id as keyof ElmRoleSelection]
+                          selectedRoles?.roles?.[role.id]
                             ? 'border-blue-500 bg-blue-50'
                             : 'border-gray-200 hover:border-gray-300'
                         }`}
@@ -284,16 +237,16 @@ function ElmRoleSelectionPage() {
                           <div className="flex items-center h-5">
                             <input
                               type="checkbox"
-                              {...register(role.id as keyof ElmRoleSelection)}
+                              {...register(`roles.${role.id}`)}
                               className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                             />
                           </div>
                           <div className="ml-3 flex-1">
                             <div className="flex items-center">
-                              <IconComponent className={`h-5 w-5 mr-2 ${role.isHighRisk ? 'text-red-600' : 'text-blue-600'}`} />
+                              <IconComponent className={`h-5 w-5 mr-2 ${isHighRisk ? 'text-red-600' : 'text-blue-600'}`} />
                               <label className="text-sm font-medium text-gray-900">
-                                {role.title}
-                                {role.isHighRisk && (
+                                {role.label}
+                                {isHighRisk && (
                                   <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
                                     High-Level Access
                                   </span>
@@ -303,12 +256,8 @@ function ElmRoleSelectionPage() {
                             <p className="mt-1 text-sm text-gray-600">
                               {role.description}
                             </p>
-                            {role.specialNote && (
-                              <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded-md">
-                                <p className="text-xs text-yellow-800">
-                                  <strong>Important:</strong> {role.specialNote}
-                                </p>
-                              </div>
+                            {role.systemRoleCode && (
+                              <p className="mt-1 text-xs text-gray-500">({role.systemRoleCode})</p>
                             )}
                           </div>
                         </div>
@@ -358,6 +307,12 @@ function ElmRoleSelectionPage() {
                 )}
               </div>
 
+              <SodConflictPanel
+                conflicts={sod.conflicts}
+                justifications={sod.justifications}
+                onJustificationChange={sod.setJustification}
+              />
+
               {/* Justification */}
               <div className="space-y-6">
                 <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Justification</h3>
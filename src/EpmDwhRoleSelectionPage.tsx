@@ -5,28 +5,16 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from './lib/supabase';
 import { toast } from 'sonner';
 import Header from './components/Header';
+import { EpmDwhRoleSelection } from './types';
+import { fromEpmDwhRoleRow, toEpmDwhRoleRow } from './lib/epmDwhRoles';
+import { useSodConflicts } from './lib/sodRules';
+import SodConflictPanel from './components/SodConflictPanel';
+import { advanceRoleSelection } from './lib/securityAreas';
+import { fromRoleColumns, getCatalogRoles, hasSelectedCatalogRoles } from './lib/roleCatalog';
 
-interface EpmDwhRoleSelection {
-  // Business Unit Details
-  homeBusinessUnit: string;
-  otherBusinessUnits: string;
-  
-  // HR/Payroll Warehouse Roles
-  ssnView: boolean;
-  payrollDeductions: boolean;
-  hrDataExcludedEmployees: boolean;
-  
-  // RAPS Roles
-  biAuthor: boolean; // Pre-checked
-  mEpmHcmLookup: boolean; // Pre-checked
-  mRapsLink: boolean;
-  rapsNewUser: boolean;
-  rapsSema4Codes: string;
-  
-  // Justification
-  roleJustification: string;
-  supervisorApproval: boolean;
-}
+const warehouseRoles = getCatalogRoles('epm_data_warehouse').filter(role => role.section === 'HR/Payroll Warehouse');
+const rapsRoles = getCatalogRoles('epm_data_warehouse')
+  .filter(role => role.section === 'RAPS' && role.id !== 'rapsNewUser');
 
 function EpmDwhRoleSelectionPage() {
   const navigate = useNavigate();
@@ -39,16 +27,11 @@ function EpmDwhRoleSelectionPage() {
     register,
     handleSubmit,
     watch,
+    reset,
     formState: { errors },
   } = useForm<EpmDwhRoleSelection>({
     defaultValues: {
-      biAuthor: true, // Pre-checked
-      mEpmHcmLookup: true, // Pre-checked
-      rapsNewUser: false,
-      ssnView: false,
-      payrollDeductions: false,
-      hrDataExcludedEmployees: false,
-      mRapsLink: false,
+      roles: fromRoleColumns('epm_data_warehouse', null), // Pre-checks the roles every RAPS user gets
       supervisorApproval: false
     }
   });
@@ -56,11 +39,11 @@ function EpmDwhRoleSelectionPage() {
   // Watch for role selections
   const selectedRoles = watch();
   const supervisorApproval = watch('supervisorApproval');
-  const rapsNewUser = watch('rapsNewUser');
+  const rapsNewUser = watch('roles.rapsNewUser');
 
   // Check if any roles are selected (excluding pre-checked ones)
-  const hasSelectedRoles = selectedRoles?.ssnView || selectedRoles?.payrollDeductions || 
-                          selectedRoles?.hrDataExcludedEmployees || selectedRoles?.mRapsLink;
+  const hasSelectedRoles = hasSelectedCatalogRoles('epm_data_warehouse', selectedRoles?.roles);
+  const sod = useSodConflicts(requestId, 'epm_dwh_role_selections', toEpmDwhRoleRow(requestId || '', selectedRoles));
 
   useEffect(() => {
     // Try to get requestId from location state
@@ -75,6 +58,30 @@ function EpmDwhRoleSelectionPage() {
     }
   }, [location.state, navigate]);
 
+  // Pre-fill the form when returning to an existing request (e.g. from the edit flow)
+  useEffect(() => {
+    if (!requestId) return;
+
+    const fetchExistingRoleSelections = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('epm_dwh_role_selections')
+          .select('*')
+          .eq('request_id', requestId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          reset(fromEpmDwhRoleRow(data));
+        }
+      } catch (error) {
+        console.error('Error fetching existing EPM DWH role selections:', error);
+      }
+    };
+
+    fetchExistingRoleSelections();
+  }, [requestId, reset]);
+
   // Auto-scroll to top when component mounts
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -102,6 +109,11 @@ function EpmDwhRoleSelectionPage() {
       return;
     }
 
+    if (sod.error) {
+      toast.error(sod.error);
+      return;
+    }
+
     if (!requestId) {
       toast.error('No request found. Please start from the main form.');
       navigate('/');
@@ -111,35 +123,24 @@ function EpmDwhRoleSelectionPage() {
     setSaving(true);
 
     try {
-      // Store EPM DWH role selections - mapping to database fields
-      const epmDwhRoleData = {
-        request_id: requestId,
-        home_business_unit: (data.homeBusinessUnit || requestDetails?.agency_code || '000').padEnd(5, '0').substring(0, 5),
-        other_business_units: data.otherBusinessUnits || null,
-        
-        // Map HR/Payroll Warehouse roles to available fields
-        view_user_progress: data.ssnView || false,
-        generate_user_reports: data.payrollDeductions || false,
-        access_system_reports: data.hrDataExcludedEmployees || false,
-        
-        // Map RAPS roles to available fields
-        create_custom_reports: data.biAuthor || false,
-        export_report_data: data.mEpmHcmLookup || false,
-        view_analytics_dashboard: data.mRapsLink || false,
-        data_import_export: data.rapsNewUser || false,
-        
-        role_justification: data.roleJustification
-      };
+      // Store EPM DWH role selections in their dedicated table
+      const epmDwhRoleData = toEpmDwhRoleRow(requestId, {
+        ...data,
+        homeBusinessUnit: (data.homeBusinessUnit || requestDetails?.agency_code || '000').padEnd(5, '0').substring(0, 5)
+      });
+
+      await sod.save();
 
       // Update or insert EPM DWH role selections with explicit conflict resolution
       const { error } = await supabase
-        .from('security_role_selections')
+        .from('epm_dwh_role_selections')
         .upsert(epmDwhRoleData, { onConflict: 'request_id' });
 
       if (error) throw error;
 
       toast.success('EPM Data Warehouse role selections saved successfully!');
-      navigate('/success', { state: { requestId } });
+      const next = await advanceRoleSelection(requestId, location.state?.areaQueue);
+      navigate(next.path, { state: next.state });
 
     } catch (error) {
       console.error('Error saving EPM DWH role selections:', error);
@@ -245,30 +246,16 @@ function EpmDwhRoleSelectionPage() {
                       <tr>
                         <td className="px-6 py-4">
                           <div className="grid grid-cols-3 gap-6">
-                            <div className="flex items-center">
-                              <input
-                                type="checkbox"
-                                {...register('ssnView')}
-                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                              />
-                              <span className="ml-2 text-sm text-gray-700">SSN View</span>
-                            </div>
-                            <div className="flex items-center">
-                              <input
-                                type="checkbox"
-                                {...register('payrollDeductions')}
-                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                              />
-                              <span className="ml-2 text-sm text-gray-700">Payroll Deductions</span>
-                            </div>
-                            <div className="flex items-center">
-                              <input
-                                type="checkbox"
-                                {...register('hrDataExcludedEmployees')}
-                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                              />
-                              <span className="ml-2 text-sm text-gray-700">HR Data for Excluded Employees</span>
-                            </div>
+                            {warehouseRoles.map(role => (
+                              <div key={role.id} className="flex items-center">
+                                <input
+                                  type="checkbox"
+                                  {...register(`roles.${role.id}`)}
+                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span className="ml-2 text-sm text-gray-700">{role.label}</span>
+                              </div>
+                            ))}
                           </div>
                         </td>
                       </tr>
@@ -294,50 +281,28 @@ function EpmDwhRoleSelectionPage() {
                           RAPS provides audit reports that help agencies verify the HR data entered into SEMA4 during a selected range of action dates.
                         </td>
                       </tr>
-                      <tr>
-                        <td className="px-6 py-4">
-                          <div className="flex items-center">
-                            <input
-                              type="checkbox"
-                              {...register('biAuthor')}
-                              disabled
-                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 opacity-50"
-                            />
-                            <span className="ml-2 text-sm text-gray-700">BI Author (required for all RAPS users)</span>
-                            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                              Pre-selected
-                            </span>
-                          </div>
-                        </td>
-                      </tr>
-                      <tr>
-                        <td className="px-6 py-4">
-                          <div className="flex items-center">
-                            <input
-                              type="checkbox"
-                              {...register('mEpmHcmLookup')}
-                              disabled
-                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 opacity-50"
-                            />
-                            <span className="ml-2 text-sm text-gray-700">M_EPM_HCM_LOOKUP (required for all RAPS users)</span>
-                            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                              Pre-selected
-                            </span>
-                          </div>
-                        </td>
-                      </tr>
-                      <tr>
-                        <td className="px-6 py-4">
-                          <div className="flex items-center">
-                            <input
-                              type="checkbox"
-                              {...register('mRapsLink')}
-                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                            />
-                            <span className="ml-2 text-sm text-gray-700">M_RAPS_LINK (includes private data)</span>
-                          </div>
-                        </td>
-                      </tr>
+                      {rapsRoles.map(role => (
+                        <tr key={role.id}>
+                          <td className="px-6 py-4">
+                            <div className="flex items-center">
+                              <input
+                                type="checkbox"
+                                {...register(`roles.${role.id}`)}
+                                disabled={role.alwaysGranted}
+                                className={`rounded border-gray-300 text-blue-600 focus:ring-blue-500${role.alwaysGranted ? ' opacity-50' : ''}`}
+                              />
+                              <span className="ml-2 text-sm text-gray-700">
+                                {role.label}{role.description && ` (${role.description.toLowerCase()})`}
+                              </span>
+                              {role.alwaysGranted && (
+                                <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                  Pre-selected
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
                       <tr>
                         <td className="px-6 py-4 space-y-3">
                           <div className="text-sm text-gray-700">
@@ -346,7 +311,7 @@ function EpmDwhRoleSelectionPage() {
                           <div className="flex items-center">
                             <input
                               type="checkbox"
-                              {...register('rapsNewUser')}
+                              {...register('roles.rapsNewUser')}
                               className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                             />
                             <span className="ml-2 text-sm text-gray-700">New user</span>
@@ -379,6 +344,12 @@ function EpmDwhRoleSelectionPage() {
                 </div>
               </div>
 
+              <SodConflictPanel
+                conflicts={sod.conflicts}
+                justifications={sod.justifications}
+                onJustificationChange={sod.setJustification}
+              />
+
               {/* Justification */}
               <div className="space-y-6">
                 <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Justification</h3>
@@ -6,71 +6,48 @@ import { supabase } from './lib/supabase';
 import { toast } from 'sonner';
 import Header from './components/Header';
 import AgencySelect from './components/AgencySelect';
-
-interface HrPayrollRoleSelection {
-  // Agency / Department ID Access
-  addAccessType: 'agency' | 'department';
-  agencyCodes: string;
-  departmentId: string;
-  prohibitedDepartmentIds: string;
-  deleteAccessCodes: string;
-  
-  // HR/Payroll SEMA4 Roles
-  hrDataEntry: boolean;
-  hrDataInquiry: boolean;
-  hrSupervisor: boolean;
-  hrDirector: boolean;
-  hrStatewide: boolean;
-  
-  // Payroll Components - Left Column
-  adjustmentsRetroPayUpdate: boolean;
-  adjustmentsRetroPayView: boolean;
-  adjustmentsRetroPayViewInquire: boolean;
-  balancesPaycheckView: boolean;
-  businessExpenseUpdate: boolean;
-  businessExpenseView: boolean;
-  businessExpenseViewInquire: boolean;
-  directDepositUpdateCorrect: boolean;
-  directDepositView: boolean;
-  
-  // Payroll Components - Middle Column
-  deptTblPayrollView: boolean;
-  expenseTransfersUpdate: boolean;
-  expenseTransfersView: boolean;
-  expenseTransfersViewInquire: boolean;
-  garnishmentView: boolean;
-  laborDistributionUpdate: boolean;
-  laborDistributionView: boolean;
-  leaveUpdate: boolean;
-  leaveView: boolean;
-  
-  // Payroll Components - Right Column
-  massTimeEntryUpdateCorrect: boolean;
-  massTimeEntryView: boolean;
-  payrollDataUpdateCorrect: boolean;
-  payrollDataView: boolean;
-  schedulesUpdate: boolean;
-  schedulesView: boolean;
-  selfServiceTimeEntryAdmin: boolean;
-  selfServiceTimeEntryView: boolean;
-  
-  // Benefits Administration  
-  adjustmentsBeneAdmBase: boolean;
-  adjustmentsBeneAdmAuto: boolean;
-  adjustmentsBeneBilling: boolean;
-  beneACAEligibilityUpdate: boolean;
-  mnStateCollegeBeneReports: boolean;
-  
-  // Recruiting Solutions
-  recruitRecruiter: boolean;
-  recruitRecruiterLimited: boolean;
-  recruitAffirmativeAction: boolean;
-  recruitHiringManager: boolean;
-   
-  // Justification
-  roleJustification: string;
-  supervisorApproval: boolean;
-}
+import { HrPayrollRoleSelection } from './types';
+import { fromHrPayrollRoleRow, toHrPayrollRoleRow } from './lib/hrPayrollRoles';
+import { useSodConflicts } from './lib/sodRules';
+import SodConflictPanel from './components/SodConflictPanel';
+import { fetchReferenceAgencies } from './lib/referenceData';
+import { advanceRoleSelection } from './lib/securityAreas';
+import {
+  CatalogRoleSection,
+  getCatalogRoles,
+  groupCatalogRoles,
+  hasHighRiskCatalogRoles,
+  hasSelectedCatalogRoles
+} from './lib/roleCatalog';
+
+const hrPayrollGroupHeadings: Record<string, string> = {
+  'Human Resources': 'Human Resources Components',
+  'Payroll': 'Payroll Components',
+  'Benefits': 'Benefits Components'
+};
+
+// Sections of each component group, spread over three columns as on the SWIFT form
+const hrPayrollGroups = groupCatalogRoles(getCatalogRoles('hr_payroll'))
+  .reduce((groups: { group: string; sections: CatalogRoleSection[] }[], section) => {
+    const group = section.group || '';
+    const existing = groups.find(g => g.group === group);
+    if (existing) {
+      existing.sections.push(section);
+    } else {
+      groups.push({ group, sections: [section] });
+    }
+    return groups;
+  }, [])
+  .map(({ group, sections }) => {
+    const total = sections.reduce((count, section) => count + section.roles.length, 0);
+    const columns: CatalogRoleSection[][] = [[], [], []];
+    let before = 0;
+    sections.forEach(section => {
+      columns[Math.floor((before * 3) / total)].push(section);
+      before += section.roles.length;
+    });
+    return { group, columns };
+  });
 
 function HrPayrollRoleSelectionPage() {
   const navigate = useNavigate();
@@ -85,6 +62,7 @@ function HrPayrollRoleSelectionPage() {
     handleSubmit,
     watch,
     setValue,
+    reset,
     formState: { errors },
   } = useForm<HrPayrollRoleSelection>({
     defaultValues: {
@@ -95,9 +73,6 @@ function HrPayrollRoleSelectionPage() {
   // Watch for role selections
   const selectedRoles = watch();
   const supervisorApproval = watch('supervisorApproval');
-  const confidentialEmployeeAccess = watch('confidentialEmployeeAccess');
-  const hrStatewide = watch('hrStatewide');
-  const payrollStatewide = watch('payrollStatewide');
   const addAccessType = watch('addAccessType');
 
   const handleAgencyChange = (agencyName: string, agencyCode: string) => {
@@ -105,15 +80,9 @@ function HrPayrollRoleSelectionPage() {
     setValue('agencyCodes', agencyCode);
   };
 
-  const hasHighRiskRoles = confidentialEmployeeAccess || hrStatewide || payrollStatewide;
-
-  // Check if any roles are selected
-  const hasSelectedRoles = Object.entries(selectedRoles || {})
-    .filter(([key, value]) => 
-      typeof value === 'boolean' && 
-      value === true && 
-      !['supervisorApproval'].includes(key)
-    ).length > 0;
+  const hasHighRiskRoles = hasHighRiskCatalogRoles('hr_payroll', selectedRoles?.roles);
+  const hasSelectedRoles = hasSelectedCatalogRoles('hr_payroll', selectedRoles?.roles);
+  const sod = useSodConflicts(requestId, 'hr_payroll_role_selections', toHrPayrollRoleRow(requestId || '', selectedRoles));
 
   useEffect(() => {
     // Try to get requestId from location state
@@ -128,6 +97,38 @@ function HrPayrollRoleSelectionPage() {
     }
   }, [location.state, navigate]);
 
+  // Pre-fill the form when returning to an existing request (e.g. from the edit flow)
+  useEffect(() => {
+    if (!requestId) return;
+
+    const fetchExistingRoleSelections = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('hr_payroll_role_selections')
+          .select('*')
+          .eq('request_id', requestId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          const values = fromHrPayrollRoleRow(data);
+          reset(values);
+          if (values.agencyCodes) {
+            const agencies = await fetchReferenceAgencies();
+            setSelectedAgency({
+              name: agencies.find(agency => agency.code === values.agencyCodes)?.name || '',
+              code: values.agencyCodes
+            });
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching existing HR/Payroll role selections:', error);
+      }
+    };
+
+    fetchExistingRoleSelections();
+  }, [requestId, reset]);
+
   // Auto-scroll to top when component mounts
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -167,6 +168,11 @@ function HrPayrollRoleSelectionPage() {
       return;
     }
 
+    if (sod.error) {
+      toast.error(sod.error);
+      return;
+    }
+
     if (!requestId) {
       toast.error('No request found. Please start from the main form.');
       navigate('/');
@@ -176,50 +182,20 @@ function HrPayrollRoleSelectionPage() {
     setSaving(true);
 
     try {
-      // Store HR/Payroll role selections - mapping to database fields
-      const hrPayrollRoleData = {
-        request_id: requestId,
-        home_business_unit: requestDetails?.agency_code?.padEnd(5, '0') || '00000',
-        other_business_units: data.addAccessType === 'agency' ? selectedAgency.code : data.departmentId,
-        
-        // Map HR roles to available fields
-        manage_user_accounts: data.hrDataEntry || false,
-        view_user_progress: data.hrDataInquiry || false,
-        assign_user_roles: data.hrSupervisor || false,
-        generate_user_reports: data.hrDirector || false,
-        access_system_reports: data.hrStatewide || false,
-        
-        // Map Payroll roles to available fields
-        create_custom_reports: data.payrollDataEntry || false,
-        export_report_data: data.payrollDataInquiry || false,
-        view_analytics_dashboard: data.payrollSupervisor || false,
-        create_learning_paths: data.payrollDirector || false,
-        edit_learning_paths: data.payrollStatewide || false,
-        
-        // Map Benefits and Position roles
-        manage_certifications: data.benefitsAdministrator || false,
-        issue_certificates: data.benefitsInquiry || false,
-        track_certification_status: data.positionControl || false,
-        renew_certifications: data.positionInquiry || false,
-        
-        // Map Reporting and Special Access
-        configure_system_settings: data.hrReporting || false,
-        manage_integrations: data.payrollReporting || false,
-        setup_notifications: data.confidentialEmployeeAccess || false,
-        manage_security_settings: data.workersCompAccess || false,
-        
-        role_justification: data.roleJustification
-      };
+      // Store HR/Payroll role selections in their dedicated table
+      const hrPayrollRoleData = toHrPayrollRoleRow(requestId, data);
+      await sod.save();
 
       // Update or insert HR/Payroll role selections with explicit conflict resolution
       const { error } = await supabase
-        .from('security_role_selections')
+        .from('hr_payroll_role_selections')
         .upsert(hrPayrollRoleData, { onConflict: 'request_id' });
 
       if (error) throw error;
 
       toast.success('HR/Payroll role selections saved successfully!');
-      navigate('/success', { state: { requestId } });
+      const next = await advanceRoleSelection(requestId, location.state?.areaQueue);
+      navigate(next.path, { state: next.state });
 
     } catch (error) {
       console.error('Error saving HR/Payroll role selections:', error);
@@ -369,757 +345,79 @@ function HrPayrollRoleSelectionPage() {
                       </div>
                     )}
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Delete Access
+                    </label>
+                    <p className="mb-2 text-sm text-gray-500">
+                      List any agency codes or Department IDs the user should no longer have access to:
+                    </p>
+                    <input
+                      type="text"
+                      {...register('deleteAccessCodes')}
+                      placeholder="Enter agency codes or Department IDs to remove (comma-separated)"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
                 </div>
               </div>
 
-              {/* Human Resources Components */}
-              <div id="human-resources" className="space-y-6">
-                <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-                  <table className="min-w-full divide-y divide-gray-300">
-                    <thead style={{ backgroundColor: '#003865' }}>
-                      <tr>
-                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-                          Human Resources Components
-                        </th>
-                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-                        </th>
-                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      <tr className="bg-yellow-50">
-                        <td colSpan={3} className="px-4 py-3 text-sm text-gray-700">
-                          * Requires agency/dept. ID code(s)<br/>
-                          ** Only assign to users with non-managerial job codes. No agency/dept. ID codes required. User ID for this role is the employee ID number.
-                        </td>
-                      </tr>
-                      <tr>
-                        <td className="px-4 py-3 align-top">
-                          <div className="space-y-3">
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Administer Training</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    {...register('hrDataEntry')}
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">All-Correct</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    {...register('hrDataInquiry')}
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Enroll-Update</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    {...register('hrSupervisor')}
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View only</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    {...register('hrDirector')}
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Company Property Table Correct</span>
-                                </label>
+              {/* Component tables, one per group on the SWIFT form */}
+              {hrPayrollGroups.map(({ group, columns }) => (
+                <div key={group} className="space-y-6">
+                  <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-300">
+                      <thead style={{ backgroundColor: '#003865' }}>
+                        <tr>
+                          <th scope="col" colSpan={3} className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
+                            {hrPayrollGroupHeadings[group] || group}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        <tr className="bg-yellow-50">
+                          <td colSpan={3} className="px-4 py-3 text-sm text-gray-700">
+                            * Requires agency/dept. ID code(s)<br/>
+                            ** Only assign to users with non-managerial job codes. No agency/dept. ID codes required. User ID for this role is the employee ID number.
+                          </td>
+                        </tr>
+                        <tr>
+                          {columns.map((sections, index) => (
+                            <td key={index} className="px-4 py-3 align-top w-1/3">
+                              <div className="space-y-4">
+                                {sections.map(({ section, roles }) => (
+                                  <div key={section}>
+                                    <h4 className="font-bold text-sm text-gray-900">{section}</h4>
+                                    <div className="space-y-1 mt-1">
+                                      {roles.map(role => (
+                                        <label key={role.id} className="flex items-center">
+                                          <input
+                                            type="checkbox"
+                                            {...register(`roles.${role.id}`)}
+                                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                          />
+                                          <span className="ml-2 text-sm text-gray-700">{role.label}{role.footnote}</span>
+                                        </label>
+                                      ))}
+                                    </div>
+                                  </div>
+                                ))}
                               </div>
-                            </div>
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Emergency Contact</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    {...register('hrStatewide')}
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Employment Data Update General Data</span>
-                                </label>
-                              </div>
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 align-top">
-                          <div className="space-y-3">
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Health & Safety</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Job Data*</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Correct*</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update*</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Labor Relations</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Manage Competencies</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 align-top">
-                          <div className="space-y-3">
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Personal Data*</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Correct*</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update*</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Physical Exams</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Position Data</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Correct</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                            <div>
-                              <h4 className="font-bold text-sm text-gray-900">Position Funding</h4>
-                              <div className="space-y-1 mt-1">
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Correct</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">Update</span>
-                                </label>
-                                <label className="flex items-center">
-                                  <input
-                                    type="checkbox"
-                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                  />
-                                  <span className="ml-2 text-sm text-gray-700">View</span>
-                                </label>
-                              </div>
-                            </div>
-                          </div>
-                        </td>
-                      </tr>
-                    </tbody>
-                  </table>
+                            </td>
+                          ))}
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
                 </div>
-              </div>
-
-              {/* Payroll Components */}
-              <div className="space-y-6">
-              <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-                <table className="min-w-full divide-y divide-gray-300">
-                  <thead style={{ backgroundColor: '#003865' }}>
-                    <tr>
-                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-                        Payroll Components
-                      </th>
-                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-                      </th>
-                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    <tr className="bg-yellow-50">
-                      <td colSpan={3} className="px-4 py-3 text-sm text-gray-700">
-                        * Requires agency/dept. ID code(s)<br/>
-                        ** Only assign to users with non-managerial job codes. No agency/dept. ID codes required. User ID for this role is the employee ID number.
-                      </td>
-                    </tr>
-                    <tr>
-                      <td className="px-4 py-3 align-top">
-                        <div className="space-y-4">
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Adjustments/RetroPay*</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('adjustmentsRetroPayUpdate')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update*</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('adjustmentsRetroPayView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('adjustmentsRetroPayViewInquire')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View Inquire only</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('balancesPaycheckView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Balances/Paycheck View only</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Business Expense*</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('businessExpenseUpdate')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update*</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('businessExpenseView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('businessExpenseViewInquire')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View Inquire only</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Direct Deposit*</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('directDepositUpdateCorrect')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update/Correct*</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('directDepositView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                            </div>
-                          </div>
-                        </div>
-                      </td>
-                      <td className="px-4 py-3 align-top">
-                        <div className="space-y-4">
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">DeptTbl Payroll Access</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('deptTblPayrollView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View only</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Expense Transfers</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('expenseTransfersUpdate')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('expenseTransfersView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('expenseTransfersViewInquire')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View Inquire only</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('garnishmentView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Garnishment View only</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Labor Distribution</h4>
-                            <div className="flex space-x-4 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('laborDistributionUpdate')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('laborDistributionView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Leave</h4>
-                            <div className="flex space-x-4 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('leaveUpdate')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('leaveView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                            </div>
-                          </div>
-                        </div>
-                      </td>
-                      <td className="px-4 py-3 align-top">
-                        <div className="space-y-4">
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Mass Time Entry*</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('massTimeEntryUpdateCorrect')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update/Correct*</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('massTimeEntryView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Payroll Data</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('payrollDataUpdateCorrect')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update/Correct</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('payrollDataView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Schedules</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('schedulesUpdate')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Update</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('schedulesView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                            </div>
-                          </div>
-                          <div>
-                            <h4 className="font-bold text-sm text-gray-900">Self Service Time Entry</h4>
-                            <div className="space-y-1 mt-1">
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('selfServiceTimeEntryAdmin')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">Administrator (Update)</span>
-                              </label>
-                              <label className="flex items-center">
-                                <input
-                                  type="checkbox"
-                                  {...register('selfServiceTimeEntryView')}
-                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">View</span>
-                              </label>
-                            </div>
-                          </div>
-                        </div>
-                      </td>
-                    </tr>
-                  </tbody>
-                </table>
-              </div>
-            </div>
-
-			{/* Benefits Components */}
-			<div className="space-y-6">
-			  <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-				<table className="min-w-full divide-y divide-gray-300">
-				  <thead style={{ backgroundColor: '#003865' }}>
-					<tr>
-					  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-						Benefits Components
-					  </th>
-					  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-					  </th>
-					  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-					  </th>
-					</tr>
-				  </thead>
-				  <tbody className="bg-white divide-y divide-gray-200">
-					<tr className="bg-yellow-50">
-					  <td colSpan={3} className="px-4 py-3 text-sm text-gray-700">
-						* Requires agency/dept. ID code(s)<br/>
-						** Only assign to users with non-managerial job codes. No agency/dept. ID codes required. User ID for this role is the employee ID number.
-					  </td>
-					</tr>
-					<tr>
-					  <td className="px-4 py-3 align-top">
-						<div className="space-y-4">
-						  <div>
-							<h4 className="font-bold text-sm text-gray-900">All Benefits Pages</h4>
-							<div className="space-y-1 mt-1">
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('adjustmentsBeneAdmBase')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Administrator Base Benefits</span>
-							  </label>
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('adjustmentsBeneAdmAuto')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Administrator Automated Benefits</span>
-							  </label>
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('adjustmentsBeneBilling')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Administrator Benefits Billings</span>
-							  </label>
-							</div>
-						  </div>
-						</div>
-					  </td>
-					  <td className="px-4 py-3 align-top">
-						<div className="space-y-4">
-						  <div>
-							<h4 className="font-bold text-sm text-gray-900">Benefits ACA Eligibility</h4>
-							<div className="space-y-1 mt-1">
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('beneACAEligibilityUpdate')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Update/Correct</span>
-							  </label>
-							</div>
-						  </div>
-						</div>
-					  </td>
-					  <td className="px-4 py-3 align-top">
-						<div className="space-y-4">
-						  <div>
-							<h4 className="font-bold text-sm text-gray-900">MN State Universities & Colleges Only</h4>
-							<div className="space-y-1 mt-1">
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('mnStateCollegeBeneReports')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Benefits Reports*</span>
-							  </label>
-							</div>
-						  </div>
-						</div>
-					  </td>
-					</tr>
-				  </tbody>
-				</table>
-			  </div>
-			</div>
-
-			{/* Recruiting Solutions */}
-			<div className="space-y-6">
-			  <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-				<table className="min-w-full divide-y divide-gray-300">
-				  <thead style={{ backgroundColor: '#003865' }}>
-					<tr>
-					  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-						Benefits Components
-					  </th>
-					  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-					  </th>
-					  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
-					  </th>
-					</tr>
-				  </thead>
-				  <tbody className="bg-white divide-y divide-gray-200">
-					<tr className="bg-yellow-50">
-					  <td colSpan={3} className="px-4 py-3 text-sm text-gray-700">
-						* Requires agency/dept. ID code(s)<br/>
-						** Only assign to users with non-managerial job codes. No agency/dept. ID codes required. User ID for this role is the employee ID number.
-					  </td>
-					</tr>
-					<tr>
-					  <td className="px-4 py-3 align-top">
-						<div className="space-y-4">
-						  <div>
-							<div className="space-y-1 mt-1">
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('recruitRecruiter')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Recruiter*</span>
-							  </label>
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('recruitRecruiterLimited')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Recruiter-Limited*</span>
-							  </label>
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('recruitAffirmativeAction')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Affirmative Action Officer*</span>
-							  </label>
-							  <label className="flex items-center">
-								<input
-								  type="checkbox"
-								  {...register('recruitHiringManager')}
-								  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-								/>
-								<span className="ml-2 text-sm text-gray-700">Hiring Manager Proxy**</span>
-							  </label>
-							</div>
-						  </div>
-						</div>
-					  </td>
-					</tr>
-				  </tbody>
-				</table>
-			  </div>
-			</div>
+              ))}
 
-         
+              <SodConflictPanel
+                conflicts={sod.conflicts}
+                justifications={sod.justifications}
+                onJustificationChange={sod.setJustification}
+              />
 
               {/* Role Justification */}
               <div id="justification" className="space-y-6">
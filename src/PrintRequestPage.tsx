@@ -0,0 +1,350 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { parseISO } from 'date-fns';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { supabase } from './lib/supabase';
+import { approvalText, sortApprovals, stepLabels } from './lib/approvalSteps';
+import { signatureMethodLabels } from './lib/approvalSigning';
+import { securityAreaLabels, SecurityAreaType } from './lib/securityAreas';
+import { requestTypeLabels, RequestType } from './lib/requestTypes';
+import { nonEmployeeTypeLabels } from './lib/nonEmployeeAccess';
+import { describeAccessEntry, formatAccessValue, toAccessEntries } from './lib/userAccess';
+
+interface PrintableRequest {
+  id: string;
+  created_at: string;
+  request_type: RequestType;
+  remove_all_access: boolean;
+  start_date: string;
+  employee_name: string;
+  employee_id: string | null;
+  is_non_employee: boolean;
+  non_employee_type: string | null;
+  access_end_date: string | null;
+  security_measures: string | null;
+  work_location: string | null;
+  work_phone: string | null;
+  email: string;
+  agency_name: string;
+  agency_code: string;
+  justification: string | null;
+  submitter_name: string;
+  submitter_email: string;
+  supervisor_name: string;
+  supervisor_email: string;
+  security_admin_name: string;
+  security_admin_email: string;
+  status: string;
+  completed_by: string | null;
+  completed_at: string | null;
+  security_areas: { area_type: string; director_name: string | null; director_email: string | null }[];
+}
+
+interface PrintableApproval {
+  id: string;
+  step: string;
+  status: string;
+  approver_email: string;
+  signature_data: string | null;
+  approved_at: string | null;
+  rejected_at: string | null;
+  signed_by_email: string | null;
+  signature_method: string | null;
+  comments: string | null;
+  created_at: string;
+}
+
+interface RoleSection {
+  group: string;
+  items: { key: string; label: string; value: unknown }[];
+}
+
+const roleTables = ['security_role_selections', 'hr_payroll_role_selections', 'epm_dwh_role_selections'];
+
+// Selected roles and settings grouped by the section of the form they belong to
+const toRoleSections = (rows: Record<string, Record<string, unknown> | null>): RoleSection[] => {
+  const sections: RoleSection[] = [];
+
+  roleTables.forEach(table => {
+    toAccessEntries(table, rows[table]).forEach(entry => {
+      const { label, group } = describeAccessEntry(table, entry.role_column);
+      let section = sections.find(s => s.group === group);
+      if (!section) {
+        section = { group, items: [] };
+        sections.push(section);
+      }
+      section.items.push({ key: `${table}.${entry.role_column}`, label, value: entry.value });
+    });
+  });
+
+  return sections;
+};
+
+function Field({ label, value }: { label: string; value: string | null | undefined }) {
+  return (
+    <div className="border-b border-gray-300 py-1">
+      <dt className="text-[10px] uppercase tracking-wide text-gray-500">{label}</dt>
+      <dd className="text-sm text-gray-900 min-h-[1.25rem]">{value || ''}</dd>
+    </div>
+  );
+}
+
+function PrintRequestPage() {
+  const { id } = useParams<{ id: string }>();
+  const [request, setRequest] = useState<PrintableRequest | null>(null);
+  const [roleRows, setRoleRows] = useState<Record<string, Record<string, unknown> | null>>({});
+  const [roleRemovals, setRoleRemovals] = useState<{ id: string; role_label: string }[]>([]);
+  const [approvals, setApprovals] = useState<PrintableApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRequest = async () => {
+      try {
+        const { data: requestData, error: requestError } = await supabase
+          .from('security_role_requests')
+          .select(`
+            *,
+            security_areas (
+              area_type,
+              director_name,
+              director_email
+            )
+          `)
+          .eq('id', id)
+          .single();
+
+        if (requestError) throw requestError;
+
+        const rows: Record<string, Record<string, unknown> | null> = {};
+        for (const table of roleTables) {
+          const { data, error: rowError } = await supabase
+            .from(table)
+            .select('*')
+            .eq('request_id', id)
+            .maybeSingle();
+
+          if (rowError) throw rowError;
+          rows[table] = data;
+        }
+
+        const { data: removalsData, error: removalsError } = await supabase
+          .from('request_role_removals')
+          .select('id, role_label')
+          .eq('request_id', id)
+          .order('created_at', { ascending: true });
+
+        if (removalsError) throw removalsError;
+
+        const { data: approvalsData, error: approvalsError } = await supabase
+          .from('request_approvals')
+          .select('*')
+          .eq('request_id', id);
+
+        if (approvalsError) throw approvalsError;
+
+        setRequest(requestData);
+        setRoleRows(rows);
+        setRoleRemovals(removalsData || []);
+        setApprovals(sortApprovals(approvalsData || []));
+      } catch (err) {
+        console.error('Error loading request for printing:', err);
+        setError('This request could not be loaded. Make sure you are signed in and can view it.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRequest();
+  }, [id]);
+
+  // The browser's print dialog saves the form as a PDF; name it after the employee
+  useEffect(() => {
+    if (!request) return;
+
+    const previousTitle = document.title;
+    document.title = `SWIFT Access Request - ${request.employee_name} - ${request.id.slice(0, 8)}`;
+    const timer = window.setTimeout(() => window.print(), 300);
+
+    return () => {
+      window.clearTimeout(timer);
+      document.title = previousTitle;
+    };
+  }, [request]);
+
+  if (loading) {
+    return <p className="p-8 text-sm text-gray-500">Preparing form...</p>;
+  }
+
+  if (error || !request) {
+    return (
+      <div className="p-8">
+        <p className="text-sm text-red-600">{error || 'Request not found.'}</p>
+        <Link to={`/requests/${id}`} className="mt-4 inline-flex items-center text-sm text-blue-600">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to Request
+        </Link>
+      </div>
+    );
+  }
+
+  const roleSections = toRoleSections(roleRows);
+  const formatDate = (date: string | null) => date ? parseISO(date).toLocaleDateString() : '';
+
+  return (
+    <div className="bg-gray-100 min-h-screen print:bg-white">
+      <div className="max-w-4xl mx-auto flex items-center justify-between py-4 px-4 print:hidden">
+        <Link
+          to={`/requests/${request.id}`}
+          className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to Request
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          Print / Save as PDF
+        </button>
+      </div>
+
+      <div className="max-w-4xl mx-auto bg-white shadow p-8 print:shadow-none print:p-0 print:max-w-none">
+        <header className="border-b-2 border-gray-900 pb-2 mb-4">
+          <h1 className="text-xl font-bold text-gray-900">Request for Access to SWIFT Statewide Systems</h1>
+          <p className="text-xs text-gray-600">
+            Request #{request.id.slice(0, 8)} · {requestTypeLabels[request.request_type] || request.request_type}
+            {' · '}Submitted {new Date(request.created_at).toLocaleString()}
+            {' · '}Status: {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+          </p>
+        </header>
+
+        <section className="mb-4 break-inside-avoid">
+          <h2 className="text-sm font-bold uppercase bg-gray-200 px-2 py-1 mb-2">Employee Information</h2>
+          <dl className="grid grid-cols-2 gap-x-6">
+            <Field label="Employee Name" value={request.employee_name} />
+            <Field label="Employee ID" value={request.employee_id} />
+            <Field label="Start Date" value={formatDate(request.start_date)} />
+            <Field label="Email" value={request.email} />
+            <Field label="Work Phone" value={request.work_phone} />
+            <Field label="Work Location" value={request.work_location} />
+            <Field label="Agency" value={request.agency_name} />
+            <Field label="Agency Code" value={request.agency_code} />
+            {request.is_non_employee && (
+              <>
+                <Field
+                  label="Non-Employee Type"
+                  value={request.non_employee_type ? nonEmployeeTypeLabels[request.non_employee_type] || request.non_employee_type : null}
+                />
+                <Field label="Access End Date" value={formatDate(request.access_end_date)} />
+                <div className="col-span-2">
+                  <Field label="Security Measures" value={request.security_measures} />
+                </div>
+              </>
+            )}
+            <div className="col-span-2">
+              <Field label="Justification" value={request.justification} />
+            </div>
+          </dl>
+        </section>
+
+        <section className="mb-4 break-inside-avoid">
+          <h2 className="text-sm font-bold uppercase bg-gray-200 px-2 py-1 mb-2">Contacts</h2>
+          <dl className="grid grid-cols-2 gap-x-6">
+            <Field label="Submitted By" value={`${request.submitter_name} (${request.submitter_email})`} />
+            <Field label="Supervisor" value={`${request.supervisor_name} (${request.supervisor_email})`} />
+            <Field label="Security Administrator" value={`${request.security_admin_name} (${request.security_admin_email})`} />
+            {request.security_areas.map(area => (
+              <Field
+                key={area.area_type}
+                label={`${securityAreaLabels[area.area_type as SecurityAreaType] || area.area_type} Approver`}
+                value={[area.director_name, area.director_email && `(${area.director_email})`].filter(Boolean).join(' ')}
+              />
+            ))}
+          </dl>
+        </section>
+
+        {roleSections.map(section => (
+          <section key={section.group} className="mb-4 break-inside-avoid">
+            <h2 className="text-sm font-bold uppercase bg-gray-200 px-2 py-1 mb-2">{section.group}</h2>
+            <ul className="grid grid-cols-2 gap-x-6 text-sm">
+              {section.items.map(item => (
+                <li key={item.key} className="py-0.5">
+                  {item.value === true ? '☒ ' : ''}
+                  {item.label}
+                  {item.value !== true && <>: <span className="font-medium">{formatAccessValue(item.value)}</span></>}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+
+        {(request.remove_all_access || roleRemovals.length > 0) && (
+          <section className="mb-4 break-inside-avoid">
+            <h2 className="text-sm font-bold uppercase bg-gray-200 px-2 py-1 mb-2">Roles to Remove</h2>
+            {request.remove_all_access ? (
+              <p className="text-sm">Remove all of this user's access.</p>
+            ) : (
+              <ul className="grid grid-cols-2 gap-x-6 text-sm">
+                {roleRemovals.map(removal => (
+                  <li key={removal.id} className="py-0.5">☒ {removal.role_label}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
+        <section>
+          <h2 className="text-sm font-bold uppercase bg-gray-200 px-2 py-1 mb-2">Signatures</h2>
+          <div className="space-y-4">
+            {approvals.map(approval => (
+              <div key={approval.id} className="border border-gray-300 p-3 break-inside-avoid">
+                <h3 className="text-sm font-bold text-gray-900">{stepLabels[approval.step] || approval.step}</h3>
+                {approvalText[approval.step] && (
+                  <p className="mt-1 text-[10px] leading-snug text-gray-700">{approvalText[approval.step]}</p>
+                )}
+                <div className="mt-3 grid grid-cols-3 gap-4 items-end">
+                  <div className="col-span-2 border-b border-gray-900 h-16 flex items-end">
+                    {approval.status === 'approved' && approval.signature_data && (
+                      <img src={approval.signature_data} alt={`${stepLabels[approval.step]} signature`} className="max-h-16" />
+                    )}
+                  </div>
+                  <div className="border-b border-gray-900 text-sm pb-1">
+                    {approval.status === 'approved' && approval.approved_at
+                      ? new Date(approval.approved_at).toLocaleString()
+                      : ''}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4 text-[10px] uppercase tracking-wide text-gray-500">
+                  <span className="col-span-2">
+                    Signature: {approval.signed_by_email || approval.approver_email}
+                    {approval.signature_method && ` via ${signatureMethodLabels[approval.signature_method] || approval.signature_method}`}
+                  </span>
+                  <span>Date</span>
+                </div>
+                {approval.status !== 'approved' && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    {approval.status.charAt(0).toUpperCase() + approval.status.slice(1)}
+                    {approval.rejected_at && ` ${new Date(approval.rejected_at).toLocaleString()}`}
+                  </p>
+                )}
+                {approval.comments && (
+                  <p className="mt-1 text-xs text-gray-600">Comments: {approval.comments}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {request.completed_at && (
+          <p className="mt-4 text-xs text-gray-600">
+            Completed by {request.completed_by} on {new Date(request.completed_at).toLocaleString()}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PrintRequestPage;
@@ -0,0 +1,356 @@
+import { ChangeEvent, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import ApproverDirectoryAdmin from './components/ApproverDirectoryAdmin';
+import Header from './components/Header';
+import { SessionUser } from './types';
+import { agencyCategoryLabels, clearReferenceDataCache, fetchIsReferenceDataAdmin } from './lib/referenceData';
+import {
+  applyReferenceImport,
+  fetchReferenceRecords,
+  previewReferenceImport,
+  ReferenceImportPreview,
+  ReferenceKind,
+  referenceKinds,
+  ReferenceRecord,
+  toReferenceCsv
+} from './lib/referenceImport';
+import { downloadBlob } from './lib/spreadsheet';
+
+function ReferenceDataAdminPage() {
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [activeKind, setActiveKind] = useState<ReferenceKind>('agencies');
+  // The approver directory is edited row by row rather than imported
+  const [showDirectory, setShowDirectory] = useState(false);
+  const [records, setRecords] = useState<ReferenceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [search, setSearch] = useState('');
+  const [preview, setPreview] = useState<ReferenceImportPreview | null>(null);
+  const [importFileName, setImportFileName] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const handleUserChange = (user: SessionUser | null) => {
+    setCurrentUser(user);
+  };
+
+  const userEmail = currentUser?.email;
+  useEffect(() => {
+    if (!userEmail) {
+      setIsAdmin(null);
+      return;
+    }
+
+    // The admin flag belongs to the signed-in user
+    clearReferenceDataCache();
+    fetchIsReferenceDataAdmin()
+      .then(setIsAdmin)
+      .catch(error => {
+        console.error('Error checking reference data access:', error);
+        setIsAdmin(false);
+      });
+  }, [userEmail]);
+
+  useEffect(() => {
+    if (!isAdmin || showDirectory) return;
+
+    const loadRecords = async () => {
+      try {
+        setLoading(true);
+        setRecords(await fetchReferenceRecords(activeKind));
+      } catch (error) {
+        console.error('Error fetching reference data:', error);
+        toast.error('Failed to load reference data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRecords();
+  }, [isAdmin, activeKind, showDirectory, reloadKey]);
+
+  const handleKindChange = (kind: ReferenceKind) => {
+    setActiveKind(kind);
+    setShowDirectory(false);
+    setSearch('');
+    setPreview(null);
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      toReferenceCsv(activeKind, records),
+      `${activeKind.replace('_', '-')}-${format(new Date(), 'yyyy-MM-dd')}.csv`
+    );
+  };
+
+  const handleFileSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again re-runs the preview
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setImportFileName(file.name);
+      setPreview(previewReferenceImport(activeKind, await file.text(), records));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Failed to read the import file');
+    }
+  };
+
+  const handleApplyImport = async () => {
+    if (!preview) return;
+
+    setApplying(true);
+    try {
+      await applyReferenceImport(activeKind, preview.rows);
+      toast.success(`${referenceKinds[activeKind].label} updated`);
+      setPreview(null);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error importing reference data:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import reference data');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const isAgencies = activeKind === 'agencies';
+  const nameHeader = isAgencies ? 'Name' : 'Description';
+  const searchText = search.trim().toLowerCase();
+  const visibleRecords = records.filter(record =>
+    !searchText || record.code.toLowerCase().includes(searchText) || record.name.toLowerCase().includes(searchText)
+  );
+  const activeCount = records.filter(record => record.is_active).length;
+  const hasChanges = !!preview && (preview.added.length + preview.changed.length + preview.deactivated.length) > 0;
+
+  const describeRecord = (record: ReferenceRecord) =>
+    [record.code, record.name, record.category && agencyCategoryLabels[record.category]].filter(Boolean).join(' · ');
+
+  const renderPreviewList = (title: string, items: string[], className: string) => items.length > 0 && (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 mb-2">{title} ({items.length})</h4>
+      <ul className={`max-h-48 overflow-y-auto rounded-md border p-2 text-sm space-y-1 ${className}`}>
+        {items.map(item => <li key={item}>{item}</li>)}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header
+        title="Reference Data"
+        subtitle="Agencies, business units and approvers used by the request forms"
+        onUserChange={handleUserChange}
+      />
+
+      {!currentUser || isAdmin === false ? (
+        <div className="py-8 px-4 sm:px-6 lg:px-8">
+          <div className="max-w-4xl mx-auto text-center">
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-blue-900 mb-2">
+                {currentUser ? 'Access Restricted' : 'Sign In Required'}
+              </h3>
+              <p className="text-blue-700">
+                {currentUser
+                  ? 'Only reference data administrators can manage agencies, business units and approvers.'
+                  : 'Please sign in to manage reference data.'}
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+      <div className="py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+          <div className="flex justify-between items-center">
+            <nav className="-mb-px flex space-x-8 border-b border-gray-200">
+              {(Object.keys(referenceKinds) as ReferenceKind[]).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => handleKindChange(kind)}
+                  className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                    !showDirectory && activeKind === kind
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {referenceKinds[kind].label}
+                </button>
+              ))}
+              <button
+                onClick={() => {
+                  setShowDirectory(true);
+                  setPreview(null);
+                }}
+                className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                  showDirectory
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Approver Directory
+              </button>
+            </nav>
+            {!showDirectory && (
+            <div className="flex space-x-4">
+              <button
+                onClick={handleExport}
+                disabled={loading || records.length === 0}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download CSV
+              </button>
+              <label className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileSelected}
+                  disabled={loading}
+                  className="sr-only"
+                />
+              </label>
+            </div>
+            )}
+          </div>
+
+          {showDirectory ? (
+            <ApproverDirectoryAdmin />
+          ) : (
+          <>
+          <p className="text-sm text-gray-500">
+            An import replaces the whole list. Download the current list, edit it and import it again:
+            codes in the file are added or updated, and codes left out are deactivated so existing
+            requests keep their names. Columns: {referenceKinds[activeKind].columns.map(column => column.header).join(', ')}
+            {isAgencies && ` (category is one of ${Object.values(agencyCategoryLabels).join(', ')}; blank means Agency)`}.
+          </p>
+
+          {preview && (
+            <div className="bg-white shadow rounded-lg p-6 space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">Import Preview</h3>
+                  <p className="text-sm text-gray-500">{importFileName}</p>
+                </div>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => setPreview(null)}
+                    disabled={applying}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleApplyImport}
+                    disabled={applying || preview.errors.length > 0 || !hasChanges}
+                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {applying ? 'Importing...' : 'Apply Import'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-xs font-medium">
+                <span className="px-2.5 py-0.5 rounded-full bg-green-100 text-green-800">{preview.added.length} added</span>
+                <span className="px-2.5 py-0.5 rounded-full bg-blue-100 text-blue-800">{preview.changed.length} changed</span>
+                <span className="px-2.5 py-0.5 rounded-full bg-orange-100 text-orange-800">{preview.deactivated.length} deactivated</span>
+                <span className="px-2.5 py-0.5 rounded-full bg-gray-100 text-gray-800">{preview.unchanged} unchanged</span>
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div className="rounded-md bg-red-50 p-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0" />
+                    <div className="ml-3">
+                      <h4 className="text-sm font-medium text-red-800">
+                        Fix {preview.errors.length === 1 ? 'this problem' : `these ${preview.errors.length} problems`} in the file and import it again
+                      </h4>
+                      <ul className="mt-2 max-h-48 overflow-y-auto text-sm text-red-700 list-disc pl-5 space-y-1">
+                        {preview.errors.map((issue, index) => (
+                          <li key={index}>Line {issue.line}: {issue.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {preview.errors.length === 0 && !hasChanges && (
+                <p className="text-sm text-gray-500">The file matches the current list; there is nothing to import.</p>
+              )}
+
+              {renderPreviewList('Added', preview.added.map(describeRecord), 'border-green-200 bg-green-50 text-green-900')}
+              {renderPreviewList(
+                'Changed',
+                preview.changed.map(({ before, after }) =>
+                  `${describeRecord(before)}${before.is_active ? '' : ' (inactive)'} → ${describeRecord(after)}`
+                ),
+                'border-blue-200 bg-blue-50 text-blue-900'
+              )}
+              {renderPreviewList('Deactivated', preview.deactivated.map(describeRecord), 'border-orange-200 bg-orange-50 text-orange-900')}
+            </div>
+          )}
+
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+              <p className="text-sm text-gray-500">
+                {activeCount} active{records.length > activeCount && `, ${records.length - activeCount} inactive`}
+              </p>
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={`Search by code or ${nameHeader.toLowerCase()}`}
+                className="w-72 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+
+            {loading || isAdmin === null ? (
+              <div className="flex justify-center items-center h-64">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{nameHeader}</th>
+                    {isAgencies && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                    )}
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {visibleRecords.map(record => (
+                    <tr key={record.code} className={record.is_active ? '' : 'text-gray-400'}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-mono">{record.code}</td>
+                      <td className="px-6 py-3 text-sm">{record.name}</td>
+                      {isAgencies && (
+                        <td className="px-6 py-3 whitespace-nowrap text-sm">
+                          {record.category && agencyCategoryLabels[record.category]}
+                        </td>
+                      )}
+                      <td className="px-6 py-3 whitespace-nowrap text-sm">
+                        {record.is_active ? 'Active' : 'Inactive'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+          </>
+          )}
+        </div>
+      </div>
+      )}
+    </div>
+  );
+}
+
+export default ReferenceDataAdminPage;
@@ -1,9 +1,31 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Share2, CheckCircle, ShieldCheck, X, Check, Edit, Plus, List } from 'lucide-react';
+import { parseISO } from 'date-fns';
+import { ArrowLeft, Share2, CheckCircle, ShieldCheck, X, Check, Edit, Plus, List, Undo2, Ban, Download } from 'lucide-react';
 import { supabase } from './lib/supabase';
 import { toast } from 'sonner';
 import Header from './components/Header';
+import { SessionUser } from './types';
+import HrPayrollRoleSummary from './components/HrPayrollRoleSummary';
+import EpmDwhRoleSummary from './components/EpmDwhRoleSummary';
+import SelectedRoleList from './components/SelectedRoleList';
+import AccessDiffPanel from './components/AccessDiffPanel';
+import RequestHistory from './components/RequestHistory';
+import RequestRevisions from './components/RequestRevisions';
+import { getBlockingApprovals, isApprovalOverdue, sortApprovals, stepLabels } from './lib/approvalSteps';
+import { signatureMethodLabels } from './lib/approvalSigning';
+import { getAccessEndStatus, nonEmployeeTypeLabels } from './lib/nonEmployeeAccess';
+import { RequestType, requestTypeLabels } from './lib/requestTypes';
+import { getRoleSettings } from './lib/userAccess';
+import { fetchHeldRoleKeys, fetchSodJustifications, fetchSodRules, findSodConflicts, SodRule } from './lib/sodRules';
+import SodConflictPanel from './components/SodConflictPanel';
+
+interface RoleRemoval {
+  id: string;
+  role_table: string;
+  role_column: string;
+  role_label: string;
+}
 
 interface RequestDetails {
   id: string;
@@ -12,6 +34,13 @@ interface RequestDetails {
   employee_name: string;
   employee_id: string;
   is_non_employee: boolean;
+  non_employee_type: string | null;
+  access_end_date: string | null;
+  security_measures: string | null;
+  request_type: RequestType;
+  source_request_id: string | null;
+  remove_all_access: boolean;
+  current_revision: number;
   work_location: string;
   work_phone: string;
   email: string;
@@ -20,6 +49,7 @@ interface RequestDetails {
   justification: string;
   submitter_name: string;
   submitter_email: string;
+  submitted_by: string | null;
   supervisor_name: string;
   supervisor_email: string;
   security_admin_name: string;
@@ -45,8 +75,9 @@ interface CopyUserDetails {
 interface SecurityRoleSelection {
   id: string;
   home_business_unit: string;
-  other_business_units: string;
+  other_business_units: string[] | null;
   role_justification: string;
+  elm_role_justification?: string | null;
   // Add other role fields as needed
   [key: string]: any;
 }
@@ -55,12 +86,22 @@ interface Approval {
   id: string;
   step: string;
   approver_email: string;
-  status: 'pending' | 'approved' | 'denied';
+  status: 'pending' | 'approved' | 'denied' | 'returned' | 'cancelled';
   signature_data: string | null;
   approved_at: string | null;
+  rejected_at: string | null;
   comments: string | null;
+  signed_by_email: string | null;
+  signature_method: string | null;
+  due_at: string | null;
 }
 
+const tabLabels = {
+  details: 'Details',
+  revisions: 'Revisions',
+  history: 'History'
+};
+
 function RequestDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -68,18 +109,25 @@ function RequestDetailsPage() {
   const [securityAreas, setSecurityAreas] = useState<SecurityArea[]>([]);
   const [copyUserDetails, setCopyUserDetails] = useState<CopyUserDetails | null>(null);
   const [roleSelections, setRoleSelections] = useState<SecurityRoleSelection | null>(null);
+  const [hrPayrollSelections, setHrPayrollSelections] = useState<Record<string, unknown> | null>(null);
+  const [epmDwhSelections, setEpmDwhSelections] = useState<Record<string, unknown> | null>(null);
   const [approvals, setApprovals] = useState<Approval[]>([]);
+  const [roleRemovals, setRoleRemovals] = useState<RoleRemoval[]>([]);
+  const [sodRules, setSodRules] = useState<SodRule[]>([]);
+  const [sodJustifications, setSodJustifications] = useState<Record<string, string>>({});
+  const [heldRoleKeys, setHeldRoleKeys] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
   const [completerName, setCompleterName] = useState('');
+  const [activeTab, setActiveTab] = useState<'details' | 'revisions' | 'history'>('details');
 
   const [isTestMode, setIsTestMode] = useState(() => {
     return localStorage.getItem('testMode') === 'true';
   });
 
-  const handleUserChange = (userName: string | null) => {
-    setCurrentUser(userName);
+  const handleUserChange = (user: SessionUser | null) => {
+    setCurrentUser(user);
   };
 
   // Listen for test mode changes
@@ -146,6 +194,47 @@ function RequestDetailsPage() {
       if (roleError) throw roleError;
       setRoleSelections(roleData);
 
+      // Fetch HR/Payroll role selections
+      const { data: hrPayrollData, error: hrPayrollError } = await supabase
+        .from('hr_payroll_role_selections')
+        .select('*')
+        .eq('request_id', id)
+        .maybeSingle();
+
+      if (hrPayrollError) throw hrPayrollError;
+      setHrPayrollSelections(hrPayrollData);
+
+      // Fetch EPM Data Warehouse role selections
+      const { data: epmDwhData, error: epmDwhError } = await supabase
+        .from('epm_dwh_role_selections')
+        .select('*')
+        .eq('request_id', id)
+        .maybeSingle();
+
+      if (epmDwhError) throw epmDwhError;
+      setEpmDwhSelections(epmDwhData);
+
+      // Fetch segregation of duties rules, the request's mitigating controls and,
+      // until the request is applied to it, the employee's current access
+      const [rulesData, justificationsData, heldKeys] = await Promise.all([
+        fetchSodRules(),
+        fetchSodJustifications(requestData.id),
+        requestData.status === 'completed' ? Promise.resolve([]) : fetchHeldRoleKeys(requestData.id)
+      ]);
+      setSodRules(rulesData);
+      setSodJustifications(justificationsData);
+      setHeldRoleKeys(heldKeys);
+
+      // Fetch roles revoked by a change or removal request
+      const { data: removalsData, error: removalsError } = await supabase
+        .from('request_role_removals')
+        .select('id, role_table, role_column, role_label')
+        .eq('request_id', id)
+        .order('created_at', { ascending: true });
+
+      if (removalsError) throw removalsError;
+      setRoleRemovals(removalsData || []);
+
       // Fetch approvals
       const { data: approvalsData, error: approvalsError } = await supabase
         .from('request_approvals')
@@ -155,27 +244,8 @@ function RequestDetailsPage() {
 
       if (approvalsError) throw approvalsError;
       
-      // Sort approvals to ensure Security Admin is always last
-      const sortedApprovals = (approvalsData || []).sort((a, b) => {
-        const stepOrder = {
-          'user_signature': 1,
-          'supervisor_approval': 2,
-          'accounting_director_approval': 3,
-          'hr_director_approval': 3,
-          'elm_admin_approval': 3,
-          'security_admin_approval': 4  // Always last
-        };
-        
-        const orderA = stepOrder[a.step as keyof typeof stepOrder] || 3;
-        const orderB = stepOrder[b.step as keyof typeof stepOrder] || 3;
-        
-        if (orderA !== orderB) {
-          return orderA - orderB;
-        }
-        
-        // If same order level, sort by created_at
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-      });
+      // Sort approvals into signing order (Security Admin is always last)
+      const sortedApprovals = sortApprovals(approvalsData || []);
       
       setApprovals(sortedApprovals);
 
@@ -187,39 +257,12 @@ function RequestDetailsPage() {
     }
   }
 
-  // Function to format field names for display
-  const formatFieldName = (name: string) => {
-    return name
-      .replace(/_/g, ' ')
-      .replace(/([A-Z])/g, ' $1')
-      .replace(/^./, (str) => str.toUpperCase())
-      .trim();
-  };
-
-  // Get all boolean fields that are true
-  const getActiveBooleanRoles = () => {
-    if (!roleSelections) return [];
-    
-    return Object.entries(roleSelections)
-      .filter(([key, value]) => 
-        typeof value === 'boolean' && 
-        value === true && 
-        !['created_at', 'updated_at', 'id', 'request_id'].includes(key)
-      )
-      .map(([key]) => key);
-  };
-
-  // Get all string fields that have values
-  const getStringFieldValues = () => {
-    if (!roleSelections) return [];
-    
-    return Object.entries(roleSelections)
-      .filter(([key, value]) => 
-        typeof value === 'string' && 
-        value !== '' && 
-        !['created_at', 'updated_at', 'id', 'request_id', 'role_justification'].includes(key)
-      );
-  };
+  const roleSettings = getRoleSettings('security_role_selections', roleSelections);
+  const sodConflicts = findSodConflicts(sodRules, {
+    security_role_selections: roleSelections,
+    hr_payroll_role_selections: hrPayrollSelections,
+    epm_dwh_role_selections: epmDwhSelections
+  }, heldRoleKeys);
 
   const handleAutoApprove = async () => {
     if (!isTestMode) {
@@ -227,32 +270,40 @@ function RequestDetailsPage() {
       return;
     }
 
-    try {
-      const pendingApprovals = approvals.filter(approval => approval.status === 'pending');
-      
-      if (pendingApprovals.length === 0) {
-        toast.info('No pending approvals to process');
-        return;
-      }
+    // Steps are signed through the same checked function as the signature page,
+    // so only the steps assigned to the signed-in user can be approved, and the
+    // submitter can only sign the user signature
+    const isSubmitter = !!currentUser && request?.submitted_by === currentUser.id;
+    const pendingApprovals = approvals.filter(approval =>
+      approval.status === 'pending' &&
+      approval.approver_email.toLowerCase() === currentUser?.email.toLowerCase() &&
+      (approval.step === 'user_signature' || !isSubmitter)
+    );
+
+    if (pendingApprovals.length === 0) {
+      toast.info('No pending approvals are assigned to you');
+      return;
+    }
 
+    let signed = 0;
+    try {
+      // Approvals are in step order, so each signature unblocks the next
       for (const approval of pendingApprovals) {
-        const { error } = await supabase
-          .from('request_approvals')
-          .update({
-            status: 'approved',
-            signature_data: 'Test Mode Auto-Signature',
-            approved_at: new Date().toISOString()
-          })
-          .eq('id', approval.id);
+        const { error } = await supabase.rpc('sign_request_approval', {
+          p_approval_id: approval.id,
+          p_signature_data: 'Test Mode Auto-Signature'
+        });
 
         if (error) throw error;
+        signed++;
       }
 
-      toast.success(`Auto-approved ${pendingApprovals.length} signatures`);
-      fetchRequestDetails(); // Refresh the data
+      toast.success(`Auto-approved ${signed} signature${signed === 1 ? '' : 's'}`);
     } catch (err) {
       console.error('Error auto-approving:', err);
       toast.error('Failed to auto-approve signatures');
+    } finally {
+      fetchRequestDetails(); // Refresh the data
     }
   };
 
@@ -262,14 +313,12 @@ function RequestDetailsPage() {
       return;
     }
     try {
-      const { error } = await supabase
-        .from('security_role_requests')
-        .update({
-          status: 'completed',
-          completed_by: completerName.trim(),
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', id);
+      // The database checks that every step is approved and that the caller is
+      // the request's security administrator
+      const { error } = await supabase.rpc('complete_request', {
+        p_request_id: id,
+        p_completed_by: completerName.trim()
+      });
 
       if (error) throw error;
 
@@ -299,8 +348,15 @@ function RequestDetailsPage() {
 
   // Check if all approvals are approved
   const allApprovalsApproved = approvals.length > 0 && approvals.every(approval => approval.status === 'approved');
-  const canCompleteRequest = allApprovalsApproved && request?.status !== 'completed';
-  
+  // Only the security administrator who signed the last step can complete, and
+  // never the request's submitter
+  const isSecurityAdminApprover = approvals.some(approval =>
+    approval.step === 'security_admin_approval' &&
+    approval.approver_email.toLowerCase() === currentUser?.email.toLowerCase()
+  );
+  const isRequestSubmitter = !!currentUser && request?.submitted_by === currentUser.id;
+  const canCompleteRequest = allApprovalsApproved && isSecurityAdminApprover && !isRequestSubmitter && request?.status !== 'completed';
+
   console.log('Completion logic:', {
     allApprovalsApproved,
     requestStatus: request?.status,
@@ -310,15 +366,7 @@ function RequestDetailsPage() {
   });
 
   const getStepDisplayName = (step: string) => {
-    const stepNames: Record<string, string> = {
-      'user_signature': 'User Signature',
-      'supervisor_approval': 'Supervisor Approval',
-      'accounting_director_approval': 'Accounting Director Approval',
-      'hr_director_approval': 'HR Director Approval',
-      'elm_admin_approval': 'ELM Admin Approval',
-      'security_admin_approval': 'Security Admin Approval'
-    };
-    return stepNames[step] || step;
+    return stepLabels[step] || step;
   };
 
   const getStatusIcon = (status: string) => {
@@ -327,6 +375,10 @@ function RequestDetailsPage() {
         return <CheckCircle className="w-5 h-5 text-green-500" />;
       case 'denied':
         return <X className="w-5 h-5 text-red-500" />;
+      case 'returned':
+        return <Undo2 className="w-5 h-5 text-orange-500" />;
+      case 'cancelled':
+        return <Ban className="w-5 h-5 text-gray-400" />;
       default:
         return <div className="w-5 h-5 border-2 border-gray-300 rounded-full" />;
     }
@@ -338,6 +390,10 @@ function RequestDetailsPage() {
         return 'text-green-600 bg-green-50';
       case 'denied':
         return 'text-red-600 bg-red-50';
+      case 'returned':
+        return 'text-orange-600 bg-orange-50';
+      case 'cancelled':
+        return 'text-gray-600 bg-gray-100';
       default:
         return 'text-yellow-600 bg-yellow-50';
     }
@@ -391,6 +447,8 @@ function RequestDetailsPage() {
     );
   }
 
+  const accessEndStatus = request.is_non_employee ? getAccessEndStatus(request.access_end_date) : null;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
@@ -402,9 +460,9 @@ function RequestDetailsPage() {
         <div className="py-8 px-4 sm:px-6 lg:px-8">
           <div className="max-w-4xl mx-auto text-center">
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-blue-900 mb-2">User Identification Required</h3>
+              <h3 className="text-lg font-medium text-blue-900 mb-2">Sign In Required</h3>
               <p className="text-blue-700">
-                Please identify yourself to view request details.
+                Please sign in to view request details.
               </p>
             </div>
           </div>
@@ -439,6 +497,14 @@ function RequestDetailsPage() {
               {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
             </span>
             
+            <Link
+              to={`/requests/${id}/print`}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download PDF
+            </Link>
+
             <Link
               to={`/requests/${id}/edit`}
               className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
@@ -449,122 +515,239 @@ function RequestDetailsPage() {
           </div>
         </div>
 
-        {/* Request Information */}
-        <div className="bg-white shadow rounded-lg mb-6">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <h2 className="text-lg font-medium text-gray-900">Request Information</h2>
-          </div>
-          <div className="px-6 py-4">
-            <dl className="grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-2">
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Employee Name</dt>
-                <dd className="mt-1 text-sm text-gray-900">{request.employee_name}</dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Employee ID</dt>
-                <dd className="mt-1 text-sm text-gray-900">{request.employee_id || 'N/A'}</dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Email</dt>
-                <dd className="mt-1 text-sm text-gray-900">{request.email}</dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Start Date</dt>
-                <dd className="mt-1 text-sm text-gray-900">
-                  {new Date(request.start_date).toLocaleDateString()}
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Agency</dt>
-                <dd className="mt-1 text-sm text-gray-900">
-                  {request.agency_name} ({request.agency_code})
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Work Location</dt>
-                <dd className="mt-1 text-sm text-gray-900">{request.work_location || 'N/A'}</dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Work Phone</dt>
-                <dd className="mt-1 text-sm text-gray-900">{request.work_phone || 'N/A'}</dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Non-Employee</dt>
-                <dd className="mt-1 text-sm text-gray-900">
-                  {request.is_non_employee ? 'Yes' : 'No'}
-                </dd>
-              </div>
-            </dl>
-            
-            {request.justification && (
-              <div className="mt-6">
-                <dt className="text-sm font-medium text-gray-500">Request Justification</dt>
-                <dd className="mt-1 text-sm text-gray-900">{request.justification}</dd>
-              </div>
-            )}
-          </div>
+        {/* Tabs */}
+        <div className="border-b border-gray-200 mb-6">
+          <nav className="-mb-px flex space-x-8">
+            {(['details', 'revisions', 'history'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                  activeTab === tab
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {tabLabels[tab]}
+              </button>
+            ))}
+          </nav>
         </div>
 
-        {/* Security Areas */}
-        {securityAreas.length > 0 && (
+        {activeTab === 'revisions' && (
           <div className="bg-white shadow rounded-lg mb-6">
             <div className="px-6 py-4 border-b border-gray-200">
-              <h2 className="text-lg font-medium text-gray-900">Security Areas</h2>
+              <h2 className="text-lg font-medium text-gray-900">Revisions</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                The request as it stood after each submission or edit
+                {request.current_revision > 1 && ` (currently revision ${request.current_revision})`}
+              </p>
             </div>
             <div className="px-6 py-4">
-              <div className="space-y-4">
-                {securityAreas.map((area) => (
-                  <div key={area.id} className="border border-gray-200 rounded-lg p-4">
-                    <h3 className="font-medium text-gray-900 mb-2">
-                      {area.area_type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                    </h3>
-                    {area.director_name && (
-                      <p className="text-sm text-gray-600">
-                        Director: {area.director_name}
-                        {area.director_email && ` (${area.director_email})`}
-                      </p>
-                    )}
-                  </div>
-                ))}
-              </div>
+              <RequestRevisions requestId={request.id} />
             </div>
           </div>
         )}
 
-        {/* Role Selections */}
-        {roleSelections && (
+        {activeTab === 'history' && (
           <div className="bg-white shadow rounded-lg mb-6">
             <div className="px-6 py-4 border-b border-gray-200">
-              <h2 className="text-lg font-medium text-gray-900">Role Selections</h2>
+              <h2 className="text-lg font-medium text-gray-900">History</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Every change made to this request, its roles and its approvals
+              </p>
             </div>
             <div className="px-6 py-4">
-              {getActiveBooleanRoles().length > 0 ? (
+              <RequestHistory requestId={request.id} />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'details' && (
+        <>
+          {sodConflicts.length > 0 && (
+            <div className="mb-6">
+              <SodConflictPanel conflicts={sodConflicts} justifications={sodJustifications} />
+            </div>
+          )}
+
+          {/* Request Information */}
+          <div className="bg-white shadow rounded-lg mb-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">Request Information</h2>
+            </div>
+            <div className="px-6 py-4">
+              <dl className="grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-2">
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Request Type</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{requestTypeLabels[request.request_type] || request.request_type}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Employee Name</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{request.employee_name}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Employee ID</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{request.employee_id || 'N/A'}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Email</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{request.email}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Start Date</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {new Date(request.start_date).toLocaleDateString()}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Agency</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {request.agency_name} ({request.agency_code})
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Work Location</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{request.work_location || 'N/A'}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Work Phone</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{request.work_phone || 'N/A'}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Non-Employee</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {request.is_non_employee ? 'Yes' : 'No'}
+                  </dd>
+                </div>
+                {request.is_non_employee && (
+                  <>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500">Non-Employee Type</dt>
+                      <dd className="mt-1 text-sm text-gray-900">
+                        {request.non_employee_type ? nonEmployeeTypeLabels[request.non_employee_type] || request.non_employee_type : 'N/A'}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500">Access End Date</dt>
+                      <dd className="mt-1 text-sm text-gray-900">
+                        {request.access_end_date ? parseISO(request.access_end_date).toLocaleDateString() : 'Not set'}
+                        {accessEndStatus === 'ended' && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Access ended
+                          </span>
+                        )}
+                        {accessEndStatus === 'ending_soon' && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                            Ending soon
+                          </span>
+                        )}
+                      </dd>
+                    </div>
+                  </>
+                )}
+              </dl>
+
+              {request.is_non_employee && request.security_measures && (
+                <div className="mt-6">
+                  <dt className="text-sm font-medium text-gray-500">Security Measures</dt>
+                  <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">{request.security_measures}</dd>
+                </div>
+              )}
+
+              {request.request_type !== 'add' && request.source_request_id && (
+                <div className="mt-6">
+                  <dt className="text-sm font-medium text-gray-500">Current Access</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {request.request_type === 'remove' ? 'Removes access granted by' : 'Changes access granted by'}{' '}
+                    <Link to={`/requests/${request.source_request_id}`} className="text-blue-600 hover:text-blue-500">
+                      the original request
+                    </Link>
+                  </dd>
+                </div>
+              )}
+            
+              {request.justification && (
+                <div className="mt-6">
+                  <dt className="text-sm font-medium text-gray-500">Request Justification</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{request.justification}</dd>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Security Areas */}
+          {securityAreas.length > 0 && (
+            <div className="bg-white shadow rounded-lg mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Security Areas</h2>
+              </div>
+              <div className="px-6 py-4">
                 <div className="space-y-4">
-                  <div>
-                    <h3 className="text-sm font-medium text-gray-700 mb-3">Active Roles:</h3>
-                    <div className="flex flex-wrap gap-2">
-                      {getActiveBooleanRoles().map((role) => (
-                        <span 
-                          key={role} 
-                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
-                        >
-                          <Check className="h-3 w-3 mr-1" />
-                          {formatFieldName(role)}
-                        </span>
-                      ))}
+                  {securityAreas.map((area) => (
+                    <div key={area.id} className="border border-gray-200 rounded-lg p-4">
+                      <h3 className="font-medium text-gray-900 mb-2">
+                        {area.area_type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                      </h3>
+                      {area.director_name && (
+                        <p className="text-sm text-gray-600">
+                          Director: {area.director_name}
+                          {area.director_email && ` (${area.director_email})`}
+                        </p>
+                      )}
                     </div>
-                  </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
 
-                  {getStringFieldValues().length > 0 && (
+          {/* Change in Access */}
+          <div className="bg-white shadow rounded-lg mb-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">Change in Access</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                What this request adds to, keeps and removes from the user's current access
+              </p>
+            </div>
+            <div className="px-6 py-4">
+              <AccessDiffPanel
+                employeeId={request.employee_id}
+                email={request.email}
+                isCompleted={request.status === 'completed'}
+                removeAll={request.remove_all_access}
+                roleSelections={roleSelections}
+                hrPayrollSelections={hrPayrollSelections}
+                epmDwhSelections={epmDwhSelections}
+                roleRemovals={roleRemovals}
+              />
+            </div>
+          </div>
+
+          {/* Role Selections */}
+          {roleSelections && (
+            <div className="bg-white shadow rounded-lg mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Role Selections</h2>
+              </div>
+              <div className="px-6 py-4">
+                <div className="space-y-4">
+                  <SelectedRoleList
+                    table="security_role_selections"
+                    selections={roleSelections}
+                    emptyText="No specific role selections found for this request."
+                  />
+
+                  {roleSettings.length > 0 && (
                     <div>
                       <h3 className="text-sm font-medium text-gray-700 mb-3">Additional Settings:</h3>
                       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                        {getStringFieldValues().map(([key, value]) => (
-                          <div key={key} className="bg-gray-50 p-3 rounded-lg">
+                        {roleSettings.map(setting => (
+                          <div key={setting.column} className="bg-gray-50 p-3 rounded-lg">
                             <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-                              {formatFieldName(key)}
+                              {setting.label}
                             </dt>
-                            <dd className="mt-1 text-sm text-gray-900">{value as string}</dd>
+                            <dd className="mt-1 text-sm text-gray-900">{setting.value}</dd>
                           </div>
                         ))}
                       </div>
@@ -581,211 +764,303 @@ function RequestDetailsPage() {
                       </div>
                     </div>
                   )}
+
+                  {roleSelections.elm_role_justification &&
+                    roleSelections.elm_role_justification !== roleSelections.role_justification && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700 mb-2">ELM Role Justification:</h3>
+                      <div className="bg-yellow-50 p-3 rounded-lg">
+                        <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                          {roleSelections.elm_role_justification}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* HR/Payroll Role Selections */}
+          {hrPayrollSelections && (
+            <div className="bg-white shadow rounded-lg mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">HR / Payroll Role Selections</h2>
+              </div>
+              <div className="px-6 py-4">
+                <HrPayrollRoleSummary selections={hrPayrollSelections} />
+              </div>
+            </div>
+          )}
+
+          {/* EPM Data Warehouse Role Selections */}
+          {epmDwhSelections && (
+            <div className="bg-white shadow rounded-lg mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">EPM / Data Warehouse Role Selections</h2>
+              </div>
+              <div className="px-6 py-4">
+                <EpmDwhRoleSummary selections={epmDwhSelections} />
+              </div>
+            </div>
+          )}
+
+          {/* Roles to Remove */}
+          {(request.remove_all_access || roleRemovals.length > 0) && (
+            <div className="bg-white shadow rounded-lg mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Roles to Remove</h2>
+                {request.remove_all_access && (
+                  <p className="text-sm text-red-600 mt-1">
+                    All of this user's access is being removed
+                  </p>
+                )}
+              </div>
+              <div className="px-6 py-4">
+                {roleRemovals.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {roleRemovals.map(removal => (
+                      <span
+                        key={removal.id}
+                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        {removal.role_label}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Every role in the user's current access will be removed.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Copy User Details */}
+          {copyUserDetails && (
+            <div className="bg-white shadow rounded-lg mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Copy User Access</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  This request copies access permissions from an existing user
+                </p>
+              </div>
+              <div className="px-6 py-4">
+                <dl className="grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-2">
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Copy User Name</dt>
+                    <dd className="mt-1 text-sm text-gray-900">{copyUserDetails.copy_user_name}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Copy User Employee ID</dt>
+                    <dd className="mt-1 text-sm text-gray-900">{copyUserDetails.copy_user_employee_id}</dd>
+                  </div>
+                  {copyUserDetails.copy_user_sema4_id && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500">Copy User SEMA4 ID</dt>
+                      <dd className="mt-1 text-sm text-gray-900">{copyUserDetails.copy_user_sema4_id}</dd>
+                    </div>
+                  )}
+                </dl>
+              
+                {/* Show a note about copied permissions */}
+                <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
+                  <p className="text-sm text-blue-800">
+                    <strong>Note:</strong> All security roles and permissions from the specified user have been copied to this request.
+                    {!roleSelections && !hrPayrollSelections && !epmDwhSelections && (
+                      <span className="text-blue-600"> No role selections were found for the specified user - they may not have any completed requests or active permissions.</span>
+                    )}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Approval Status */}
+          <div className="bg-white shadow rounded-lg mb-6">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-medium text-gray-900">Approval Status</h2>
+              <div className="flex items-center space-x-3">
+                {isTestMode && (
+                  approvals.some(approval => approval.status === 'pending') && (
+                    <button
+                      onClick={handleAutoApprove}
+                      className="inline-flex items-center px-3 py-2 border border-orange-300 text-sm font-medium rounded-md text-orange-700 bg-orange-50 hover:bg-orange-100"
+                    >
+                      <ShieldCheck className="w-4 w-4 mr-2" />
+                      Auto-Approve All Signatures
+                    </button>
+                  )
+                )}
+                {canCompleteRequest && (
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="text"
+                      value={completerName}
+                      onChange={(e) => setCompleterName(e.target.value)}
+                      placeholder="Enter your name to complete request"
+                      className="px-3 py-2 border border-green-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 bg-green-50"
+                    />
+                    <button
+                      onClick={handleCompleteRequest}
+                      disabled={!completerName.trim()}
+                      className={`inline-flex items-center px-4 py-2 border text-sm font-medium rounded-md shadow-sm ${
+                        completerName.trim()
+                          ? 'border-green-500 text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500'
+                          : 'border-gray-300 text-gray-400 bg-gray-50 cursor-not-allowed'
+                      }`}
+                    >
+                      <Check className="w-4 w-4 mr-2" />
+                      {completerName.trim() ? 'Complete Request' : 'Enter Name to Complete'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="px-6 py-4">
+              {approvals.length > 0 ? (
+                <div className="space-y-4">
+                  {approvals.map((approval) => (
+                    <div key={approval.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50">
+                      <div className="flex items-center">
+                        {approval.status === 'pending' && getBlockingApprovals(approval, approvals).length === 0 ? (
+                          <Link
+                            to={`/signature/${id}/${approval.id}`}
+                            className="flex items-center cursor-pointer hover:text-blue-600"
+                          >
+                            <input
+                              type="radio"
+                              name="approval-selection"
+                              className="h-5 w-5 text-blue-600 border-gray-300 focus:ring-blue-500 cursor-pointer"
+                              readOnly
+                            />
+                            <div className="ml-3">
+                              <p className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                                {getStepDisplayName(approval.step)}
+                              </p>
+                              <p className="text-sm text-gray-500">{approval.approver_email}</p>
+                            </div>
+                          </Link>
+                        ) : (
+                          <>
+                            {getStatusIcon(approval.status)}
+                            <div className="ml-3">
+                              <p className="text-sm font-medium text-gray-900">
+                                {getStepDisplayName(approval.step)}
+                              </p>
+                              <p className="text-sm text-gray-500">{approval.approver_email}</p>
+                              {approval.status === 'pending' && (
+                                <p className="text-xs text-gray-400 mt-1">
+                                  Waiting on {getBlockingApprovals(approval, approvals).map(a => getStepDisplayName(a.step)).join(', ')}
+                                </p>
+                              )}
+                            </div>
+                          </>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(approval.status)}`}>
+                          {approval.status.charAt(0).toUpperCase() + approval.status.slice(1)}
+                        </span>
+                        {(approval.approved_at || approval.rejected_at) && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {new Date((approval.approved_at || approval.rejected_at) as string).toLocaleString()}
+                          </p>
+                        )}
+                        {approval.status === 'pending' && approval.due_at && (
+                          <p className={`text-xs mt-1 ${isApprovalOverdue(approval) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                            {isApprovalOverdue(approval) ? 'Overdue since' : 'Due'} {new Date(approval.due_at).toLocaleDateString()}
+                          </p>
+                        )}
+                        {approval.signed_by_email && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            By {approval.signed_by_email}
+                            {approval.signature_method && ` via ${signatureMethodLabels[approval.signature_method] || approval.signature_method}`}
+                          </p>
+                        )}
+                        {approval.comments && (
+                          <div className={`mt-2 p-2 rounded text-xs ${
+                            approval.status === 'denied' || approval.status === 'returned'
+                              ? 'bg-red-50 text-red-700'
+                              : 'bg-gray-50 text-gray-700'
+                          }`}>
+                            <strong>
+                              {approval.status === 'denied'
+                                ? 'Reason for denial:'
+                                : approval.status === 'returned'
+                                  ? 'Changes requested:'
+                                  : 'Comments:'}
+                            </strong> {approval.comments}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               ) : (
-                <p className="text-sm text-gray-500">No specific role selections found for this request.</p>
+                <p className="text-sm text-gray-500">No approvals found for this request.</p>
               )}
             </div>
           </div>
-        )}
 
-        {/* Copy User Details */}
-        {copyUserDetails && (
-          <div className="bg-white shadow rounded-lg mb-6">
+          {/* Submitter and Approver Information */}
+          <div className="bg-white shadow rounded-lg">
             <div className="px-6 py-4 border-b border-gray-200">
-              <h2 className="text-lg font-medium text-gray-900">Copy User Access</h2>
-              <p className="text-sm text-gray-500 mt-1">
-                This request copies access permissions from an existing user
-              </p>
+              <h2 className="text-lg font-medium text-gray-900">Contact Information</h2>
             </div>
             <div className="px-6 py-4">
               <dl className="grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-2">
                 <div>
-                  <dt className="text-sm font-medium text-gray-500">Copy User Name</dt>
-                  <dd className="mt-1 text-sm text-gray-900">{copyUserDetails.copy_user_name}</dd>
+                  <dt className="text-sm font-medium text-gray-500">Submitter</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {request.submitter_name}
+                    <br />
+                    <span className="text-gray-600">{request.submitter_email}</span>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Supervisor</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {request.supervisor_name}
+                    <br />
+                    <span className="text-gray-600">{request.supervisor_email}</span>
+                  </dd>
                 </div>
                 <div>
-                  <dt className="text-sm font-medium text-gray-500">Copy User Employee ID</dt>
-                  <dd className="mt-1 text-sm text-gray-900">{copyUserDetails.copy_user_employee_id}</dd>
+                  <dt className="text-sm font-medium text-gray-500">Security Administrator</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {request.security_admin_name}
+                    <br />
+                    <span className="text-gray-600">{request.security_admin_email}</span>
+                  </dd>
                 </div>
-                {copyUserDetails.copy_user_sema4_id && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Created</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {new Date(request.created_at).toLocaleString()}
+                  </dd>
+                </div>
+                {request.completed_by && (
                   <div>
-                    <dt className="text-sm font-medium text-gray-500">Copy User SEMA4 ID</dt>
-                    <dd className="mt-1 text-sm text-gray-900">{copyUserDetails.copy_user_sema4_id}</dd>
+                    <dt className="text-sm font-medium text-gray-500">Completed By</dt>
+                    <dd className="mt-1 text-sm text-gray-900">
+                      {request.completed_by}
+                      {request.completed_at && (
+                        <>
+                          <br />
+                          <span className="text-gray-600">
+                            {new Date(request.completed_at).toLocaleString()}
+                          </span>
+                        </>
+                      )}
+                    </dd>
                   </div>
                 )}
               </dl>
-              
-              {/* Show a note about copied permissions */}
-              <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
-                <p className="text-sm text-blue-800">
-                  <strong>Note:</strong> All security roles and permissions from the specified user have been copied to this request.
-                  {!roleSelections && (
-                    <span className="text-blue-600"> No role selections were found for the specified user - they may not have any completed requests or active permissions.</span>
-                  )}
-                </p>
-              </div>
             </div>
           </div>
+        </>
         )}
-
-        {/* Approval Status */}
-        <div className="bg-white shadow rounded-lg mb-6">
-          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
-            <h2 className="text-lg font-medium text-gray-900">Approval Status</h2>
-            <div className="flex items-center space-x-3">
-              {isTestMode && (
-                approvals.some(approval => approval.status === 'pending') && (
-                  <button
-                    onClick={handleAutoApprove}
-                    className="inline-flex items-center px-3 py-2 border border-orange-300 text-sm font-medium rounded-md text-orange-700 bg-orange-50 hover:bg-orange-100"
-                  >
-                    <ShieldCheck className="w-4 w-4 mr-2" />
-                    Auto-Approve All Signatures
-                  </button>
-                )
-              )}
-              {canCompleteRequest && (
-                <div className="flex items-center space-x-3">
-                  <input
-                    type="text"
-                    value={completerName}
-                    onChange={(e) => setCompleterName(e.target.value)}
-                    placeholder="Enter your name to complete request"
-                    className="px-3 py-2 border border-green-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 bg-green-50"
-                  />
-                  <button
-                    onClick={handleCompleteRequest}
-                    disabled={!completerName.trim()}
-                    className={`inline-flex items-center px-4 py-2 border text-sm font-medium rounded-md shadow-sm ${
-                      completerName.trim()
-                        ? 'border-green-500 text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500'
-                        : 'border-gray-300 text-gray-400 bg-gray-50 cursor-not-allowed'
-                    }`}
-                  >
-                    <Check className="w-4 w-4 mr-2" />
-                    {completerName.trim() ? 'Complete Request' : 'Enter Name to Complete'}
-                  </button>
-                </div>
-              )}
-            </div>
-          </div>
-          <div className="px-6 py-4">
-            {approvals.length > 0 ? (
-              <div className="space-y-4">
-                {approvals.map((approval) => (
-                  <div key={approval.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50">
-                    <div className="flex items-center">
-                      {approval.status === 'pending' ? (
-                        <Link
-                          to={`/signature/${id}/${approval.id}`}
-                          className="flex items-center cursor-pointer hover:text-blue-600"
-                        >
-                          <input
-                            type="radio"
-                            name="approval-selection"
-                            className="h-5 w-5 text-blue-600 border-gray-300 focus:ring-blue-500 cursor-pointer"
-                            readOnly
-                          />
-                          <div className="ml-3">
-                            <p className="text-sm font-medium text-gray-900 hover:text-blue-600">
-                              {getStepDisplayName(approval.step)}
-                            </p>
-                            <p className="text-sm text-gray-500">{approval.approver_email}</p>
-                          </div>
-                        </Link>
-                      ) : (
-                        <>
-                          {getStatusIcon(approval.status)}
-                          <div className="ml-3">
-                            <p className="text-sm font-medium text-gray-900">
-                              {getStepDisplayName(approval.step)}
-                            </p>
-                            <p className="text-sm text-gray-500">{approval.approver_email}</p>
-                          </div>
-                        </>
-                      )}
-                    </div>
-                    <div className="text-right">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(approval.status)}`}>
-                        {approval.status.charAt(0).toUpperCase() + approval.status.slice(1)}
-                      </span>
-                      {approval.approved_at && (
-                        <p className="text-xs text-gray-500 mt-1">
-                          {new Date(approval.approved_at).toLocaleString()}
-                        </p>
-                      )}
-                      {approval.comments && (
-                        <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-700">
-                          <strong>Comments:</strong> {approval.comments}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-sm text-gray-500">No approvals found for this request.</p>
-            )}
-          </div>
-        </div>
-
-        {/* Submitter and Approver Information */}
-        <div className="bg-white shadow rounded-lg">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <h2 className="text-lg font-medium text-gray-900">Contact Information</h2>
-          </div>
-          <div className="px-6 py-4">
-            <dl className="grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-2">
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Submitter</dt>
-                <dd className="mt-1 text-sm text-gray-900">
-                  {request.submitter_name}
-                  <br />
-                  <span className="text-gray-600">{request.submitter_email}</span>
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Supervisor</dt>
-                <dd className="mt-1 text-sm text-gray-900">
-                  {request.supervisor_name}
-                  <br />
-                  <span className="text-gray-600">{request.supervisor_email}</span>
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Security Administrator</dt>
-                <dd className="mt-1 text-sm text-gray-900">
-                  {request.security_admin_name}
-                  <br />
-                  <span className="text-gray-600">{request.security_admin_email}</span>
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Created</dt>
-                <dd className="mt-1 text-sm text-gray-900">
-                  {new Date(request.created_at).toLocaleString()}
-                </dd>
-              </div>
-              {request.completed_by && (
-                <div>
-                  <dt className="text-sm font-medium text-gray-500">Completed By</dt>
-                  <dd className="mt-1 text-sm text-gray-900">
-                    {request.completed_by}
-                    {request.completed_at && (
-                      <>
-                        <br />
-                        <span className="text-gray-600">
-                          {new Date(request.completed_at).toLocaleString()}
-                        </span>
-                      </>
-                    )}
-                  </dd>
-                </div>
-              )}
-            </dl>
-          </div>
-        </div>
       </div>
       )}
     </div>
@@ -1,12 +1,27 @@
 import React, { useEffect, useState } from 'react';
-import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Plus, List, Share2, RefreshCw, Search, Trash2, X, AlertTriangle } from 'lucide-react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Plus, List, RefreshCw, Trash2, X, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
 import { supabase } from './lib/supabase';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import clsx from 'clsx';
 import Header from './components/Header';
-import SearchableSelect from './components/SearchableSelect';
+import { SessionUser } from './types';
+import { isApprovalOverdue } from './lib/approvalSteps';
+import { getAccessEndStatus } from './lib/nonEmployeeAccess';
+import { RequestType, requestTypeLabels } from './lib/requestTypes';
+import RequestListFilters from './components/RequestListFilters';
+import ExportRequestsMenu from './components/ExportRequestsMenu';
+import {
+  defaultRequestFilters,
+  fetchRequestIds,
+  fetchRequestPage,
+  hasActiveFilters,
+  parseRequestFilters,
+  REQUEST_PAGE_SIZE,
+  RequestListFilters as Filters,
+  toRequestSearchParams
+} from './lib/requestFilters';
 
 interface SecurityArea {
   area_type: 'accounting_procurement' | 'hr_payroll' | 'epm_data_warehouse' | 'elm';
@@ -18,11 +33,15 @@ interface Request {
   submitter_name: string;
   employee_name: string;
   status: string;
+  request_type: RequestType;
+  is_non_employee: boolean;
+  access_end_date: string | null;
   security_areas: SecurityArea[];
   request_approvals: {
     id: string;
     step: string;
     status: string;
+    due_at: string | null;
   }[];
 }
 
@@ -38,14 +57,16 @@ function RequestListPage() {
   const [requests, setRequests] = useState<Request[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [filteredRequests, setFilteredRequests] = useState<Request[]>([]);
-  const [selectedUser, setSelectedUser] = useState('');
-  const [userOptions, setUserOptions] = useState<{value: string; label: string}[]>([]);
-  const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [totalRequests, setTotalRequests] = useState(0);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
   const location = useLocation();
+  // Filters, sorting and the page live in the query string so views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filterQuery = searchParams.toString();
+  const filters = parseRequestFilters(searchParams);
 
-  const handleUserChange = (userName: string | null) => {
-    setCurrentUser(userName);
+  const handleUserChange = (user: SessionUser | null) => {
+    setCurrentUser(user);
   };
 
   const [deletingRequestId, setDeletingRequestId] = useState<string | null>(null);
@@ -53,8 +74,10 @@ function RequestListPage() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
 
   useEffect(() => {
-    fetchRequests();
-  }, []);
+    if (currentUser) {
+      fetchRequests();
+    }
+  }, [currentUser, filterQuery]);
 
   // Refresh data when returning from edit page
   useEffect(() => {
@@ -68,67 +91,23 @@ function RequestListPage() {
   async function fetchRequests() {
     try {
       setLoading(true);
-      
-      console.log('Fetching requests from database...');
-      
-      // Add a timestamp to prevent caching
-      const timestamp = new Date().getTime();
-      
-      let query = supabase
-        .from('security_role_requests')
-        .select(`
-          *,
-          security_areas (
-            area_type
-          ),
-          request_approvals (
-            id,
-            step,
-            status
-          )
-        `)
-        .order('created_at', { ascending: false });
 
-      // Filter by current user if available
-      if (currentUser) {
-        query = query.eq('poc_user', currentUser);
-      }
-
-      const { data, error } = await query;
+      const { requests: pageRequests, total } = await fetchRequestPage<Request>(filters);
 
-      if (error) throw error;
-      
-      console.log('Raw data from database:', data);
-      
       // Process the data to ensure security_areas is always an array
-      const processedData = (data || []).map(request => ({
+      const processedData = pageRequests.map(request => ({
         ...request,
         security_areas: request.security_areas || []
       }));
-      
-      console.log('Processed data:', processedData);
+
       setRequests(processedData);
-      
-      // Create user options for search dropdown
-      const uniqueUsers = processedData.reduce((acc: {value: string; label: string}[], request) => {
-        if (request.employee_name && !acc.find(user => user.value === request.employee_name)) {
-          acc.push({
-            value: request.employee_name,
-            label: request.employee_name
-          });
-        }
-        return acc;
-      }, []);
-      
-      // Sort users alphabetically
-      uniqueUsers.sort((a, b) => a.label.localeCompare(b.label));
-      
-      console.log('User options created:', uniqueUsers);
-      setUserOptions(uniqueUsers);
-      
-      // Apply current filter if any
-      applyUserFilter(processedData, selectedUser);
-      
+      setTotalRequests(total);
+
+      // Step back if the page no longer exists, e.g. after deleting its last request
+      if (processedData.length === 0 && filters.page > 1) {
+        handleFiltersChange({ ...filters, page: Math.max(1, Math.ceil(total / REQUEST_PAGE_SIZE)) });
+      }
+
     } catch (error) {
       console.error('Error fetching requests:', error);
       toast.error('Failed to load requests');
@@ -138,22 +117,8 @@ function RequestListPage() {
     }
   }
 
-  const applyUserFilter = (requestsToFilter: Request[], userFilter: string) => {
-    if (!userFilter) {
-      setFilteredRequests(requestsToFilter);
-      return;
-    }
-    
-    const filtered = requestsToFilter.filter(request => 
-      request.employee_name === userFilter
-    );
-    setFilteredRequests(filtered);
-  };
-
-  const handleUserSearch = (selectedValue: string) => {
-    console.log('User search changed to:', selectedValue);
-    setSelectedUser(selectedValue);
-    applyUserFilter(requests, selectedValue);
+  const handleFiltersChange = (newFilters: Filters) => {
+    setSearchParams(toRequestSearchParams(newFilters));
   };
 
   const handleDeleteClick = (request: Request) => {
@@ -177,10 +142,8 @@ function RequestListPage() {
 
       toast.success(`Request for ${requestToDelete.employee_name} has been deleted`);
       
-      // Remove the deleted request from the local state
-      const updatedRequests = requests.filter(req => req.id !== requestToDelete.id);
-      setRequests(updatedRequests);
-      applyUserFilter(updatedRequests, selectedUser);
+      // Reload the page so the next matching request moves up into it
+      await fetchRequests();
       
       // Close modal and reset state
       setShowDeleteModal(false);
@@ -214,17 +177,16 @@ function RequestListPage() {
     navigate('/');
   };
 
-  const getNextPendingApproval = (request: Request) => {
-    return request.request_approvals.find(approval => approval.status === 'pending');
-  };
-
   const handleRefresh = async () => {
     setRefreshing(true);
     await fetchRequests();
     toast.success('Requests refreshed');
   };
 
-  const displayRequests = selectedUser ? filteredRequests : requests;
+  const filtered = hasActiveFilters(filters);
+  const firstShown = (filters.page - 1) * REQUEST_PAGE_SIZE + 1;
+  const lastShown = firstShown + requests.length - 1;
+  const pageCount = Math.max(1, Math.ceil(totalRequests / REQUEST_PAGE_SIZE));
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
@@ -237,9 +199,9 @@ function RequestListPage() {
         <div className="py-8 px-4 sm:px-6 lg:px-8">
           <div className="max-w-4xl mx-auto text-center">
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-blue-900 mb-2">User Identification Required</h3>
+              <h3 className="text-lg font-medium text-blue-900 mb-2">Sign In Required</h3>
               <p className="text-blue-700">
-                Please identify yourself to view your test requests.
+                Please sign in to view your requests.
               </p>
             </div>
           </div>
@@ -247,18 +209,9 @@ function RequestListPage() {
       ) : (
       <div className="py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center mb-8">
-            <div className="w-80 min-w-0">
-              <SearchableSelect
-                options={userOptions}
-                value={selectedUser}
-                onChange={handleUserSearch}
-                placeholder="Search by employee name..."
-                searchPlaceholder="Type to search users..."
-                label="Filter by Employee"
-              />
-            </div>
+          <div className="flex justify-end items-center mb-4">
             <div className="flex space-x-4">
+              <ExportRequestsMenu requestCount={totalRequests} loadRequestIds={() => fetchRequestIds(filters)} />
               <button
                 onClick={handleRefresh}
                 disabled={refreshing}
@@ -277,26 +230,28 @@ function RequestListPage() {
             </div>
           </div>
 
+          <RequestListFilters filters={filters} onChange={handleFiltersChange} />
+
           {loading ? (
             <div className="flex justify-center items-center h-64">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
-          ) : displayRequests.length === 0 ? (
+          ) : requests.length === 0 ? (
             <div className="text-center py-12 bg-white rounded-lg shadow">
               <List className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">
-                {selectedUser ? 'No matching requests' : 'No requests'}
+                {filtered ? 'No matching requests' : 'No requests'}
               </h3>
               <p className="mt-1 text-sm text-gray-500">
-                {selectedUser 
-                  ? 'No requests found for the selected user. Try clearing the search filter.'
+                {filtered
+                  ? 'No requests match these filters. Try changing or clearing them.'
                   : 'Get started by creating a new security role request.'
                 }
               </p>
               <div className="mt-6 flex justify-center space-x-4">
-                {selectedUser && (
+                {filtered && (
                   <button
-                    onClick={() => handleUserSearch('')}
+                    onClick={() => handleFiltersChange(defaultRequestFilters)}
                     className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                   >
                     Clear Filter
@@ -316,16 +271,11 @@ function RequestListPage() {
               <div className="bg-white shadow overflow-hidden rounded-md">
                 <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex justify-between items-center">
                   <span className="text-sm font-medium text-gray-700">
-                    {selectedUser ? `Filtered Results (${displayRequests.length})` : `All Requests (${displayRequests.length})`}
+                    {filtered ? `Filtered Results (${totalRequests})` : `All Requests (${totalRequests})`}
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    Showing {firstShown}-{lastShown} of {totalRequests}
                   </span>
-                  {selectedUser && (
-                    <button
-                      onClick={() => handleUserSearch('')}
-                      className="text-sm text-blue-600 hover:text-blue-800"
-                    >
-                      Clear Filter
-                    </button>
-                  )}
                 </div>
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
@@ -354,8 +304,7 @@ function RequestListPage() {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {displayRequests.map((request) => {
-                      const nextApproval = getNextPendingApproval(request);
+                    {requests.map((request) => {
                       console.log(`Request ${request.id} security areas:`, request.security_areas);
                       
                       return (
@@ -371,6 +320,14 @@ function RequestListPage() {
                           </td>
                           <td className="px-6 py-4 text-sm text-gray-500">
                             <div className="flex flex-wrap gap-1">
+                              {request.request_type !== 'add' && (
+                                <span className={clsx(
+                                  "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
+                                  request.request_type === 'remove' ? "bg-red-100 text-red-800" : "bg-purple-100 text-purple-800"
+                                )}>
+                                  {requestTypeLabels[request.request_type]}
+                                </span>
+                              )}
                               {request.security_areas && request.security_areas.length > 0 ? (
                                 request.security_areas.map((area, index) => (
                                   <span
@@ -380,7 +337,7 @@ function RequestListPage() {
                                     {areaLabels[area.area_type]}
                                   </span>
                                 ))
-                              ) : (
+                              ) : request.request_type !== 'remove' && (
                                 <span className="text-gray-400 text-xs">No areas selected</span>
                               )}
                             </div>
@@ -392,30 +349,46 @@ function RequestListPage() {
                                 "bg-yellow-100 text-yellow-800": request.status === "pending",
                                 "bg-green-100 text-green-800": request.status === "approved",
                                 "bg-blue-100 text-blue-800": request.status === "completed",
-                                "bg-gray-100 text-gray-800": request.status === "rejected"
+                                "bg-gray-100 text-gray-800": request.status === "rejected",
+                                "bg-red-100 text-red-800": request.status === "denied",
+                                "bg-orange-100 text-orange-800": request.status === "returned"
                               }
                             )}>
                               {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
                             </span>
+                            {request.request_approvals.some(isApprovalOverdue) && (
+                              <span
+                                className="ml-2 px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+                                title="An approval step is past its due date"
+                              >
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                Overdue
+                              </span>
+                            )}
+                            {request.is_non_employee && request.request_type !== 'remove' && request.status === 'completed' &&
+                              getAccessEndStatus(request.access_end_date) === 'ended' && (
+                              <span
+                                className="ml-2 px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+                                title="This non-employee's access end date has passed"
+                              >
+                                Access ended
+                              </span>
+                            )}
+                            {request.is_non_employee && request.request_type !== 'remove' && request.status === 'completed' &&
+                              getAccessEndStatus(request.access_end_date) === 'ending_soon' && (
+                              <span
+                                className="ml-2 px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                                title="This non-employee's access ends soon"
+                              >
+                                Ending soon
+                              </span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {format(new Date(request.created_at), 'MMM d, yyyy')}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <div className="flex items-center justify-end space-x-3">
-                              {nextApproval && (
-                                <button
-                                  onClick={() => {
-                                    const reviewUrl = `${window.location.origin}/signature/${request.id}/${nextApproval.id}?mode=review`;
-                                    navigator.clipboard.writeText(reviewUrl);
-                                    toast.success('Review link copied to clipboard!');
-                                  }}
-                                  className="text-blue-600 hover:text-blue-900"
-                                  title="Copy Review Link"
-                                >
-                                  <Share2 className="h-4 w-4" />
-                                </button>
-                              )}
                               <button
                                 onClick={() => handleDeleteClick(request)}
                                 disabled={deletingRequestId === request.id}
@@ -441,6 +414,27 @@ function RequestListPage() {
                     })}
                   </tbody>
                 </table>
+                <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 flex justify-between items-center">
+                  <button
+                    onClick={() => handleFiltersChange({ ...filters, page: filters.page - 1 })}
+                    disabled={filters.page <= 1}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </button>
+                  <span className="text-sm text-gray-700">
+                    Page {filters.page} of {pageCount}
+                  </span>
+                  <button
+                    onClick={() => handleFiltersChange({ ...filters, page: filters.page + 1 })}
+                    disabled={filters.page >= pageCount}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </button>
+                </div>
               </div>
             </div>
           )}
@@ -489,7 +483,9 @@ function RequestListPage() {
                               "bg-yellow-100 text-yellow-800": requestToDelete.status === "pending",
                               "bg-green-100 text-green-800": requestToDelete.status === "approved",
                               "bg-blue-100 text-blue-800": requestToDelete.status === "completed",
-                              "bg-gray-100 text-gray-800": requestToDelete.status === "rejected"
+                              "bg-gray-100 text-gray-800": requestToDelete.status === "rejected",
+                              "bg-red-100 text-red-800": requestToDelete.status === "denied",
+                              "bg-orange-100 text-orange-800": requestToDelete.status === "returned"
                             }
                           )}>
                             {requestToDelete.status.charAt(0).toUpperCase() + requestToDelete.status.slice(1)}
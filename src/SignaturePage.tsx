@@ -1,30 +1,36 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { useParams, useNavigate, Link, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Check, X } from 'lucide-react';
+import { ArrowLeft, Check, X, Undo2, Ban } from 'lucide-react';
 import { supabase } from './lib/supabase';
 import Header from './components/Header';
+import { SessionUser } from './types';
+import { approvalText, getBlockingApprovals, stepLabels } from './lib/approvalSteps';
 
 interface RequestDetails {
   employee_name: string;
+  status: string;
 }
 
 interface ApprovalDetails {
   step: string;
+  status: string;
+  approver_email: string;
 }
 
-const approvalText: Record<string, string> = {
-  user_signature: `I understand that all SWIFT systems contain some types of data about employees, vendors, customers, and other individuals that are classified as private or confidential under state and/or federal laws. This protected data may appear in a variety of reports, pages, tables, records, and fields. I have been provided with access to the applicable portions of the Minnesota Government Data Practices Act (Minnesota Statutes, Chapter 13, https://www.revisor.mn.gov/pubs/) or summaries of them. I agree to comply with the requirements of the Act regarding all data that is not public. Applies only to users who are authorized for at least one HR/payroll role in SEMA4 or in the EPM data warehouse: (1) I also understand that a majority of the HR/payroll information available through SEMA4 or the warehouse is classified as private under the provisions of the Minnesota Government Data Practices Act. I have read and understand the guide "Data Practices for Personnel Records," which is available on the MMB website at https://www.mn.gov/mmb/employee-relations/labor-relations/resources-for-agencies/data-practices.jsp. (2) I have read the "Data Protection Policy for Human Resource Systems," https://www.mn.gov/mmb/employee relations/laws-policies-and-rules/statewide-hr-policies/ (click on Data and Technology). I understand the requirements of the policy and acknowledge that I am responsible for complying with the policy. I understand that if I fail to comply with the policy, I may be subject to disciplinary action, up to and including discharge. Applies only to users who are authorized for any role in Enterprise Learning Management (ELM): I will not modify any data that is not my own or data that I am not authorized to modify, such as certain rosters and employee training data.`,
-  supervisor_approval: `I certify that the user needs the roles and agencies indicated on this form in order to carry out the responsibilities of his/her job.`,
-  accounting_director_approval: `Accounting Director/Chief Financial Officer: Must sign request to add a new user or to add new security roles and/or agencies/department IDs for FMS and warehouse accounting, procurement, and payroll.`,
-  hr_director_approval: `Human Resources Director: Must sign request to add a new user or to add new security roles and/or agencies/department IDs for SEMA4 and warehouse human resources data.`,
-  elm_admin_approval: `Agency ELM Key Administrator: Must sign request to add a new user or to add new security roles for Enterprise Learning Management.`,
-  security_admin_approval: `Security administrator's statement: I understand that authorizing the user for any role is likely to result in access to private or confidential data about employees, vendors, customers, and/or other individuals. Non-public data may appear in a variety of reports, pages, tables, records, and fields. I certify that the user needs the roles and agencies indicated on this form in order to carry out the responsibilities of his/her job. If the user is authorized for at least one SEMA4 role, I certify that he/she has been trained to accomplish the applicable tasks and provided with access to the two documents mentioned in the second paragraph of the user's statement.`
-};
+interface ChainApproval extends ApprovalDetails {
+  id: string;
+  created_at: string;
+}
+
+type RejectAction = 'denied' | 'returned';
 
 function SignaturePage() {
   const { requestId, approvalId } = useParams<{ requestId: string; approvalId: string }>();
   const [searchParams] = useSearchParams();
   const isReviewMode = searchParams.get('mode') === 'review';
+  // Review links carry a single-use token emailed to the approver. The signer is
+  // signed in either way; without a token they must be signed in as the approver.
+  const signingToken = searchParams.get('token');
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [hasAgreed, setHasAgreed] = useState(false);
@@ -32,14 +38,26 @@ function SignaturePage() {
   const [error, setError] = useState<string | null>(null);
   const [request, setRequest] = useState<RequestDetails | null>(null);
   const [approval, setApproval] = useState<ApprovalDetails | null>(null);
+  const [blockingApprovals, setBlockingApprovals] = useState<ChainApproval[]>([]);
   const [comments, setComments] = useState('');
+  const [rejectAction, setRejectAction] = useState<RejectAction | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+
+  const handleUserChange = (user: SessionUser | null) => {
+    setCurrentUser(user);
+  };
 
+  // Wait for the session so the signer can be verified and recorded
+  const currentUserId = currentUser?.id;
   useEffect(() => {
     fetchRequestDetails();
-  }, [requestId, approvalId]);
+  }, [requestId, approvalId, currentUserId, signingToken]);
 
   async function fetchRequestDetails() {
     if (!requestId || !approvalId) return;
+    if (!currentUserId) return;
 
     // Check if approvalId is the string 'undefined'
     if (approvalId === 'undefined') {
@@ -48,28 +66,24 @@ function SignaturePage() {
     }
 
     try {
-      // Fetch request details
-      const { data: requestData, error: requestError } = await supabase
-        .from('security_role_requests')
-        .select('employee_name')
-        .eq('id', requestId)
-        .single();
-
-      if (requestError) throw requestError;
-      setRequest(requestData);
-
-      // Fetch approval details
-      const { data: approvalData, error: approvalError } = await supabase
-        .from('request_approvals')
-        .select('step')
-        .eq('id', approvalId)
-        .single();
-
-      if (approvalError) throw approvalError;
-      setApproval(approvalData);
+      const { data, error: fetchError } = await supabase.rpc('get_approval_for_signing', {
+        p_approval_id: approvalId,
+        p_token: signingToken
+      });
+
+      if (fetchError) throw fetchError;
+
+      setRequest(data.request);
+      setApproval(data.approval);
+
+      // Earlier steps in the chain must be approved before this one can be acted on
+      setBlockingApprovals(getBlockingApprovals(data.approval, (data.approvals || []) as ChainApproval[]));
+      setError(null);
     } catch (err) {
       console.error('Error fetching details:', err);
-      setError('Failed to load request details. Please try again.');
+      setError(signingToken
+        ? 'This signing link is invalid, has expired or has already been used.'
+        : 'Failed to load request details. Make sure you are signed in with the email address this approval was sent to.');
     }
   }
 
@@ -122,22 +136,6 @@ function SignaturePage() {
     ctx.clearRect(0, 0, canvas.width, canvas.height);
   };
 
-  const validateApprover = async (approverEmail: string) => {
-    try {
-      const { data: approval, error } = await supabase
-        .from('request_approvals')
-        .select('approver_email')
-        .eq('id', approvalId)
-        .single();
-
-      if (error) throw error;
-      return approval.approver_email === approverEmail;
-    } catch (err) {
-      console.error('Error validating approver:', err);
-      return false;
-    }
-  };
-
   const saveSignature = async () => {
     if (!hasAgreed) {
       setError('You must agree to the terms before signing.');
@@ -167,31 +165,16 @@ function SignaturePage() {
     }
 
     try {
-      // If in review mode, prompt for email validation
-      if (isReviewMode) {
-        const approverEmail = prompt('Please enter your email address to verify your identity:');
-        if (!approverEmail) return;
-
-        const isValidApprover = await validateApprover(approverEmail);
-        if (!isValidApprover) {
-          setError('Invalid approver email. Please try again.');
-          return;
-        }
-      }
-
       // Convert canvas to base64 string
       const signatureData = canvas.toDataURL('image/png');
 
-      // Update the approval record
-      const { error } = await supabase
-        .from('request_approvals')
-        .update({
-          signature_data: signatureData,
-          status: 'approved',
-          approved_at: new Date().toISOString(),
-          comments: comments.trim() || null
-        })
-        .eq('id', approvalId);
+      // The database verifies the token or signed-in approver and records who signed
+      const { error } = await supabase.rpc('sign_request_approval', {
+        p_approval_id: approvalId,
+        p_signature_data: signatureData,
+        p_comments: comments.trim() || null,
+        p_token: signingToken
+      });
 
       if (error) throw error;
 
@@ -209,22 +192,79 @@ function SignaturePage() {
     }
   };
 
+  const submitRejection = async () => {
+    if (!rejectAction) return;
+
+    if (!rejectReason.trim()) {
+      setError(rejectAction === 'denied'
+        ? 'Please provide a reason for denying this request.'
+        : 'Please describe the changes the submitter needs to make.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('reject_request_approval', {
+        p_approval_id: approvalId,
+        p_action: rejectAction,
+        p_reason: rejectReason.trim(),
+        p_token: signingToken
+      });
+
+      if (error) throw error;
+
+      if (isReviewMode) {
+        alert(rejectAction === 'denied'
+          ? 'The request has been denied.'
+          : 'The request has been returned to the submitter for changes.');
+        window.close();
+      } else {
+        navigate(`/requests/${requestId}`);
+      }
+    } catch (err) {
+      console.error('Error rejecting approval:', err);
+      setError(rejectAction === 'denied'
+        ? 'Failed to deny the request. Please try again.'
+        : 'Failed to return the request. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   if (!request || !approval) {
     return (
       <div className="min-h-screen bg-gray-50">
-        <Header />
-        <div className="flex justify-center items-center h-64">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-        </div>
+        <Header onUserChange={handleUserChange} />
+        {error ? (
+          <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </div>
+        ) : !currentUser ? (
+          <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+            <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+              <p className="text-sm text-blue-700">Sign in to review this approval. Your signature is recorded under your account.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
       </div>
     );
   }
 
+  // Denied/returned requests and already-processed steps cannot be signed
+  const isClosed = approval.status !== 'pending' || ['denied', 'returned'].includes(request.status);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
         title="Digital Signature"
         subtitle={`Approval of security request for ${request.employee_name}`}
+        onUserChange={handleUserChange}
       />
       
       <div className="py-8 px-4 sm:px-6 lg:px-8">
@@ -248,7 +288,46 @@ function SignaturePage() {
               </h2>
             </div>
 
+            {isClosed ? (
+              <div className="px-4 py-5 sm:p-6">
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                  <h3 className="text-sm font-medium text-yellow-800">
+                    {stepLabels[approval.step]} is no longer awaiting a signature
+                  </h3>
+                  <p className="mt-2 text-sm text-yellow-700">
+                    {request.status === 'denied'
+                      ? 'This request has been denied.'
+                      : request.status === 'returned'
+                        ? 'This request has been returned to the submitter for changes.'
+                        : `This step has already been ${approval.status}.`}
+                  </p>
+                </div>
+              </div>
+            ) : blockingApprovals.length > 0 ? (
+              <div className="px-4 py-5 sm:p-6">
+                <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+                  <h3 className="text-sm font-medium text-blue-800">
+                    {stepLabels[approval.step]} is not ready for signature yet
+                  </h3>
+                  <p className="mt-2 text-sm text-blue-700">
+                    This request is still waiting on the following approvals:
+                  </p>
+                  <ul className="mt-2 list-disc list-inside text-sm text-blue-700">
+                    {blockingApprovals.map(blocking => (
+                      <li key={blocking.id}>
+                        {stepLabels[blocking.step] || blocking.step} ({blocking.approver_email})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            ) : (
             <div className="px-4 py-5 sm:p-6">
+              <p className="mb-4 text-sm text-gray-500">
+                Signing as <strong>{currentUser?.email}</strong>
+                {signingToken ? ' using a secure review link' : ' (signed in)'}
+              </p>
+
               {/* Statement Text */}
               <div className="mb-6">
                 <h3 className="text-sm font-medium text-gray-900 mb-2">
@@ -338,7 +417,77 @@ function SignaturePage() {
                 </div>
               )}
 
+              {/* Deny / Return to Submitter */}
+              {rejectAction && (
+                <div className={`mt-4 rounded-md border p-4 ${rejectAction === 'denied' ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'}`}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {rejectAction === 'denied' ? 'Reason for denial' : 'Changes required from the submitter'} <span className="text-red-500">*</span>
+                  </label>
+                  <textarea
+                    value={rejectReason}
+                    onChange={(e) => setRejectReason(e.target.value)}
+                    rows={3}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    placeholder={rejectAction === 'denied'
+                      ? 'Explain why this request is being denied...'
+                      : 'Describe what needs to be corrected before you can approve...'}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    This stops the remaining approvals and is shared with the submitter.
+                  </p>
+                  <div className="mt-3 flex justify-end space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setRejectAction(null);
+                        setRejectReason('');
+                        setError(null);
+                      }}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={submitRejection}
+                      disabled={submitting || !rejectReason.trim()}
+                      className={`inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+                        submitting || !rejectReason.trim()
+                          ? 'bg-gray-400 cursor-not-allowed'
+                          : rejectAction === 'denied'
+                            ? 'bg-red-600 hover:bg-red-700'
+                            : 'bg-orange-600 hover:bg-orange-700'
+                      }`}
+                    >
+                      {submitting
+                        ? 'Submitting...'
+                        : rejectAction === 'denied' ? 'Confirm Denial' : 'Return to Submitter'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className="mt-4 flex justify-end space-x-4">
+                {!rejectAction && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => setRejectAction('returned')}
+                      className="inline-flex items-center px-4 py-2 border border-orange-300 shadow-sm text-sm font-medium rounded-md text-orange-700 bg-orange-50 hover:bg-orange-100"
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Return for Changes
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRejectAction('denied')}
+                      className="inline-flex items-center px-4 py-2 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-red-50 hover:bg-red-100"
+                    >
+                      <Ban className="h-4 w-4 mr-2" />
+                      Deny
+                    </button>
+                  </>
+                )}
                 <button
                   type="button"
                   onClick={clearSignature}
@@ -349,9 +498,9 @@ function SignaturePage() {
                 <button
                   type="button"
                   onClick={saveSignature}
-                  disabled={!hasAgreed}
+                  disabled={!hasAgreed || !!rejectAction}
                   className={`inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-                    hasAgreed
+                    hasAgreed && !rejectAction
                       ? 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
                       : 'bg-gray-400 cursor-not-allowed'
                   }`}
@@ -361,6 +510,7 @@ function SignaturePage() {
                 </button>
               </div>
             </div>
+            )}
           </div>
         </div>
       </div>
@@ -368,13 +518,4 @@ function SignaturePage() {
   );
 }
 
-const stepLabels: Record<string, string> = {
-  'user_signature': 'User Signature',
-  'supervisor_approval': 'Supervisor Approval',
-  'accounting_director_approval': 'Accounting Director / CFO Approval',
-  'hr_director_approval': 'HR Director Approval',
-  'elm_admin_approval': 'ELM Key Administrator Approval',
-  'security_admin_approval': 'Security Administrator Approval'
-};
-
-export default SignaturePage;
\ No newline at end of file
+export default SignaturePage;
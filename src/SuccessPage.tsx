@@ -38,10 +38,10 @@ function SuccessPage() {
               </p>
               <div className="mt-6 space-y-4">
                 <p className="text-sm text-gray-500">
-                  An email has been sent to the employee for their signature.
+                  The employee will be emailed a link to sign the request. Each approver is emailed in turn once the previous step is signed.
                 </p>
                 <p className="text-sm text-gray-500">
-                  The process to grant access has been initiated and you will be notified of updates.
+                  You will be notified by email when the request is approved, denied, returned for changes or completed.
                 </p>
               </div>
               <div className="mt-8 flex flex-col gap-4 justify-center">
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { supabase } from './lib/supabase';
 import { toast } from 'sonner';
+import { sortApprovals } from './lib/approvalSteps';
 
 function TestApprovalOrder() {
   const [testing, setTesting] = useState(false);
@@ -24,8 +25,7 @@ function TestApprovalOrder() {
         supervisor_email: 'supervisor@test.com',
         security_admin_name: 'Test Security Admin',
         security_admin_email: 'security@test.com',
-        status: 'pending',
-        poc_user: 'Test User'
+        status: 'pending'
       };
 
       const { data: request, error: requestError } = await supabase
@@ -61,25 +61,7 @@ function TestApprovalOrder() {
       if (approvalsError) throw approvalsError;
 
       // Sort approvals using the same logic as RequestDetailsPage
-      const sortedApprovals = (approvals || []).sort((a, b) => {
-        const stepOrder = {
-          'user_signature': 1,
-          'supervisor_approval': 2,
-          'accounting_director_approval': 3,
-          'hr_director_approval': 3,
-          'elm_admin_approval': 3,
-          'security_admin_approval': 4  // Always last
-        };
-        
-        const orderA = stepOrder[a.step as keyof typeof stepOrder] || 3;
-        const orderB = stepOrder[b.step as keyof typeof stepOrder] || 3;
-        
-        if (orderA !== orderB) {
-          return orderA - orderB;
-        }
-        
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-      });
+      const sortedApprovals = sortApprovals(approvals || []);
 
       setTestResults({
         requestId: request.id,
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { Check, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { AccessEntry, fetchAccessEntries, toAccessEntries } from '../lib/userAccess';
+import { AccessChange, AccessDiffItem, computeAccessDiff } from '../lib/accessDiff';
+
+interface AccessDiffPanelProps {
+  employeeId: string | null;
+  email: string | null;
+  isCompleted: boolean;
+  removeAll: boolean;
+  roleSelections: Record<string, unknown> | null;
+  hrPayrollSelections: Record<string, unknown> | null;
+  epmDwhSelections: Record<string, unknown> | null;
+  roleRemovals: { role_table: string; role_column: string; role_label: string }[];
+}
+
+const changeStyles: Record<AccessChange, string> = {
+  added: 'bg-green-100 text-green-800',
+  existing: 'bg-gray-100 text-gray-700',
+  removed: 'bg-red-100 text-red-800'
+};
+
+const changeLabels: Record<AccessChange, string> = {
+  added: 'Added',
+  existing: 'Already held',
+  removed: 'Removed'
+};
+
+const changeIcons: Record<AccessChange, typeof Check> = {
+  added: Plus,
+  existing: Check,
+  removed: X
+};
+
+// Same identity the access ledger uses: employee ID, or lower-cased email
+const getEmployeeKey = (employeeId: string | null, email: string | null) =>
+  employeeId?.trim() || email?.trim().toLowerCase() || null;
+
+function AccessDiffPanel({
+  employeeId,
+  email,
+  isCompleted,
+  removeAll,
+  roleSelections,
+  hrPayrollSelections,
+  epmDwhSelections,
+  roleRemovals
+}: AccessDiffPanelProps) {
+  const employeeKey = getEmployeeKey(employeeId, email);
+  const [currentAccess, setCurrentAccess] = useState<AccessEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!employeeKey) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    fetchAccessEntries(employeeKey)
+      .then(entries => {
+        if (!cancelled) setCurrentAccess(entries);
+      })
+      .catch(err => {
+        console.error('Error fetching current access:', err);
+        toast.error('Failed to load the user\'s current access');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeKey]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading current access...</p>;
+  }
+
+  const items = computeAccessDiff({
+    requested: [
+      ...toAccessEntries('security_role_selections', roleSelections),
+      ...toAccessEntries('hr_payroll_role_selections', hrPayrollSelections),
+      ...toAccessEntries('epm_dwh_role_selections', epmDwhSelections)
+    ],
+    current: currentAccess,
+    removals: roleRemovals,
+    removeAll
+  });
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">This request does not change the user's access.</p>;
+  }
+
+  const counts = items.reduce((totals: Record<AccessChange, number>, item) => {
+    totals[item.change] += 1;
+    return totals;
+  }, { added: 0, existing: 0, removed: 0 });
+
+  const groups = items.reduce((grouped: Record<string, AccessDiffItem[]>, item) => {
+    grouped[item.group] = [...(grouped[item.group] || []), item];
+    return grouped;
+  }, {});
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-xs font-medium">
+        {(Object.keys(changeLabels) as AccessChange[]).map(change => (
+          <span key={change} className={`inline-flex items-center px-2.5 py-0.5 rounded-full ${changeStyles[change]}`}>
+            {changeLabels[change]}: {counts[change]}
+          </span>
+        ))}
+      </div>
+
+      {currentAccess.length === 0 && (
+        <p className="text-sm text-gray-500">This user has no completed access on record.</p>
+      )}
+      {isCompleted && (
+        <p className="text-sm text-gray-500">
+          This request has been completed, so it is compared with the user's access as it stands today.
+        </p>
+      )}
+
+      {Object.entries(groups).map(([group, groupItems]) => (
+        <div key={group}>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">{group}</h3>
+          <div className="flex flex-wrap gap-2">
+            {groupItems.map(item => {
+              const Icon = changeIcons[item.change];
+              return (
+                <span
+                  key={item.key}
+                  title={changeLabels[item.change]}
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${changeStyles[item.change]}`}
+                >
+                  <Icon className="h-3 w-3 mr-1" />
+                  {item.label}
+                  {item.value !== undefined && `: ${item.value}`}
+                  {item.previousValue !== undefined && (
+                    <span className="ml-1 line-through opacity-70">{item.previousValue}</span>
+                  )}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default AccessDiffPanel;
@@ -1,12 +1,6 @@
-import React, { useState } from 'react';
-import { 
-  agencies, 
-  healthLicensingBoards, 
-  smartAgencies,
-  findAgencyByName, 
-  findHealthLicensingBoardByName,
-  findSmartAgencyByName 
-} from '../lib/agencyData';
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { AgencyCategory, fetchReferenceAgencies, ReferenceAgency } from '../lib/referenceData';
 import SearchableSelect from './SearchableSelect';
 
 interface AgencySelectProps {
@@ -16,21 +10,44 @@ interface AgencySelectProps {
   required?: boolean;
 }
 
+// Entries in the main list that open the health licensing board and SMART agency lists
+const HEALTH_LICENSING_BOARDS = 'Health Licensing Boards';
+const SMART_AGENCIES = 'SMART';
+
 function AgencySelect({ value, onChange, error, required = false }: AgencySelectProps) {
+  const [referenceAgencies, setReferenceAgencies] = useState<ReferenceAgency[]>([]);
   const [showHealthBoards, setShowHealthBoards] = useState(false);
   const [showSmartAgencies, setShowSmartAgencies] = useState(false);
   const [selectedHealthBoard, setSelectedHealthBoard] = useState('');
   const [selectedSmartAgency, setSelectedSmartAgency] = useState('');
 
+  useEffect(() => {
+    fetchReferenceAgencies()
+      .then(setReferenceAgencies)
+      .catch(error => {
+        console.error('Error fetching agencies:', error);
+        toast.error('Failed to load the agency list');
+      });
+  }, []);
+
+  const getActiveAgencies = (category: AgencyCategory) =>
+    referenceAgencies.filter(agency => agency.is_active && agency.category === category);
+
+  const agencies = getActiveAgencies('agency');
+  const healthLicensingBoards = getActiveAgencies('health_licensing_board');
+  const smartAgencies = getActiveAgencies('smart_agency');
+
+  const findByName = (list: ReferenceAgency[], name: string) => list.find(agency => agency.name === name);
+
   const handleAgencyChange = (selectedAgencyName: string) => {
-    if (selectedAgencyName === 'Health Licensing Boards') {
+    if (selectedAgencyName === HEALTH_LICENSING_BOARDS) {
       setShowHealthBoards(true);
       setShowSmartAgencies(false);
       setSelectedHealthBoard('');
       setSelectedSmartAgency('');
       // Don't set the agency code yet, wait for health board selection
       onChange(selectedAgencyName, '');
-    } else if (selectedAgencyName === 'SMART') {
+    } else if (selectedAgencyName === SMART_AGENCIES) {
       setShowSmartAgencies(true);
       setShowHealthBoards(false);
       setSelectedHealthBoard('');
@@ -42,7 +59,7 @@ function AgencySelect({ value, onChange, error, required = false }: AgencySelect
       setShowSmartAgencies(false);
       setSelectedHealthBoard('');
       setSelectedSmartAgency('');
-      const agency = findAgencyByName(selectedAgencyName);
+      const agency = findByName(agencies, selectedAgencyName);
       
       if (agency) {
         onChange(agency.name, agency.code);
@@ -55,7 +72,7 @@ function AgencySelect({ value, onChange, error, required = false }: AgencySelect
   const handleHealthBoardChange = (selectedBoardName: string) => {
     setSelectedHealthBoard(selectedBoardName);
     
-    const healthBoard = findHealthLicensingBoardByName(selectedBoardName);
+    const healthBoard = findByName(healthLicensingBoards, selectedBoardName);
     
     if (healthBoard) {
       // Set the agency name to the specific health board name and use its code
@@ -68,7 +85,7 @@ function AgencySelect({ value, onChange, error, required = false }: AgencySelect
   const handleSmartAgencyChange = (selectedSmartAgencyName: string) => {
     setSelectedSmartAgency(selectedSmartAgencyName);
     
-    const smartAgency = findSmartAgencyByName(selectedSmartAgencyName);
+    const smartAgency = findByName(smartAgencies, selectedSmartAgencyName);
     
     if (smartAgency) {
       // Set the agency name to the specific SMART agency name and use its code
@@ -80,16 +97,20 @@ function AgencySelect({ value, onChange, error, required = false }: AgencySelect
 
   // Determine what to show in the main dropdown
   const getMainDropdownValue = () => {
-    if (showHealthBoards) return 'Health Licensing Boards';
-    if (showSmartAgencies) return 'SMART';
+    if (showHealthBoards) return HEALTH_LICENSING_BOARDS;
+    if (showSmartAgencies) return SMART_AGENCIES;
     return value;
   };
 
-  // Convert agencies to options format for SearchableSelect
-  const agencyOptions = agencies.map(agency => ({
-    value: agency.name,
-    label: agency.name
-  }));
+  // Convert agencies to options format for SearchableSelect, with an entry for
+  // each of the other lists, in alphabetical order
+  const agencyOptions = [
+    ...agencies.map(agency => agency.name),
+    ...(healthLicensingBoards.length > 0 ? [HEALTH_LICENSING_BOARDS] : []),
+    ...(smartAgencies.length > 0 ? [SMART_AGENCIES] : [])
+  ]
+    .sort((a, b) => a.localeCompare(b))
+    .map(name => ({ value: name, label: name }));
 
   // Convert health licensing boards to options format
   const healthBoardOptions = healthLicensingBoards.map(board => ({
@@ -0,0 +1,248 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DirectoryEntry,
+  DirectoryRole,
+  directoryRoleLabels,
+  fetchApproverDirectory,
+  removeDirectoryEntry,
+  saveDirectoryEntry
+} from '../lib/approverDirectory';
+import { fetchReferenceAgencies, ReferenceAgency } from '../lib/referenceData';
+
+const emptyEntry: DirectoryEntry = {
+  agency_code: '',
+  role: 'security_admin',
+  approver_name: '',
+  approver_email: ''
+};
+
+const emailPattern = /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i;
+
+// The approvers each agency's requests are routed to. Saving an entry for an
+// agency and role that is already listed replaces it.
+function ApproverDirectoryAdmin() {
+  const [entries, setEntries] = useState<DirectoryEntry[]>([]);
+  const [agencies, setAgencies] = useState<ReferenceAgency[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState<DirectoryEntry>(emptyEntry);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadDirectory = async () => {
+      try {
+        setLoading(true);
+        const [directory, referenceAgencies] = await Promise.all([fetchApproverDirectory(), fetchReferenceAgencies()]);
+        setEntries(directory);
+        setAgencies(referenceAgencies);
+      } catch (error) {
+        console.error('Error fetching the approver directory:', error);
+        toast.error('Failed to load the approver directory');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDirectory();
+  }, [reloadKey]);
+
+  const agencyNames = new Map(agencies.map(agency => [agency.code, agency.name]));
+  const activeAgencies = agencies.filter(agency => agency.is_active);
+
+  const updateDraft = (changes: Partial<DirectoryEntry>) => setDraft(current => ({ ...current, ...changes }));
+
+  const isReplacing = entries.some(entry => entry.agency_code === draft.agency_code && entry.role === draft.role);
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!draft.agency_code || !draft.approver_name.trim()) {
+      toast.error('Choose an agency and enter the approver name');
+      return;
+    }
+    if (!emailPattern.test(draft.approver_email.trim())) {
+      toast.error('Enter a valid approver email address');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveDirectoryEntry(draft);
+      toast.success(`${directoryRoleLabels[draft.role]} saved for ${draft.agency_code}`);
+      setDraft(emptyEntry);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error saving approver:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the approver');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: DirectoryEntry) => {
+    if (!window.confirm(`Remove ${entry.approver_name} as ${directoryRoleLabels[entry.role]} for ${entry.agency_code}?`)) {
+      return;
+    }
+
+    try {
+      await removeDirectoryEntry(entry.agency_code, entry.role);
+      toast.success('Approver removed');
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error removing approver:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove the approver');
+    }
+  };
+
+  const searchText = search.trim().toLowerCase();
+  const visibleEntries = entries.filter(entry =>
+    !searchText || [entry.agency_code, agencyNames.get(entry.agency_code), entry.approver_name, entry.approver_email]
+      .some(value => value?.toLowerCase().includes(searchText))
+  );
+
+  const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500">
+        Request forms fill in the security administrator, accounting director/CFO and ELM key administrator
+        from this directory, and HR / Payroll requests are always routed to the agency's HR director.
+        An agency with no HR director listed cannot submit HR / Payroll requests.
+      </p>
+
+      <form onSubmit={handleSave} className="bg-white shadow rounded-lg p-6 grid grid-cols-1 gap-4 md:grid-cols-5 md:items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Agency</label>
+          <select
+            value={draft.agency_code}
+            onChange={(e) => updateDraft({ agency_code: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select agency</option>
+            {activeAgencies.map(agency => (
+              <option key={agency.code} value={agency.code}>{agency.code} · {agency.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Role</label>
+          <select
+            value={draft.role}
+            onChange={(e) => updateDraft({ role: e.target.value as DirectoryRole })}
+            className={inputClassName}
+          >
+            {(Object.keys(directoryRoleLabels) as DirectoryRole[]).map(role => (
+              <option key={role} value={role}>{directoryRoleLabels[role]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Name</label>
+          <input
+            type="text"
+            value={draft.approver_name}
+            onChange={(e) => updateDraft({ approver_name: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Email</label>
+          <input
+            type="email"
+            value={draft.approver_email}
+            onChange={(e) => updateDraft({ approver_email: e.target.value })}
+            placeholder="approver@state.mn.us"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex space-x-3">
+          <button
+            type="submit"
+            disabled={saving || loading}
+            className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : isReplacing ? 'Replace Approver' : 'Add Approver'}
+          </button>
+          {draft !== emptyEntry && (
+            <button
+              type="button"
+              onClick={() => setDraft(emptyEntry)}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <p className="text-sm text-gray-500">{entries.length} approver{entries.length === 1 ? '' : 's'}</p>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by agency, name or email"
+            className="w-72 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agency</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approver</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleEntries.map(entry => (
+                <tr key={`${entry.agency_code}-${entry.role}`}>
+                  <td className="px-6 py-3 text-sm">
+                    <span className="font-mono">{entry.agency_code}</span>
+                    {agencyNames.has(entry.agency_code) && (
+                      <span className="ml-2 text-gray-500">{agencyNames.get(entry.agency_code)}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">{directoryRoleLabels[entry.role]}</td>
+                  <td className="px-6 py-3 text-sm">
+                    {entry.approver_name}
+                    <span className="ml-2 text-gray-500">({entry.approver_email})</span>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right text-sm space-x-3">
+                    <button
+                      onClick={() => setDraft(entry)}
+                      className="inline-flex items-center text-blue-600 hover:text-blue-800"
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleRemove(entry)}
+                      className="inline-flex items-center text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ApproverDirectoryAdmin;
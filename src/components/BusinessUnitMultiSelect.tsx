@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  fetchReferenceAgencies,
+  fetchReferenceBusinessUnits,
+  getBusinessUnitAgencyCode,
+  ReferenceAgency,
+  ReferenceBusinessUnit
+} from '../lib/referenceData';
+import SearchableSelect from './SearchableSelect';
+
+interface BusinessUnitMultiSelectProps {
+  label: string;
+  value: string[];
+  onChange: (codes: string[]) => void;
+  // The request's agency; units from other agencies are flagged
+  agencyCode?: string;
+  description?: string;
+  error?: string;
+}
+
+// Chips for the chosen business units, with a searchable list to add more.
+// Only known business unit codes can be added.
+function BusinessUnitMultiSelect({ label, value, onChange, agencyCode, description, error }: BusinessUnitMultiSelectProps) {
+  const [businessUnits, setBusinessUnits] = useState<ReferenceBusinessUnit[]>([]);
+  const [agencies, setAgencies] = useState<ReferenceAgency[]>([]);
+
+  useEffect(() => {
+    Promise.all([fetchReferenceBusinessUnits(), fetchReferenceAgencies()])
+      .then(([units, agencyList]) => {
+        setBusinessUnits(units);
+        setAgencies(agencyList);
+      })
+      .catch(error => {
+        console.error('Error fetching business units:', error);
+        toast.error('Failed to load the business unit list');
+      });
+  }, []);
+
+  const findUnit = (code: string) => businessUnits.find(unit => unit.code === code && unit.is_active);
+  const isOtherAgency = (code: string) => !!agencyCode && getBusinessUnitAgencyCode(code) !== agencyCode;
+
+  const options = businessUnits
+    .filter(unit => unit.is_active && !value.includes(unit.code))
+    .map(unit => ({ value: unit.code, label: `${unit.code} - ${unit.description}` }));
+
+  const otherAgencyUnits = value.filter(code => findUnit(code) && isOtherAgency(code));
+  const otherAgencyNames = Array.from(new Set(otherAgencyUnits.map(code => {
+    const agency = agencies.find(a => a.code === getBusinessUnitAgencyCode(code));
+    return agency ? `${agency.name} (${agency.code})` : getBusinessUnitAgencyCode(code);
+  })));
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      {description && <p className="text-sm text-gray-500 mb-2">{description}</p>}
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-1 mb-2">
+          {value.map(code => {
+            const unit = findUnit(code);
+            // Codes saved before they were validated may not be in the list
+            const chipClass = !unit
+              ? 'bg-red-100 text-red-800'
+              : isOtherAgency(code) ? 'bg-yellow-100 text-yellow-800' : 'bg-blue-100 text-blue-800';
+
+            return (
+              <span
+                key={code}
+                title={unit ? unit.description : 'Not a known business unit'}
+                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${chipClass}`}
+              >
+                {code}
+                {unit && <span className="ml-1 font-normal">{unit.description}</span>}
+                {!unit && <span className="ml-1 font-normal">(unknown)</span>}
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter(selected => selected !== code))}
+                  className="ml-1 rounded-full hover:bg-black hover:bg-opacity-10"
+                  aria-label={`Remove ${code}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <SearchableSelect
+        options={options}
+        value=""
+        onChange={(code) => code && onChange([...value, code])}
+        placeholder="Add a business unit..."
+        searchPlaceholder="Search by code or name..."
+        error={error}
+      />
+
+      {otherAgencyUnits.length > 0 && (
+        <p className="mt-2 flex items-start text-sm text-yellow-700">
+          <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+          {otherAgencyUnits.join(', ')} {otherAgencyUnits.length === 1 ? 'belongs' : 'belong'} to{' '}
+          {otherAgencyNames.join(', ')}, not the request's agency ({agencyCode}). Make sure this access is intended.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default BusinessUnitMultiSelect;
@@ -1,5 +1,6 @@
-import React from 'react';
-import { businessUnits, findBusinessUnitByDescription } from '../lib/businessUnitData';
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { fetchReferenceBusinessUnits, ReferenceBusinessUnit } from '../lib/referenceData';
 import SearchableSelect from './SearchableSelect';
 
 interface BusinessUnitSelectProps {
@@ -17,11 +18,22 @@ function BusinessUnitSelect({
   error, 
   required = false 
 }: BusinessUnitSelectProps) {
+  const [businessUnits, setBusinessUnits] = useState<ReferenceBusinessUnit[]>([]);
+
+  useEffect(() => {
+    fetchReferenceBusinessUnits()
+      .then(units => setBusinessUnits(units.filter(unit => unit.is_active)))
+      .catch(error => {
+        console.error('Error fetching business units:', error);
+        toast.error('Failed to load the business unit list');
+      });
+  }, []);
+
   const handleBusinessUnitChange = (selectedDescription: string) => {
-    const businessUnit = findBusinessUnitByDescription(selectedDescription);
+    const businessUnit = businessUnits.find(unit => unit.description === selectedDescription);
     
     if (businessUnit) {
-      onBusinessUnitChange(businessUnit.description, businessUnit.businessUnit);
+      onBusinessUnitChange(businessUnit.description, businessUnit.code);
     } else {
       onBusinessUnitChange(selectedDescription, '');
     }
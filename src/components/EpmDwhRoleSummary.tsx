@@ -0,0 +1,51 @@
+import SelectedRoleList from './SelectedRoleList';
+
+interface EpmDwhRoleSummaryProps {
+  selections: Record<string, unknown> | null;
+}
+
+function EpmDwhRoleSummary({ selections }: EpmDwhRoleSummaryProps) {
+  if (!selections) return null;
+
+  const settings = [
+    { label: 'Home Business Unit', value: selections.home_business_unit },
+    { label: 'Other Business Units', value: selections.other_business_units },
+    { label: 'SEMA4 Agency/Department Codes', value: selections.raps_sema4_codes }
+  ].filter(setting => typeof setting.value === 'string' && setting.value !== '');
+
+  return (
+    <div className="space-y-4">
+      {settings.length > 0 && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          {settings.map(setting => (
+            <div key={setting.label} className="bg-gray-50 p-3 rounded-lg">
+              <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                {setting.label}
+              </dt>
+              <dd className="mt-1 text-sm text-gray-900">{setting.value as string}</dd>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SelectedRoleList
+        table="epm_dwh_role_selections"
+        selections={selections}
+        emptyText="No EPM Data Warehouse roles selected."
+      />
+
+      {typeof selections.role_justification === 'string' && selections.role_justification && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Role Justification:</h3>
+          <div className="bg-yellow-50 p-3 rounded-lg">
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">
+              {selections.role_justification}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EpmDwhRoleSummary;
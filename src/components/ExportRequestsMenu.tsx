@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { buildRequestExport } from '../lib/requestExport';
+import { downloadBlob, toCsv, toXlsx } from '../lib/spreadsheet';
+
+interface ExportRequestsMenuProps {
+  requestCount: number;
+  // IDs of every request in the current view, across all pages
+  loadRequestIds: () => Promise<string[]>;
+}
+
+type ExportFormat = 'csv' | 'xlsx';
+
+function ExportRequestsMenu({ requestCount, loadRequestIds }: ExportRequestsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [includeRoles, setIncludeRoles] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (fileFormat: ExportFormat) => {
+    setExporting(fileFormat);
+
+    try {
+      const requestIds = await loadRequestIds();
+      const { columns, rows } = await buildRequestExport(requestIds, includeRoles);
+      const fileName = `security-role-requests-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`;
+
+      downloadBlob(
+        fileFormat === 'csv' ? toCsv(columns, rows) : toXlsx('Requests', columns, rows),
+        fileName
+      );
+
+      toast.success(`Exported ${rows.length} request${rows.length === 1 ? '' : 's'}`);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error exporting requests:', error);
+      toast.error('Failed to export requests. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={requestCount === 0}
+        className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 w-64 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 p-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            Exports the {requestCount} request{requestCount === 1 ? '' : 's'} in the current view,
+            with security areas, approval statuses and completion details.
+          </p>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeRoles}
+              onChange={(e) => setIncludeRoles(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 h-4 w-4 mr-2"
+            />
+            Include role selections
+          </label>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={exporting !== null}
+              className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FileText className="h-4 w-4 mr-1" />
+              {exporting === 'csv' ? 'Exporting...' : 'CSV'}
+            </button>
+            <button
+              onClick={() => handleExport('xlsx')}
+              disabled={exporting !== null}
+              className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <FileSpreadsheet className="h-4 w-4 mr-1" />
+              {exporting === 'xlsx' ? 'Exporting...' : 'Excel'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportRequestsMenu;
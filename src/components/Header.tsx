@@ -1,12 +1,14 @@
 import React from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { List, Shield } from 'lucide-react';
+import { Database, Inbox, List, Shield } from 'lucide-react';
 import UserSession from './UserSession';
+import { SessionUser } from '../types';
+import { fetchIsReferenceDataAdmin } from '../lib/referenceData';
 
 interface HeaderProps {
   title?: string;
   subtitle?: string;
-  onUserChange?: (userName: string | null) => void;
+  onUserChange?: (user: SessionUser | null) => void;
 }
 
 function Header({ title, subtitle, onUserChange }: HeaderProps) {
@@ -20,6 +22,15 @@ function Header({ title, subtitle, onUserChange }: HeaderProps) {
     return localStorage.getItem('testMode') === 'true';
   });
 
+  // Reference data admins get a link to the admin screen
+  const [isReferenceDataAdmin, setIsReferenceDataAdmin] = React.useState(false);
+
+  React.useEffect(() => {
+    fetchIsReferenceDataAdmin()
+      .then(setIsReferenceDataAdmin)
+      .catch(() => setIsReferenceDataAdmin(false));
+  }, []);
+
   // Reset test mode when navigating to main page
   React.useEffect(() => {
     if (isMainPage) {
@@ -158,6 +169,22 @@ function Header({ title, subtitle, onUserChange }: HeaderProps) {
                 <List className="h-4 w-4 mr-2" />
                 View Requests
               </Link>
+              <Link
+                to="/approvals"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Inbox className="h-4 w-4 mr-2" />
+                My Approvals
+              </Link>
+              {isReferenceDataAdmin && (
+                <Link
+                  to="/admin/reference-data"
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Database className="h-4 w-4 mr-2" />
+                  Reference Data
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -192,6 +219,22 @@ function Header({ title, subtitle, onUserChange }: HeaderProps) {
                   <List className="h-4 w-4 mr-2" />
                   View Requests
                 </Link>
+                <Link
+                  to="/approvals"
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Inbox className="h-4 w-4 mr-2" />
+                  My Approvals
+                </Link>
+                {isReferenceDataAdmin && (
+                  <Link
+                    to="/admin/reference-data"
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <Database className="h-4 w-4 mr-2" />
+                    Reference Data
+                  </Link>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,39 @@
+import { AlertCircle, UserCheck } from 'lucide-react';
+import { AgencyApprovers } from '../lib/approverDirectory';
+
+interface HrApproverNoticeProps {
+  // null while the agency's approvers are loading
+  approvers: AgencyApprovers | null;
+  agencyCode?: string;
+}
+
+// Who HR / Payroll requests for the selected agency are routed to. The approver
+// comes from the agency approver directory and cannot be changed on the form.
+function HrApproverNotice({ approvers, agencyCode }: HrApproverNoticeProps) {
+  if (!agencyCode || !approvers) return null;
+
+  const hrDirector = approvers.hr_director;
+
+  if (!hrDirector) {
+    return (
+      <div className="flex items-start rounded-md bg-red-50 p-3 text-sm text-red-700">
+        <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+        <p>
+          No HR director is listed in the approver directory for agency {agencyCode}, so HR / Payroll
+          requests cannot be routed. Please ask a reference data administrator to add one.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start rounded-md bg-blue-50 p-3 text-sm text-blue-700">
+      <UserCheck className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+      <p>
+        HR / Payroll approval is routed to <span className="font-medium">{hrDirector.approver_name}</span> ({hrDirector.approver_email}).
+      </p>
+    </div>
+  );
+}
+
+export default HrApproverNotice;
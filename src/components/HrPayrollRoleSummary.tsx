@@ -0,0 +1,61 @@
+import SelectedRoleList from './SelectedRoleList';
+
+interface HrPayrollRoleSummaryProps {
+  selections: Record<string, unknown> | null;
+}
+
+function HrPayrollRoleSummary({ selections }: HrPayrollRoleSummaryProps) {
+  if (!selections) return null;
+
+  // Agency / Department ID access settings
+  const accessSettings = [
+    {
+      label: 'Access Type',
+      value: selections.add_access_type === 'agency'
+        ? 'By Agency'
+        : selections.add_access_type === 'department'
+          ? 'By Department ID'
+          : null
+    },
+    { label: 'Agency Codes', value: selections.agency_codes },
+    { label: 'Department ID', value: selections.department_id },
+    { label: 'Prohibited Department IDs', value: selections.prohibited_department_ids },
+    { label: 'Delete Access', value: selections.delete_access_codes }
+  ].filter(setting => typeof setting.value === 'string' && setting.value !== '');
+
+  return (
+    <div className="space-y-4">
+      {accessSettings.length > 0 && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          {accessSettings.map(setting => (
+            <div key={setting.label} className="bg-gray-50 p-3 rounded-lg">
+              <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                {setting.label}
+              </dt>
+              <dd className="mt-1 text-sm text-gray-900">{setting.value as string}</dd>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SelectedRoleList
+        table="hr_payroll_role_selections"
+        selections={selections}
+        emptyText="No HR/Payroll roles selected."
+      />
+
+      {typeof selections.role_justification === 'string' && selections.role_justification && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Role Justification:</h3>
+          <div className="bg-yellow-50 p-3 rounded-lg">
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">
+              {selections.role_justification}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HrPayrollRoleSummary;
@@ -0,0 +1,74 @@
+import { FieldErrors, UseFormRegister } from 'react-hook-form';
+import { isAfter, parseISO } from 'date-fns';
+import { SecurityRoleRequest } from '../types';
+import { nonEmployeeTypeLabels } from '../lib/nonEmployeeAccess';
+
+interface NonEmployeeFieldsProps {
+  register: UseFormRegister<SecurityRoleRequest>;
+  errors: FieldErrors<SecurityRoleRequest>;
+  startDate?: string;
+}
+
+// Contractor details shown when the request is for a non-employee. Access is
+// removed automatically once the end date passes.
+function NonEmployeeFields({ register, errors, startDate }: NonEmployeeFieldsProps) {
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+      <h4 className="text-sm font-medium text-gray-900">Non-Employee Details</h4>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Non-Employee Type*</label>
+          <select
+            {...register('nonEmployeeType', { required: 'Non-employee type is required' })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">Select type...</option>
+            {Object.entries(nonEmployeeTypeLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {errors.nonEmployeeType && (
+            <p className="mt-1 text-sm text-red-600">{errors.nonEmployeeType.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Access End Date*</label>
+          <input
+            type="date"
+            {...register('accessEndDate', {
+              required: 'Access end date is required for non-employees',
+              validate: value =>
+                !value || !startDate || isAfter(parseISO(value), parseISO(startDate)) ||
+                'Access end date must be after the start date'
+            })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          {errors.accessEndDate && (
+            <p className="mt-1 text-sm text-red-600">{errors.accessEndDate.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Security Measures*</label>
+        <textarea
+          {...register('securityMeasures', { required: 'Describe the security measures in place for this non-employee' })}
+          rows={3}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          placeholder="Contract terms, background check, data access agreement, supervising employee..."
+        />
+        {errors.securityMeasures && (
+          <p className="mt-1 text-sm text-red-600">{errors.securityMeasures.message}</p>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        The security administrator is notified before this date and a removal request is created automatically once it passes.
+      </p>
+    </div>
+  );
+}
+
+export default NonEmployeeFields;
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { describeAccessEntry, formatRoleName } from '../lib/userAccess';
+import { stepLabels } from '../lib/approvalSteps';
+
+interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id: string | null;
+  action: 'insert' | 'update' | 'delete';
+  changed_fields: string[];
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  changed_by_email: string | null;
+  changed_at: string;
+}
+
+interface RequestHistoryProps {
+  requestId: string;
+}
+
+const tableLabels: Record<string, string> = {
+  security_role_requests: 'Request',
+  security_areas: 'Security area',
+  security_role_selections: 'Accounting / Procurement and ELM roles',
+  hr_payroll_role_selections: 'HR / Payroll roles',
+  epm_dwh_role_selections: 'EPM / Data Warehouse roles',
+  copy_user_details: 'Copy user details',
+  request_approvals: 'Approval',
+  request_role_removals: 'Role removal',
+  request_sod_justifications: 'Mitigating control justification'
+};
+
+const actionLabels: Record<AuditLogEntry['action'], string> = {
+  insert: 'added',
+  update: 'changed',
+  delete: 'removed'
+};
+
+const actionStyles: Record<AuditLogEntry['action'], string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+// Bookkeeping columns that would only add noise to the history
+const hiddenFields = ['id', 'request_id', 'created_at', 'updated_at'];
+
+const roleTables = ['security_role_selections', 'hr_payroll_role_selections', 'epm_dwh_role_selections'];
+
+const getFieldLabel = (table: string, field: string) =>
+  roleTables.includes(table) ? describeAccessEntry(table, field).label : formatRoleName(field);
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '' || value === false;
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'signature_data') return 'Signature';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Short description of the row a change applies to, such as which approval step
+const getRecordLabel = (entry: AuditLogEntry) => {
+  const values = entry.new_values || entry.old_values || {};
+  const table = tableLabels[entry.table_name] || formatRoleName(entry.table_name);
+
+  if (entry.table_name === 'request_approvals' && typeof values.step === 'string') {
+    return `${table}: ${stepLabels[values.step] || formatRoleName(values.step)}`;
+  }
+  if (entry.table_name === 'security_areas' && typeof values.area_type === 'string') {
+    return `${table}: ${formatRoleName(values.area_type)}`;
+  }
+  if (entry.table_name === 'request_role_removals' && typeof values.role_label === 'string') {
+    return `${table}: ${values.role_label}`;
+  }
+  return table;
+};
+
+function RequestHistory({ requestId }: RequestHistoryProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('request_audit_log')
+          .select('*')
+          .eq('request_id', requestId)
+          .order('changed_at', { ascending: false });
+
+        if (error) throw error;
+        setEntries(data || []);
+      } catch (err) {
+        console.error('Error fetching request history:', err);
+        toast.error('Failed to load request history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [requestId]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No changes have been recorded for this request.</p>;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {entries.map(entry => {
+        const values = entry.action === 'delete' ? entry.old_values : entry.new_values;
+        // Added and removed rows list only what was filled in or switched on
+        const fields = entry.changed_fields.filter(field =>
+          !hiddenFields.includes(field) &&
+          (entry.action === 'update' || !isBlank(values?.[field]))
+        );
+
+        return (
+          <li key={entry.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center">
+                <History className="h-4 w-4 text-gray-400 mr-2" />
+                <span className="text-sm font-medium text-gray-900">{getRecordLabel(entry)}</span>
+                <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${actionStyles[entry.action]}`}>
+                  {actionLabels[entry.action]}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {entry.changed_by_email || 'System'} · {new Date(entry.changed_at).toLocaleString()}
+              </div>
+            </div>
+
+            {fields.length > 0 && (
+              <dl className="mt-3 space-y-1">
+                {fields.map(field => (
+                  <div key={field} className="grid grid-cols-3 gap-2 text-sm">
+                    <dt className="text-gray-500">{getFieldLabel(entry.table_name, field)}</dt>
+                    <dd className="col-span-2 text-gray-900 break-words">
+                      {entry.action === 'update' && (
+                        <>
+                          <span className="line-through text-gray-400">
+                            {formatValue(field, entry.old_values?.[field])}
+                          </span>
+                          {' → '}
+                        </>
+                      )}
+                      {formatValue(field, values?.[field])}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default RequestHistory;
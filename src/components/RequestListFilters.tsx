@@ -0,0 +1,218 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { fetchReferenceAgencies, ReferenceAgency } from '../lib/referenceData';
+import { securityAreaLabels, securityAreaOrder, SecurityAreaType } from '../lib/securityAreas';
+import {
+  defaultRequestFilters,
+  hasActiveFilters,
+  RequestListFilters as Filters,
+  RequestSortField,
+  requestSortLabels,
+  requestStatuses
+} from '../lib/requestFilters';
+
+interface RequestListFiltersProps {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+type TextFilter = 'search' | 'submitter' | 'approver';
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+const labelClassName = 'block text-xs font-medium text-gray-500 uppercase tracking-wide';
+
+function RequestListFilters({ filters, onChange }: RequestListFiltersProps) {
+  // Text filters apply when the form is submitted rather than on every keystroke
+  const [draft, setDraft] = useState<Pick<Filters, TextFilter>>({
+    search: filters.search,
+    submitter: filters.submitter,
+    approver: filters.approver
+  });
+
+  useEffect(() => {
+    setDraft({ search: filters.search, submitter: filters.submitter, approver: filters.approver });
+  }, [filters.search, filters.submitter, filters.approver]);
+
+  // Inactive agencies stay in the list so older requests can still be found
+  const [agencies, setAgencies] = useState<ReferenceAgency[]>([]);
+
+  useEffect(() => {
+    fetchReferenceAgencies()
+      .then(setAgencies)
+      .catch(error => console.error('Error fetching agencies:', error));
+  }, []);
+
+  // Any filter change starts again from the first page
+  const update = (changes: Partial<Filters>) => {
+    onChange({ ...filters, ...changes, page: 1 });
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    update(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-4 mb-6 space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="md:col-span-3">
+          <label htmlFor="request-search" className={labelClassName}>Search</label>
+          <div className="mt-1 flex rounded-md shadow-sm">
+            <input
+              id="request-search"
+              type="search"
+              value={draft.search}
+              onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+              placeholder="Employee name, employee ID or email"
+              className="block w-full rounded-l-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 rounded-r-md border border-l-0 border-gray-300 bg-gray-50 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="request-status" className={labelClassName}>Status</label>
+          <select
+            id="request-status"
+            value={filters.status}
+            onChange={(e) => update({ status: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">All statuses</option>
+            {requestStatuses.map(status => (
+              <option key={status} value={status}>
+                {status.charAt(0).toUpperCase() + status.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="request-area" className={labelClassName}>Security Area</label>
+          <select
+            id="request-area"
+            value={filters.area}
+            onChange={(e) => update({ area: e.target.value as SecurityAreaType | '' })}
+            className={inputClassName}
+          >
+            <option value="">All areas</option>
+            {securityAreaOrder.map(area => (
+              <option key={area} value={area}>{securityAreaLabels[area]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="request-agency" className={labelClassName}>Agency</label>
+          <select
+            id="request-agency"
+            value={filters.agency}
+            onChange={(e) => update({ agency: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">All agencies</option>
+            {agencies.map(agency => (
+              <option key={agency.code} value={agency.code}>{agency.name} ({agency.code})</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="request-from" className={labelClassName}>Submitted From</label>
+          <input
+            id="request-from"
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => update({ from: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="request-to" className={labelClassName}>Submitted To</label>
+          <input
+            id="request-to"
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => update({ to: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="request-sort" className={labelClassName}>Sort By</label>
+          <div className="flex space-x-2">
+            <select
+              id="request-sort"
+              value={filters.sort}
+              onChange={(e) => update({ sort: e.target.value as RequestSortField })}
+              className={inputClassName}
+            >
+              {(Object.keys(requestSortLabels) as RequestSortField[]).map(field => (
+                <option key={field} value={field}>{requestSortLabels[field]}</option>
+              ))}
+            </select>
+            <select
+              aria-label="Sort direction"
+              value={filters.ascending ? 'asc' : 'desc'}
+              onChange={(e) => update({ ascending: e.target.value === 'asc' })}
+              className={inputClassName}
+            >
+              <option value="desc">Descending</option>
+              <option value="asc">Ascending</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="request-submitter" className={labelClassName}>Submitter</label>
+          <input
+            id="request-submitter"
+            type="text"
+            value={draft.submitter}
+            onChange={(e) => setDraft({ ...draft, submitter: e.target.value })}
+            onBlur={() => draft.submitter !== filters.submitter && update({ submitter: draft.submitter })}
+            placeholder="Name or email"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="request-approver" className={labelClassName}>Pending Approver</label>
+          <input
+            id="request-approver"
+            type="email"
+            value={draft.approver}
+            onChange={(e) => setDraft({ ...draft, approver: e.target.value })}
+            onBlur={() => draft.approver !== filters.approver && update({ approver: draft.approver })}
+            placeholder="approver@state.mn.us"
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="flex items-end">
+          {hasActiveFilters(filters) && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...defaultRequestFilters, sort: filters.sort, ascending: filters.ascending })}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear Filters
+            </button>
+          )}
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default RequestListFilters;
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  fetchRequestRevisions,
+  RequestRevision,
+  RequestSnapshot,
+  revisionSectionEffects,
+  revisionSectionLabels
+} from '../lib/requestRevisions';
+import { describeAccessEntry, formatAccessValue, formatRoleName, toAccessEntries } from '../lib/userAccess';
+import { securityAreaLabels, SecurityAreaType } from '../lib/securityAreas';
+
+interface RequestRevisionsProps {
+  requestId: string;
+}
+
+// Request fields shown for a revision, in form order
+const requestFields: [string, string][] = [
+  ['request_type', 'Request Type'],
+  ['employee_name', 'Employee Name'],
+  ['employee_id', 'Employee ID'],
+  ['start_date', 'Start Date'],
+  ['non_employee_type', 'Non-Employee Type'],
+  ['access_end_date', 'Access End Date'],
+  ['security_measures', 'Security Measures'],
+  ['email', 'Email'],
+  ['work_phone', 'Work Phone'],
+  ['work_location', 'Work Location'],
+  ['agency_name', 'Agency'],
+  ['agency_code', 'Agency Code'],
+  ['justification', 'Justification'],
+  ['submitter_name', 'Submitter'],
+  ['submitter_email', 'Submitter Email'],
+  ['supervisor_name', 'Supervisor'],
+  ['supervisor_email', 'Supervisor Email'],
+  ['security_admin_name', 'Security Administrator'],
+  ['security_admin_email', 'Security Administrator Email']
+];
+
+function RevisionSnapshot({ snapshot }: { snapshot: RequestSnapshot }) {
+  const fields = requestFields.filter(([key]) => {
+    const value = snapshot.request[key];
+    return value !== null && value !== undefined && value !== '';
+  });
+
+  const roles = Object.entries(snapshot.role_selections || {}).flatMap(([table, row]) =>
+    toAccessEntries(table, row).map(entry => ({
+      key: `${table}.${entry.role_column}`,
+      value: entry.value,
+      ...describeAccessEntry(table, entry.role_column)
+    }))
+  );
+
+  return (
+    <div className="mt-4 space-y-4">
+      <dl className="grid grid-cols-1 gap-x-4 gap-y-3 sm:grid-cols-2">
+        {fields.map(([key, label]) => (
+          <div key={key}>
+            <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">{label}</dt>
+            <dd className="mt-1 text-sm text-gray-900 break-words">{String(snapshot.request[key])}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {snapshot.security_areas.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Security Areas</h4>
+          <ul className="text-sm text-gray-900 space-y-1">
+            {snapshot.security_areas.map(area => (
+              <li key={area.area_type}>
+                {securityAreaLabels[area.area_type as SecurityAreaType] || formatRoleName(area.area_type)}
+                {area.director_name && ` - ${area.director_name}`}
+                {area.director_email && ` (${area.director_email})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {snapshot.copy_user_details && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Copy User Access</h4>
+          <p className="text-sm text-gray-900">
+            {String(snapshot.copy_user_details.copy_user_name || '')}
+            {snapshot.copy_user_details.copy_user_employee_id
+              ? ` (${String(snapshot.copy_user_details.copy_user_employee_id)})`
+              : ''}
+          </p>
+        </div>
+      )}
+
+      {roles.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Roles and Settings</h4>
+          <div className="flex flex-wrap gap-2">
+            {roles.map(role => (
+              <span
+                key={role.key}
+                title={role.group}
+                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+              >
+                {role.label}
+                {role.value !== true && `: ${formatAccessValue(role.value)}`}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {snapshot.role_removals.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Roles to Remove</h4>
+          <div className="flex flex-wrap gap-2">
+            {snapshot.role_removals.map(removal => (
+              <span
+                key={`${removal.role_table}.${removal.role_column}`}
+                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+              >
+                {removal.role_label}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RequestRevisions({ requestId }: RequestRevisionsProps) {
+  const [revisions, setRevisions] = useState<RequestRevision[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      try {
+        setRevisions(await fetchRequestRevisions(requestId));
+      } catch (err) {
+        console.error('Error fetching request revisions:', err);
+        toast.error('Failed to load request revisions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [requestId]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading revisions...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No revisions have been recorded for this request yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {revisions.map((revision, index) => {
+        const expanded = expandedId === revision.id;
+
+        return (
+          <li key={revision.id} className="border border-gray-200 rounded-lg p-4">
+            <button
+              type="button"
+              onClick={() => setExpandedId(expanded ? null : revision.id)}
+              className="w-full flex flex-wrap items-center justify-between gap-2 text-left"
+            >
+              <div className="flex items-center">
+                {expanded
+                  ? <ChevronDown className="h-4 w-4 text-gray-400 mr-2" />
+                  : <ChevronRight className="h-4 w-4 text-gray-400 mr-2" />}
+                <FileText className="h-4 w-4 text-gray-400 mr-2" />
+                <span className="text-sm font-medium text-gray-900">Revision {revision.revision_number}</span>
+                {index === 0 && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    Current
+                  </span>
+                )}
+              </div>
+              <span className="text-xs text-gray-500">
+                {revision.created_by_email || 'System'} · {new Date(revision.created_at).toLocaleString()}
+              </span>
+            </button>
+
+            {revision.changed_sections.length > 0 ? (
+              <ul className="mt-2 ml-12 text-xs text-gray-600 space-y-0.5">
+                {revision.changed_sections.map(section => (
+                  <li key={section}>
+                    <span className="font-medium">{revisionSectionLabels[section]} changed</span>
+                    {' - '}{revisionSectionEffects[section]}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-2 ml-12 text-xs text-gray-600">
+                {revision.revision_number === 1 ? 'Submitted request' : 'No changes to the request content'}
+              </p>
+            )}
+
+            {expanded && <RevisionSnapshot snapshot={revision.snapshot} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default RequestRevisions;
@@ -0,0 +1,86 @@
+import { MinusCircle } from 'lucide-react';
+import { GrantedRole, getRoleKey } from '../lib/userAccess';
+
+interface RoleRemovalSelectProps {
+  roles: GrantedRole[];
+  selectedKeys: string[];
+  onChange: (selectedKeys: string[]) => void;
+  removeAll: boolean;
+  onRemoveAllChange?: (removeAll: boolean) => void;
+  error?: string;
+}
+
+// Checklist of a user's current roles for picking the ones to revoke
+function RoleRemovalSelect({ roles, selectedKeys, onChange, removeAll, onRemoveAllChange, error }: RoleRemovalSelectProps) {
+  const groups = roles.reduce((acc: { group: string; roles: GrantedRole[] }[], role) => {
+    const existing = acc.find(g => g.group === role.group);
+    if (existing) {
+      existing.roles.push(role);
+    } else {
+      acc.push({ group: role.group, roles: [role] });
+    }
+    return acc;
+  }, []);
+
+  const toggleRole = (key: string) => {
+    onChange(selectedKeys.includes(key)
+      ? selectedKeys.filter(k => k !== key)
+      : [...selectedKeys, key]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center">
+        <MinusCircle className="h-5 w-5 text-red-500 mr-2" />
+        <h4 className="text-sm font-medium text-gray-900">Roles to Remove</h4>
+      </div>
+
+      {onRemoveAllChange && (
+        <label className="inline-flex items-center">
+          <input
+            type="checkbox"
+            checked={removeAll}
+            onChange={(e) => onRemoveAllChange(e.target.checked)}
+            className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+          />
+          <span className="ml-2 text-sm font-medium text-gray-700">Remove all access (termination)</span>
+        </label>
+      )}
+
+      {roles.length === 0 ? (
+        <p className="text-sm text-gray-500">No roles were found in this user's current access.</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.group}>
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">{group.group}</p>
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {group.roles.map(role => {
+                  const key = getRoleKey(role);
+                  return (
+                    <label key={key} className="inline-flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={removeAll || selectedKeys.includes(key)}
+                        disabled={removeAll}
+                        onChange={() => toggleRole(key)}
+                        className="rounded border-gray-300 text-red-600 focus:ring-red-500 disabled:opacity-50"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{role.label}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
+
+export default RoleRemovalSelect;
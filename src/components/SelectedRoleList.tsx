@@ -0,0 +1,57 @@
+import { AlertTriangle, Check } from 'lucide-react';
+import { CatalogRole, getSelectedCatalogRoles } from '../lib/roleCatalog';
+
+interface SelectedRoleListProps {
+  table: string;
+  selections: Record<string, unknown> | null;
+  emptyText: string;
+}
+
+// Roles switched on in a role selection row, grouped as on the selection page
+function SelectedRoleList({ table, selections, emptyText }: SelectedRoleListProps) {
+  const roles = getSelectedCatalogRoles(table, selections);
+
+  // Areas with component groups list each group's roles together under the group name
+  const groups: { heading: string; roles: CatalogRole[] }[] = [];
+  roles.forEach(role => {
+    const heading = role.group || role.section;
+    const existing = groups.find(g => g.heading === heading);
+    if (existing) {
+      existing.roles.push(role);
+    } else {
+      groups.push({ heading, roles: [role] });
+    }
+  });
+
+  if (groups.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyText}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map(({ heading, roles: groupRoles }) => (
+        <div key={heading}>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">{heading}:</h3>
+          <div className="flex flex-wrap gap-2">
+            {groupRoles.map(role => (
+              <span
+                key={role.column}
+                title={role.systemRoleCode}
+                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  role.riskLevel === 'high' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                }`}
+              >
+                {role.riskLevel === 'high'
+                  ? <AlertTriangle className="h-3 w-3 mr-1" />
+                  : <Check className="h-3 w-3 mr-1" />}
+                {role.group ? `${role.section} – ${role.label}` : role.label}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SelectedRoleList;
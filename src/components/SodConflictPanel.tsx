@@ -0,0 +1,86 @@
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import { SodConflict } from '../lib/sodRules';
+
+interface SodConflictPanelProps {
+  conflicts: SodConflict[];
+  justifications: Record<string, string>;
+  // Editable on the role selection pages; read-only for reviewers when omitted
+  onJustificationChange?: (ruleId: string, justification: string) => void;
+}
+
+// Segregation-of-duties conflicts of a request, each with its mitigating control
+function SodConflictPanel({ conflicts, justifications, onJustificationChange }: SodConflictPanelProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-red-50 border-l-4 border-red-400 p-4">
+      <div className="flex">
+        <div className="flex-shrink-0">
+          <ShieldAlert className="h-5 w-5 text-red-400" />
+        </div>
+        <div className="ml-3 flex-1">
+          <h3 className="text-sm font-medium text-red-800">
+            Segregation of Duties {conflicts.length === 1 ? 'Conflict' : 'Conflicts'}
+          </h3>
+          <div className="mt-3 space-y-4">
+            {conflicts.map(({ rule, duties }) => {
+              const isBlocked = rule.enforcement === 'block';
+              const justification = justifications[rule.id] || '';
+              return (
+                <div key={rule.id} className="bg-white rounded-md border border-red-200 p-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold text-gray-900">{rule.name}</p>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      isBlocked ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {isBlocked ? 'Not allowed' : 'Justification required'}
+                    </span>
+                  </div>
+                  {rule.description && (
+                    <p className="mt-1 text-sm text-gray-600">{rule.description}</p>
+                  )}
+                  <ul className="mt-2 space-y-1">
+                    {duties.map(duty => (
+                      <li key={duty.label} className="text-sm text-gray-700">
+                        <span className="font-medium">{duty.label}:</span> {duty.roles.join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+
+                  {isBlocked ? (
+                    <p className="mt-2 text-sm text-red-700 flex items-center">
+                      <AlertTriangle className="h-4 w-4 mr-1" />
+                      Remove the roles of one duty to continue.
+                    </p>
+                  ) : onJustificationChange ? (
+                    <div className="mt-3">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Mitigating control justification <span className="text-red-500">*</span>
+                      </label>
+                      <textarea
+                        value={justification}
+                        onChange={(e) => onJustificationChange(rule.id, e.target.value)}
+                        rows={3}
+                        placeholder="Describe the control that offsets this conflict, such as a second reviewer or a periodic report check..."
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                    </div>
+                  ) : (
+                    <div className="mt-3 bg-yellow-50 border border-yellow-200 rounded-md p-2">
+                      <p className="text-xs font-medium text-yellow-800">Mitigating control justification</p>
+                      <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">
+                        {justification || 'No justification provided.'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SodConflictPanel;
@@ -1,12 +1,18 @@
 import React from 'react';
-import { Check, Database, FileText, Users, Shield, AlertTriangle } from 'lucide-react';
+import { Database, FileText, Users, Shield, AlertTriangle } from 'lucide-react';
+import HrPayrollRoleSummary from './HrPayrollRoleSummary';
+import EpmDwhRoleSummary from './EpmDwhRoleSummary';
+import SelectedRoleList from './SelectedRoleList';
+import { formatAccessValue, getRoleSettings } from '../lib/userAccess';
 
 interface UserRoleDetailsProps {
   userDetails: any;
   roleSelections: any;
+  hrPayrollSelections?: Record<string, unknown> | null;
+  epmDwhSelections?: Record<string, unknown> | null;
 }
 
-function UserRoleDetails({ userDetails, roleSelections }: UserRoleDetailsProps) {
+function UserRoleDetails({ userDetails, roleSelections, hrPayrollSelections, epmDwhSelections }: UserRoleDetailsProps) {
   if (!userDetails) return null;
 
   console.log('UserRoleDetails received userDetails:', userDetails);
@@ -20,48 +26,7 @@ function UserRoleDetails({ userDetails, roleSelections }: UserRoleDetailsProps)
     'elm': 'ELM'
   };
 
-  // Function to convert camelCase or snake_case to readable text
-  const formatFieldName = (name: string) => {
-    return name
-      .replace(/_/g, ' ')
-      .replace(/([A-Z])/g, ' $1')
-      .replace(/^./, (str) => str.toUpperCase())
-      .trim();
-  };
-
-  // Get all boolean fields that are true
-  const getActiveBooleanRoles = () => {
-    if (!roleSelections) {
-      console.log('No role selections found');
-      return [];
-    }
-    
-    console.log('Processing role selections:', roleSelections);
-    return Object.entries(roleSelections)
-      .filter(([key, value]) => 
-        typeof value === 'boolean' && 
-        value === true && 
-        !['created_at', 'updated_at', 'id', 'request_id'].includes(key)
-      )
-      .map(([key]) => key);
-      
-  };
-
-  // Get all string fields that have values
-  const getStringFieldValues = () => {
-    if (!roleSelections) return [];
-    
-    return Object.entries(roleSelections)
-      .filter(([key, value]) => 
-        typeof value === 'string' && 
-        value !== '' && 
-        !['created_at', 'updated_at', 'id', 'request_id', 'role_justification'].includes(key)
-      );
-  };
-
-  const activeBooleanRoles = getActiveBooleanRoles();
-  const stringFieldValues = getStringFieldValues();
-  console.log('Active boolean roles:', activeBooleanRoles);
+  const roleSettings = getRoleSettings('security_role_selections', roleSelections);
 
   return (
     <div className="space-y-6">
@@ -103,40 +68,29 @@ function UserRoleDetails({ userDetails, roleSelections }: UserRoleDetailsProps)
             Role Selections
           </h3>
           
-          {activeBooleanRoles.length > 0 ? (
-            <div className="mt-3 space-y-2">
-              <p className="text-sm text-gray-600 mb-2">Active Roles:</p>
-              <div className="flex flex-wrap gap-2">
-                {activeBooleanRoles.map((role) => (
-                  <span 
-                    key={role} 
-                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
-                  >
-                    <Check className="h-3 w-3 mr-1" />
-                    {formatFieldName(role)}
-                  </span>
-                ))}
-              </div>
-            </div>
-          ) : (
-            <p className="mt-2 text-sm text-gray-600">No active boolean roles found.</p>
-          )}
+          <div className="mt-3 space-y-4">
+            <SelectedRoleList
+              table="security_role_selections"
+              selections={roleSelections}
+              emptyText="No active roles found."
+            />
 
-          {stringFieldValues.length > 0 && (
-            <div className="mt-4">
-              <p className="text-sm text-gray-600 mb-2">Additional Settings:</p>
-              <div className="grid grid-cols-2 gap-2">
-                {stringFieldValues.map(([key, value]) => (
-                  <div key={key}>
-                    <p className="text-xs text-gray-500">{formatFieldName(key)}:</p>
-                    <p className="text-sm font-medium">{value as string}</p>
-                  </div>
-                ))}
+            {roleSettings.length > 0 && (
+              <div>
+                <p className="text-sm text-gray-600 mb-2">Additional Settings:</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {roleSettings.map(setting => (
+                    <div key={setting.column}>
+                      <p className="text-xs text-gray-500">{setting.label}:</p>
+                      <p className="text-sm font-medium">{setting.value}</p>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
-      ) : (
+      ) : !hrPayrollSelections && !epmDwhSelections && (
         <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
           <div className="flex">
             <AlertTriangle className="h-5 w-5 text-yellow-400" />
@@ -152,6 +106,28 @@ function UserRoleDetails({ userDetails, roleSelections }: UserRoleDetailsProps)
         </div>
       )}
 
+      {/* HR/Payroll Role Selections */}
+      {hrPayrollSelections && (
+        <div className="bg-green-50 p-4 rounded-lg border border-green-200">
+          <h3 className="text-lg font-medium text-green-800 flex items-center mb-3">
+            <Users className="h-5 w-5 mr-2" />
+            HR / Payroll Role Selections
+          </h3>
+          <HrPayrollRoleSummary selections={hrPayrollSelections} />
+        </div>
+      )}
+
+      {/* EPM Data Warehouse Role Selections */}
+      {epmDwhSelections && (
+        <div className="bg-green-50 p-4 rounded-lg border border-green-200">
+          <h3 className="text-lg font-medium text-green-800 flex items-center mb-3">
+            <Database className="h-5 w-5 mr-2" />
+            EPM / Data Warehouse Role Selections
+          </h3>
+          <EpmDwhRoleSummary selections={epmDwhSelections} />
+        </div>
+      )}
+
       {/* Business Unit Information */}
       {roleSelections?.home_business_unit && (
         <div className="bg-purple-50 p-4 rounded-lg border border-purple-200">
@@ -163,10 +139,10 @@ function UserRoleDetails({ userDetails, roleSelections }: UserRoleDetailsProps)
             <p className="text-sm text-gray-600">Home Business Unit:</p>
             <p className="text-sm font-medium">{roleSelections.home_business_unit}</p>
             
-            {roleSelections.other_business_units && (
+            {roleSelections.other_business_units?.length > 0 && (
               <>
                 <p className="text-sm text-gray-600 mt-2">Other Business Units:</p>
-                <p className="text-sm font-medium">{roleSelections.other_business_units}</p>
+                <p className="text-sm font-medium">{formatAccessValue(roleSelections.other_business_units)}</p>
               </>
             )}
           </div>
@@ -1,82 +1,84 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import SearchableSelect from './SearchableSelect';
+import { SessionUser } from '../types';
 import UserRoleDetails from './UserRoleDetails';
+import { AccessUser, fetchUserAccess, UserAccess } from '../lib/userAccess';
 
-interface User {
-  employee_name: string;
-  employee_id: string;
-  email: string;
-  request_id?: string;
-}
+type User = AccessUser;
+
+// Non-employees may not have an employee ID
+const getUserLabel = (user: User) => `${user.employee_name} (${user.employee_id || user.email})`;
 
 interface UserSelectProps {
   selectedUser: User | null;
   onUserChange: (user: User | null) => void;
   error?: string;
   required?: boolean;
-  currentUser?: string | null;
+  currentUser?: SessionUser | null;
+  label?: string;
+  detailsTitle?: string;
+  onAccessLoaded?: (access: UserAccess | null) => void;
 }
 
-function UserSelect({ selectedUser, onUserChange, error, required = false, currentUser }: UserSelectProps) {
+function UserSelect({
+  selectedUser,
+  onUserChange,
+  error,
+  required = false,
+  currentUser,
+  label = 'Select User to Copy',
+  detailsTitle = 'Access Details to be Copied',
+  onAccessLoaded
+}: UserSelectProps) {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
   const [userDetails, setUserDetails] = useState<any>(null);
   const [roleSelections, setRoleSelections] = useState<any>(null);
+  const [hrPayrollSelections, setHrPayrollSelections] = useState<Record<string, unknown> | null>(null);
+  const [epmDwhSelections, setEpmDwhSelections] = useState<Record<string, unknown> | null>(null);
   const [loadingDetails, setLoadingDetails] = useState(false);
+  const [loadedAccess, setLoadedAccess] = useState<UserAccess | null>(null);
 
   useEffect(() => {
     fetchUsers();
   }, []);
 
   useEffect(() => {
-    if (selectedUser?.request_id) {
-      fetchUserDetails(selectedUser.request_id);
+    if (selectedUser?.employee_key) {
+      fetchUserDetails(selectedUser.employee_key);
     } else {
       setUserDetails(null);
       setRoleSelections(null);
+      setHrPayrollSelections(null);
+      setEpmDwhSelections(null);
+      setLoadedAccess(null);
     }
   }, [selectedUser]);
+
+  useEffect(() => {
+    onAccessLoaded?.(loadedAccess);
+  }, [loadedAccess, onAccessLoaded]);
   const fetchUsers = async () => {
     setLoading(true);
     try {
+      // Employees with current access the user can see, from the effective-access ledger
       const { data, error } = await supabase
-        .from('security_role_requests')
-        .select(`
-          id,
-          employee_name, 
-          employee_id, 
-          email,
-          security_areas (
-            area_type,
-            director_name,
-            director_email
-          )
-        `)
-        .in('status', ['approved', 'completed']) // Show approved and completed requests
-        .not('employee_name', 'is', null)
-        .not('employee_id', 'is', null)
+        .from('employee_access')
+        .select('employee_key, employee_name, employee_id, email, last_request_id')
         .order('employee_name');
 
       if (error) throw error;
 
-      console.log('All users fetched from approved/completed requests:', data);
-
-      // Remove duplicates based on employee_id, keeping the most recent
-      const uniqueUsers = data.reduce((acc: User[], current) => {
-        const existingUser = acc.find(user => user.employee_id === current.employee_id);
-        if (!existingUser) {
-          acc.push({
-            employee_name: current.employee_name,
-            employee_id: current.employee_id || '',
-            email: current.email,
-            request_id: current.id
-          });
-        }
-        return acc;
-      }, []);
-
-      setUsers(uniqueUsers);
+      console.log('Users with current access fetched:', data);
+
+      setUsers((data || []).map(employee => ({
+        employee_key: employee.employee_key,
+        employee_name: employee.employee_name,
+        employee_id: employee.employee_id || '',
+        email: employee.email,
+        request_id: employee.last_request_id || undefined
+      })));
     } catch (error) {
       console.error('Error fetching users:', error);
     } finally {
@@ -84,40 +86,16 @@ function UserSelect({ selectedUser, onUserChange, error, required = false, curre
     }
   };
 
-  const fetchUserDetails = async (requestId: string) => {
+  const fetchUserDetails = async (employeeKey: string) => {
     setLoadingDetails(true);
     try {
-      console.log('Fetching user details for request ID:', requestId);
-      
-      // Fetch request details with security areas
-      const { data: requestData, error: requestError } = await supabase
-        .from('security_role_requests')
-        .select(`
-          *,
-          security_areas (
-            area_type,
-            director_name,
-            director_email
-          )
-        `)
-        .eq('id', requestId)
-        .single();
-
-      if (requestError) throw requestError;
-      console.log('Request data fetched:', requestData);
-      setUserDetails(requestData);
-
-      // Fetch role selections
-      const { data: roleData, error: roleError } = await supabase
-        .from('security_role_selections')
-        .select('*')
-        .eq('request_id', requestId)
-        .maybeSingle();
-
-      if (roleError) throw roleError;
-      console.log('Role data fetched:', roleData);
-      setRoleSelections(roleData);
-
+      console.log('Fetching current access for employee:', employeeKey);
+      const access = await fetchUserAccess(employeeKey);
+      setUserDetails(access.userDetails);
+      setRoleSelections(access.roleSelections);
+      setHrPayrollSelections(access.hrPayrollSelections);
+      setEpmDwhSelections(access.epmDwhSelections);
+      setLoadedAccess(access);
     } catch (error) {
       console.error('Error fetching user details:', error);
     } finally {
@@ -133,7 +111,7 @@ function UserSelect({ selectedUser, onUserChange, error, required = false, curre
       return;
     }
 
-    const user = users.find(u => `${u.employee_name} (${u.employee_id})` === selectedValue);
+    const user = users.find(u => getUserLabel(u) === selectedValue);
     console.log('🔧 Found user:', user);
     console.log('🔧 Calling onUserChange with user:', user);
     onUserChange(user || null);
@@ -141,11 +119,11 @@ function UserSelect({ selectedUser, onUserChange, error, required = false, curre
 
   // Convert users to options format for SearchableSelect
   const userOptions = users.map(user => ({
-    value: `${user.employee_name} (${user.employee_id})`,
-    label: `${user.employee_name} (${user.employee_id})`
+    value: getUserLabel(user),
+    label: getUserLabel(user)
   }));
 
-  const selectedValue = selectedUser ? `${selectedUser.employee_name} (${selectedUser.employee_id})` : '';
+  const selectedValue = selectedUser ? getUserLabel(selectedUser) : '';
 
   return (
     <div>
@@ -153,8 +131,8 @@ function UserSelect({ selectedUser, onUserChange, error, required = false, curre
         options={userOptions}
         value={selectedValue}
         onChange={handleUserChange}
-        placeholder={loading ? "Loading users..." : "Search for a user to copy..."}
-        label={`Select User to Copy${required ? '*' : ''}`}
+        placeholder={loading ? "Loading users..." : "Search for a user..."}
+        label={`${label}${required ? '*' : ''}`}
         required={required}
         error={error}
         searchPlaceholder="Type to search users..."
@@ -162,7 +140,7 @@ function UserSelect({ selectedUser, onUserChange, error, required = false, curre
       {selectedUser && (
         <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-md">
           <p className="text-sm text-blue-800">
-            <strong>Selected:</strong> {selectedUser.employee_name} ({selectedUser.employee_id})
+            <strong>Selected:</strong> {getUserLabel(selectedUser)}
           </p>
           <p className="text-sm text-blue-600">
             Email: {selectedUser.email}
@@ -173,14 +151,19 @@ function UserSelect({ selectedUser, onUserChange, error, required = false, curre
       {/* Show selected user details */}
       {selectedUser && (
         <div className="mt-4">
-          <h4 className="text-sm font-medium text-gray-900 mb-3">Access Details to be Copied</h4>
+          <h4 className="text-sm font-medium text-gray-900 mb-3">{detailsTitle}</h4>
           {loadingDetails ? (
             <div className="flex justify-center items-center py-4">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
             </div>
           ) : (
             <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-              <UserRoleDetails userDetails={userDetails} roleSelections={roleSelections} />
+              <UserRoleDetails
+                userDetails={userDetails}
+                roleSelections={roleSelections}
+                hrPayrollSelections={hrPayrollSelections}
+                epmDwhSelections={epmDwhSelections}
+              />
             </div>
           )}
         </div>
@@ -1,74 +1,144 @@
 import React, { useState, useEffect } from 'react';
-import { User, LogOut } from 'lucide-react';
+import { User, LogOut, Mail } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { SessionUser } from '../types';
 
 interface UserSessionProps {
-  onUserChange: (userName: string | null) => void;
+  onUserChange: (user: SessionUser | null) => void;
 }
 
 function UserSession({ onUserChange }: UserSessionProps) {
-  const [currentUser, setCurrentUser] = useState<string | null>(() => {
-    return localStorage.getItem('pocUserName');
-  });
-  const [showLogin, setShowLogin] = useState(!currentUser);
-  const [userName, setUserName] = useState('');
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    onUserChange(currentUser);
-  }, [currentUser, onUserChange]);
+    const applySession = (sessionUser: { id: string; email?: string } | null | undefined) => {
+      setCurrentUser(prev => {
+        if (!sessionUser) return null;
+        // Keep the same object so onUserChange listeners don't re-run needlessly
+        if (prev && prev.id === sessionUser.id) return prev;
+        return { id: sessionUser.id, email: sessionUser.email || '' };
+      });
+    };
 
-  const handleLogin = (e: React.FormEvent) => {
+    supabase.auth.getSession().then(({ data }) => {
+      applySession(data.session?.user);
+      setCheckingSession(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      applySession(session?.user);
+      setCheckingSession(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!checkingSession) {
+      onUserChange(currentUser);
+    }
+  }, [currentUser, checkingSession, onUserChange]);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (userName.trim()) {
-      const trimmedName = userName.trim();
-      localStorage.setItem('pocUserName', trimmedName);
-      setCurrentUser(trimmedName);
-      setShowLogin(false);
-      setUserName('');
+    const trimmedEmail = email.trim().toLowerCase();
+    if (!trimmedEmail) return;
+
+    setSending(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: trimmedEmail,
+        options: {
+          emailRedirectTo: window.location.href
+        }
+      });
+
+      if (error) throw error;
+      setLinkSentTo(trimmedEmail);
+    } catch (err) {
+      console.error('Error sending sign-in link:', err);
+      setError('Unable to send a sign-in link. Please check the email address and try again.');
+    } finally {
+      setSending(false);
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('pocUserName');
-    setCurrentUser(null);
-    setShowLogin(true);
+  const handleLogout = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error signing out:', error);
+    }
+    setLinkSentTo(null);
+    setEmail('');
   };
 
-  if (showLogin) {
+  if (checkingSession) {
+    return null;
+  }
+
+  if (!currentUser) {
     return (
       <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
         <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
           <div className="mt-3">
             <div className="flex items-center justify-center mb-4">
               <User className="h-8 w-8 text-blue-600 mr-2" />
-              <h3 className="text-lg font-medium text-gray-900">POC User Identification</h3>
-            </div>
-            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4">
-              <p className="text-sm text-yellow-800">
-                <strong>For POC Testing Only:</strong> Enter your name to identify your test data. 
-                This allows multiple users to test simultaneously without interfering with each other's requests.
-              </p>
+              <h3 className="text-lg font-medium text-gray-900">Sign In</h3>
             </div>
-            <form onSubmit={handleLogin}>
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Your Name (for testing identification)
-                </label>
-                <input
-                  type="text"
-                  value={userName}
-                  onChange={(e) => setUserName(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="Enter your name..."
-                  required
-                />
+            {linkSentTo ? (
+              <div className="bg-green-50 border border-green-200 rounded-md p-4">
+                <div className="flex items-center mb-2">
+                  <Mail className="h-5 w-5 text-green-600 mr-2" />
+                  <p className="text-sm font-medium text-green-800">Check your email</p>
+                </div>
+                <p className="text-sm text-green-700">
+                  We sent a sign-in link to <strong>{linkSentTo}</strong>. Open it on this device to continue.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setLinkSentTo(null)}
+                  className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Use a different email
+                </button>
               </div>
-              <button
-                type="submit"
-                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                Start Testing
-              </button>
-            </form>
+            ) : (
+              <form onSubmit={handleLogin}>
+                <p className="text-sm text-gray-600 mb-4">
+                  Enter your work email address and we will send you a link to sign in.
+                </p>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Email Address
+                  </label>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="firstname.lastname@state.mn.us"
+                    required
+                  />
+                </div>
+                {error && (
+                  <p className="mb-4 text-sm text-red-600">{error}</p>
+                )}
+                <button
+                  type="submit"
+                  disabled={sending}
+                  className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {sending ? 'Sending...' : 'Email Me a Sign-In Link'}
+                </button>
+              </form>
+            )}
           </div>
         </div>
       </div>
@@ -79,18 +149,18 @@ function UserSession({ onUserChange }: UserSessionProps) {
     <div className="flex items-center space-x-3">
       <div className="flex items-center text-sm text-gray-600">
         <User className="h-4 w-4 mr-1" />
-        <span>Testing as: <strong>{currentUser}</strong></span>
+        <span>Signed in as: <strong>{currentUser.email}</strong></span>
       </div>
       <button
         onClick={handleLogout}
         className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
-        title="Switch User"
+        title="Sign Out"
       >
         <LogOut className="h-3 w-3 mr-1" />
-        Switch
+        Sign Out
       </button>
     </div>
   );
 }
 
-export default UserSession;
\ No newline at end of file
+export default UserSession;
@@ -0,0 +1,113 @@
+import { AccessEntry, describeAccessEntry, formatAccessValue } from './userAccess';
+
+export type AccessChange = 'added' | 'existing' | 'removed';
+
+export interface AccessDiffItem {
+  key: string;
+  change: AccessChange;
+  kind: 'role' | 'business_unit' | 'setting';
+  label: string;
+  group: string;
+  value?: string;
+  previousValue?: string;
+}
+
+interface RoleRemoval {
+  role_table: string;
+  role_column: string;
+  role_label: string;
+}
+
+const businessUnitColumns = ['home_business_unit', 'other_business_units'];
+
+const splitBusinessUnits = (value: unknown) => {
+  const units = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,;]+/) : [];
+  return units.map(unit => String(unit).trim().toUpperCase()).filter(Boolean);
+};
+
+// Business units held in one role selection table, across home and other units
+const getBusinessUnits = (entries: AccessEntry[], table: string) =>
+  new Set(entries
+    .filter(entry => entry.role_table === table && businessUnitColumns.includes(entry.role_column))
+    .flatMap(entry => splitBusinessUnits(entry.value)));
+
+// Items for one entry: each business unit separately, otherwise the role or setting itself
+const toDiffItems = (entry: AccessEntry, change: AccessChange, previous: AccessEntry[]): AccessDiffItem[] => {
+  const { label, group } = describeAccessEntry(entry.role_table, entry.role_column);
+
+  if (businessUnitColumns.includes(entry.role_column)) {
+    const heldUnits = getBusinessUnits(previous, entry.role_table);
+    return splitBusinessUnits(entry.value).map(unit => ({
+      key: `${entry.role_table}.business_unit.${unit}`,
+      change: change === 'added' && heldUnits.has(unit) ? 'existing' : change,
+      kind: 'business_unit',
+      label: unit,
+      group: `${group}: Business Units`
+    }));
+  }
+
+  if (entry.value === true) {
+    const held = previous.some(p =>
+      p.role_table === entry.role_table && p.role_column === entry.role_column && p.value === true
+    );
+    return [{
+      key: `${entry.role_table}.${entry.role_column}`,
+      change: change === 'added' && held ? 'existing' : change,
+      kind: 'role',
+      label,
+      group
+    }];
+  }
+
+  const previousEntry = previous.find(p =>
+    p.role_table === entry.role_table && p.role_column === entry.role_column
+  );
+  const unchanged = !!previousEntry && formatAccessValue(previousEntry.value) === formatAccessValue(entry.value);
+  return [{
+    key: `${entry.role_table}.${entry.role_column}`,
+    change: change === 'added' && unchanged ? 'existing' : change,
+    kind: 'setting',
+    label,
+    group,
+    value: formatAccessValue(entry.value),
+    previousValue: change === 'added' && previousEntry && !unchanged ? formatAccessValue(previousEntry.value) : undefined
+  }];
+};
+
+// Net change in access: what a request adds, what the employee already holds and
+// what it takes away, relative to their current access
+export const computeAccessDiff = ({
+  requested,
+  current,
+  removals,
+  removeAll
+}: {
+  requested: AccessEntry[];
+  current: AccessEntry[];
+  removals: RoleRemoval[];
+  removeAll: boolean;
+}): AccessDiffItem[] => {
+  const items = new Map<string, AccessDiffItem>();
+  const addItem = (item: AccessDiffItem) => {
+    if (!items.has(item.key)) items.set(item.key, item);
+  };
+
+  requested.forEach(entry => toDiffItems(entry, 'added', current).forEach(addItem));
+
+  if (removeAll) {
+    current.forEach(entry => toDiffItems(entry, 'removed', []).forEach(item => items.set(item.key, item)));
+  } else {
+    removals.forEach(removal => {
+      const { group } = describeAccessEntry(removal.role_table, removal.role_column);
+      items.set(`${removal.role_table}.${removal.role_column}`, {
+        key: `${removal.role_table}.${removal.role_column}`,
+        change: 'removed',
+        kind: 'role',
+        label: removal.role_label,
+        group
+      });
+    });
+  }
+
+  return Array.from(items.values());
+};
@@ -0,0 +1,6 @@
+// How the signer of a step was verified. Review links are only emailed to the
+// step's approver, and signing with one still requires a signed-in account.
+export const signatureMethodLabels: Record<string, string> = {
+  token: 'secure review link',
+  authenticated: 'signed-in account'
+};
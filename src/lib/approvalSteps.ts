@@ -0,0 +1,72 @@
+// Approval chain order. Director steps share a level and can be signed in any
+// order once the supervisor has approved; the security administrator is always last.
+// Keep in sync with approval_step_order() in the database.
+export const stepOrder: Record<string, number> = {
+  'user_signature': 1,
+  'supervisor_approval': 2,
+  'accounting_director_approval': 3,
+  'hr_director_approval': 3,
+  'elm_admin_approval': 3,
+  'security_admin_approval': 4
+};
+
+export const stepLabels: Record<string, string> = {
+  'user_signature': 'User Signature',
+  'supervisor_approval': 'Supervisor Approval',
+  'accounting_director_approval': 'Accounting Director / CFO Approval',
+  'hr_director_approval': 'HR Director Approval',
+  'elm_admin_approval': 'ELM Key Administrator Approval',
+  'security_admin_approval': 'Security Administrator Approval'
+};
+
+// Statement each approver attests to when signing their step
+export const approvalText: Record<string, string> = {
+  user_signature: `I understand that all SWIFT systems contain some types of data about employees, vendors, customers, and other individuals that are classified as private or confidential under state and/or federal laws. This protected data may appear in a variety of reports, pages, tables, records, and fields. I have been provided with access to the applicable portions of the Minnesota Government Data Practices Act (Minnesota Statutes, Chapter 13, https://www.revisor.mn.gov/pubs/) or summaries of them. I agree to comply with the requirements of the Act regarding all data that is not public. Applies only to users who are authorized for at least one HR/payroll role in SEMA4 or in the EPM data warehouse: (1) I also understand that a majority of the HR/payroll information available through SEMA4 or the warehouse is classified as private under the provisions of the Minnesota Government Data Practices Act. I have read and understand the guide "Data Practices for Personnel Records," which is available on the MMB website at https://www.mn.gov/mmb/employee-relations/labor-relations/resources-for-agencies/data-practices.jsp. (2) I have read the "Data Protection Policy for Human Resource Systems," https://www.mn.gov/mmb/employee relations/laws-policies-and-rules/statewide-hr-policies/ (click on Data and Technology). I understand the requirements of the policy and acknowledge that I am responsible for complying with the policy. I understand that if I fail to comply with the policy, I may be subject to disciplinary action, up to and including discharge. Applies only to users who are authorized for any role in Enterprise Learning Management (ELM): I will not modify any data that is not my own or data that I am not authorized to modify, such as certain rosters and employee training data.`,
+  supervisor_approval: `I certify that the user needs the roles and agencies indicated on this form in order to carry out the responsibilities of his/her job.`,
+  accounting_director_approval: `Accounting Director/Chief Financial Officer: Must sign request to add a new user or to add new security roles and/or agencies/department IDs for FMS and warehouse accounting, procurement, and payroll.`,
+  hr_director_approval: `Human Resources Director: Must sign request to add a new user or to add new security roles and/or agencies/department IDs for SEMA4 and warehouse human resources data.`,
+  elm_admin_approval: `Agency ELM Key Administrator: Must sign request to add a new user or to add new security roles for Enterprise Learning Management.`,
+  security_admin_approval: `Security administrator's statement: I understand that authorizing the user for any role is likely to result in access to private or confidential data about employees, vendors, customers, and/or other individuals. Non-public data may appear in a variety of reports, pages, tables, records, and fields. I certify that the user needs the roles and agencies indicated on this form in order to carry out the responsibilities of his/her job. If the user is authorized for at least one SEMA4 role, I certify that he/she has been trained to accomplish the applicable tasks and provided with access to the two documents mentioned in the second paragraph of the user's statement.`
+};
+
+interface OrderedApproval {
+  step: string;
+  status: string;
+  created_at?: string;
+}
+
+export const getStepOrder = (step: string) => stepOrder[step] || 3;
+
+// Sort approvals into signing order, falling back to creation time within a level
+export const sortApprovals = <T extends OrderedApproval>(approvals: T[]): T[] => {
+  return [...approvals].sort((a, b) => {
+    const orderA = getStepOrder(a.step);
+    const orderB = getStepOrder(b.step);
+
+    if (orderA !== orderB) {
+      return orderA - orderB;
+    }
+
+    return new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime();
+  });
+};
+
+// Earlier steps that still need to be approved before this one can be signed
+export const getBlockingApprovals = <T extends OrderedApproval>(approval: OrderedApproval, approvals: T[]): T[] => {
+  const order = getStepOrder(approval.step);
+  return sortApprovals(approvals).filter(other =>
+    getStepOrder(other.step) < order && other.status !== 'approved'
+  );
+};
+
+// Pending approvals whose turn it is to sign
+export const getCurrentApprovals = <T extends OrderedApproval>(approvals: T[]): T[] => {
+  return sortApprovals(approvals).filter(approval =>
+    approval.status === 'pending' && getBlockingApprovals(approval, approvals).length === 0
+  );
+};
+
+// A pending step is overdue once its SLA due date has passed
+export const isApprovalOverdue = (approval: { status: string; due_at?: string | null }) => {
+  return approval.status === 'pending' && !!approval.due_at && new Date(approval.due_at).getTime() < Date.now();
+};
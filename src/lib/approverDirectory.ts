@@ -0,0 +1,105 @@
+import { UseFormSetValue } from 'react-hook-form';
+import { SecurityRoleRequest } from '../types';
+import { supabase } from './supabase';
+
+export type DirectoryRole = 'security_admin' | 'accounting_director' | 'hr_director' | 'elm_key_admin';
+
+export const directoryRoleLabels: Record<DirectoryRole, string> = {
+  security_admin: 'Agency Security Administrator',
+  accounting_director: 'Accounting Director/CFO',
+  hr_director: 'HR Director',
+  elm_key_admin: 'ELM Key Administrator'
+};
+
+export interface AgencyApprover {
+  role: DirectoryRole;
+  approver_name: string;
+  approver_email: string;
+}
+
+export type AgencyApprovers = Partial<Record<DirectoryRole, AgencyApprover>>;
+
+// Request form fields filled in from each directory role. The HR director has no
+// form field; HR / Payroll approvals are routed from the directory by the database.
+const directoryFormFields: {
+  role: DirectoryRole;
+  name: 'securityAdminName' | 'accountingDirector' | 'elmKeyAdmin';
+  email: 'securityAdminUsername' | 'accountingDirectorUsername' | 'elmKeyAdminUsername';
+}[] = [
+  { role: 'security_admin', name: 'securityAdminName', email: 'securityAdminUsername' },
+  { role: 'accounting_director', name: 'accountingDirector', email: 'accountingDirectorUsername' },
+  { role: 'elm_key_admin', name: 'elmKeyAdmin', email: 'elmKeyAdminUsername' }
+];
+
+// Approvers listed in the directory for an agency, keyed by role
+export async function fetchAgencyApprovers(agencyCode: string): Promise<AgencyApprovers> {
+  if (!agencyCode) return {};
+
+  const { data, error } = await supabase
+    .from('agency_approvers')
+    .select('role, approver_name, approver_email')
+    .eq('agency_code', agencyCode.toUpperCase());
+
+  if (error) throw error;
+
+  return ((data || []) as AgencyApprover[]).reduce<AgencyApprovers>(
+    (approvers, approver) => ({ ...approvers, [approver.role]: approver }),
+    {}
+  );
+}
+
+// Fill the approver fields the directory has an entry for; others are left as typed
+export const applyAgencyApprovers = (approvers: AgencyApprovers, setValue: UseFormSetValue<SecurityRoleRequest>) => {
+  directoryFormFields.forEach(({ role, name, email }) => {
+    const approver = approvers[role];
+    if (approver) {
+      setValue(name, approver.approver_name);
+      setValue(email, approver.approver_email);
+    }
+  });
+};
+
+// Roles the directory filled in, for a note on the form
+export const getDirectoryFilledRoles = (approvers: AgencyApprovers) =>
+  directoryFormFields.map(field => field.role).filter(role => !!approvers[role]);
+
+export interface DirectoryEntry extends AgencyApprover {
+  agency_code: string;
+}
+
+// The whole directory, for the reference data admin page
+export async function fetchApproverDirectory(): Promise<DirectoryEntry[]> {
+  const { data, error } = await supabase
+    .from('agency_approvers')
+    .select('agency_code, role, approver_name, approver_email')
+    .order('agency_code')
+    .order('role');
+
+  if (error) throw error;
+  return (data || []) as DirectoryEntry[];
+}
+
+// Add an agency's approver for a role, or replace the one listed. Only
+// reference data admins can change the directory.
+export async function saveDirectoryEntry(entry: DirectoryEntry) {
+  const { error } = await supabase
+    .from('agency_approvers')
+    .upsert({
+      agency_code: entry.agency_code,
+      role: entry.role,
+      approver_name: entry.approver_name.trim(),
+      approver_email: entry.approver_email.trim()
+    }, { onConflict: 'agency_code,role' });
+
+  if (error) throw error;
+}
+
+export async function removeDirectoryEntry(agencyCode: string, role: DirectoryRole) {
+  const { error } = await supabase
+    .from('agency_approvers')
+    .delete()
+    .eq('agency_code', agencyCode)
+    .eq('role', role);
+
+  if (error) throw error;
+}
@@ -0,0 +1,65 @@
+import { supabase } from './supabase';
+import { allRoleSelectionTables } from './securityAreas';
+import { fetchAccessEntries, toRoleSelectionRow } from './userAccess';
+
+export async function copyExistingUserRoles(newRequestId: string, copyFromEmployeeId: string) {
+  try {
+    console.log('Looking for existing user with employee ID:', copyFromEmployeeId);
+
+    // Current access is the sum of every completed request, not just the latest one
+    const { data: employee, error: employeeError } = await supabase
+      .from('employee_access')
+      .select('employee_key')
+      .eq('employee_id', copyFromEmployeeId)
+      .maybeSingle();
+
+    if (employeeError) {
+      console.error('Error finding existing user access:', employeeError);
+      return;
+    }
+
+    if (!employee) {
+      console.log('No current access found for employee ID:', copyFromEmployeeId);
+      return;
+    }
+
+    const entries = await fetchAccessEntries(employee.employee_key);
+    console.log('Found current access entries to copy:', entries.length);
+
+    for (const table of allRoleSelectionTables) {
+      const existingRoles = toRoleSelectionRow(entries, table);
+
+      if (!existingRoles) {
+        console.log(`No current access found in ${table} for existing user`);
+        continue;
+      }
+
+      // Delete existing role selections for this request first
+      await supabase
+        .from(table)
+        .delete()
+        .eq('request_id', newRequestId);
+
+      // Create role selections for the new request from the user's current access
+      const newRoleSelections = {
+        ...existingRoles,
+        request_id: newRequestId,
+        role_justification: 'Copied from existing user access'
+      };
+
+      const { error: insertError } = await supabase
+        .from(table)
+        .insert(newRoleSelections);
+
+      if (insertError) {
+        console.error(`Error copying role selections into ${table}:`, insertError);
+        continue;
+      }
+
+      console.log(`Successfully copied ${table} to new request`);
+    }
+
+  } catch (error) {
+    console.error('Error in copyExistingUserRoles:', error);
+  }
+}
@@ -0,0 +1,34 @@
+import { EpmDwhRoleSelection } from '../types';
+import { fromRoleColumns, toRoleColumns } from './roleCatalog';
+
+// Build the epm_dwh_role_selections row for a submitted form
+export const toEpmDwhRoleRow = (requestId: string, data: EpmDwhRoleSelection) => {
+  const row: Record<string, string | boolean | null> = {
+    request_id: requestId,
+    home_business_unit: data.homeBusinessUnit || null,
+    other_business_units: data.otherBusinessUnits || null,
+    raps_sema4_codes: data.roles?.rapsNewUser ? data.rapsSema4Codes || null : null,
+    role_justification: data.roleJustification,
+    supervisor_approval: data.supervisorApproval || false,
+    updated_at: new Date().toISOString(),
+    // BI Author and M_EPM_HCM_LOOKUP are always granted; their checkboxes are
+    // disabled so the form never submits them
+    ...toRoleColumns('epm_data_warehouse', data.roles)
+  };
+
+  return row;
+};
+
+// Form values from a stored row, used when editing an existing request
+export const fromEpmDwhRoleRow = (row: Record<string, unknown>): Partial<EpmDwhRoleSelection> => {
+  const values: Partial<EpmDwhRoleSelection> = {
+    homeBusinessUnit: (row.home_business_unit as string) || '',
+    otherBusinessUnits: (row.other_business_units as string) || '',
+    rapsSema4Codes: (row.raps_sema4_codes as string) || '',
+    roleJustification: (row.role_justification as string) || '',
+    supervisorApproval: row.supervisor_approval === true,
+    roles: fromRoleColumns('epm_data_warehouse', row)
+  };
+
+  return values;
+};
@@ -0,0 +1,36 @@
+import { HrPayrollRoleSelection } from '../types';
+import { fromRoleColumns, toRoleColumns } from './roleCatalog';
+
+// Build the hr_payroll_role_selections row for a submitted form
+export const toHrPayrollRoleRow = (requestId: string, data: HrPayrollRoleSelection) => {
+  const row: Record<string, string | boolean | null> = {
+    request_id: requestId,
+    add_access_type: data.addAccessType || null,
+    agency_codes: data.addAccessType === 'agency' ? data.agencyCodes || null : null,
+    department_id: data.addAccessType === 'department' ? data.departmentId || null : null,
+    prohibited_department_ids: data.addAccessType === 'department' ? data.prohibitedDepartmentIds || null : null,
+    delete_access_codes: data.deleteAccessCodes || null,
+    role_justification: data.roleJustification,
+    supervisor_approval: data.supervisorApproval || false,
+    updated_at: new Date().toISOString(),
+    ...toRoleColumns('hr_payroll', data.roles)
+  };
+
+  return row;
+};
+
+// Form values from a stored row, used when editing an existing request
+export const fromHrPayrollRoleRow = (row: Record<string, unknown>): Partial<HrPayrollRoleSelection> => {
+  const values: Partial<HrPayrollRoleSelection> = {
+    addAccessType: (row.add_access_type as HrPayrollRoleSelection['addAccessType']) || undefined,
+    agencyCodes: (row.agency_codes as string) || '',
+    departmentId: (row.department_id as string) || '',
+    prohibitedDepartmentIds: (row.prohibited_department_ids as string) || '',
+    deleteAccessCodes: (row.delete_access_codes as string) || '',
+    roleJustification: (row.role_justification as string) || '',
+    supervisorApproval: row.supervisor_approval === true,
+    roles: fromRoleColumns('hr_payroll', row)
+  };
+
+  return values;
+};
@@ -0,0 +1,25 @@
+import { differenceInCalendarDays, parseISO, startOfToday } from 'date-fns';
+
+export const nonEmployeeTypeLabels: Record<string, string> = {
+  contractor: 'Contractor',
+  consultant: 'Consultant',
+  temporary: 'Temporary / Agency Staff',
+  intern: 'Intern',
+  volunteer: 'Volunteer',
+  other: 'Other'
+};
+
+// Security admins are warned this many days before access ends.
+// Keep in sync with process_non_employee_access_ends() in the database.
+export const ACCESS_END_WARNING_DAYS = 14;
+
+export type AccessEndStatus = 'ended' | 'ending_soon' | 'active';
+
+export const getAccessEndStatus = (accessEndDate?: string | null): AccessEndStatus | null => {
+  if (!accessEndDate) return null;
+
+  const daysLeft = differenceInCalendarDays(parseISO(accessEndDate), startOfToday());
+  if (daysLeft < 0) return 'ended';
+  if (daysLeft <= ACCESS_END_WARNING_DAYS) return 'ending_soon';
+  return 'active';
+};
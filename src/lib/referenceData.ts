@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+
+export type AgencyCategory = 'agency' | 'health_licensing_board' | 'smart_agency';
+
+export const agencyCategoryLabels: Record<AgencyCategory, string> = {
+  agency: 'Agency',
+  health_licensing_board: 'Health Licensing Board',
+  smart_agency: 'SMART Agency'
+};
+
+export interface ReferenceAgency {
+  code: string;
+  name: string;
+  category: AgencyCategory;
+  is_active: boolean;
+}
+
+export interface ReferenceBusinessUnit {
+  code: string;
+  description: string;
+  is_active: boolean;
+}
+
+// Reference data rarely changes, so each list is loaded once per page load and
+// shared by every select. Inactive rows are included so codes already on
+// requests still resolve to a name; the selects only offer active ones.
+let agenciesRequest: Promise<ReferenceAgency[]> | null = null;
+let businessUnitsRequest: Promise<ReferenceBusinessUnit[]> | null = null;
+let adminRequest: Promise<boolean> | null = null;
+
+export function fetchReferenceAgencies(): Promise<ReferenceAgency[]> {
+  if (!agenciesRequest) {
+    agenciesRequest = (async () => {
+      const { data, error } = await supabase
+        .from('reference_agencies')
+        .select('code, name, category, is_active')
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as ReferenceAgency[];
+    })();
+    // Let the next caller try again rather than caching the failure
+    agenciesRequest.catch(() => { agenciesRequest = null; });
+  }
+  return agenciesRequest;
+}
+
+export function fetchReferenceBusinessUnits(): Promise<ReferenceBusinessUnit[]> {
+  if (!businessUnitsRequest) {
+    businessUnitsRequest = (async () => {
+      const { data, error } = await supabase
+        .from('reference_business_units')
+        .select('code, description, is_active')
+        .order('description');
+
+      if (error) throw error;
+      return (data || []) as ReferenceBusinessUnit[];
+    })();
+    businessUnitsRequest.catch(() => { businessUnitsRequest = null; });
+  }
+  return businessUnitsRequest;
+}
+
+// Agency a business unit belongs to: the first three characters of its code
+export const getBusinessUnitAgencyCode = (code: string) => code.slice(0, 3);
+
+// Form validation for business unit lists: every code must be an active business unit
+export async function validateBusinessUnitCodes(codes: string[] | undefined): Promise<true | string> {
+  if (!codes || codes.length === 0) return true;
+
+  const activeCodes = new Set((await fetchReferenceBusinessUnits())
+    .filter(unit => unit.is_active)
+    .map(unit => unit.code));
+  const unknown = codes.filter(code => !activeCodes.has(code));
+
+  return unknown.length === 0 || `Unknown business unit${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`;
+}
+
+// Whether the signed-in user maintains the reference data
+export function fetchIsReferenceDataAdmin(): Promise<boolean> {
+  if (!adminRequest) {
+    adminRequest = (async () => {
+      const { data, error } = await supabase.rpc('is_reference_data_admin');
+      if (error) throw error;
+      return !!data;
+    })();
+    adminRequest.catch(() => { adminRequest = null; });
+  }
+  return adminRequest;
+}
+
+// Drop the loaded lists after an import, or the admin flag after the user changes
+export const clearReferenceDataCache = () => {
+  agenciesRequest = null;
+  businessUnitsRequest = null;
+  adminRequest = null;
+};
@@ -0,0 +1,203 @@
+import { supabase } from './supabase';
+import { parseCsv, SpreadsheetColumn, toCsv } from './spreadsheet';
+import {
+  AgencyCategory,
+  agencyCategoryLabels,
+  clearReferenceDataCache,
+  fetchReferenceAgencies,
+  fetchReferenceBusinessUnits
+} from './referenceData';
+
+export type ReferenceKind = 'agencies' | 'business_units';
+
+// An agency or business unit in a common shape; `name` is a business unit's description
+export interface ReferenceRecord {
+  code: string;
+  name: string;
+  category?: AgencyCategory;
+  is_active: boolean;
+}
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface ReferenceImportPreview {
+  rows: ReferenceRecord[];
+  errors: ImportIssue[];
+  added: ReferenceRecord[];
+  changed: { before: ReferenceRecord; after: ReferenceRecord }[];
+  // Current codes missing from the import; they are deactivated, not deleted
+  deactivated: ReferenceRecord[];
+  unchanged: number;
+}
+
+interface ReferenceKindConfig {
+  label: string;
+  columns: SpreadsheetColumn[];
+  codePattern: RegExp;
+  codeDescription: string;
+  rpc: string;
+}
+
+export const referenceKinds: Record<ReferenceKind, ReferenceKindConfig> = {
+  agencies: {
+    label: 'Agencies',
+    columns: [
+      { key: 'code', header: 'code' },
+      { key: 'name', header: 'name' },
+      { key: 'category', header: 'category' }
+    ],
+    codePattern: /^[A-Z0-9]{3}$/,
+    codeDescription: '3 letters or digits',
+    rpc: 'import_reference_agencies'
+  },
+  business_units: {
+    label: 'Business Units',
+    columns: [
+      { key: 'code', header: 'code' },
+      { key: 'name', header: 'description' }
+    ],
+    codePattern: /^[A-Z0-9]{5}$/,
+    codeDescription: '5 letters or digits',
+    rpc: 'import_reference_business_units'
+  }
+};
+
+const agencyCategories = Object.keys(agencyCategoryLabels) as AgencyCategory[];
+
+// Categories can be given as their key or their label, in any case
+const toAgencyCategory = (value: string): AgencyCategory | null => {
+  const text = value.trim().toLowerCase();
+  if (!text) return 'agency';
+  return agencyCategories.find(category =>
+    category === text || agencyCategoryLabels[category].toLowerCase() === text
+  ) || null;
+};
+
+export async function fetchReferenceRecords(kind: ReferenceKind): Promise<ReferenceRecord[]> {
+  if (kind === 'agencies') {
+    return (await fetchReferenceAgencies()).map(agency => ({ ...agency }));
+  }
+  return (await fetchReferenceBusinessUnits()).map(unit => ({
+    code: unit.code,
+    name: unit.description,
+    is_active: unit.is_active
+  }));
+}
+
+// Parse an import file and compare it with the current data. Rows with errors
+// are left out of `rows`; an import with any errors cannot be applied.
+export const previewReferenceImport = (
+  kind: ReferenceKind,
+  csvText: string,
+  current: ReferenceRecord[]
+): ReferenceImportPreview => {
+  const config = referenceKinds[kind];
+  const [header = [], ...lines] = parseCsv(csvText);
+  const headerIndex = header.map(cell => cell.trim().toLowerCase());
+  const errors: ImportIssue[] = [];
+  const rows: ReferenceRecord[] = [];
+
+  const columnIndex = Object.fromEntries(config.columns.map(column => [column.key, headerIndex.indexOf(column.header)]));
+  const missingColumns = config.columns
+    .filter(column => column.key !== 'category' && columnIndex[column.key] === -1)
+    .map(column => column.header);
+
+  if (missingColumns.length > 0) {
+    errors.push({ line: 1, message: `Missing column${missingColumns.length === 1 ? '' : 's'}: ${missingColumns.join(', ')}` });
+    return { rows, errors, added: [], changed: [], deactivated: [], unchanged: 0 };
+  }
+
+  const firstLineByCode = new Map<string, number>();
+
+  lines.forEach((cells, index) => {
+    // Line numbers as shown in a spreadsheet, counting the header
+    const line = index + 2;
+    const cell = (key: string) => columnIndex[key] === -1 ? '' : (cells[columnIndex[key]] || '').trim();
+    const code = cell('code').toUpperCase();
+    const name = cell('name');
+    const lineErrors: string[] = [];
+
+    if (!code) {
+      lineErrors.push('Code is blank');
+    } else if (!config.codePattern.test(code)) {
+      lineErrors.push(`Code ${code} should be ${config.codeDescription}`);
+    }
+    if (!name) {
+      const nameHeader = config.columns[1].header;
+      lineErrors.push(`${nameHeader.charAt(0).toUpperCase() + nameHeader.slice(1)} is blank`);
+    }
+
+    const category = kind === 'agencies' ? toAgencyCategory(cell('category')) : undefined;
+    if (category === null) {
+      lineErrors.push(`Unknown category "${cell('category')}"`);
+    }
+
+    if (code) {
+      const firstLine = firstLineByCode.get(code);
+      if (firstLine) {
+        lineErrors.push(`Code ${code} is already used on line ${firstLine}`);
+      } else {
+        firstLineByCode.set(code, line);
+      }
+    }
+
+    if (lineErrors.length > 0) {
+      lineErrors.forEach(message => errors.push({ line, message }));
+      return;
+    }
+
+    rows.push({ code, name, ...(category ? { category } : {}), is_active: true });
+  });
+
+  if (lines.length === 0) {
+    errors.push({ line: 1, message: 'The file has no rows' });
+  }
+
+  const currentByCode = new Map(current.map(record => [record.code, record]));
+  const importedCodes = new Set(rows.map(row => row.code));
+
+  const added: ReferenceRecord[] = [];
+  const changed: ReferenceImportPreview['changed'] = [];
+  let unchanged = 0;
+
+  rows.forEach(row => {
+    const before = currentByCode.get(row.code);
+    if (!before) {
+      added.push(row);
+    } else if (before.name !== row.name || before.category !== row.category || !before.is_active) {
+      changed.push({ before, after: row });
+    } else {
+      unchanged++;
+    }
+  });
+
+  return {
+    rows,
+    errors,
+    added,
+    changed,
+    deactivated: current.filter(record => record.is_active && !importedCodes.has(record.code)),
+    unchanged
+  };
+};
+
+export async function applyReferenceImport(kind: ReferenceKind, rows: ReferenceRecord[]) {
+  const payload = rows.map(row => kind === 'agencies'
+    ? { code: row.code, name: row.name, category: row.category }
+    : { code: row.code, description: row.name }
+  );
+
+  const { error } = await supabase.rpc(referenceKinds[kind].rpc, { p_rows: payload });
+  if (error) throw error;
+
+  clearReferenceDataCache();
+}
+
+// The active rows as a CSV in the import format, to edit and import again
+export const toReferenceCsv = (kind: ReferenceKind, records: ReferenceRecord[]) =>
+  toCsv(referenceKinds[kind].columns, records
+    .filter(record => record.is_active)
+    .map(record => ({ code: record.code, name: record.name, category: record.category })));
@@ -0,0 +1,173 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { sortApprovals, stepLabels, stepOrder } from './approvalSteps';
+import { securityAreaLabels, SecurityAreaType, sortSecurityAreas } from './securityAreas';
+import { requestTypeLabels, RequestType } from './requestTypes';
+import { describeAccessEntry, formatAccessValue, toAccessEntries } from './userAccess';
+import { SpreadsheetColumn, SpreadsheetRow } from './spreadsheet';
+
+interface ExportRequest {
+  id: string;
+  created_at: string;
+  request_type: RequestType;
+  status: string;
+  employee_name: string;
+  employee_id: string | null;
+  email: string;
+  agency_name: string;
+  agency_code: string;
+  is_non_employee: boolean;
+  access_end_date: string | null;
+  submitter_name: string;
+  supervisor_name: string;
+  security_admin_name: string;
+  completed_by: string | null;
+  completed_at: string | null;
+  security_areas: { area_type: string }[];
+  request_approvals: { step: string; status: string; approved_at: string | null; created_at: string }[];
+}
+
+const roleTables = ['security_role_selections', 'hr_payroll_role_selections', 'epm_dwh_role_selections'];
+
+// Keep query strings well under URL length limits when filtering by request ID
+const ID_CHUNK_SIZE = 100;
+
+const formatTimestamp = (value: string | null) => value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : '';
+
+const baseColumns: SpreadsheetColumn[] = [
+  { key: 'request_id', header: 'Request ID' },
+  { key: 'created_at', header: 'Submitted' },
+  { key: 'request_type', header: 'Request Type' },
+  { key: 'status', header: 'Status' },
+  { key: 'employee_name', header: 'Employee Name' },
+  { key: 'employee_id', header: 'Employee ID' },
+  { key: 'email', header: 'Email' },
+  { key: 'agency_name', header: 'Agency' },
+  { key: 'agency_code', header: 'Agency Code' },
+  { key: 'non_employee', header: 'Non-Employee' },
+  { key: 'access_end_date', header: 'Access End Date' },
+  { key: 'submitter_name', header: 'Submitter' },
+  { key: 'supervisor_name', header: 'Supervisor' },
+  { key: 'security_admin_name', header: 'Security Administrator' },
+  { key: 'security_areas', header: 'Security Areas' }
+];
+
+const approvalColumns: SpreadsheetColumn[] = Object.keys(stepOrder).flatMap(step => [
+  { key: `${step}.status`, header: `${stepLabels[step]} Status` },
+  { key: `${step}.approved_at`, header: `${stepLabels[step]} Signed` }
+]);
+
+const completionColumns: SpreadsheetColumn[] = [
+  { key: 'completed_by', header: 'Completed By' },
+  { key: 'completed_at', header: 'Completed At' }
+];
+
+async function fetchInChunks<T>(ids: string[], fetchChunk: (chunk: string[]) => Promise<T[]>) {
+  const results: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    results.push(...await fetchChunk(ids.slice(i, i + ID_CHUNK_SIZE)));
+  }
+  return results;
+}
+
+// Role selection rows for the requests, keyed by request ID and then table
+async function fetchRoleSelections(ids: string[]) {
+  const selections: Record<string, Record<string, Record<string, unknown>>> = {};
+
+  for (const table of roleTables) {
+    const rows = await fetchInChunks(ids, async chunk => {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .in('request_id', chunk);
+
+      if (error) throw error;
+      return (data || []) as Record<string, unknown>[];
+    });
+
+    rows.forEach(row => {
+      const requestId = row.request_id as string;
+      selections[requestId] = { ...selections[requestId], [table]: row };
+    });
+  }
+
+  return selections;
+}
+
+// Report rows for the given requests, in the order given. Role selections are
+// flattened to one column per role or setting when includeRoles is set.
+export async function buildRequestExport(requestIds: string[], includeRoles: boolean) {
+  const requests = await fetchInChunks(requestIds, async chunk => {
+    const { data, error } = await supabase
+      .from('security_role_requests')
+      .select(`
+        *,
+        security_areas (
+          area_type
+        ),
+        request_approvals (
+          step,
+          status,
+          approved_at,
+          created_at
+        )
+      `)
+      .in('id', chunk);
+
+    if (error) throw error;
+    return (data || []) as ExportRequest[];
+  });
+
+  const order = new Map(requestIds.map((id, index) => [id, index]));
+  requests.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+  const roleSelections = includeRoles ? await fetchRoleSelections(requestIds) : {};
+  const roleColumns = new Map<string, SpreadsheetColumn>();
+
+  const rows: SpreadsheetRow[] = requests.map(request => {
+    const areas = sortSecurityAreas((request.security_areas || []).map(area => area.area_type as SecurityAreaType));
+
+    const row: SpreadsheetRow = {
+      request_id: request.id,
+      created_at: formatTimestamp(request.created_at),
+      request_type: requestTypeLabels[request.request_type] || request.request_type,
+      status: request.status,
+      employee_name: request.employee_name,
+      employee_id: request.employee_id,
+      email: request.email,
+      agency_name: request.agency_name,
+      agency_code: request.agency_code,
+      non_employee: request.is_non_employee ? 'Yes' : 'No',
+      access_end_date: request.access_end_date,
+      submitter_name: request.submitter_name,
+      supervisor_name: request.supervisor_name,
+      security_admin_name: request.security_admin_name,
+      security_areas: areas.map(area => securityAreaLabels[area] || area).join('; '),
+      completed_by: request.completed_by,
+      completed_at: formatTimestamp(request.completed_at)
+    };
+
+    sortApprovals(request.request_approvals || []).forEach(approval => {
+      row[`${approval.step}.status`] = approval.status;
+      row[`${approval.step}.approved_at`] = formatTimestamp(approval.approved_at);
+    });
+
+    roleTables.forEach(table => {
+      toAccessEntries(table, roleSelections[request.id]?.[table] || null).forEach(entry => {
+        const key = `${table}.${entry.role_column}`;
+        if (!roleColumns.has(key)) {
+          const { label, group } = describeAccessEntry(table, entry.role_column);
+          roleColumns.set(key, { key, header: `${group}: ${label}` });
+        }
+        row[key] = entry.value === true ? 'Yes' : formatAccessValue(entry.value);
+      });
+    });
+
+    return row;
+  });
+
+  return {
+    columns: [...baseColumns, ...approvalColumns, ...completionColumns, ...roleColumns.values()],
+    rows
+  };
+}
@@ -0,0 +1,178 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { SecurityAreaType } from './securityAreas';
+
+export const REQUEST_PAGE_SIZE = 25;
+
+export const requestStatuses = ['pending', 'approved', 'completed', 'denied', 'returned'];
+
+export type RequestSortField = 'created_at' | 'employee_name' | 'submitter_name' | 'status';
+
+export const requestSortLabels: Record<RequestSortField, string> = {
+  created_at: 'Submitted Date',
+  employee_name: 'Requested For',
+  submitter_name: 'Submitted By',
+  status: 'Status'
+};
+
+export interface RequestListFilters {
+  search: string;
+  status: string;
+  area: SecurityAreaType | '';
+  agency: string;
+  from: string;
+  to: string;
+  submitter: string;
+  approver: string;
+  sort: RequestSortField;
+  ascending: boolean;
+  page: number;
+}
+
+export const defaultRequestFilters: RequestListFilters = {
+  search: '',
+  status: '',
+  area: '',
+  agency: '',
+  from: '',
+  to: '',
+  submitter: '',
+  approver: '',
+  sort: 'created_at',
+  ascending: false,
+  page: 1
+};
+
+// Query string parameter for each filter
+const filterParams: Record<Exclude<keyof RequestListFilters, 'sort' | 'ascending' | 'page'>, string> = {
+  search: 'q',
+  status: 'status',
+  area: 'area',
+  agency: 'agency',
+  from: 'from',
+  to: 'to',
+  submitter: 'submitter',
+  approver: 'approver'
+};
+
+export const parseRequestFilters = (params: URLSearchParams): RequestListFilters => {
+  const filters = { ...defaultRequestFilters };
+
+  (Object.keys(filterParams) as (keyof typeof filterParams)[]).forEach(key => {
+    (filters[key] as string) = params.get(filterParams[key]) || '';
+  });
+
+  const sort = params.get('sort') as RequestSortField | null;
+  if (sort && sort in requestSortLabels) filters.sort = sort;
+  filters.ascending = params.get('dir') === 'asc';
+  filters.page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+
+  return filters;
+};
+
+// Only values that differ from the defaults end up in the URL
+export const toRequestSearchParams = (filters: RequestListFilters) => {
+  const params = new URLSearchParams();
+
+  (Object.keys(filterParams) as (keyof typeof filterParams)[]).forEach(key => {
+    const value = filters[key].trim();
+    if (value) params.set(filterParams[key], value);
+  });
+
+  if (filters.sort !== defaultRequestFilters.sort) params.set('sort', filters.sort);
+  if (filters.ascending) params.set('dir', 'asc');
+  if (filters.page > 1) params.set('page', String(filters.page));
+
+  return params;
+};
+
+export const hasActiveFilters = (filters: RequestListFilters) =>
+  (Object.keys(filterParams) as (keyof typeof filterParams)[]).some(key => filters[key].trim() !== '');
+
+// Characters with meaning inside a PostgREST or() filter or an ilike pattern
+const toSearchPattern = (text: string) => `%${text.trim().replace(/[,()"\\%*]/g, ' ').trim()}%`;
+
+const buildRequestQuery = (filters: RequestListFilters, columns: string, count?: 'exact') => {
+  // Filtering on areas or approvers uses inner-joined copies of those tables so the
+  // embedded lists shown in each row stay complete
+  const joins = [
+    filters.area ? 'area_filter:security_areas!inner(area_type)' : '',
+    filters.approver ? 'approver_filter:request_approvals!inner(approver_email, status)' : ''
+  ].filter(Boolean);
+
+  // Row level security limits this to requests the user submitted, approves or administers
+  let query = supabase
+    .from('security_role_requests')
+    .select([columns, ...joins].join(', '), count ? { count } : undefined);
+
+  if (filters.search.trim()) {
+    const pattern = toSearchPattern(filters.search);
+    query = query.or(`employee_name.ilike.${pattern},employee_id.ilike.${pattern},email.ilike.${pattern}`);
+  }
+  if (filters.submitter.trim()) {
+    const pattern = toSearchPattern(filters.submitter);
+    query = query.or(`submitter_name.ilike.${pattern},submitter_email.ilike.${pattern}`);
+  }
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.agency) query = query.eq('agency_code', filters.agency);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) {
+    // Inclusive of the whole end day
+    query = query.lt('created_at', format(addDays(parseISO(filters.to), 1), 'yyyy-MM-dd'));
+  }
+  if (filters.area) query = query.eq('area_filter.area_type', filters.area);
+  if (filters.approver) {
+    query = query
+      .eq('approver_filter.status', 'pending')
+      .ilike('approver_filter.approver_email', filters.approver.trim().replace(/[\\%_]/g, '\\$&'));
+  }
+
+  return query;
+};
+
+// One page of requests matching the filters, with the total number of matches
+export async function fetchRequestPage<T>(filters: RequestListFilters) {
+  const from = (filters.page - 1) * REQUEST_PAGE_SIZE;
+
+  const { data, error, count } = await buildRequestQuery(filters, `
+      *,
+      security_areas (
+        area_type
+      ),
+      request_approvals (
+        id,
+        step,
+        status,
+        due_at
+      )
+    `, 'exact')
+    .order(filters.sort, { ascending: filters.ascending })
+    .order('id')
+    .range(from, from + REQUEST_PAGE_SIZE - 1)
+    .returns<T[]>();
+
+  if (error) throw error;
+  return { requests: data || [], total: count || 0 };
+}
+
+// The API returns at most this many rows per query (PostgREST max-rows)
+const ID_PAGE_SIZE = 1000;
+
+// IDs of every request matching the filters, in list order, for exports. Read a
+// page at a time so large exports are not cut off at the API's row limit.
+export async function fetchRequestIds(filters: RequestListFilters): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (let from = 0; ; from += ID_PAGE_SIZE) {
+    const { data, error } = await buildRequestQuery(filters, 'id')
+      .order(filters.sort, { ascending: filters.ascending })
+      .order('id')
+      .range(from, from + ID_PAGE_SIZE - 1)
+      .returns<{ id: string }[]>();
+
+    if (error) throw error;
+    ids.push(...(data || []).map(row => row.id));
+
+    if (!data || data.length < ID_PAGE_SIZE) return ids;
+  }
+}
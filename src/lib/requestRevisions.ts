@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+
+export type RevisionSection = 'contact' | 'details' | 'areas' | 'roles';
+
+export const revisionSectionLabels: Record<RevisionSection, string> = {
+  contact: 'Contact details',
+  details: 'Request details',
+  areas: 'Security areas',
+  roles: 'Roles'
+};
+
+// What each section sends back for approval, as applied by record_request_revision()
+export const revisionSectionEffects: Record<RevisionSection, string> = {
+  contact: 'Only a changed supervisor or security administrator is asked to sign again',
+  details: 'All approvals after the user signature reset',
+  areas: 'Director and security administrator approvals reset',
+  roles: 'Director and security administrator approvals reset'
+};
+
+export interface RequestSnapshot {
+  request: Record<string, unknown>;
+  security_areas: { area_type: string; director_name: string | null; director_email: string | null }[];
+  role_selections: Record<string, Record<string, unknown> | null>;
+  copy_user_details: Record<string, unknown> | null;
+  role_removals: { role_table: string; role_column: string; role_label: string }[];
+}
+
+export interface RequestRevision {
+  id: string;
+  revision_number: number;
+  snapshot: RequestSnapshot;
+  changed_sections: RevisionSection[];
+  created_by_email: string | null;
+  created_at: string;
+}
+
+// Store the request's current content as a new revision, if it changed, and send
+// the affected approval steps back to pending. Returns the current revision number.
+export async function recordRequestRevision(requestId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('record_request_revision', {
+    p_request_id: requestId
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Business unit lists stored as text before they became arrays; keep in sync with
+// normalize_request_snapshot()
+const businessUnitListColumns = [
+  'other_business_units',
+  'writeoff_approval_business_units',
+  'credit_invoice_approval_business_units',
+  'physical_inventory_business_units'
+];
+
+// Older snapshots are kept as stored; read their business unit lists as arrays
+const normalizeSnapshot = (snapshot: RequestSnapshot): RequestSnapshot => {
+  const row = snapshot.role_selections?.security_role_selections;
+  if (!row || !businessUnitListColumns.some(column => typeof row[column] === 'string')) {
+    return snapshot;
+  }
+
+  const normalizedRow = { ...row };
+  businessUnitListColumns.forEach(column => {
+    const value = row[column];
+    if (typeof value !== 'string') return;
+
+    const units = value.split(/[\s,;]+/).filter(Boolean).map(unit => unit.toUpperCase());
+    normalizedRow[column] = units.length > 0 ? units : null;
+  });
+
+  return {
+    ...snapshot,
+    role_selections: { ...snapshot.role_selections, security_role_selections: normalizedRow }
+  };
+};
+
+export async function fetchRequestRevisions(requestId: string): Promise<RequestRevision[]> {
+  const { data, error } = await supabase
+    .from('request_revisions')
+    .select('id, revision_number, snapshot, changed_sections, created_by_email, created_at')
+    .eq('request_id', requestId)
+    .order('revision_number', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((revision: RequestRevision) => ({
+    ...revision,
+    snapshot: normalizeSnapshot(revision.snapshot)
+  }));
+}
@@ -0,0 +1,37 @@
+import { SecurityRoleRequest } from '../types';
+import { supabase } from './supabase';
+import { GrantedRole, getRoleKey } from './userAccess';
+
+export type RequestType = SecurityRoleRequest['requestType'];
+
+export const requestTypeLabels: Record<RequestType, string> = {
+  add: 'New Access',
+  change: 'Change Access',
+  remove: 'Remove Access'
+};
+
+export const requestTypeDescriptions: Record<RequestType, string> = {
+  add: 'Grant security roles to a new user.',
+  change: 'Add roles to, or remove roles from, a user who already has access.',
+  remove: 'Revoke some or all of a user\'s current roles. Only the supervisor and security administrator need to sign.'
+};
+
+// Record the roles a change or removal request revokes
+export async function saveRoleRemovals(requestId: string, roles: GrantedRole[], selectedKeys: string[], removeAll: boolean) {
+  const rows = roles
+    .filter(role => removeAll || selectedKeys.includes(getRoleKey(role)))
+    .map(role => ({
+      request_id: requestId,
+      role_table: role.table,
+      role_column: role.column,
+      role_label: role.label
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('request_role_removals')
+    .insert(rows);
+
+  if (error) throw error;
+}
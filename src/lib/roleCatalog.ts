@@ -0,0 +1,396 @@
+import { SecurityAreaType, securityAreaLabels } from './securityAreas';
+
+export type RoleSelectionTable = 'security_role_selections' | 'hr_payroll_role_selections' | 'epm_dwh_role_selections';
+
+export type RoleRiskLevel = 'standard' | 'high';
+
+// One role a request can select. The role selection pages, request details,
+// printouts and exports all read roles from this catalog; a new role needs an
+// entry here and a boolean column in its table.
+export interface CatalogRole {
+  // Form field name on the area's role selection page
+  id: string;
+  area: SecurityAreaType;
+  // Component group on the SWIFT form, for areas that have them (HR / Payroll)
+  group?: string;
+  section: string;
+  label: string;
+  description?: string;
+  // Role name in the target system, where the form gives one
+  systemRoleCode?: string;
+  riskLevel: RoleRiskLevel;
+  // Where the selection is stored
+  table: RoleSelectionTable;
+  column: string;
+  // Marker after the label, explained in the notes of the SWIFT form table
+  footnote?: '*' | '**';
+  // Granted to everyone in the area; shown checked and cannot be cleared
+  alwaysGranted?: boolean;
+}
+
+const accountingRole = (section: string, id: string, column: string, label: string): CatalogRole => ({
+  id,
+  area: 'accounting_procurement',
+  section,
+  label,
+  riskLevel: 'standard',
+  table: 'security_role_selections',
+  column
+});
+
+const hrPayrollRole = (
+  group: string,
+  section: string,
+  id: string,
+  column: string,
+  label: string,
+  extra: Partial<CatalogRole> = {}
+): CatalogRole => ({
+  id,
+  area: 'hr_payroll',
+  group,
+  section,
+  label,
+  riskLevel: 'standard',
+  table: 'hr_payroll_role_selections',
+  column,
+  ...extra
+});
+
+export const roleCatalog: CatalogRole[] = [
+  // Accounting / Procurement
+  accountingRole('Accounts Payable', 'voucherEntry', 'voucher_entry', 'Voucher Entry'),
+  accountingRole('Accounts Payable', 'maintenanceVoucherBuildErrors', 'maintenance_voucher_build_errors', 'Maintenance Voucher Build Errors'),
+  accountingRole('Accounts Payable', 'matchOverride', 'match_override', 'Match Override'),
+  accountingRole('Accounts Payable', 'apInquiryOnly', 'ap_inquiry_only', 'AP Inquiry Only'),
+
+  accountingRole('Accounts Receivable and Cash Management', 'cashMaintenance', 'cash_maintenance', 'Cash Maintenance'),
+  accountingRole('Accounts Receivable and Cash Management', 'receivableSpecialist', 'receivable_specialist', 'Receivable Specialist'),
+  accountingRole('Accounts Receivable and Cash Management', 'receivableSupervisor', 'receivable_supervisor', 'Receivable Supervisor'),
+  accountingRole('Accounts Receivable and Cash Management', 'billingCreate', 'billing_create', 'Billing Create'),
+  accountingRole('Accounts Receivable and Cash Management', 'billingSpecialist', 'billing_specialist', 'Billing Specialist'),
+  accountingRole('Accounts Receivable and Cash Management', 'billingSupervisor', 'billing_supervisor', 'Billing Supervisor'),
+  accountingRole('Accounts Receivable and Cash Management', 'customerMaintenanceSpecialist', 'customer_maintenance_specialist', 'Customer Maintenance Specialist'),
+  accountingRole('Accounts Receivable and Cash Management', 'arBillingSetup', 'ar_billing_setup', 'AR Billing Setup'),
+  accountingRole('Accounts Receivable and Cash Management', 'arBillingInquiryOnly', 'ar_billing_inquiry_only', 'AR Billing Inquiry Only'),
+  accountingRole('Accounts Receivable and Cash Management', 'cashManagementInquiryOnly', 'cash_management_inquiry_only', 'Cash Management Inquiry Only'),
+
+  accountingRole('Budgets/Commitment Control & Appropriation Maintenance', 'budgetJournalEntryOnline', 'budget_journal_entry_online', 'Budget Journal Entry Online'),
+  accountingRole('Budgets/Commitment Control & Appropriation Maintenance', 'budgetJournalLoad', 'budget_journal_load', 'Budget Journal Load'),
+  accountingRole('Budgets/Commitment Control & Appropriation Maintenance', 'journalApprover', 'journal_approver', 'Journal Approver'),
+  accountingRole('Budgets/Commitment Control & Appropriation Maintenance', 'budgetTransferEntryOnline', 'budget_transfer_entry_online', 'Budget Transfer Entry Online'),
+  accountingRole('Budgets/Commitment Control & Appropriation Maintenance', 'transferApprover', 'transfer_approver', 'Transfer Approver'),
+  accountingRole('Budgets/Commitment Control & Appropriation Maintenance', 'budgetInquiryOnly', 'budget_inquiry_only', 'Budget Inquiry Only'),
+
+  accountingRole('General Ledger and NVISION Reporting', 'journalEntryOnline', 'journal_entry_online', 'Journal Entry Online'),
+  accountingRole('General Ledger and NVISION Reporting', 'journalLoad', 'journal_load', 'Journal Load'),
+  accountingRole('General Ledger and NVISION Reporting', 'agencyChartfieldMaintenance', 'agency_chartfield_maintenance', 'Agency Chartfield Maintenance'),
+  accountingRole('General Ledger and NVISION Reporting', 'glAgencyApprover', 'gl_agency_approver', 'GL Agency Approver'),
+  accountingRole('General Ledger and NVISION Reporting', 'generalLedgerInquiryOnly', 'general_ledger_inquiry_only', 'General Ledger Inquiry Only'),
+  accountingRole('General Ledger and NVISION Reporting', 'nvisionReportingAgencyUser', 'nvision_reporting_agency_user', 'NVISION Reporting Agency User'),
+  accountingRole('General Ledger and NVISION Reporting', 'needsDailyReceiptsReport', 'needs_daily_receipts_report', 'Needs Daily Receipts Report'),
+
+  accountingRole('Grants', 'awardDataEntry', 'award_data_entry', 'Award Data Entry'),
+  accountingRole('Grants', 'grantFiscalManager', 'grant_fiscal_manager', 'Grant Fiscal Manager'),
+  accountingRole('Grants', 'programManager', 'program_manager', 'Program Manager'),
+  accountingRole('Grants', 'gmAgencySetup', 'gm_agency_setup', 'GM Agency Setup'),
+  accountingRole('Grants', 'grantsInquiryOnly', 'grants_inquiry_only', 'Grants Inquiry Only'),
+
+  accountingRole('Project Costing', 'federalProjectInitiator', 'federal_project_initiator', 'Federal Project Initiator'),
+  accountingRole('Project Costing', 'oimInitiator', 'oim_initiator', 'OIM Initiator'),
+  accountingRole('Project Costing', 'projectInitiator', 'project_initiator', 'Project Initiator'),
+  accountingRole('Project Costing', 'projectManager', 'project_manager', 'Project Manager'),
+  accountingRole('Project Costing', 'capitalProgramsOffice', 'capital_programs_office', 'Capital Programs Office'),
+  accountingRole('Project Costing', 'projectCostAccountant', 'project_cost_accountant', 'Project Cost Accountant'),
+  accountingRole('Project Costing', 'projectFixedAsset', 'project_fixed_asset', 'Project Fixed Asset'),
+  accountingRole('Project Costing', 'categorySubcategoryManager', 'category_subcategory_manager', 'Category Subcategory Manager'),
+  accountingRole('Project Costing', 'projectControlDates', 'project_control_dates', 'Project Control Dates'),
+  accountingRole('Project Costing', 'projectAccountingSystems', 'project_accounting_systems', 'Project Accounting Systems'),
+  accountingRole('Project Costing', 'mndotProjectsInquiry', 'mndot_projects_inquiry', 'MNDOT Projects Inquiry'),
+  accountingRole('Project Costing', 'projectsInquiryOnly', 'projects_inquiry_only', 'Projects Inquiry Only'),
+  accountingRole('Project Costing', 'mndotProjectApprover', 'mndot_project_approver', 'MNDOT Project Approver'),
+
+  accountingRole('Cost Allocation', 'costAllocationInquiryOnly', 'cost_allocation_inquiry_only', 'Cost Allocation Inquiry Only'),
+
+  accountingRole('Asset Management', 'financialAccountantAssets', 'financial_accountant_assets', 'Financial Accountant Assets'),
+  accountingRole('Asset Management', 'assetManagementInquiryOnly', 'asset_management_inquiry_only', 'Asset Management Inquiry Only'),
+  accountingRole('Asset Management', 'physicalInventoryApproval1', 'physical_inventory_approval_1', 'Physical Inventory Approval 1'),
+  accountingRole('Asset Management', 'physicalInventoryApproval2', 'physical_inventory_approval_2', 'Physical Inventory Approval 2'),
+
+  // HR / Payroll: Human Resources Components
+  hrPayrollRole('Human Resources', 'Administer Training', 'hrDataEntry', 'hr_data_entry', 'All-Correct'),
+  hrPayrollRole('Human Resources', 'Administer Training', 'hrDataInquiry', 'hr_data_inquiry', 'Enroll-Update'),
+  hrPayrollRole('Human Resources', 'Administer Training', 'hrSupervisor', 'hr_supervisor', 'View only'),
+  hrPayrollRole('Human Resources', 'Administer Training', 'hrDirector', 'hr_director', 'Company Property Table Correct'),
+  hrPayrollRole('Human Resources', 'Emergency Contact', 'hrStatewide', 'hr_statewide', 'Update', { riskLevel: 'high' }),
+  hrPayrollRole('Human Resources', 'Emergency Contact', 'emergencyContactView', 'emergency_contact_view', 'View'),
+  hrPayrollRole('Human Resources', 'Emergency Contact', 'employmentDataUpdateGeneral', 'employment_data_update_general', 'Employment Data Update General Data'),
+  hrPayrollRole('Human Resources', 'Health & Safety', 'healthSafetyView', 'health_safety_view', 'View'),
+  hrPayrollRole('Human Resources', 'Job Data', 'jobDataCorrect', 'job_data_correct', 'Correct', { footnote: '*' }),
+  hrPayrollRole('Human Resources', 'Job Data', 'jobDataUpdate', 'job_data_update', 'Update', { footnote: '*' }),
+  hrPayrollRole('Human Resources', 'Job Data', 'jobDataView', 'job_data_view', 'View'),
+  hrPayrollRole('Human Resources', 'Labor Relations', 'laborRelationsUpdate', 'labor_relations_update', 'Update'),
+  hrPayrollRole('Human Resources', 'Labor Relations', 'laborRelationsView', 'labor_relations_view', 'View'),
+  hrPayrollRole('Human Resources', 'Manage Competencies', 'manageCompetenciesUpdate', 'manage_competencies_update', 'Update'),
+  hrPayrollRole('Human Resources', 'Manage Competencies', 'manageCompetenciesView', 'manage_competencies_view', 'View'),
+  hrPayrollRole('Human Resources', 'Personal Data', 'personalDataCorrect', 'personal_data_correct', 'Correct', { footnote: '*' }),
+  hrPayrollRole('Human Resources', 'Personal Data', 'personalDataUpdate', 'personal_data_update', 'Update', { footnote: '*' }),
+  hrPayrollRole('Human Resources', 'Personal Data', 'personalDataView', 'personal_data_view', 'View'),
+  hrPayrollRole('Human Resources', 'Physical Exams', 'physicalExamsUpdate', 'physical_exams_update', 'Update'),
+  hrPayrollRole('Human Resources', 'Physical Exams', 'physicalExamsView', 'physical_exams_view', 'View'),
+  hrPayrollRole('Human Resources', 'Position Data', 'positionDataCorrect', 'position_data_correct', 'Correct'),
+  hrPayrollRole('Human Resources', 'Position Data', 'positionDataUpdate', 'position_data_update', 'Update'),
+  hrPayrollRole('Human Resources', 'Position Data', 'positionDataView', 'position_data_view', 'View'),
+  hrPayrollRole('Human Resources', 'Position Funding', 'positionFundingCorrect', 'position_funding_correct', 'Correct'),
+  hrPayrollRole('Human Resources', 'Position Funding', 'positionFundingUpdate', 'position_funding_update', 'Update'),
+  hrPayrollRole('Human Resources', 'Position Funding', 'positionFundingView', 'position_funding_view', 'View'),
+
+  // HR / Payroll: Payroll Components
+  hrPayrollRole('Payroll', 'Adjustments/RetroPay', 'adjustmentsRetroPayUpdate', 'adjustments_retro_pay_update', 'Update', { footnote: '*' }),
+  hrPayrollRole('Payroll', 'Adjustments/RetroPay', 'adjustmentsRetroPayView', 'adjustments_retro_pay_view', 'View'),
+  hrPayrollRole('Payroll', 'Adjustments/RetroPay', 'adjustmentsRetroPayViewInquire', 'adjustments_retro_pay_view_inquire', 'View Inquire only'),
+  hrPayrollRole('Payroll', 'Balances/Paycheck', 'balancesPaycheckView', 'balances_paycheck_view', 'View only'),
+  hrPayrollRole('Payroll', 'Business Expense', 'businessExpenseUpdate', 'business_expense_update', 'Update', { footnote: '*' }),
+  hrPayrollRole('Payroll', 'Business Expense', 'businessExpenseView', 'business_expense_view', 'View'),
+  hrPayrollRole('Payroll', 'Business Expense', 'businessExpenseViewInquire', 'business_expense_view_inquire', 'View Inquire only'),
+  hrPayrollRole('Payroll', 'Direct Deposit', 'directDepositUpdateCorrect', 'direct_deposit_update_correct', 'Update/Correct', { footnote: '*' }),
+  hrPayrollRole('Payroll', 'Direct Deposit', 'directDepositView', 'direct_deposit_view', 'View'),
+  hrPayrollRole('Payroll', 'DeptTbl Payroll Access', 'deptTblPayrollView', 'dept_tbl_payroll_view', 'View only'),
+  hrPayrollRole('Payroll', 'Expense Transfers', 'expenseTransfersUpdate', 'expense_transfers_update', 'Update'),
+  hrPayrollRole('Payroll', 'Expense Transfers', 'expenseTransfersView', 'expense_transfers_view', 'View'),
+  hrPayrollRole('Payroll', 'Expense Transfers', 'expenseTransfersViewInquire', 'expense_transfers_view_inquire', 'View Inquire only'),
+  hrPayrollRole('Payroll', 'Garnishment', 'garnishmentView', 'garnishment_view', 'View only'),
+  hrPayrollRole('Payroll', 'Labor Distribution', 'laborDistributionUpdate', 'labor_distribution_update', 'Update'),
+  hrPayrollRole('Payroll', 'Labor Distribution', 'laborDistributionView', 'labor_distribution_view', 'View'),
+  hrPayrollRole('Payroll', 'Leave', 'leaveUpdate', 'leave_update', 'Update'),
+  hrPayrollRole('Payroll', 'Leave', 'leaveView', 'leave_view', 'View'),
+  hrPayrollRole('Payroll', 'Mass Time Entry', 'massTimeEntryUpdateCorrect', 'mass_time_entry_update_correct', 'Update/Correct', { footnote: '*' }),
+  hrPayrollRole('Payroll', 'Mass Time Entry', 'massTimeEntryView', 'mass_time_entry_view', 'View'),
+  hrPayrollRole('Payroll', 'Payroll Data', 'payrollDataUpdateCorrect', 'payroll_data_update_correct', 'Update/Correct'),
+  hrPayrollRole('Payroll', 'Payroll Data', 'payrollDataView', 'payroll_data_view', 'View'),
+  hrPayrollRole('Payroll', 'Schedules', 'schedulesUpdate', 'schedules_update', 'Update'),
+  hrPayrollRole('Payroll', 'Schedules', 'schedulesView', 'schedules_view', 'View'),
+  hrPayrollRole('Payroll', 'Self Service Time Entry', 'selfServiceTimeEntryAdmin', 'self_service_time_entry_admin', 'Administrator (Update)'),
+  hrPayrollRole('Payroll', 'Self Service Time Entry', 'selfServiceTimeEntryView', 'self_service_time_entry_view', 'View'),
+
+  // HR / Payroll: Benefits Components
+  hrPayrollRole('Benefits', 'All Benefits Pages', 'adjustmentsBeneAdmBase', 'adjustments_bene_adm_base', 'Administrator Base Benefits'),
+  hrPayrollRole('Benefits', 'All Benefits Pages', 'adjustmentsBeneAdmAuto', 'adjustments_bene_adm_auto', 'Administrator Automated Benefits'),
+  hrPayrollRole('Benefits', 'All Benefits Pages', 'adjustmentsBeneBilling', 'adjustments_bene_billing', 'Administrator Benefits Billings'),
+  hrPayrollRole('Benefits', 'Benefits ACA Eligibility', 'beneACAEligibilityUpdate', 'bene_aca_eligibility_update', 'Update/Correct'),
+  hrPayrollRole('Benefits', 'MN State Universities & Colleges Only', 'mnStateCollegeBeneReports', 'mn_state_college_bene_reports', 'Benefits Reports', { footnote: '*' }),
+
+  // HR / Payroll: Recruiting Solutions
+  hrPayrollRole('Recruiting Solutions', 'Recruiting', 'recruitRecruiter', 'recruit_recruiter', 'Recruiter', { footnote: '*' }),
+  hrPayrollRole('Recruiting Solutions', 'Recruiting', 'recruitRecruiterLimited', 'recruit_recruiter_limited', 'Recruiter-Limited', { footnote: '*' }),
+  hrPayrollRole('Recruiting Solutions', 'Recruiting', 'recruitAffirmativeAction', 'recruit_affirmative_action', 'Affirmative Action Officer', { footnote: '*' }),
+  hrPayrollRole('Recruiting Solutions', 'Recruiting', 'recruitHiringManager', 'recruit_hiring_manager', 'Hiring Manager Proxy', { footnote: '**' }),
+
+  // EPM / Data Warehouse
+  {
+    id: 'ssnView',
+    area: 'epm_data_warehouse',
+    section: 'HR/Payroll Warehouse',
+    label: 'SSN View',
+    riskLevel: 'high',
+    table: 'epm_dwh_role_selections',
+    column: 'ssn_view'
+  },
+  {
+    id: 'payrollDeductions',
+    area: 'epm_data_warehouse',
+    section: 'HR/Payroll Warehouse',
+    label: 'Payroll Deductions',
+    riskLevel: 'high',
+    table: 'epm_dwh_role_selections',
+    column: 'payroll_deductions'
+  },
+  {
+    id: 'hrDataExcludedEmployees',
+    area: 'epm_data_warehouse',
+    section: 'HR/Payroll Warehouse',
+    label: 'HR Data for Excluded Employees',
+    riskLevel: 'high',
+    table: 'epm_dwh_role_selections',
+    column: 'hr_data_excluded_employees'
+  },
+  {
+    id: 'biAuthor',
+    area: 'epm_data_warehouse',
+    section: 'RAPS',
+    label: 'BI Author',
+    description: 'Required for all RAPS users',
+    riskLevel: 'standard',
+    table: 'epm_dwh_role_selections',
+    column: 'bi_author',
+    alwaysGranted: true
+  },
+  {
+    id: 'mEpmHcmLookup',
+    area: 'epm_data_warehouse',
+    section: 'RAPS',
+    label: 'M_EPM_HCM_LOOKUP',
+    description: 'Required for all RAPS users',
+    systemRoleCode: 'M_EPM_HCM_LOOKUP',
+    riskLevel: 'standard',
+    table: 'epm_dwh_role_selections',
+    column: 'm_epm_hcm_lookup',
+    alwaysGranted: true
+  },
+  {
+    id: 'mRapsLink',
+    area: 'epm_data_warehouse',
+    section: 'RAPS',
+    label: 'M_RAPS_LINK',
+    description: 'Includes private data',
+    systemRoleCode: 'M_RAPS_LINK',
+    riskLevel: 'standard',
+    table: 'epm_dwh_role_selections',
+    column: 'm_raps_link'
+  },
+  {
+    id: 'rapsNewUser',
+    area: 'epm_data_warehouse',
+    section: 'RAPS',
+    label: 'New User',
+    description: 'Check here if new user to enter needed SEMA4 agency or department code(s)',
+    riskLevel: 'standard',
+    table: 'epm_dwh_role_selections',
+    column: 'raps_new_user'
+  },
+
+  // ELM. These share the security_role_selections row with Accounting / Procurement
+  // and are stored in the columns the original form used for them.
+  {
+    id: 'learningAdministrator',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'Learning Administrator',
+    description: 'As a lead administrator for your agency, you will request this role. This has expanded menu options in the Enterprise Learning Folder.',
+    riskLevel: 'high',
+    table: 'security_role_selections',
+    column: 'elm_system_administrator'
+  },
+  {
+    id: 'learningCatalogAdministrator',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'Learning Catalog Administrator',
+    description: 'This role provides access to create and manage Learner Groups, create and maintain catalog functions; Manage Programs, Manage Courses, and Manage Classes.',
+    riskLevel: 'standard',
+    table: 'security_role_selections',
+    column: 'elm_course_administrator'
+  },
+  {
+    id: 'rosterAdministrator',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'Roster Administrator',
+    description: 'This role will allow you to review and administer both Class and Program rosters in the Learner Tasks folder. You will also have the ability to create Ad Hoc announcements in the Notifications folder. This role also give you access to run both delivered and custom ELM reports.',
+    riskLevel: 'standard',
+    table: 'security_role_selections',
+    column: 'elm_reporting_administrator'
+  },
+  {
+    id: 'enrollmentAdministrator',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'Enrollment Administrator',
+    description: 'This role provides you with the menus to enroll learners in a class. Learners can be enrolled from the Enroll menu as well as directly from the rosters. You will also have access to maintain learning requests and add supplemental learning for your agency\'s learners. Monitoring and maintaining approvals are also part of the role.',
+    riskLevel: 'standard',
+    table: 'security_role_selections',
+    column: 'assign_user_roles'
+  },
+  {
+    id: 'maintainApprovals',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'Maintain Approvals',
+    description: 'This role is generally assigned to Agency Training Coordinators. You will have access to the Learner Task folder to monitor and maintain approvals.',
+    riskLevel: 'standard',
+    table: 'security_role_selections',
+    column: 'view_user_progress'
+  },
+  {
+    id: 'profileAdministrator',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'Profile Administrator',
+    description: 'This role provides access to the User Profiles and Organization folders. You will be able to review internal learners\' profiles, and review and add External learner profiles. You will also have the ability to review reporting relationships in your agency.',
+    riskLevel: 'standard',
+    table: 'security_role_selections',
+    column: 'manage_user_accounts'
+  },
+  {
+    id: 'externalLearnerSecurityAdministrator',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'External Learner Security Administrator',
+    description: 'This role, combined with the External Learner Security role, provides you the ability to create external learners.',
+    systemRoleCode: 'M_HR_External_Learner_Security, M_LMLELM_External_Learning_Adm',
+    riskLevel: 'high',
+    table: 'security_role_selections',
+    column: 'elm_key_administrator'
+  },
+  {
+    id: 'sandboxAccess',
+    area: 'elm',
+    section: 'ELM Administrative Roles',
+    label: 'Sandbox Access',
+    description: 'If this box is checked, the person will need same security roles in ELM92UQ in addition to ELM92AP.',
+    systemRoleCode: 'M_ELM_TRAINING_LINK',
+    riskLevel: 'standard',
+    table: 'security_role_selections',
+    column: 'system_backup_access'
+  }
+];
+
+export const getCatalogRoles = (area: SecurityAreaType) => roleCatalog.filter(role => role.area === area);
+
+export const findCatalogRole = (table: string, column: string) =>
+  roleCatalog.find(role => role.table === table && role.column === column);
+
+export interface CatalogRoleSection {
+  group?: string;
+  section: string;
+  roles: CatalogRole[];
+}
+
+// Roles grouped by section, in catalog order
+export const groupCatalogRoles = (roles: CatalogRole[]): CatalogRoleSection[] => {
+  const sections: CatalogRoleSection[] = [];
+  roles.forEach(role => {
+    const existing = sections.find(s => s.group === role.group && s.section === role.section);
+    if (existing) {
+      existing.roles.push(role);
+    } else {
+      sections.push({ group: role.group, section: role.section, roles: [role] });
+    }
+  });
+  return sections;
+};
+
+// Reviewer-facing label and group for a role, as used in details, printouts and exports
+export const describeCatalogRole = (role: CatalogRole) => ({
+  label: `${role.section} - ${role.label}`,
+  group: role.group ? `${securityAreaLabels[role.area]}: ${role.group}` : securityAreaLabels[role.area]
+});
+
+// Stored columns for an area's role checkboxes, keyed by column
+export const toRoleColumns = (area: SecurityAreaType, roles: Record<string, boolean> | undefined) =>
+  Object.fromEntries(getCatalogRoles(area).map(role => [role.column, role.alwaysGranted || !!roles?.[role.id]]));
+
+// Role checkbox values for an area from a stored row, keyed by role id
+export const fromRoleColumns = (area: SecurityAreaType, row: Record<string, unknown> | null): Record<string, boolean> =>
+  Object.fromEntries(getCatalogRoles(area).map(role => [role.id, role.alwaysGranted || row?.[role.column] === true]));
+
+// Whether any role the user can choose is selected; always-granted roles do not count
+export const hasSelectedCatalogRoles = (area: SecurityAreaType, roles: Record<string, boolean> | undefined) =>
+  getCatalogRoles(area).some(role => !role.alwaysGranted && !!roles?.[role.id]);
+
+export const hasHighRiskCatalogRoles = (area: SecurityAreaType, roles: Record<string, boolean> | undefined) =>
+  getCatalogRoles(area).some(role => role.riskLevel === 'high' && !!roles?.[role.id]);
+
+// Roles switched on in a stored row of a role selection table
+export const getSelectedCatalogRoles = (table: string, row: Record<string, unknown> | null) =>
+  row ? roleCatalog.filter(role => role.table === table && row[role.column] === true) : [];
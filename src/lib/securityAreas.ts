@@ -0,0 +1,99 @@
+import { SecurityRoleRequest } from '../types';
+import { recordRequestRevision } from './requestRevisions';
+
+export type SecurityAreaType = SecurityRoleRequest['securityAreas'][number];
+
+// Order the role selection pages are visited in when several areas are requested
+export const securityAreaOrder: SecurityAreaType[] = [
+  'accounting_procurement',
+  'hr_payroll',
+  'epm_data_warehouse',
+  'elm'
+];
+
+export const securityAreaLabels: Record<SecurityAreaType, string> = {
+  accounting_procurement: 'Accounting / Procurement',
+  hr_payroll: 'HR / Payroll',
+  epm_data_warehouse: 'EPM / Data Warehouse',
+  elm: 'ELM'
+};
+
+// Role selection page for each security area
+export const roleSelectionPaths: Record<SecurityAreaType, string> = {
+  accounting_procurement: '/select-roles',
+  hr_payroll: '/hr-payroll-roles',
+  epm_data_warehouse: '/epm-dwh-roles',
+  elm: '/elm-roles'
+};
+
+// Table holding the role selections for each security area
+export const roleSelectionTables: Record<SecurityAreaType, string> = {
+  accounting_procurement: 'security_role_selections',
+  hr_payroll: 'hr_payroll_role_selections',
+  epm_data_warehouse: 'epm_dwh_role_selections',
+  elm: 'security_role_selections'
+};
+
+export const allRoleSelectionTables = Array.from(new Set(Object.values(roleSelectionTables)));
+
+export const sortSecurityAreas = (areas: SecurityAreaType[]) => {
+  return securityAreaOrder.filter(area => areas.includes(area));
+};
+
+// security_areas rows for the areas selected on the request form
+export const toSecurityAreaRows = (data: SecurityRoleRequest) => {
+  return sortSecurityAreas(data.securityAreas || []).map(area => {
+    switch (area) {
+      case 'accounting_procurement':
+        return {
+          area_type: area,
+          director_name: data.accountingDirector,
+          director_email: data.accountingDirectorUsername,
+        };
+      case 'hr_payroll':
+        // The HR director comes from the agency approver directory when the row is saved
+        return {
+          area_type: area,
+          director_name: data.hrMainframeLogonId,
+          director_email: null,
+          hr_view_statewide: !!data.hrViewStatewide,
+        };
+      case 'elm':
+        return {
+          area_type: area,
+          director_name: data.elmKeyAdmin,
+          director_email: data.elmKeyAdminUsername,
+        };
+      default:
+        return { area_type: area };
+    }
+  });
+};
+
+// Where to go after saving one area's roles. `areaQueue` holds the areas still
+// to visit and is passed along in router state from page to page.
+export const getNextRoleSelection = (requestId: string, areaQueue: SecurityAreaType[] = []) => {
+  const [nextArea, ...remainingAreas] = areaQueue;
+  if (!nextArea) {
+    return { path: '/success', state: { requestId } };
+  }
+  return {
+    path: roleSelectionPaths[nextArea],
+    state: { requestId, areaQueue: remainingAreas }
+  };
+};
+
+// Next page after saving a role selection page. Once the last one is saved the
+// request is complete, so its content is recorded as a revision.
+export const advanceRoleSelection = async (requestId: string, areaQueue: SecurityAreaType[] = []) => {
+  const next = getNextRoleSelection(requestId, areaQueue);
+  if (next.path === '/success') {
+    await recordRequestRevision(requestId);
+  }
+  return next;
+};
+
+// First role selection page for a new or edited request
+export const startRoleSelection = (requestId: string, areas: SecurityAreaType[]) => {
+  return getNextRoleSelection(requestId, sortSecurityAreas(areas));
+};
@@ -0,0 +1,38 @@
+import { SecurityRoleSelection } from '../types';
+import { toRoleColumns } from './roleCatalog';
+
+// Build the security_role_selections row for a submitted Accounting / Procurement form
+export const toSecurityRoleRow = (requestId: string, data: SecurityRoleSelection) => ({
+  request_id: requestId,
+  home_business_unit: data.homeBusinessUnit,
+  other_business_units: data.otherBusinessUnits?.length ? data.otherBusinessUnits : null,
+  ...toRoleColumns('accounting_procurement', data.roles),
+
+  // Accounts Payable
+  voucher_approver_1: data.voucherApprover1 || null,
+  voucher_approver_2: data.voucherApprover2 || null,
+  voucher_approver_3: data.voucherApprover3 || null,
+
+  // Accounts Receivable and Cash Management
+  writeoff_approval_business_units: data.writeoffApprovalBusinessUnits?.length ? data.writeoffApprovalBusinessUnits : null,
+  credit_invoice_approval_business_units: data.creditInvoiceApprovalBusinessUnits?.length ? data.creditInvoiceApprovalBusinessUnits : null,
+
+  // Budgets/Commitment Control & Appropriation Maintenance
+  appropriation_sources: data.appropriationSources || null,
+  expense_budget_source: data.expenseBudgetSource || null,
+  revenue_budget_source: data.revenueBudgetSource || null,
+  transfer_appropriation_sources: data.transferAppropriationSources || null,
+
+  // General Ledger and NVISION Reporting
+  gl_agency_approver_sources: data.glAgencyApproverSources || null,
+
+  // Project Costing
+  route_control: data.routeControl || null,
+
+  // Asset Management
+  physical_inventory_business_units: data.physicalInventoryBusinessUnits?.length ? data.physicalInventoryBusinessUnits : null,
+  physical_inventory_department_ids: data.physicalInventoryDepartmentIds || null,
+
+  // Role Justification
+  role_justification: data.roleJustification
+});
@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { allRoleSelectionTables } from './securityAreas';
+import { describeAccessEntry, fetchAccessEntries, getRoleKey, toAccessEntries, toEmployeeAccessKey, toRoleSelectionRow } from './userAccess';
+
+export type SodEnforcement = 'block' | 'justify';
+
+// One side of a conflict; `roles` are `table.column` keys of the roles and
+// settings that perform it
+export interface SodDuty {
+  label: string;
+  roles: string[];
+}
+
+// A segregation-of-duties rule, as maintained in sod_rules. A request conflicts
+// with it when it holds a role from every duty.
+export interface SodRule {
+  id: string;
+  name: string;
+  description: string | null;
+  duties: SodDuty[];
+  enforcement: SodEnforcement;
+}
+
+export interface SodConflict {
+  rule: SodRule;
+  // Each duty with the labels of the roles the employee would hold for it
+  duties: { label: string; roles: string[] }[];
+}
+
+// Stored role selection rows of a request, keyed by table
+export type RoleSelectionRows = Record<string, Record<string, unknown> | null>;
+
+export async function fetchSodRules(): Promise<SodRule[]> {
+  const { data, error } = await supabase
+    .from('sod_rules')
+    .select('id, name, description, duties, enforcement')
+    .eq('is_active', true)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchRoleSelectionRows(requestId: string): Promise<RoleSelectionRows> {
+  const rows = await Promise.all(allRoleSelectionTables.map(async table => {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('request_id', requestId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return [table, data] as const;
+  }));
+
+  return Object.fromEntries(rows);
+}
+
+// Current access of the employee a request copies, shaped like the role
+// selection rows copyExistingUserRoles() will create
+export async function fetchCopiedRoleSelectionRows(copyFromEmployeeId: string): Promise<RoleSelectionRows> {
+  const { data: employee, error } = await supabase
+    .from('employee_access')
+    .select('employee_key')
+    .eq('employee_id', copyFromEmployeeId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!employee) return {};
+
+  const entries = await fetchAccessEntries(employee.employee_key);
+  return Object.fromEntries(allRoleSelectionTables.map(table => [table, toRoleSelectionRow(entries, table)]));
+}
+
+// `table.column` keys of the access a request's employee already holds and
+// keeps: their ledger entries less the roles the request removes. Removal
+// requests grant nothing, so their conflicts are not checked.
+export async function fetchHeldRoleKeys(requestId: string): Promise<string[]> {
+  const { data: request, error } = await supabase
+    .from('security_role_requests')
+    .select('employee_id, email, request_type')
+    .eq('id', requestId)
+    .single();
+
+  if (error) throw error;
+
+  const employeeKey = toEmployeeAccessKey(request.employee_id, request.email);
+  if (request.request_type === 'remove' || !employeeKey) return [];
+
+  const [entries, { data: removals, error: removalsError }] = await Promise.all([
+    fetchAccessEntries(employeeKey),
+    supabase
+      .from('request_role_removals')
+      .select('role_table, role_column')
+      .eq('request_id', requestId)
+  ]);
+
+  if (removalsError) throw removalsError;
+
+  const removedKeys = (removals || []).map(removal => getRoleKey({ table: removal.role_table, column: removal.role_column }));
+  return entries
+    .map(entry => getRoleKey({ table: entry.role_table, column: entry.role_column }))
+    .filter(key => !removedKeys.includes(key));
+}
+
+// Mitigating control justifications of a request, keyed by rule id
+export async function fetchSodJustifications(requestId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('request_sod_justifications')
+    .select('rule_id, justification')
+    .eq('request_id', requestId);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.rule_id, row.justification]));
+}
+
+// Active rules the request's roles conflict with. A role counts when it would be
+// recorded in the access ledger: switched on, or a setting that is filled in.
+// `heldKeys` is the access the employee already keeps, so duties cannot be split
+// across requests; a rule only conflicts when the request adds one of its roles.
+// Keep in sync with request_sod_conflicts() in the database.
+export const findSodConflicts = (rules: SodRule[], rows: RoleSelectionRows, heldKeys: string[] = []): SodConflict[] => {
+  const requested = new Set(
+    Object.entries(rows).flatMap(([table, row]) =>
+      toAccessEntries(table, row).map(entry => getRoleKey({ table, column: entry.role_column }))
+    )
+  );
+  const held = new Set([...requested, ...heldKeys]);
+
+  return rules.flatMap(rule => {
+    const duties = rule.duties.map(duty => ({
+      label: duty.label,
+      roles: duty.roles
+        .filter(key => held.has(key))
+        .map(key => {
+          const [table, column] = key.split('.');
+          const label = describeAccessEntry(table, column).label;
+          return requested.has(key) ? label : `${label} (current access)`;
+        })
+    }));
+
+    const addsRole = rule.duties.some(duty => duty.roles.some(key => requested.has(key)));
+    return addsRole && duties.every(duty => duty.roles.length > 0) ? [{ rule, duties }] : [];
+  });
+};
+
+// Store justifications for the request's justify conflicts and drop the ones for
+// rules it no longer conflicts with. Runs before the role selections are saved,
+// so the check on submit sees them.
+export async function saveSodJustifications(
+  requestId: string,
+  conflicts: SodConflict[],
+  justifications: Record<string, string>
+) {
+  const rows = conflicts
+    .filter(conflict => conflict.rule.enforcement === 'justify')
+    .map(conflict => ({
+      request_id: requestId,
+      rule_id: conflict.rule.id,
+      justification: (justifications[conflict.rule.id] || '').trim(),
+      updated_at: new Date().toISOString()
+    }));
+
+  let stale = supabase
+    .from('request_sod_justifications')
+    .delete()
+    .eq('request_id', requestId);
+  if (rows.length > 0) {
+    stale = stale.not('rule_id', 'in', `(${rows.map(row => row.rule_id).join(',')})`);
+  }
+  const { error: deleteError } = await stale;
+  if (deleteError) throw deleteError;
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('request_sod_justifications')
+      .upsert(rows, { onConflict: 'request_id,rule_id' });
+
+    if (error) throw error;
+  }
+}
+
+// Why the conflicts stop a role selection page from saving, if they do
+export const getSodConflictError = (conflicts: SodConflict[], justifications: Record<string, string>) => {
+  const blocked = conflicts.find(conflict => conflict.rule.enforcement === 'block');
+  if (blocked) {
+    return `The roles in "${blocked.rule.name}" cannot be requested together. Remove the roles of one duty.`;
+  }
+
+  const unjustified = conflicts.find(conflict => !(justifications[conflict.rule.id] || '').trim());
+  if (unjustified) {
+    return `Please describe the mitigating control for "${unjustified.rule.name}".`;
+  }
+
+  return null;
+};
+
+// Live segregation-of-duties check for a role selection page. `table` and `row`
+// are the page's own selections as they would be saved; the request's other
+// role selections and the employee's current access are read from the database.
+export function useSodConflicts(requestId: string | null, table: string, row: Record<string, unknown>) {
+  const [rules, setRules] = useState<SodRule[]>([]);
+  const [savedRows, setSavedRows] = useState<RoleSelectionRows>({});
+  const [heldKeys, setHeldKeys] = useState<string[]>([]);
+  const [justifications, setJustifications] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!requestId) return;
+
+    const load = async () => {
+      try {
+        const [sodRules, rows, held, sodJustifications] = await Promise.all([
+          fetchSodRules(),
+          fetchRoleSelectionRows(requestId),
+          fetchHeldRoleKeys(requestId),
+          fetchSodJustifications(requestId)
+        ]);
+        setRules(sodRules);
+        setSavedRows(rows);
+        setHeldKeys(held);
+        setJustifications(sodJustifications);
+      } catch (error) {
+        console.error('Error loading segregation of duties rules:', error);
+      }
+    };
+
+    load();
+  }, [requestId]);
+
+  // The ELM page shares its table with Accounting / Procurement, so the page's
+  // columns are laid over the stored row rather than replacing it
+  const conflicts = findSodConflicts(rules, {
+    ...savedRows,
+    [table]: { ...(savedRows[table] || {}), ...row }
+  }, heldKeys);
+
+  const setJustification = (ruleId: string, justification: string) => {
+    setJustifications(current => ({ ...current, [ruleId]: justification }));
+  };
+
+  return {
+    conflicts,
+    justifications,
+    setJustification,
+    error: getSodConflictError(conflicts, justifications),
+    save: () => requestId ? saveSodJustifications(requestId, conflicts, justifications) : Promise.resolve()
+  };
+}
+
+// Segregation-of-duties check for a request that copies another user's access.
+// There is no role page to enter justifications on, so the request form collects
+// them before submitting; `save` stores them once the request exists. The
+// employee's current access is read for a saved request; a new request passes
+// it in `newRequestHeldKeys`.
+export function useCopiedSodConflicts(
+  requestId: string | null,
+  copyFromEmployeeId: string | null,
+  newRequestHeldKeys: string[] = []
+) {
+  const [rules, setRules] = useState<SodRule[]>([]);
+  const [copiedRows, setCopiedRows] = useState<RoleSelectionRows>({});
+  const [savedHeldKeys, setSavedHeldKeys] = useState<string[]>([]);
+  const [justifications, setJustifications] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [sodRules, sodJustifications, held] = await Promise.all([
+          fetchSodRules(),
+          requestId ? fetchSodJustifications(requestId) : Promise.resolve({}),
+          requestId ? fetchHeldRoleKeys(requestId) : Promise.resolve([])
+        ]);
+        setRules(sodRules);
+        setJustifications(sodJustifications);
+        setSavedHeldKeys(held);
+      } catch (error) {
+        console.error('Error loading segregation of duties rules:', error);
+      }
+    };
+
+    load();
+  }, [requestId]);
+
+  useEffect(() => {
+    setCopiedRows({});
+    if (!copyFromEmployeeId) return;
+
+    const load = async () => {
+      try {
+        setCopiedRows(await fetchCopiedRoleSelectionRows(copyFromEmployeeId));
+      } catch (error) {
+        console.error('Error loading access to copy:', error);
+      }
+    };
+
+    load();
+  }, [copyFromEmployeeId]);
+
+  const conflicts = findSodConflicts(rules, copiedRows, requestId ? savedHeldKeys : newRequestHeldKeys);
+
+  const setJustification = (ruleId: string, justification: string) => {
+    setJustifications(current => ({ ...current, [ruleId]: justification }));
+  };
+
+  return {
+    conflicts,
+    justifications,
+    setJustification,
+    error: getSodConflictError(conflicts, justifications),
+    save: (id: string) => saveSodJustifications(id, conflicts, justifications)
+  };
+}
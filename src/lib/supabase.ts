@@ -9,7 +9,9 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
-    persistSession: false // Disable session persistence to avoid localStorage issues
+    persistSession: true,
+    autoRefreshToken: true,
+    detectSessionInUrl: true // Complete magic link sign-in when the user returns to the app
   },
   global: {
     headers: {
@@ -0,0 +1,191 @@
+import { supabase } from './supabase';
+import { describeCatalogRole, findCatalogRole } from './roleCatalog';
+
+export interface AccessRequestDetails {
+  agency_name: string;
+  agency_code: string;
+  is_non_employee: boolean;
+  security_areas: { area_type: string; director_name: string | null; director_email: string | null }[];
+  [key: string]: unknown;
+}
+
+// Request and role selections behind a user's completed access
+export interface UserAccess {
+  userDetails: AccessRequestDetails;
+  roleSelections: Record<string, unknown> | null;
+  hrPayrollSelections: Record<string, unknown> | null;
+  epmDwhSelections: Record<string, unknown> | null;
+}
+
+// A role the user currently holds, identified by where it is stored
+export interface GrantedRole {
+  table: string;
+  column: string;
+  label: string;
+  group: string;
+}
+
+// Columns that are not part of a user's access. Keep in sync with
+// apply_request_to_access() in the database.
+const nonAccessColumns = [
+  'id', 'request_id', 'created_at', 'updated_at',
+  'role_justification', 'elm_role_justification', 'supervisor_approval'
+];
+
+export const formatRoleName = (name: string) => {
+  return name
+    .replace(/_/g, ' ')
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (str) => str.toUpperCase())
+    .trim();
+};
+
+export const getRoleKey = (role: { table: string; column: string }) => `${role.table}.${role.column}`;
+
+// The employee_access key of a request's employee; keep in sync with
+// employee_access_key() in the database
+export const toEmployeeAccessKey = (employeeId: string | null | undefined, email: string | null | undefined) =>
+  (employeeId || '').trim() || (email || '').trim().toLowerCase();
+
+// An employee with completed access, as listed in employee_access
+export interface AccessUser {
+  employee_key?: string;
+  employee_name: string;
+  employee_id: string;
+  email: string;
+  request_id?: string;
+}
+
+export interface AccessEntry {
+  role_table: string;
+  role_column: string;
+  value: unknown;
+}
+
+export async function fetchAccessEntries(employeeKey: string): Promise<AccessEntry[]> {
+  const { data, error } = await supabase
+    .from('employee_access_entries')
+    .select('role_table, role_column, value')
+    .eq('employee_key', employeeKey);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// A role selection row as ledger entries: roles that are on and settings that are filled in
+export const toAccessEntries = (table: string, row: Record<string, unknown> | null): AccessEntry[] => {
+  if (!row) return [];
+
+  return Object.entries(row)
+    .filter(([key, value]) =>
+      !nonAccessColumns.includes(key) &&
+      (
+        value === true ||
+        (typeof value === 'string' && value !== '') ||
+        (Array.isArray(value) && value.length > 0)
+      )
+    )
+    .map(([key, value]) => ({ role_table: table, role_column: key, value }));
+};
+
+// A setting's value for display; business unit lists are stored as arrays
+export const formatAccessValue = (value: unknown) =>
+  Array.isArray(value) ? value.join(', ') : String(value);
+
+const roleTableGroups: Record<string, string> = {
+  security_role_selections: 'Accounting / Procurement and ELM',
+  hr_payroll_role_selections: 'HR / Payroll',
+  epm_dwh_role_selections: 'EPM / Data Warehouse'
+};
+
+// Reviewer-facing label and group for a stored role or setting
+export const describeAccessEntry = (table: string, column: string) => {
+  const role = findCatalogRole(table, column);
+  if (role) {
+    return describeCatalogRole(role);
+  }
+
+  return { label: formatRoleName(column), group: roleTableGroups[table] || table };
+};
+
+// Entries for one role selection table, shaped like a row of that table
+export const toRoleSelectionRow = (entries: AccessEntry[], table: string): Record<string, unknown> | null => {
+  const tableEntries = entries.filter(entry => entry.role_table === table);
+  if (tableEntries.length === 0) return null;
+
+  return tableEntries.reduce((row: Record<string, unknown>, entry) => {
+    row[entry.role_column] = entry.value;
+    return row;
+  }, {});
+};
+
+// Current access for an employee from the effective-access ledger. Details such
+// as security areas come from the most recent completed request.
+export async function fetchUserAccess(employeeKey: string): Promise<UserAccess> {
+  const { data: employee, error: employeeError } = await supabase
+    .from('employee_access')
+    .select(`
+      *,
+      last_request:security_role_requests (
+        *,
+        security_areas (
+          area_type,
+          director_name,
+          director_email
+        )
+      )
+    `)
+    .eq('employee_key', employeeKey)
+    .single();
+
+  if (employeeError) throw employeeError;
+
+  const entries = await fetchAccessEntries(employeeKey);
+
+  return {
+    userDetails: {
+      ...(employee.last_request || {}),
+      employee_name: employee.employee_name,
+      employee_id: employee.employee_id,
+      email: employee.email,
+      agency_name: employee.last_request?.agency_name || '',
+      agency_code: employee.agency_code || employee.last_request?.agency_code || '',
+      is_non_employee: !!employee.last_request?.is_non_employee,
+      security_areas: employee.last_request?.security_areas || []
+    },
+    roleSelections: toRoleSelectionRow(entries, 'security_role_selections'),
+    hrPayrollSelections: toRoleSelectionRow(entries, 'hr_payroll_role_selections'),
+    epmDwhSelections: toRoleSelectionRow(entries, 'epm_dwh_role_selections')
+  };
+}
+
+// Filled-in settings of a role selection row, such as business units and approver codes
+export const getRoleSettings = (table: string, row: Record<string, unknown> | null) =>
+  toAccessEntries(table, row)
+    .filter(entry => entry.value !== true)
+    .map(entry => ({
+      column: entry.role_column,
+      label: describeAccessEntry(table, entry.role_column).label,
+      value: formatAccessValue(entry.value)
+    }));
+
+// Every role switched on in the user's access, in form order
+export const getGrantedRoles = (access: UserAccess | null): GrantedRole[] => {
+  if (!access) return [];
+
+  const rows: [string, Record<string, unknown> | null][] = [
+    ['security_role_selections', access.roleSelections],
+    ['hr_payroll_role_selections', access.hrPayrollSelections],
+    ['epm_dwh_role_selections', access.epmDwhSelections]
+  ];
+
+  return rows.flatMap(([table, row]) =>
+    toAccessEntries(table, row)
+      .filter(entry => entry.value === true)
+      .map(entry => ({
+        table,
+        column: entry.role_column,
+        ...describeAccessEntry(table, entry.role_column)
+      }))
+  );
+};
@@ -9,6 +9,9 @@ import RequestListPage from './RequestListPage.tsx';
 import RequestDetailsPage from './RequestDetailsPage.tsx';
 import SignaturePage from './SignaturePage.tsx';
 import EditRequestPage from './EditRequestPage.tsx';
+import PrintRequestPage from './PrintRequestPage.tsx';
+import ApprovalsInboxPage from './ApprovalsInboxPage.tsx';
+import ReferenceDataAdminPage from './ReferenceDataAdminPage.tsx';
 import ElmRoleSelectionPage from './ElmRoleSelectionPage.tsx';
 import EpmDwhRoleSelectionPage from './EpmDwhRoleSelectionPage.tsx';
 import HrPayrollRoleSelectionPage from './HrPayrollRoleSelectionPage.tsx';
@@ -111,7 +114,10 @@ createRoot(document.getElementById('root')!).render(
       <Route path="/requests" element={<RequestListPage />} />
       <Route path="/requests/:id" element={<RequestDetailsPage />} />
       <Route path="/requests/:id/edit" element={<EditRequestPage />} />
+      <Route path="/requests/:id/print" element={<PrintRequestPage />} />
       <Route path="/signature/:requestId/:approvalId" element={<SignaturePage />} />
+      <Route path="/approvals" element={<ApprovalsInboxPage />} />
+      <Route path="/admin/reference-data" element={<ReferenceDataAdminPage />} />
     </Routes>
   </Router>
 );
\ No newline at end of file
@@ -1,4 +1,7 @@
 export interface SecurityRoleRequest {
+  // New access, a change to existing access, or a removal
+  requestType: 'add' | 'change' | 'remove';
+
   // Employee Details
   startDate: string;
   employeeName: string;
@@ -21,8 +24,8 @@ export interface SecurityRoleRequest {
   securityAdminName: string;
   securityAdminUsername: string;
 
-  // Security Details - Changed to single selection
-  securityArea: 'accounting_procurement' | 'hr_payroll' | 'epm_data_warehouse' | 'elm';
+  // Security Details - one or more areas; each gets its own role selection page
+  securityAreas: ('accounting_procurement' | 'hr_payroll' | 'epm_data_warehouse' | 'elm')[];
   
   // Accounting/Procurement fields
   accountingDirector?: string;
@@ -51,84 +54,73 @@ export interface SecurityRoleRequest {
 export interface SecurityRoleSelection {
   // Business Unit Details
   homeBusinessUnit: string;
-  otherBusinessUnits?: string;
+  homeBusinessUnitDescription: string;
+  otherBusinessUnits: string[];
+
+  // Role checkboxes, keyed by role catalog id
+  roles: Record<string, boolean>;
 
   // Accounts Payable
-  voucherEntry: boolean;
-  voucherApprover1?: string;
-  voucherApprover2?: string;
-  voucherApprover3?: string;
-  maintenanceVoucherBuildErrors: boolean;
-  matchOverride: boolean;
-  apInquiryOnly: boolean;
+  voucherApprover1: string;
+  voucherApprover2: string;
+  voucherApprover3: string;
 
   // Accounts Receivable and Cash Management
-  cashMaintenance: boolean;
-  receivableSpecialist: boolean;
-  receivableSupervisor: boolean;
-  writeoffApprovalBusinessUnits?: string;
-  billingCreate: boolean;
-  billingSpecialist: boolean;
-  billingSupervisor: boolean;
-  creditInvoiceApprovalBusinessUnits?: string;
-  customerMaintenanceSpecialist: boolean;
-  arBillingSetup: boolean;
-  arBillingInquiryOnly: boolean;
-  cashManagementInquiryOnly: boolean;
+  writeoffApprovalBusinessUnits: string[];
+  creditInvoiceApprovalBusinessUnits: string[];
 
   // Budgets/Commitment Control & Appropriation Maintenance
-  budgetJournalEntryOnline: boolean;
-  budgetJournalLoad: boolean;
-  journalApprover: boolean;
-  appropriationSources?: string;
-  expenseBudgetSource?: string;
-  revenueBudgetSource?: string;
-  budgetTransferEntryOnline: boolean;
-  transferApprover: boolean;
-  transferAppropriationSources?: string;
-  budgetInquiryOnly: boolean;
+  appropriationSources: string;
+  expenseBudgetSource: string;
+  revenueBudgetSource: string;
+  transferAppropriationSources: string;
 
   // General Ledger and NVISION Reporting
-  journalEntryOnline: boolean;
-  journalLoad: boolean;
-  agencyChartfieldMaintenance: boolean;
-  glAgencyApprover: boolean;
-  glAgencyApproverSources?: string;
-  generalLedgerInquiryOnly: boolean;
-  nvisionReportingAgencyUser: boolean;
-  needsDailyReceiptsReport?: boolean;
-
-  // Grants
-  awardDataEntry: boolean;
-  grantFiscalManager: boolean;
-  programManager: boolean;
-  gmAgencySetup: boolean;
-  grantsInquiryOnly: boolean;
+  glAgencyApproverSources: string;
 
   // Project Costing
-  federalProjectInitiator: boolean;
-  oimInitiator: boolean;
-  projectInitiator: boolean;
-  projectManager: boolean;
-  capitalProgramsOffice: boolean;
-  projectCostAccountant: boolean;
-  projectFixedAsset: boolean;
-  categorySubcategoryManager: boolean;
-  projectControlDates: boolean;
-  projectAccountingSystems: boolean;
-  mndotProjectsInquiry: boolean;
-  projectsInquiryOnly: boolean;
-  mndotProjectApprover: boolean;
-  routeControl?: string;
-
-  // Cost Allocation
-  costAllocationInquiryOnly: boolean;
+  routeControl: string;
 
   // Asset Management
-  financialAccountantAssets: boolean;
-  assetManagementInquiryOnly: boolean;
-  physicalInventoryApproval1: boolean;
-  physicalInventoryBusinessUnits?: string;
-  physicalInventoryApproval2: boolean;
-  physicalInventoryDepartmentIds?: string;
-}
\ No newline at end of file
+  physicalInventoryBusinessUnits: string[];
+  physicalInventoryDepartmentIds: string;
+
+  // Justification
+  roleJustification: string;
+}
+
+export interface HrPayrollRoleSelection {
+  // Agency / Department ID Access
+  addAccessType: 'agency' | 'department';
+  agencyCodes: string;
+  departmentId: string;
+  prohibitedDepartmentIds: string;
+  deleteAccessCodes: string;
+
+  // Role checkboxes, keyed by role catalog id
+  roles: Record<string, boolean>;
+
+  // Justification
+  roleJustification: string;
+  supervisorApproval: boolean;
+}
+
+export interface EpmDwhRoleSelection {
+  // Business Unit Details
+  homeBusinessUnit: string;
+  otherBusinessUnits: string;
+
+  // Role checkboxes, keyed by role catalog id
+  roles: Record<string, boolean>;
+  rapsSema4Codes: string;
+
+  // Justification
+  roleJustification: string;
+  supervisorApproval: boolean;
+}
+
+// Signed-in Supabase Auth user
+export interface SessionUser {
+  id: string;
+  email: string;
+}
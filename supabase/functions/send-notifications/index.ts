@@ -0,0 +1,146 @@
+/*
+  Delivers queued emails from notification_outbox.
+
+  Invoked every minute by the `send-notifications` pg_cron job while emails are
+  queued (see invoke_send_notifications()). Rows are claimed with
+  claim_notification_outbox() first, so overlapping runs never send the same
+  email twice. Configuration:
+    - APP_BASE_URL            Base URL of the web app used in email links
+    - NOTIFICATION_TRANSPORT  smtp (default) or console
+    - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createTransport } from './transports.ts';
+import { NotificationEvent, renderNotification } from './templates.ts';
+
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 25;
+
+interface OutboxRow {
+  id: string;
+  request_id: string;
+  approval_id: string | null;
+  event: NotificationEvent;
+  recipient_email: string;
+  attempts: number;
+  security_role_requests: { employee_name: string; access_end_date: string | null } | null;
+  request_approvals: { step: string; approver_email: string } | null;
+}
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const appBaseUrl = (Deno.env.get('APP_BASE_URL') || 'http://localhost:5173').replace(/\/$/, '');
+
+// Single-use review link token for the step. Only the service role can issue
+// one, and the link is only ever sent to the step's approver.
+async function issueSigningToken(approvalId: string) {
+  const { data, error } = await supabase.rpc('issue_approval_signing_token', { p_approval_id: approvalId });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Reason entered by the approver who denied or returned the request
+async function getRejectionComments(requestId: string, status: string) {
+  const { data, error } = await supabase
+    .from('request_approvals')
+    .select('comments')
+    .eq('request_id', requestId)
+    .eq('status', status)
+    .order('rejected_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.comments ?? null;
+}
+
+async function deliver(row: OutboxRow, send: ReturnType<typeof createTransport>['send']) {
+  const requestUrl = `${appBaseUrl}/requests/${row.request_id}`;
+  let signingUrl: string | undefined;
+  let comments: string | null = null;
+
+  const isApprover = !!row.request_approvals &&
+    row.recipient_email.toLowerCase() === row.request_approvals.approver_email.toLowerCase();
+
+  if ((row.event === 'approval_requested' || row.event === 'approval_reminder') && row.approval_id && isApprover) {
+    const params = new URLSearchParams({ mode: 'review', token: await issueSigningToken(row.approval_id) });
+    signingUrl = `${appBaseUrl}/signature/${row.request_id}/${row.approval_id}?${params.toString()}`;
+  } else if (row.event === 'request_denied' || row.event === 'request_returned') {
+    comments = await getRejectionComments(row.request_id, row.event.replace('request_', ''));
+  }
+
+  await send(renderNotification({
+    event: row.event,
+    recipientEmail: row.recipient_email,
+    employeeName: row.security_role_requests?.employee_name || 'an employee',
+    step: row.request_approvals?.step,
+    approverEmail: row.request_approvals?.approver_email,
+    comments,
+    accessEndDate: row.security_role_requests?.access_end_date,
+    requestUrl,
+    signingUrl
+  }));
+}
+
+Deno.serve(async () => {
+  try {
+    const transport = createTransport();
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_notification_outbox', { p_limit: BATCH_SIZE });
+    if (claimError) throw claimError;
+
+    const claimedIds = ((claimed || []) as { id: string }[]).map(row => row.id);
+    if (claimedIds.length === 0) {
+      return new Response(JSON.stringify({ transport: transport.name, sent: 0, failed: 0 }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('notification_outbox')
+      .select('id, request_id, approval_id, event, recipient_email, attempts, security_role_requests(employee_name, access_end_date), request_approvals(step, approver_email)')
+      .in('id', claimedIds)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const row of (data || []) as unknown as OutboxRow[]) {
+      try {
+        await deliver(row, transport.send);
+        await supabase
+          .from('notification_outbox')
+          .update({ status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+          .eq('id', row.id);
+        sent++;
+      } catch (err) {
+        console.error(`Error sending notification ${row.id}:`, err);
+        // The attempt was counted when the row was claimed
+        await supabase
+          .from('notification_outbox')
+          .update({
+            status: row.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            last_error: err instanceof Error ? err.message : String(err)
+          })
+          .eq('id', row.id);
+        failed++;
+      }
+    }
+
+    return new Response(JSON.stringify({ transport: transport.name, sent, failed }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (err) {
+    console.error('Error processing notification outbox:', err);
+    return new Response(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -0,0 +1,176 @@
+import { EmailMessage } from './transports.ts';
+
+export type NotificationEvent =
+  | 'approval_requested'
+  | 'approval_reminder'
+  | 'approval_escalated'
+  | 'request_approved'
+  | 'request_denied'
+  | 'request_returned'
+  | 'request_completed'
+  | 'access_end_approaching'
+  | 'access_end_passed';
+
+export interface NotificationContext {
+  event: NotificationEvent;
+  recipientEmail: string;
+  employeeName: string;
+  step?: string;
+  approverEmail?: string;
+  comments?: string | null;
+  accessEndDate?: string | null;
+  requestUrl: string;
+  signingUrl?: string;
+}
+
+// Keep in sync with stepLabels in src/lib/approvalSteps.ts
+const stepLabels: Record<string, string> = {
+  user_signature: 'User Signature',
+  supervisor_approval: 'Supervisor Approval',
+  accounting_director_approval: 'Accounting Director / CFO Approval',
+  hr_director_approval: 'HR Director Approval',
+  elm_admin_approval: 'ELM Key Administrator Approval',
+  security_admin_approval: 'Security Administrator Approval'
+};
+
+// Dates are stored as YYYY-MM-DD; format without shifting time zones
+const formatDate = (value?: string | null) => {
+  if (!value) return 'the scheduled end date';
+  const [year, month, day] = value.split('-');
+  return `${month}/${day}/${year}`;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toHtml = (paragraphs: string[], link?: { url: string; label: string }) => {
+  const body = paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('\n');
+  const button = link
+    ? `<p><a href="${escapeHtml(link.url)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px">${escapeHtml(link.label)}</a></p>`
+    : '';
+  return `<div style="font-family:Arial,sans-serif;font-size:14px;color:#111827">${body}\n${button}</div>`;
+};
+
+export const renderNotification = (context: NotificationContext): EmailMessage => {
+  const { employeeName, requestUrl } = context;
+
+  switch (context.event) {
+    case 'approval_requested': {
+      const stepLabel = stepLabels[context.step || ''] || 'Approval';
+      const url = context.signingUrl || requestUrl;
+      const paragraphs = [
+        `A SWIFT security role request for ${employeeName} is waiting for your signature (${stepLabel}).`,
+        'Use the link below to review the request and sign, deny or return it. The link can only be used once and expires in 7 days.'
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Signature needed: security role request for ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${url}`,
+        html: toHtml(paragraphs, { url, label: 'Review and Sign' })
+      };
+    }
+    case 'approval_reminder': {
+      const stepLabel = stepLabels[context.step || ''] || 'Approval';
+      const url = context.signingUrl || requestUrl;
+      const paragraphs = [
+        `Reminder: the security role request for ${employeeName} is still waiting for your signature (${stepLabel}) and is now overdue.`,
+        'Please review the request and sign, deny or return it using the link below.'
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Reminder - signature overdue: security role request for ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${url}`,
+        html: toHtml(paragraphs, { url, label: 'Review and Sign' })
+      };
+    }
+    case 'approval_escalated': {
+      const stepLabel = stepLabels[context.step || ''] || 'Approval';
+      const paragraphs = [
+        `The security role request for ${employeeName} has been waiting on ${stepLabel} from ${context.approverEmail || 'the assigned approver'} past the escalation threshold.`,
+        'Please follow up with the approver or reassign the step.'
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Escalation: stalled security role request for ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${requestUrl}`,
+        html: toHtml(paragraphs, { url: requestUrl, label: 'View Request' })
+      };
+    }
+    case 'request_approved': {
+      const paragraphs = [
+        `All approvals are complete for the security role request for ${employeeName}.`,
+        'The request is now with the security administrator to grant access.'
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Approved: security role request for ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${requestUrl}`,
+        html: toHtml(paragraphs, { url: requestUrl, label: 'View Request' })
+      };
+    }
+    case 'request_denied': {
+      const paragraphs = [
+        `The security role request for ${employeeName} has been denied.`,
+        ...(context.comments ? [`Reason: ${context.comments}`] : [])
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Denied: security role request for ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${requestUrl}`,
+        html: toHtml(paragraphs, { url: requestUrl, label: 'View Request' })
+      };
+    }
+    case 'request_returned': {
+      const paragraphs = [
+        `The security role request for ${employeeName} has been returned to you for changes.`,
+        ...(context.comments ? [`Changes requested: ${context.comments}`] : []),
+        'Edit the request and resubmit it to restart the approval process.'
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Changes requested: security role request for ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${requestUrl}`,
+        html: toHtml(paragraphs, { url: requestUrl, label: 'Edit Request' })
+      };
+    }
+    case 'request_completed': {
+      const paragraphs = [
+        `Access has been granted and the security role request for ${employeeName} is complete.`
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Completed: security role request for ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${requestUrl}`,
+        html: toHtml(paragraphs, { url: requestUrl, label: 'View Request' })
+      };
+    }
+    case 'access_end_approaching': {
+      const paragraphs = [
+        `Access for non-employee ${employeeName} ends on ${formatDate(context.accessEndDate)}.`,
+        'If the engagement is being extended, update the access end date on the request. Otherwise a removal request will be created automatically after that date.'
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Access ending soon: ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${requestUrl}`,
+        html: toHtml(paragraphs, { url: requestUrl, label: 'View Request' })
+      };
+    }
+    case 'access_end_passed': {
+      const paragraphs = [
+        `Access for non-employee ${employeeName} ended on ${formatDate(context.accessEndDate)}.`,
+        'A removal request has been created automatically and sent to the supervisor and security administrator for approval. Once both have signed, complete the request to remove the access.'
+      ];
+      return {
+        to: context.recipientEmail,
+        subject: `Access ended - removal request created: ${employeeName}`,
+        text: `${paragraphs.join('\n\n')}\n\n${requestUrl}`,
+        html: toHtml(paragraphs, { url: requestUrl, label: 'View Removal Request' })
+      };
+    }
+  }
+};
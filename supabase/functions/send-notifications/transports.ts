@@ -0,0 +1,59 @@
+import nodemailer from 'npm:nodemailer@6.9.14';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+// Logs messages instead of sending them; useful when no mail server is available
+const createConsoleTransport = (): EmailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`[send-notifications] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+});
+
+// SMTP relay. Point SMTP_HOST/SMTP_PORT at a local mail catcher (Inbucket, Mailpit)
+// to capture messages during testing.
+const createSmtpTransport = (): EmailTransport => {
+  const host = Deno.env.get('SMTP_HOST');
+  if (!host) {
+    throw new Error('SMTP_HOST is required for the smtp transport');
+  }
+
+  const user = Deno.env.get('SMTP_USER');
+  const transporter = nodemailer.createTransport({
+    host,
+    port: Number(Deno.env.get('SMTP_PORT') || 587),
+    secure: Deno.env.get('SMTP_SECURE') === 'true',
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASSWORD') || '' } : undefined
+  });
+  const from = Deno.env.get('SMTP_FROM') || 'SWIFT Security Requests <no-reply@state.mn.us>';
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail({ from, ...message });
+    }
+  };
+};
+
+const transports: Record<string, () => EmailTransport> = {
+  console: createConsoleTransport,
+  smtp: createSmtpTransport
+};
+
+export const createTransport = (name = Deno.env.get('NOTIFICATION_TRANSPORT') || 'smtp'): EmailTransport => {
+  const factory = transports[name];
+  if (!factory) {
+    throw new Error(`Unknown notification transport: ${name}`);
+  }
+  return factory();
+};
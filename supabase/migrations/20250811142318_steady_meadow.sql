@@ -0,0 +1,162 @@
+/*
+  # Dedicated HR/Payroll role selection storage
+
+  1. Changes
+    - Add `hr_payroll_role_selections` table with a column for every HR/Payroll
+      role on the SWIFT form (agency/department access, HR, payroll, benefits
+      and recruiting components)
+    - Move existing HR/Payroll selections that were stored in borrowed ELM
+      columns of `security_role_selections` into the new table
+    - Remove the mis-mapped `security_role_selections` rows for HR/Payroll-only
+      requests
+
+  2. Security
+    - Enable RLS on `hr_payroll_role_selections`
+    - Add the same public SELECT/INSERT/UPDATE policies used by
+      `security_role_selections`
+*/
+
+CREATE TABLE IF NOT EXISTS hr_payroll_role_selections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL UNIQUE REFERENCES security_role_requests(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  -- Agency / Department ID Access
+  add_access_type text CHECK (add_access_type IN ('agency', 'department')),
+  agency_codes text,
+  department_id text,
+  prohibited_department_ids text,
+  delete_access_codes text,
+
+  -- Human Resources Components
+  hr_data_entry boolean DEFAULT false,
+  hr_data_inquiry boolean DEFAULT false,
+  hr_supervisor boolean DEFAULT false,
+  hr_director boolean DEFAULT false,
+  hr_statewide boolean DEFAULT false,
+
+  -- Payroll Components
+  adjustments_retro_pay_update boolean DEFAULT false,
+  adjustments_retro_pay_view boolean DEFAULT false,
+  adjustments_retro_pay_view_inquire boolean DEFAULT false,
+  balances_paycheck_view boolean DEFAULT false,
+  business_expense_update boolean DEFAULT false,
+  business_expense_view boolean DEFAULT false,
+  business_expense_view_inquire boolean DEFAULT false,
+  direct_deposit_update_correct boolean DEFAULT false,
+  direct_deposit_view boolean DEFAULT false,
+  dept_tbl_payroll_view boolean DEFAULT false,
+  expense_transfers_update boolean DEFAULT false,
+  expense_transfers_view boolean DEFAULT false,
+  expense_transfers_view_inquire boolean DEFAULT false,
+  garnishment_view boolean DEFAULT false,
+  labor_distribution_update boolean DEFAULT false,
+  labor_distribution_view boolean DEFAULT false,
+  leave_update boolean DEFAULT false,
+  leave_view boolean DEFAULT false,
+  mass_time_entry_update_correct boolean DEFAULT false,
+  mass_time_entry_view boolean DEFAULT false,
+  payroll_data_update_correct boolean DEFAULT false,
+  payroll_data_view boolean DEFAULT false,
+  schedules_update boolean DEFAULT false,
+  schedules_view boolean DEFAULT false,
+  self_service_time_entry_admin boolean DEFAULT false,
+  self_service_time_entry_view boolean DEFAULT false,
+
+  -- Benefits Components
+  adjustments_bene_adm_base boolean DEFAULT false,
+  adjustments_bene_adm_auto boolean DEFAULT false,
+  adjustments_bene_billing boolean DEFAULT false,
+  bene_aca_eligibility_update boolean DEFAULT false,
+  mn_state_college_bene_reports boolean DEFAULT false,
+
+  -- Recruiting Solutions
+  recruit_recruiter boolean DEFAULT false,
+  recruit_recruiter_limited boolean DEFAULT false,
+  recruit_affirmative_action boolean DEFAULT false,
+  recruit_hiring_manager boolean DEFAULT false,
+
+  -- Justification
+  role_justification text,
+  supervisor_approval boolean DEFAULT false
+);
+
+ALTER TABLE hr_payroll_role_selections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public to read hr payroll role selections"
+  ON hr_payroll_role_selections
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public to insert hr payroll role selections"
+  ON hr_payroll_role_selections
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public to update hr payroll role selections"
+  ON hr_payroll_role_selections
+  FOR UPDATE
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+-- Convert HR/Payroll selections that were saved into borrowed ELM columns.
+-- Only the five HR roles were ever written with real values; the remaining
+-- mappings referenced fields that did not exist on the form and were always false.
+INSERT INTO hr_payroll_role_selections (
+  request_id,
+  add_access_type,
+  agency_codes,
+  department_id,
+  hr_data_entry,
+  hr_data_inquiry,
+  hr_supervisor,
+  hr_director,
+  hr_statewide,
+  role_justification,
+  supervisor_approval,
+  created_at,
+  updated_at
+)
+SELECT
+  s.request_id,
+  CASE
+    WHEN coalesce(s.other_business_units, '') = '' THEN NULL
+    WHEN s.other_business_units ~ '^[A-Z0-9]{3}$' THEN 'agency'
+    ELSE 'department'
+  END,
+  CASE WHEN s.other_business_units ~ '^[A-Z0-9]{3}$' THEN s.other_business_units END,
+  CASE WHEN s.other_business_units !~ '^[A-Z0-9]{3}$' THEN nullif(s.other_business_units, '') END,
+  coalesce(s.manage_user_accounts, false),
+  coalesce(s.view_user_progress, false),
+  coalesce(s.assign_user_roles, false),
+  coalesce(s.generate_user_reports, false),
+  coalesce(s.access_system_reports, false),
+  s.role_justification,
+  true,
+  s.created_at,
+  s.updated_at
+FROM security_role_selections s
+WHERE EXISTS (
+  SELECT 1 FROM security_areas a
+  WHERE a.request_id = s.request_id
+    AND a.area_type = 'hr_payroll'
+)
+ON CONFLICT (request_id) DO NOTHING;
+
+-- Drop the borrowed rows for requests that only cover HR/Payroll, so the
+-- details page no longer shows them as ELM roles
+DELETE FROM security_role_selections s
+WHERE EXISTS (
+  SELECT 1 FROM security_areas a
+  WHERE a.request_id = s.request_id
+    AND a.area_type = 'hr_payroll'
+)
+AND NOT EXISTS (
+  SELECT 1 FROM security_areas a
+  WHERE a.request_id = s.request_id
+    AND a.area_type <> 'hr_payroll'
+);
@@ -0,0 +1,132 @@
+/*
+  # Dedicated EPM Data Warehouse role selection storage
+
+  1. Changes
+    - Add `epm_dwh_role_selections` table for the HR/Payroll warehouse and RAPS
+      roles, including the SEMA4 agency/department codes for new RAPS users
+    - Move existing EPM Data Warehouse selections that were stored in borrowed
+      ELM columns of `security_role_selections` into the new table
+    - Remove the mis-mapped `security_role_selections` rows for EPM-only requests
+
+  2. Security
+    - Enable RLS on `epm_dwh_role_selections`
+    - Add public SELECT/INSERT/UPDATE/DELETE policies
+    - Add the missing DELETE policy on `hr_payroll_role_selections`, which the
+      edit and copy-user flows need to replace selections
+*/
+
+CREATE TABLE IF NOT EXISTS epm_dwh_role_selections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL UNIQUE REFERENCES security_role_requests(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  -- Business Unit Details
+  home_business_unit text,
+  other_business_units text,
+
+  -- HR/Payroll Warehouse Roles
+  ssn_view boolean DEFAULT false,
+  payroll_deductions boolean DEFAULT false,
+  hr_data_excluded_employees boolean DEFAULT false,
+
+  -- RAPS Roles
+  bi_author boolean DEFAULT true,
+  m_epm_hcm_lookup boolean DEFAULT true,
+  m_raps_link boolean DEFAULT false,
+  raps_new_user boolean DEFAULT false,
+  raps_sema4_codes text,
+
+  -- Justification
+  role_justification text,
+  supervisor_approval boolean DEFAULT false
+);
+
+ALTER TABLE epm_dwh_role_selections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public to read epm dwh role selections"
+  ON epm_dwh_role_selections
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public to insert epm dwh role selections"
+  ON epm_dwh_role_selections
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public to update epm dwh role selections"
+  ON epm_dwh_role_selections
+  FOR UPDATE
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public to delete epm dwh role selections"
+  ON epm_dwh_role_selections
+  FOR DELETE
+  TO public
+  USING (true);
+
+-- Convert EPM Data Warehouse selections that were saved into borrowed ELM columns.
+-- BI Author and M_EPM_HCM_LOOKUP are required for every RAPS user; the form
+-- disabled those checkboxes so they were always stored as false.
+INSERT INTO epm_dwh_role_selections (
+  request_id,
+  home_business_unit,
+  other_business_units,
+  ssn_view,
+  payroll_deductions,
+  hr_data_excluded_employees,
+  bi_author,
+  m_epm_hcm_lookup,
+  m_raps_link,
+  raps_new_user,
+  role_justification,
+  supervisor_approval,
+  created_at,
+  updated_at
+)
+SELECT
+  s.request_id,
+  s.home_business_unit,
+  s.other_business_units,
+  coalesce(s.view_user_progress, false),
+  coalesce(s.generate_user_reports, false),
+  coalesce(s.access_system_reports, false),
+  true,
+  true,
+  coalesce(s.view_analytics_dashboard, false),
+  coalesce(s.data_import_export, false),
+  s.role_justification,
+  true,
+  s.created_at,
+  s.updated_at
+FROM security_role_selections s
+WHERE EXISTS (
+  SELECT 1 FROM security_areas a
+  WHERE a.request_id = s.request_id
+    AND a.area_type = 'epm_data_warehouse'
+)
+ON CONFLICT (request_id) DO NOTHING;
+
+-- Drop the borrowed rows for requests that only cover EPM Data Warehouse
+DELETE FROM security_role_selections s
+WHERE EXISTS (
+  SELECT 1 FROM security_areas a
+  WHERE a.request_id = s.request_id
+    AND a.area_type = 'epm_data_warehouse'
+)
+AND NOT EXISTS (
+  SELECT 1 FROM security_areas a
+  WHERE a.request_id = s.request_id
+    AND a.area_type <> 'epm_data_warehouse'
+);
+
+-- The edit and copy-user flows replace existing HR/Payroll selections
+CREATE POLICY "Allow public to delete hr payroll role selections"
+  ON hr_payroll_role_selections
+  FOR DELETE
+  TO public
+  USING (true);
@@ -0,0 +1,105 @@
+/*
+  # Deny and return-to-submitter approval actions
+
+  1. Changes
+    - Allow `denied`, `returned` and `cancelled` approval statuses
+    - Allow `denied` and `returned` request statuses
+    - Add `rejected_at` to `request_approvals` to record when a step was denied or returned
+    - Add `reject_request_approval` function that, in one transaction:
+      - marks the approval as denied or returned with the approver's reason in `comments`
+      - cancels every remaining pending approval so the chain stops
+      - sets the parent request status to `denied` or `returned`
+    - Add trigger that blocks approving steps on a denied or returned request
+
+  2. Security
+    - No RLS changes; the function runs with the caller's privileges
+*/
+
+ALTER TABLE request_approvals DROP CONSTRAINT IF EXISTS request_approvals_status_check;
+ALTER TABLE request_approvals
+ADD CONSTRAINT request_approvals_status_check
+CHECK (status IN ('pending', 'approved', 'denied', 'returned', 'cancelled'));
+
+ALTER TABLE security_role_requests DROP CONSTRAINT IF EXISTS security_role_requests_status_check;
+ALTER TABLE security_role_requests
+ADD CONSTRAINT security_role_requests_status_check
+CHECK (status IN ('pending', 'approved', 'completed', 'rejected', 'denied', 'returned'));
+
+ALTER TABLE request_approvals
+ADD COLUMN IF NOT EXISTS rejected_at timestamptz;
+
+-- Deny or return a request from a single approval step
+CREATE OR REPLACE FUNCTION reject_request_approval(
+  p_approval_id uuid,
+  p_action text,
+  p_reason text
+)
+RETURNS void AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+BEGIN
+  IF p_action NOT IN ('denied', 'returned') THEN
+    RAISE EXCEPTION 'Unsupported approval action: %', p_action;
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to deny or return a request';
+  END IF;
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval % not found', p_approval_id;
+  END IF;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  UPDATE request_approvals
+  SET status = p_action,
+      comments = trim(p_reason),
+      rejected_at = now()
+  WHERE id = p_approval_id;
+
+  -- Stop the remaining approval chain
+  UPDATE request_approvals
+  SET status = 'cancelled'
+  WHERE request_id = v_approval.request_id
+    AND id <> p_approval_id
+    AND status = 'pending';
+
+  UPDATE security_role_requests
+  SET status = p_action
+  WHERE id = v_approval.request_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Prevent signing a step once the request has been denied or returned
+CREATE OR REPLACE FUNCTION prevent_approval_on_closed_request()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_request_status text;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    SELECT status INTO v_request_status
+    FROM security_role_requests
+    WHERE id = NEW.request_id;
+
+    IF v_request_status IN ('denied', 'returned') THEN
+      RAISE EXCEPTION 'This request has been % and can no longer be approved', v_request_status;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_approval_on_closed_request ON request_approvals;
+CREATE TRIGGER prevent_approval_on_closed_request
+  BEFORE UPDATE ON request_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_approval_on_closed_request();
@@ -0,0 +1,59 @@
+/*
+  # Enforce sequential approval order
+
+  1. Changes
+    - Add `approval_step_order` function mapping each approval step to its
+      position in the chain (user, supervisor, directors, security admin)
+    - Add trigger on `request_approvals` that rejects approving, denying or
+      returning a step while any earlier step is still outstanding
+    - Director steps share a level and may be signed in any order
+
+  2. Security
+    - No RLS changes
+*/
+
+CREATE OR REPLACE FUNCTION approval_step_order(p_step text)
+RETURNS integer AS $$
+BEGIN
+  RETURN CASE p_step
+    WHEN 'user_signature' THEN 1
+    WHEN 'supervisor_approval' THEN 2
+    WHEN 'accounting_director_approval' THEN 3
+    WHEN 'hr_director_approval' THEN 3
+    WHEN 'elm_admin_approval' THEN 3
+    WHEN 'security_admin_approval' THEN 4
+    ELSE 3
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_approval_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_blocking_steps text;
+BEGIN
+  -- Only check when a pending step is acted on
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'denied', 'returned') THEN
+    SELECT string_agg(step, ', ' ORDER BY approval_step_order(step))
+    INTO v_blocking_steps
+    FROM request_approvals
+    WHERE request_id = NEW.request_id
+      AND id <> NEW.id
+      AND approval_step_order(step) < approval_step_order(NEW.step)
+      AND status <> 'approved';
+
+    IF v_blocking_steps IS NOT NULL THEN
+      RAISE EXCEPTION 'Approval step % cannot be completed before: %', NEW.step, v_blocking_steps
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_approval_order ON request_approvals;
+CREATE TRIGGER enforce_approval_order
+  BEFORE UPDATE ON request_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_approval_order();
@@ -0,0 +1,28 @@
+/*
+  # Tie requests to authenticated users
+
+  1. Changes
+    - Add `submitted_by` column to `security_role_requests` referencing `auth.users`
+    - Default `submitted_by` to the signed-in user so inserts from the app are
+      attributed automatically
+    - Backfill `submitted_by` for existing requests whose submitter email matches
+      an existing auth user
+    - `poc_user` is no longer written by the app and is kept only for older test data
+
+  2. Security
+    - No RLS changes
+*/
+
+ALTER TABLE security_role_requests
+ADD COLUMN IF NOT EXISTS submitted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_security_role_requests_submitted_by
+ON security_role_requests(submitted_by);
+
+UPDATE security_role_requests r
+SET submitted_by = u.id
+FROM auth.users u
+WHERE r.submitted_by IS NULL
+  AND lower(u.email) = lower(r.submitter_email);
+
+COMMENT ON COLUMN security_role_requests.poc_user IS 'Deprecated: free-typed test user name from before sign-in was added';
@@ -0,0 +1,333 @@
+/*
+  # Scope row level security to submitters, approvers and agency security admins
+
+  1. New Tables
+    - `agency_security_admins`
+      - `id` (uuid, primary key)
+      - `email` (text) - security administrator's sign-in email
+      - `agency_code` (text) - agency whose requests they can see and complete
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add helper functions used by the policies:
+      - `current_user_email()` - lower-cased email of the signed-in user
+      - `is_request_submitter(request_id)` - the user submitted the request
+      - `is_request_approver(request_id)` - the user holds an approval row on the request
+      - `is_agency_security_admin(agency_code)` - the user administers the agency
+      - `can_view_request(request_id)` - any of the above
+    - `reject_request_approval` now runs as definer and only lets the assigned
+      approver deny or return their own step
+    - Add `reset_request_approvals` so submitters can send an edited request back
+      through the chain without being able to update approval rows directly
+    - `create_area_specific_approvals` runs as definer so approvals are created
+      regardless of who inserts the security area
+
+  3. Security
+    - Drop every existing policy on the request tables, including the blanket
+      `TO public USING (true)` policies
+    - Requests: submitters see, edit and delete their own; approvers see requests
+      they hold an approval on; agency security admins see and update their
+      agency's requests; the request's security administrator can update it
+    - Security areas, role selections and copy user details follow the parent
+      request: visible to anyone who can see it, writable by the submitter
+    - Approvals: visible to anyone who can see the request; submitters can create
+      and remove them; only the assigned approver can update their own row
+    - Anonymous users have no access
+*/
+
+CREATE TABLE IF NOT EXISTS agency_security_admins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  agency_code text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (email, agency_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agency_security_admins_email
+ON agency_security_admins(lower(email));
+
+-- Helper functions. These run as definer so policies on one table can look at
+-- another without recursing back into its policies.
+CREATE OR REPLACE FUNCTION current_user_email()
+RETURNS text AS $$
+BEGIN
+  RETURN lower(coalesce(auth.jwt() ->> 'email', ''));
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION is_request_submitter(p_request_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM security_role_requests
+    WHERE id = p_request_id
+      AND submitted_by = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_request_approver(p_request_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM request_approvals
+    WHERE request_id = p_request_id
+      AND lower(approver_email) = current_user_email()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_agency_security_admin(p_agency_code text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM agency_security_admins
+    WHERE agency_code = p_agency_code
+      AND lower(email) = current_user_email()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_view_request(p_request_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM security_role_requests
+    WHERE id = p_request_id
+      AND (
+        submitted_by = auth.uid()
+        OR is_agency_security_admin(agency_code)
+      )
+  ) OR is_request_approver(p_request_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Drop all existing policies on the request tables so only the ones below apply
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'security_role_requests',
+        'security_areas',
+        'security_role_selections',
+        'hr_payroll_role_selections',
+        'epm_dwh_role_selections',
+        'copy_user_details',
+        'request_approvals'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE security_role_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE security_areas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE security_role_selections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hr_payroll_role_selections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE epm_dwh_role_selections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE copy_user_details ENABLE ROW LEVEL SECURITY;
+ALTER TABLE request_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agency_security_admins ENABLE ROW LEVEL SECURITY;
+
+-- Requests
+CREATE POLICY "Users can read requests they submitted, approve or administer"
+  ON security_role_requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    submitted_by = auth.uid()
+    OR is_request_approver(id)
+    OR is_agency_security_admin(agency_code)
+  );
+
+CREATE POLICY "Users can submit their own requests"
+  ON security_role_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (submitted_by = auth.uid());
+
+CREATE POLICY "Submitters and security admins can update requests"
+  ON security_role_requests
+  FOR UPDATE
+  TO authenticated
+  USING (
+    submitted_by = auth.uid()
+    OR lower(security_admin_email) = current_user_email()
+    OR is_agency_security_admin(agency_code)
+  )
+  WITH CHECK (
+    submitted_by = auth.uid()
+    OR lower(security_admin_email) = current_user_email()
+    OR is_agency_security_admin(agency_code)
+  );
+
+CREATE POLICY "Submitters can delete their own requests"
+  ON security_role_requests
+  FOR DELETE
+  TO authenticated
+  USING (submitted_by = auth.uid());
+
+-- Tables owned by a request: readable with the request, writable by its submitter
+DO $$
+DECLARE
+  v_table text;
+  v_label text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'security_areas',
+    'security_role_selections',
+    'hr_payroll_role_selections',
+    'epm_dwh_role_selections',
+    'copy_user_details'
+  ]
+  LOOP
+    v_label := replace(v_table, '_', ' ');
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (can_view_request(request_id))',
+      'Users can read ' || v_label || ' for visible requests', v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (is_request_submitter(request_id))',
+      'Submitters can insert ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (is_request_submitter(request_id)) WITH CHECK (is_request_submitter(request_id))',
+      'Submitters can update ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (is_request_submitter(request_id))',
+      'Submitters can delete ' || v_label, v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Approvals
+CREATE POLICY "Users can read approvals for visible requests"
+  ON request_approvals
+  FOR SELECT
+  TO authenticated
+  USING (can_view_request(request_id));
+
+CREATE POLICY "Submitters can create approvals for their requests"
+  ON request_approvals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_request_submitter(request_id));
+
+CREATE POLICY "Approvers can update their own approvals"
+  ON request_approvals
+  FOR UPDATE
+  TO authenticated
+  USING (lower(approver_email) = current_user_email())
+  WITH CHECK (lower(approver_email) = current_user_email());
+
+CREATE POLICY "Submitters can delete approvals for their requests"
+  ON request_approvals
+  FOR DELETE
+  TO authenticated
+  USING (is_request_submitter(request_id));
+
+-- Security admin directory: users can see which agencies they administer
+CREATE POLICY "Users can read their own agency security admin entries"
+  ON agency_security_admins
+  FOR SELECT
+  TO authenticated
+  USING (lower(email) = current_user_email());
+
+-- Area approvals are created by trigger when the submitter inserts a security area
+ALTER FUNCTION create_area_specific_approvals() SECURITY DEFINER SET search_path = public;
+
+-- Deny or return a request from a single approval step
+CREATE OR REPLACE FUNCTION reject_request_approval(
+  p_approval_id uuid,
+  p_action text,
+  p_reason text
+)
+RETURNS void AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+BEGIN
+  IF p_action NOT IN ('denied', 'returned') THEN
+    RAISE EXCEPTION 'Unsupported approval action: %', p_action;
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to deny or return a request';
+  END IF;
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval % not found', p_approval_id;
+  END IF;
+
+  IF lower(v_approval.approver_email) <> current_user_email() THEN
+    RAISE EXCEPTION 'Only the assigned approver can deny or return this step'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  UPDATE request_approvals
+  SET status = p_action,
+      comments = trim(p_reason),
+      rejected_at = now()
+  WHERE id = p_approval_id;
+
+  -- Stop the remaining approval chain
+  UPDATE request_approvals
+  SET status = 'cancelled'
+  WHERE request_id = v_approval.request_id
+    AND id <> p_approval_id
+    AND status = 'pending';
+
+  UPDATE security_role_requests
+  SET status = p_action
+  WHERE id = v_approval.request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send an edited request back through the approval chain
+CREATE OR REPLACE FUNCTION reset_request_approvals(p_request_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_request_submitter(p_request_id) THEN
+    RAISE EXCEPTION 'Only the submitter can resubmit this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE request_approvals
+  SET status = 'pending',
+      signature_data = NULL,
+      approved_at = NULL,
+      rejected_at = NULL
+  WHERE request_id = p_request_id
+    AND step <> 'user_signature';
+
+  -- The user signature is kept unless the employee returned the request or it was cancelled
+  UPDATE request_approvals
+  SET status = 'pending',
+      rejected_at = NULL
+  WHERE request_id = p_request_id
+    AND step = 'user_signature'
+    AND status IN ('returned', 'cancelled');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reject_request_approval(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reset_request_approvals(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reject_request_approval(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_request_approvals(uuid) TO authenticated;
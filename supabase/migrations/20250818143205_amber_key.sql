@@ -0,0 +1,348 @@
+/*
+  # Verified approver identity at signing time
+
+  1. New Tables
+    - `approval_signing_tokens`
+      - `id` (uuid, primary key)
+      - `approval_id` (uuid, references request_approvals) - the step the link signs
+      - `token_hash` (text) - SHA-256 of the token; the token itself is never stored
+      - `expires_at` (timestamptz)
+      - `used_at` (timestamptz) - set once the step is signed, denied or returned
+      - `created_by` (uuid) - user who issued the link
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `signed_by_email`, `signed_by_user_id` and `signature_method` to
+      `request_approvals` to record who acted on a step and how they were verified
+    - Add `issue_approval_signing_token` to create a single-use review link token
+    - Add `get_approval_for_signing` so the signature page can load a step with
+      either a valid token or as the signed-in approver
+    - Add `sign_request_approval` to approve a step after verifying the signer
+    - `reject_request_approval` accepts an optional token and records the signer
+    - `reset_request_approvals` clears the recorded signer
+    - Add trigger that records the signed-in user when an approver updates their
+      row directly
+
+  3. Security
+    - RLS enabled on `approval_signing_tokens` with no policies; tokens are only
+      reachable through the functions above
+    - Tokens expire after 7 days by default and are invalidated once the step is acted on
+    - Signing without a token requires the signed-in email to match `approver_email`
+*/
+
+CREATE TABLE IF NOT EXISTS approval_signing_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  approval_id uuid NOT NULL REFERENCES request_approvals(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_signing_tokens_approval_id
+ON approval_signing_tokens(approval_id);
+
+ALTER TABLE approval_signing_tokens ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE request_approvals
+ADD COLUMN IF NOT EXISTS signed_by_email text,
+ADD COLUMN IF NOT EXISTS signed_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS signature_method text CHECK (signature_method IN ('token', 'authenticated'));
+
+-- Work out how the caller is allowed to act on an approval step.
+-- Returns 'token' or 'authenticated', or raises if neither check passes.
+CREATE OR REPLACE FUNCTION verify_approval_signer(p_approval_id uuid, p_token text)
+RETURNS text AS $$
+DECLARE
+  v_approver_email text;
+BEGIN
+  SELECT approver_email INTO v_approver_email
+  FROM request_approvals
+  WHERE id = p_approval_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval % not found', p_approval_id;
+  END IF;
+
+  IF coalesce(p_token, '') <> '' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM approval_signing_tokens
+      WHERE approval_id = p_approval_id
+        AND token_hash = encode(digest(p_token, 'sha256'), 'hex')
+        AND used_at IS NULL
+        AND expires_at > now()
+    ) THEN
+      RAISE EXCEPTION 'This signing link is invalid, has expired or has already been used'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN 'token';
+  END IF;
+
+  IF auth.uid() IS NULL OR lower(v_approver_email) <> current_user_email() THEN
+    RAISE EXCEPTION 'Only the assigned approver can act on this step'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN 'authenticated';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Create a review link token for an approval step
+CREATE OR REPLACE FUNCTION issue_approval_signing_token(
+  p_approval_id uuid,
+  p_expires_in interval DEFAULT interval '7 days'
+)
+RETURNS text AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+  v_token text;
+BEGIN
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval % not found', p_approval_id;
+  END IF;
+
+  IF NOT can_view_request(v_approval.request_id) THEN
+    RAISE EXCEPTION 'You do not have access to this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO approval_signing_tokens (approval_id, token_hash, expires_at)
+  VALUES (p_approval_id, encode(digest(v_token, 'sha256'), 'hex'), now() + p_expires_in);
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Everything the signature page needs for one step, once the signer is verified
+CREATE OR REPLACE FUNCTION get_approval_for_signing(p_approval_id uuid, p_token text DEFAULT NULL)
+RETURNS json AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+  v_result json;
+BEGIN
+  PERFORM verify_approval_signer(p_approval_id, p_token);
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id;
+
+  SELECT json_build_object(
+    'request', json_build_object(
+      'id', r.id,
+      'employee_name', r.employee_name,
+      'status', r.status
+    ),
+    'approval', json_build_object(
+      'id', v_approval.id,
+      'step', v_approval.step,
+      'status', v_approval.status,
+      'approver_email', v_approval.approver_email
+    ),
+    'approvals', (
+      SELECT coalesce(json_agg(json_build_object(
+        'id', a.id,
+        'step', a.step,
+        'status', a.status,
+        'approver_email', a.approver_email,
+        'created_at', a.created_at
+      )), '[]'::json)
+      FROM request_approvals a
+      WHERE a.request_id = r.id
+    )
+  )
+  INTO v_result
+  FROM security_role_requests r
+  WHERE r.id = v_approval.request_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Approve a step after verifying the signer
+CREATE OR REPLACE FUNCTION sign_request_approval(
+  p_approval_id uuid,
+  p_signature_data text,
+  p_comments text DEFAULT NULL,
+  p_token text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_method text;
+  v_approval request_approvals%ROWTYPE;
+BEGIN
+  v_method := verify_approval_signer(p_approval_id, p_token);
+
+  IF coalesce(p_signature_data, '') = '' THEN
+    RAISE EXCEPTION 'A signature is required';
+  END IF;
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id
+  FOR UPDATE;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  UPDATE request_approvals
+  SET status = 'approved',
+      signature_data = p_signature_data,
+      approved_at = now(),
+      comments = nullif(trim(p_comments), ''),
+      signed_by_email = lower(v_approval.approver_email),
+      signed_by_user_id = CASE WHEN v_method = 'authenticated' THEN auth.uid() END,
+      signature_method = v_method
+  WHERE id = p_approval_id;
+
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = p_approval_id
+    AND used_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deny or return a request from a single approval step
+DROP FUNCTION IF EXISTS reject_request_approval(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION reject_request_approval(
+  p_approval_id uuid,
+  p_action text,
+  p_reason text,
+  p_token text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+  v_method text;
+BEGIN
+  IF p_action NOT IN ('denied', 'returned') THEN
+    RAISE EXCEPTION 'Unsupported approval action: %', p_action;
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to deny or return a request';
+  END IF;
+
+  v_method := verify_approval_signer(p_approval_id, p_token);
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id
+  FOR UPDATE;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  UPDATE request_approvals
+  SET status = p_action,
+      comments = trim(p_reason),
+      rejected_at = now(),
+      signed_by_email = lower(v_approval.approver_email),
+      signed_by_user_id = CASE WHEN v_method = 'authenticated' THEN auth.uid() END,
+      signature_method = v_method
+  WHERE id = p_approval_id;
+
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = p_approval_id
+    AND used_at IS NULL;
+
+  -- Stop the remaining approval chain
+  UPDATE request_approvals
+  SET status = 'cancelled'
+  WHERE request_id = v_approval.request_id
+    AND id <> p_approval_id
+    AND status = 'pending';
+
+  UPDATE security_role_requests
+  SET status = p_action
+  WHERE id = v_approval.request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send an edited request back through the approval chain
+CREATE OR REPLACE FUNCTION reset_request_approvals(p_request_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_request_submitter(p_request_id) THEN
+    RAISE EXCEPTION 'Only the submitter can resubmit this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE request_approvals
+  SET status = 'pending',
+      signature_data = NULL,
+      approved_at = NULL,
+      rejected_at = NULL,
+      signed_by_email = NULL,
+      signed_by_user_id = NULL,
+      signature_method = NULL
+  WHERE request_id = p_request_id
+    AND step <> 'user_signature';
+
+  -- The user signature is kept unless the employee returned the request or it was cancelled
+  UPDATE request_approvals
+  SET status = 'pending',
+      rejected_at = NULL,
+      signed_by_email = NULL,
+      signed_by_user_id = NULL,
+      signature_method = NULL
+  WHERE request_id = p_request_id
+    AND step = 'user_signature'
+    AND status IN ('returned', 'cancelled');
+
+  -- Links issued before the edit should not sign the new version
+  UPDATE approval_signing_tokens t
+  SET used_at = now()
+  FROM request_approvals a
+  WHERE t.approval_id = a.id
+    AND a.request_id = p_request_id
+    AND t.used_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the signed-in approver when a row is updated directly rather than
+-- through sign_request_approval / reject_request_approval
+CREATE OR REPLACE FUNCTION record_approval_signer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'pending'
+    AND NEW.status IN ('approved', 'denied', 'returned')
+    AND NEW.signature_method IS NULL
+    AND auth.uid() IS NOT NULL THEN
+    NEW.signed_by_email := current_user_email();
+    NEW.signed_by_user_id := auth.uid();
+    NEW.signature_method := 'authenticated';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_approval_signer ON request_approvals;
+CREATE TRIGGER record_approval_signer
+  BEFORE UPDATE ON request_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION record_approval_signer();
+
+REVOKE EXECUTE ON FUNCTION verify_approval_signer(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_approval_signing_token(uuid, interval) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reject_request_approval(uuid, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION issue_approval_signing_token(uuid, interval) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_approval_for_signing(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION sign_request_approval(uuid, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reject_request_approval(uuid, text, text, text) TO anon, authenticated;
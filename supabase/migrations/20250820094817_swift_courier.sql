@@ -0,0 +1,174 @@
+/*
+  # Email notification outbox
+
+  1. New Tables
+    - `notification_outbox`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references security_role_requests)
+      - `approval_id` (uuid, references request_approvals) - set for approver emails
+      - `event` (text) - approval_requested, request_approved, request_denied,
+        request_returned or request_completed
+      - `recipient_email` (text)
+      - `status` (text) - pending, sent or failed
+      - `attempts` (integer), `last_error` (text)
+      - `created_at`, `sent_at` (timestamptz)
+
+  2. Changes
+    - Add `notified_at` to `request_approvals` so each step's approver is emailed once
+      per turn; it is cleared when a step goes back to pending
+    - Add `enqueue_approver_notifications` which queues an email for every pending
+      step whose earlier steps are all approved
+    - Queue approver emails from a deferred trigger on `request_approvals`, so the
+      whole chain exists before we decide whose turn it is
+    - Queue a submitter email when every step is approved, and when the request is
+      denied, returned or completed
+    - Emails are delivered by the `send-notifications` edge function
+
+  3. Security
+    - RLS enabled on `notification_outbox` with no policies; only the service role
+      used by the edge function can read or update it
+*/
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES security_role_requests(id) ON DELETE CASCADE,
+  approval_id uuid REFERENCES request_approvals(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN (
+    'approval_requested',
+    'request_approved',
+    'request_denied',
+    'request_returned',
+    'request_completed'
+  )),
+  recipient_email text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending
+ON notification_outbox(created_at)
+WHERE status = 'pending';
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE request_approvals
+ADD COLUMN IF NOT EXISTS notified_at timestamptz;
+
+-- Queue an email for each step that is now the approver's turn
+CREATE OR REPLACE FUNCTION enqueue_approver_notifications(p_request_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_request_status text;
+  v_approval record;
+BEGIN
+  SELECT status INTO v_request_status
+  FROM security_role_requests
+  WHERE id = p_request_id;
+
+  IF v_request_status IS NULL OR v_request_status IN ('denied', 'returned', 'completed') THEN
+    RETURN;
+  END IF;
+
+  FOR v_approval IN
+    SELECT a.id, a.approver_email
+    FROM request_approvals a
+    WHERE a.request_id = p_request_id
+      AND a.status = 'pending'
+      AND a.notified_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM request_approvals earlier
+        WHERE earlier.request_id = a.request_id
+          AND approval_step_order(earlier.step) < approval_step_order(a.step)
+          AND earlier.status <> 'approved'
+      )
+  LOOP
+    INSERT INTO notification_outbox (request_id, approval_id, event, recipient_email)
+    VALUES (p_request_id, v_approval.id, 'approval_requested', v_approval.approver_email);
+
+    UPDATE request_approvals
+    SET notified_at = now()
+    WHERE id = v_approval.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A step that goes back to pending needs a fresh email when its turn comes
+CREATE OR REPLACE FUNCTION clear_approval_notified_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'pending' AND OLD.status <> 'pending' THEN
+    NEW.notified_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_approval_notified_at ON request_approvals;
+CREATE TRIGGER clear_approval_notified_at
+  BEFORE UPDATE OF status ON request_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_approval_notified_at();
+
+CREATE OR REPLACE FUNCTION queue_approval_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_submitter_email text;
+BEGIN
+  PERFORM enqueue_approver_notifications(NEW.request_id);
+
+  -- Let the submitter know once the last step has been approved
+  IF TG_OP = 'UPDATE'
+    AND NEW.status = 'approved'
+    AND OLD.status IS DISTINCT FROM 'approved'
+    AND NOT EXISTS (
+      SELECT 1 FROM request_approvals
+      WHERE request_id = NEW.request_id
+        AND status <> 'approved'
+    ) THEN
+    SELECT submitter_email INTO v_submitter_email
+    FROM security_role_requests
+    WHERE id = NEW.request_id;
+
+    IF coalesce(v_submitter_email, '') <> '' THEN
+      INSERT INTO notification_outbox (request_id, event, recipient_email)
+      VALUES (NEW.request_id, 'request_approved', v_submitter_email);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_approval_notifications ON request_approvals;
+CREATE CONSTRAINT TRIGGER queue_approval_notifications
+  AFTER INSERT OR UPDATE OF status ON request_approvals
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_approval_notifications();
+
+-- Tell the submitter when the request is denied, returned or completed
+CREATE OR REPLACE FUNCTION queue_request_status_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('denied', 'returned', 'completed')
+    AND OLD.status IS DISTINCT FROM NEW.status
+    AND coalesce(NEW.submitter_email, '') <> '' THEN
+    INSERT INTO notification_outbox (request_id, event, recipient_email)
+    VALUES (NEW.id, 'request_' || NEW.status, NEW.submitter_email);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_request_status_notification ON security_role_requests;
+CREATE TRIGGER queue_request_status_notification
+  AFTER UPDATE OF status ON security_role_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_request_status_notification();
+
+REVOKE EXECUTE ON FUNCTION enqueue_approver_notifications(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,231 @@
+/*
+  # Reminders and escalation for stalled approvals
+
+  1. New Tables
+    - `approval_step_sla`
+      - `step` (text, primary key) - approval step name
+      - `due_after_days` (integer) - business days before the step is overdue and
+        the first reminder is sent
+      - `reminder_interval_days` (integer) - business days between reminders
+      - `escalate_after_days` (integer) - business days before the agency security
+        admins are notified
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `due_at`, `last_reminded_at`, `reminder_count` and `escalated_at` to
+      `request_approvals`
+    - `due_at` is set from the step's SLA when it becomes the approver's turn
+      (`notified_at`) and cleared when the step goes back to pending
+    - Add `add_business_days` and `business_days_between` helpers (weekdays only)
+    - Add `approval_reminder` and `approval_escalated` outbox events
+    - Add `process_stalled_approvals`, scheduled hourly on weekdays with pg_cron,
+      which queues reminders and escalations
+
+  3. Security
+    - RLS enabled on `approval_step_sla`; signed-in users can read it, changes
+      are made by administrators through SQL
+*/
+
+CREATE TABLE IF NOT EXISTS approval_step_sla (
+  step text PRIMARY KEY,
+  due_after_days integer NOT NULL CHECK (due_after_days > 0),
+  reminder_interval_days integer NOT NULL CHECK (reminder_interval_days > 0),
+  escalate_after_days integer NOT NULL CHECK (escalate_after_days > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO approval_step_sla (step, due_after_days, reminder_interval_days, escalate_after_days)
+VALUES
+  ('user_signature', 2, 2, 5),
+  ('supervisor_approval', 2, 2, 5),
+  ('accounting_director_approval', 3, 2, 7),
+  ('hr_director_approval', 3, 2, 7),
+  ('elm_admin_approval', 3, 2, 7),
+  ('security_admin_approval', 3, 2, 7)
+ON CONFLICT (step) DO NOTHING;
+
+ALTER TABLE approval_step_sla ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read approval step SLAs"
+  ON approval_step_sla
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE request_approvals
+ADD COLUMN IF NOT EXISTS due_at timestamptz,
+ADD COLUMN IF NOT EXISTS last_reminded_at timestamptz,
+ADD COLUMN IF NOT EXISTS reminder_count integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS escalated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_request_approvals_due_at
+ON request_approvals(due_at)
+WHERE status = 'pending';
+
+ALTER TABLE notification_outbox DROP CONSTRAINT IF EXISTS notification_outbox_event_check;
+ALTER TABLE notification_outbox
+ADD CONSTRAINT notification_outbox_event_check
+CHECK (event IN (
+  'approval_requested',
+  'approval_reminder',
+  'approval_escalated',
+  'request_approved',
+  'request_denied',
+  'request_returned',
+  'request_completed'
+));
+
+-- Move forward a number of weekdays, keeping the time of day
+CREATE OR REPLACE FUNCTION add_business_days(p_start timestamptz, p_days integer)
+RETURNS timestamptz AS $$
+DECLARE
+  v_result timestamptz := p_start;
+  v_added integer := 0;
+BEGIN
+  WHILE v_added < p_days LOOP
+    v_result := v_result + interval '1 day';
+    IF extract(isodow FROM v_result) < 6 THEN
+      v_added := v_added + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Whole weekdays elapsed between two times
+CREATE OR REPLACE FUNCTION business_days_between(p_start timestamptz, p_end timestamptz)
+RETURNS integer AS $$
+DECLARE
+  v_days integer := 0;
+BEGIN
+  WHILE add_business_days(p_start, v_days + 1) <= p_end LOOP
+    v_days := v_days + 1;
+  END LOOP;
+
+  RETURN v_days;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Start the clock when a step becomes the approver's turn
+CREATE OR REPLACE FUNCTION set_approval_due_at()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_due_after_days integer;
+BEGIN
+  IF NEW.notified_at IS DISTINCT FROM OLD.notified_at THEN
+    NEW.last_reminded_at := NULL;
+    NEW.reminder_count := 0;
+    NEW.escalated_at := NULL;
+
+    IF NEW.notified_at IS NULL THEN
+      NEW.due_at := NULL;
+    ELSE
+      SELECT due_after_days INTO v_due_after_days
+      FROM approval_step_sla
+      WHERE step = NEW.step;
+
+      NEW.due_at := add_business_days(NEW.notified_at, coalesce(v_due_after_days, 3));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_approval_due_at ON request_approvals;
+CREATE TRIGGER set_approval_due_at
+  BEFORE UPDATE ON request_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION set_approval_due_at();
+
+-- Queue reminders for overdue steps and escalate steps past their threshold
+CREATE OR REPLACE FUNCTION process_stalled_approvals()
+RETURNS void AS $$
+DECLARE
+  v_approval record;
+  v_admin_email text;
+  v_escalated boolean;
+BEGIN
+  FOR v_approval IN
+    SELECT
+      a.id,
+      a.request_id,
+      a.approver_email,
+      a.notified_at,
+      a.due_at,
+      a.last_reminded_at,
+      r.agency_code,
+      r.security_admin_email,
+      coalesce(s.reminder_interval_days, 2) AS reminder_interval_days,
+      coalesce(s.escalate_after_days, 5) AS escalate_after_days,
+      a.escalated_at
+    FROM request_approvals a
+    JOIN security_role_requests r ON r.id = a.request_id
+    LEFT JOIN approval_step_sla s ON s.step = a.step
+    WHERE a.status = 'pending'
+      AND a.due_at IS NOT NULL
+      AND a.due_at <= now()
+      AND r.status NOT IN ('denied', 'returned', 'completed')
+  LOOP
+    IF v_approval.last_reminded_at IS NULL
+      OR business_days_between(v_approval.last_reminded_at, now()) >= v_approval.reminder_interval_days THEN
+      INSERT INTO notification_outbox (request_id, approval_id, event, recipient_email)
+      VALUES (v_approval.request_id, v_approval.id, 'approval_reminder', v_approval.approver_email);
+
+      UPDATE request_approvals
+      SET last_reminded_at = now(),
+          reminder_count = reminder_count + 1
+      WHERE id = v_approval.id;
+    END IF;
+
+    IF v_approval.escalated_at IS NULL
+      AND business_days_between(v_approval.notified_at, now()) >= v_approval.escalate_after_days THEN
+      v_escalated := false;
+
+      FOR v_admin_email IN
+        SELECT email FROM agency_security_admins
+        WHERE agency_code = v_approval.agency_code
+      LOOP
+        INSERT INTO notification_outbox (request_id, approval_id, event, recipient_email)
+        VALUES (v_approval.request_id, v_approval.id, 'approval_escalated', v_admin_email);
+        v_escalated := true;
+      END LOOP;
+
+      -- Agencies without a listed security admin fall back to the request's security administrator
+      IF NOT v_escalated AND coalesce(v_approval.security_admin_email, '') <> '' THEN
+        INSERT INTO notification_outbox (request_id, approval_id, event, recipient_email)
+        VALUES (v_approval.request_id, v_approval.id, 'approval_escalated', v_approval.security_admin_email);
+      END IF;
+
+      UPDATE request_approvals
+      SET escalated_at = now()
+      WHERE id = v_approval.id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION process_stalled_approvals() FROM PUBLIC, anon, authenticated;
+
+-- Steps that are already someone's turn get a due date from their SLA
+UPDATE request_approvals a
+SET due_at = add_business_days(a.notified_at, s.due_after_days)
+FROM approval_step_sla s
+WHERE s.step = a.step
+  AND a.status = 'pending'
+  AND a.notified_at IS NOT NULL
+  AND a.due_at IS NULL;
+
+-- Check for stalled approvals every hour on weekdays
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'process-stalled-approvals';
+
+SELECT cron.schedule(
+  'process-stalled-approvals',
+  '0 * * * 1-5',
+  $$SELECT process_stalled_approvals()$$
+);
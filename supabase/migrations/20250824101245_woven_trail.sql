@@ -0,0 +1,119 @@
+/*
+  # Several security areas per request
+
+  1. Changes
+    - Add `elm_role_justification` to `security_role_selections`; Accounting /
+      Procurement and ELM roles share a row, so each area keeps its own
+      justification when both are requested
+    - Add `sync_area_approvals(request_id)` that makes the director approval
+      steps match the request's security areas:
+      - adds a step for each area that needs one
+      - updates the approver while the step is still pending, invalidating
+        signing links and re-notifying the new approver
+      - removes pending steps for areas that were deselected
+    - `create_area_specific_approvals` now delegates to `sync_area_approvals`
+      and also runs when an area's director changes or an area is removed
+
+  2. Security
+    - `sync_area_approvals` runs as definer, like the trigger it replaces, and
+      is not callable directly by clients
+*/
+
+ALTER TABLE security_role_selections
+ADD COLUMN IF NOT EXISTS elm_role_justification text;
+
+-- Director approval step required by each security area (EPM / Data Warehouse has none)
+CREATE OR REPLACE FUNCTION area_approval_step(p_area_type text)
+RETURNS text AS $$
+BEGIN
+  RETURN CASE p_area_type
+    WHEN 'accounting_procurement' THEN 'accounting_director_approval'
+    WHEN 'hr_payroll' THEN 'hr_director_approval'
+    WHEN 'elm' THEN 'elm_admin_approval'
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sync_area_approvals(p_request_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_area record;
+  v_approval request_approvals%ROWTYPE;
+  v_changed boolean := false;
+BEGIN
+  -- Nothing to do while the request itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM security_role_requests WHERE id = p_request_id) THEN
+    RETURN;
+  END IF;
+
+  -- Add or update the director step for each selected area
+  FOR v_area IN
+    SELECT area_approval_step(area_type) AS step, director_email
+    FROM security_areas
+    WHERE request_id = p_request_id
+      AND area_approval_step(area_type) IS NOT NULL
+  LOOP
+    SELECT * INTO v_approval
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step = v_area.step;
+
+    IF NOT FOUND THEN
+      INSERT INTO request_approvals (request_id, step, approver_email)
+      VALUES (p_request_id, v_area.step, v_area.director_email);
+    ELSIF v_approval.status = 'pending'
+      AND v_approval.approver_email IS DISTINCT FROM v_area.director_email THEN
+      UPDATE request_approvals
+      SET approver_email = v_area.director_email,
+          notified_at = NULL
+      WHERE id = v_approval.id;
+
+      -- Links sent to the previous approver must no longer work
+      UPDATE approval_signing_tokens
+      SET used_at = now()
+      WHERE approval_id = v_approval.id
+        AND used_at IS NULL;
+
+      v_changed := true;
+    END IF;
+  END LOOP;
+
+  -- Drop pending director steps whose area was deselected; signed steps are kept
+  DELETE FROM request_approvals a
+  WHERE a.request_id = p_request_id
+    AND a.status = 'pending'
+    AND a.step IN ('accounting_director_approval', 'hr_director_approval', 'elm_admin_approval')
+    AND NOT EXISTS (
+      SELECT 1 FROM security_areas s
+      WHERE s.request_id = p_request_id
+        AND area_approval_step(s.area_type) = a.step
+    );
+
+  IF FOUND THEN
+    v_changed := true;
+  END IF;
+
+  -- New approvers, or steps no longer blocked by a removed director, get their email now
+  IF v_changed THEN
+    PERFORM enqueue_approver_notifications(p_request_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sync_area_approvals(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_area_specific_approvals()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM sync_area_approvals(COALESCE(NEW.request_id, OLD.request_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The original insert trigger keeps working; these cover edits to a request's areas
+DROP TRIGGER IF EXISTS sync_area_approvals_on_change ON security_areas;
+CREATE TRIGGER sync_area_approvals_on_change
+  AFTER UPDATE OF area_type, director_email OR DELETE ON security_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION create_area_specific_approvals();
@@ -0,0 +1,215 @@
+/*
+  # Non-employee access end dates
+
+  1. Changes
+    - Add `non_employee_type`, `access_end_date` and `security_measures` to
+      `security_role_requests`; all three are required on new add requests for
+      non-employees (existing rows are not re-validated)
+    - Add `request_type` (`add` or `remove`, default `add`) and
+      `source_request_id`, which links a removal request to the request whose
+      access it removes
+    - Add `access_end_warned_at` and `access_end_processed_at` to track the
+      warning and the generated removal request; both are cleared when the end
+      date changes
+    - Add `access_end_approaching` and `access_end_passed` outbox events
+    - Add `process_non_employee_access_ends`, scheduled daily with pg_cron, which
+      for completed non-employee requests:
+      - warns the security administrator 14 days before access ends
+      - creates a removal request once the end date has passed and notifies the
+        security administrator
+
+  2. Security
+    - `process_non_employee_access_ends` runs as definer and is not callable by clients
+*/
+
+ALTER TABLE security_role_requests
+ADD COLUMN IF NOT EXISTS non_employee_type text,
+ADD COLUMN IF NOT EXISTS access_end_date date,
+ADD COLUMN IF NOT EXISTS security_measures text,
+ADD COLUMN IF NOT EXISTS request_type text NOT NULL DEFAULT 'add',
+ADD COLUMN IF NOT EXISTS source_request_id uuid REFERENCES security_role_requests(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS access_end_warned_at timestamptz,
+ADD COLUMN IF NOT EXISTS access_end_processed_at timestamptz;
+
+ALTER TABLE security_role_requests DROP CONSTRAINT IF EXISTS security_role_requests_request_type_check;
+ALTER TABLE security_role_requests
+ADD CONSTRAINT security_role_requests_request_type_check
+CHECK (request_type IN ('add', 'remove'));
+
+ALTER TABLE security_role_requests DROP CONSTRAINT IF EXISTS security_role_requests_non_employee_details_check;
+ALTER TABLE security_role_requests
+ADD CONSTRAINT security_role_requests_non_employee_details_check
+CHECK (
+  NOT is_non_employee
+  OR request_type <> 'add'
+  OR (
+    non_employee_type IS NOT NULL
+    AND access_end_date IS NOT NULL
+    AND coalesce(trim(security_measures), '') <> ''
+  )
+) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_security_role_requests_access_end_date
+ON security_role_requests(access_end_date)
+WHERE is_non_employee AND access_end_processed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_security_role_requests_source_request_id
+ON security_role_requests(source_request_id);
+
+ALTER TABLE notification_outbox DROP CONSTRAINT IF EXISTS notification_outbox_event_check;
+ALTER TABLE notification_outbox
+ADD CONSTRAINT notification_outbox_event_check
+CHECK (event IN (
+  'approval_requested',
+  'approval_reminder',
+  'approval_escalated',
+  'request_approved',
+  'request_denied',
+  'request_returned',
+  'request_completed',
+  'access_end_approaching',
+  'access_end_passed'
+));
+
+-- A new end date gets its own warning and removal
+CREATE OR REPLACE FUNCTION reset_access_end_tracking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.access_end_date IS DISTINCT FROM OLD.access_end_date THEN
+    NEW.access_end_warned_at := NULL;
+    NEW.access_end_processed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_access_end_tracking ON security_role_requests;
+CREATE TRIGGER reset_access_end_tracking
+  BEFORE UPDATE OF access_end_date ON security_role_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_access_end_tracking();
+
+-- Warn about and remove access for non-employees whose end date is near or past.
+-- Keep the warning window in sync with ACCESS_END_WARNING_DAYS in src/lib/nonEmployeeAccess.ts.
+CREATE OR REPLACE FUNCTION process_non_employee_access_ends()
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+  v_removal_id uuid;
+BEGIN
+  -- Warn before access ends
+  FOR v_request IN
+    SELECT * FROM security_role_requests
+    WHERE is_non_employee
+      AND request_type = 'add'
+      AND status = 'completed'
+      AND access_end_date IS NOT NULL
+      AND access_end_date >= current_date
+      AND access_end_date <= current_date + 14
+      AND access_end_warned_at IS NULL
+  LOOP
+    IF coalesce(v_request.security_admin_email, '') <> '' THEN
+      INSERT INTO notification_outbox (request_id, event, recipient_email)
+      VALUES (v_request.id, 'access_end_approaching', v_request.security_admin_email);
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_warned_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+
+  -- Generate a removal request once the end date has passed
+  FOR v_request IN
+    SELECT * FROM security_role_requests
+    WHERE is_non_employee
+      AND request_type = 'add'
+      AND status = 'completed'
+      AND access_end_date IS NOT NULL
+      AND access_end_date < current_date
+      AND access_end_processed_at IS NULL
+  LOOP
+    SELECT id INTO v_removal_id
+    FROM security_role_requests
+    WHERE source_request_id = v_request.id
+      AND request_type = 'remove'
+    LIMIT 1;
+
+    IF v_removal_id IS NULL THEN
+      INSERT INTO security_role_requests (
+        request_type,
+        source_request_id,
+        start_date,
+        employee_name,
+        employee_id,
+        is_non_employee,
+        non_employee_type,
+        access_end_date,
+        security_measures,
+        work_location,
+        work_phone,
+        email,
+        agency_name,
+        agency_code,
+        justification,
+        submitter_name,
+        submitter_email,
+        supervisor_name,
+        supervisor_email,
+        security_admin_name,
+        security_admin_email,
+        submitted_by,
+        status
+      )
+      VALUES (
+        'remove',
+        v_request.id,
+        current_date,
+        v_request.employee_name,
+        v_request.employee_id,
+        true,
+        v_request.non_employee_type,
+        v_request.access_end_date,
+        v_request.security_measures,
+        v_request.work_location,
+        v_request.work_phone,
+        v_request.email,
+        v_request.agency_name,
+        v_request.agency_code,
+        format('Non-employee access ended on %s. Generated automatically to remove all access.', to_char(v_request.access_end_date, 'MM/DD/YYYY')),
+        'Automated access review',
+        v_request.security_admin_email,
+        v_request.supervisor_name,
+        v_request.supervisor_email,
+        v_request.security_admin_name,
+        v_request.security_admin_email,
+        NULL,
+        'pending'
+      )
+      RETURNING id INTO v_removal_id;
+
+      IF coalesce(v_request.security_admin_email, '') <> '' THEN
+        INSERT INTO notification_outbox (request_id, event, recipient_email)
+        VALUES (v_removal_id, 'access_end_passed', v_request.security_admin_email);
+      END IF;
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_processed_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION process_non_employee_access_ends() FROM PUBLIC, anon, authenticated;
+
+-- Check non-employee end dates every morning
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'process-non-employee-access-ends';
+
+SELECT cron.schedule(
+  'process-non-employee-access-ends',
+  '0 6 * * *',
+  $$SELECT process_non_employee_access_ends()$$
+);
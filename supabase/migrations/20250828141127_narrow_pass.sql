@@ -0,0 +1,230 @@
+/*
+  # Change and removal request types
+
+  1. New Tables
+    - `request_role_removals`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references security_role_requests)
+      - `role_table` (text) - role selection table the role is stored in
+      - `role_column` (text) - column of the role in that table
+      - `role_label` (text) - label shown to reviewers
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `request_type` now allows `change` alongside `add` and `remove`
+    - Add `remove_all_access` to `security_role_requests` for removals that
+      revoke everything, such as the ones generated when a non-employee's
+      access ends; existing generated removals are marked accordingly
+    - Removal requests get a shortened approval chain: only the supervisor and
+      the security administrator sign. Steps outside a request type's chain
+      are skipped when approvals are created
+    - `process_non_employee_access_ends` marks its removal requests as
+      removing all access
+
+  3. Security
+    - RLS enabled on `request_role_removals` with the same rules as the other
+      tables owned by a request: readable with the request, writable by its submitter
+*/
+
+ALTER TABLE security_role_requests DROP CONSTRAINT IF EXISTS security_role_requests_request_type_check;
+ALTER TABLE security_role_requests
+ADD CONSTRAINT security_role_requests_request_type_check
+CHECK (request_type IN ('add', 'change', 'remove'));
+
+ALTER TABLE security_role_requests
+ADD COLUMN IF NOT EXISTS remove_all_access boolean NOT NULL DEFAULT false;
+
+UPDATE security_role_requests
+SET remove_all_access = true
+WHERE request_type = 'remove'
+  AND submitted_by IS NULL;
+
+CREATE TABLE IF NOT EXISTS request_role_removals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES security_role_requests(id) ON DELETE CASCADE,
+  role_table text NOT NULL CHECK (role_table IN (
+    'security_role_selections',
+    'hr_payroll_role_selections',
+    'epm_dwh_role_selections'
+  )),
+  role_column text NOT NULL,
+  role_label text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (request_id, role_table, role_column)
+);
+
+ALTER TABLE request_role_removals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read request role removals for visible requests"
+  ON request_role_removals
+  FOR SELECT
+  TO authenticated
+  USING (can_view_request(request_id));
+
+CREATE POLICY "Submitters can insert request role removals"
+  ON request_role_removals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_request_submitter(request_id));
+
+CREATE POLICY "Submitters can delete request role removals"
+  ON request_role_removals
+  FOR DELETE
+  TO authenticated
+  USING (is_request_submitter(request_id));
+
+-- Approval steps each request type goes through
+CREATE OR REPLACE FUNCTION request_type_includes_step(p_request_type text, p_step text)
+RETURNS boolean AS $$
+BEGIN
+  IF p_request_type = 'remove' THEN
+    RETURN p_step IN ('supervisor_approval', 'security_admin_approval');
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION skip_steps_outside_request_chain()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_request_type text;
+BEGIN
+  SELECT request_type INTO v_request_type
+  FROM security_role_requests
+  WHERE id = NEW.request_id;
+
+  IF NOT request_type_includes_step(v_request_type, NEW.step) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS skip_steps_outside_request_chain ON request_approvals;
+CREATE TRIGGER skip_steps_outside_request_chain
+  BEFORE INSERT ON request_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION skip_steps_outside_request_chain();
+
+-- Existing removal requests drop the steps they no longer need
+DELETE FROM request_approvals a
+USING security_role_requests r
+WHERE r.id = a.request_id
+  AND a.status = 'pending'
+  AND NOT request_type_includes_step(r.request_type, a.step);
+
+-- Removals generated for ended non-employee access revoke everything
+CREATE OR REPLACE FUNCTION process_non_employee_access_ends()
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+  v_removal_id uuid;
+BEGIN
+  -- Warn before access ends
+  FOR v_request IN
+    SELECT * FROM security_role_requests
+    WHERE is_non_employee
+      AND request_type = 'add'
+      AND status = 'completed'
+      AND access_end_date IS NOT NULL
+      AND access_end_date >= current_date
+      AND access_end_date <= current_date + 14
+      AND access_end_warned_at IS NULL
+  LOOP
+    IF coalesce(v_request.security_admin_email, '') <> '' THEN
+      INSERT INTO notification_outbox (request_id, event, recipient_email)
+      VALUES (v_request.id, 'access_end_approaching', v_request.security_admin_email);
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_warned_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+
+  -- Generate a removal request once the end date has passed
+  FOR v_request IN
+    SELECT * FROM security_role_requests
+    WHERE is_non_employee
+      AND request_type = 'add'
+      AND status = 'completed'
+      AND access_end_date IS NOT NULL
+      AND access_end_date < current_date
+      AND access_end_processed_at IS NULL
+  LOOP
+    SELECT id INTO v_removal_id
+    FROM security_role_requests
+    WHERE source_request_id = v_request.id
+      AND request_type = 'remove'
+    LIMIT 1;
+
+    IF v_removal_id IS NULL THEN
+      INSERT INTO security_role_requests (
+        request_type,
+        source_request_id,
+        remove_all_access,
+        start_date,
+        employee_name,
+        employee_id,
+        is_non_employee,
+        non_employee_type,
+        access_end_date,
+        security_measures,
+        work_location,
+        work_phone,
+        email,
+        agency_name,
+        agency_code,
+        justification,
+        submitter_name,
+        submitter_email,
+        supervisor_name,
+        supervisor_email,
+        security_admin_name,
+        security_admin_email,
+        submitted_by,
+        status
+      )
+      VALUES (
+        'remove',
+        v_request.id,
+        true,
+        current_date,
+        v_request.employee_name,
+        v_request.employee_id,
+        true,
+        v_request.non_employee_type,
+        v_request.access_end_date,
+        v_request.security_measures,
+        v_request.work_location,
+        v_request.work_phone,
+        v_request.email,
+        v_request.agency_name,
+        v_request.agency_code,
+        format('Non-employee access ended on %s. Generated automatically to remove all access.', to_char(v_request.access_end_date, 'MM/DD/YYYY')),
+        'Automated access review',
+        v_request.security_admin_email,
+        v_request.supervisor_name,
+        v_request.supervisor_email,
+        v_request.security_admin_name,
+        v_request.security_admin_email,
+        NULL,
+        'pending'
+      )
+      RETURNING id INTO v_removal_id;
+
+      IF coalesce(v_request.security_admin_email, '') <> '' THEN
+        INSERT INTO notification_outbox (request_id, event, recipient_email)
+        VALUES (v_removal_id, 'access_end_passed', v_request.security_admin_email);
+      END IF;
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_processed_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION process_non_employee_access_ends() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,193 @@
+/*
+  # Effective access ledger per employee
+
+  1. New Tables
+    - `employee_access`
+      - `employee_key` (text, primary key) - employee ID, or lower-cased email
+        for non-employees without one
+      - `employee_id`, `employee_name`, `email`, `agency_code` - from the most
+        recent completed request
+      - `last_request_id` (uuid) - most recent completed request applied
+      - `updated_at` (timestamptz)
+    - `employee_access_entries`
+      - `employee_key` (text, references employee_access)
+      - `role_table` (text) - role selection table the entry comes from
+      - `role_column` (text) - column in that table
+      - `value` (jsonb) - `true` for roles, the text for settings such as
+        business units and agency codes
+      - `granted_request_id` (uuid) - request that last set the entry
+      - `granted_at` (timestamptz)
+
+  2. Changes
+    - Add `apply_request_to_access(request_id)`, which applies a completed request
+      to the ledger:
+      - add and change requests set every role and setting they select
+      - roles listed in `request_role_removals` are removed
+      - removal requests with `remove_all_access` clear the employee's access
+    - Requests are applied when their status becomes `completed`
+    - Existing completed requests are applied in completion order
+
+  3. Security
+    - RLS enabled on both tables; signed-in users can read them so an existing
+      user's access can be copied or reviewed. Only the trigger writes to them
+*/
+
+CREATE TABLE IF NOT EXISTS employee_access (
+  employee_key text PRIMARY KEY,
+  employee_id text,
+  employee_name text NOT NULL,
+  email text,
+  agency_code text,
+  last_request_id uuid REFERENCES security_role_requests(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS employee_access_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_key text NOT NULL REFERENCES employee_access(employee_key) ON DELETE CASCADE,
+  role_table text NOT NULL,
+  role_column text NOT NULL,
+  value jsonb NOT NULL,
+  granted_request_id uuid REFERENCES security_role_requests(id) ON DELETE SET NULL,
+  granted_at timestamptz DEFAULT now(),
+  UNIQUE (employee_key, role_table, role_column)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_access_employee_name
+ON employee_access(employee_name);
+
+ALTER TABLE employee_access ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_access_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read employee access"
+  ON employee_access
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read employee access entries"
+  ON employee_access_entries
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Identifies the same person across requests
+CREATE OR REPLACE FUNCTION employee_access_key(p_employee_id text, p_email text)
+RETURNS text AS $$
+BEGIN
+  RETURN coalesce(nullif(trim(p_employee_id), ''), lower(trim(p_email)));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION apply_request_to_access(p_request_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+  v_key text;
+  v_table text;
+  v_row jsonb;
+BEGIN
+  SELECT * INTO v_request
+  FROM security_role_requests
+  WHERE id = p_request_id;
+
+  IF NOT FOUND OR v_request.status <> 'completed' THEN
+    RETURN;
+  END IF;
+
+  v_key := employee_access_key(v_request.employee_id, v_request.email);
+  IF v_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO employee_access (employee_key, employee_id, employee_name, email, agency_code, last_request_id, updated_at)
+  VALUES (v_key, v_request.employee_id, v_request.employee_name, v_request.email, v_request.agency_code, v_request.id, now())
+  ON CONFLICT (employee_key) DO UPDATE SET
+    employee_id = EXCLUDED.employee_id,
+    employee_name = EXCLUDED.employee_name,
+    email = EXCLUDED.email,
+    agency_code = EXCLUDED.agency_code,
+    last_request_id = EXCLUDED.last_request_id,
+    updated_at = now();
+
+  IF v_request.request_type = 'remove' AND v_request.remove_all_access THEN
+    DELETE FROM employee_access_entries
+    WHERE employee_key = v_key;
+    RETURN;
+  END IF;
+
+  -- Roles and settings granted by the request
+  IF v_request.request_type IN ('add', 'change') THEN
+    FOREACH v_table IN ARRAY ARRAY[
+      'security_role_selections',
+      'hr_payroll_role_selections',
+      'epm_dwh_role_selections'
+    ]
+    LOOP
+      EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE request_id = $1', v_table)
+      INTO v_row
+      USING p_request_id;
+
+      IF v_row IS NOT NULL THEN
+        INSERT INTO employee_access_entries (employee_key, role_table, role_column, value, granted_request_id, granted_at)
+        SELECT v_key, v_table, e.key, e.value, p_request_id, now()
+        FROM jsonb_each(v_row) e
+        WHERE e.key NOT IN (
+            'id', 'request_id', 'created_at', 'updated_at',
+            'role_justification', 'elm_role_justification', 'supervisor_approval'
+          )
+          AND (
+            e.value = 'true'::jsonb
+            OR (jsonb_typeof(e.value) = 'string' AND e.value #>> '{}' <> '')
+          )
+        ON CONFLICT (employee_key, role_table, role_column) DO UPDATE SET
+          value = EXCLUDED.value,
+          granted_request_id = EXCLUDED.granted_request_id,
+          granted_at = EXCLUDED.granted_at;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Roles revoked by the request
+  DELETE FROM employee_access_entries e
+  USING request_role_removals r
+  WHERE r.request_id = p_request_id
+    AND e.employee_key = v_key
+    AND e.role_table = r.role_table
+    AND e.role_column = r.role_column;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_request_to_access(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_completed_request_to_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM apply_request_to_access(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS apply_completed_request_to_access ON security_role_requests;
+CREATE TRIGGER apply_completed_request_to_access
+  AFTER UPDATE OF status ON security_role_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_completed_request_to_access();
+
+-- Build the ledger from the requests completed so far
+DO $$
+DECLARE
+  v_request_id uuid;
+BEGIN
+  FOR v_request_id IN
+    SELECT id FROM security_role_requests
+    WHERE status = 'completed'
+    ORDER BY coalesce(completed_at, created_at)
+  LOOP
+    PERFORM apply_request_to_access(v_request_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,153 @@
+/*
+  # Append-only audit trail for requests
+
+  1. New Tables
+    - `request_audit_log`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid) - request the change belongs to. Not a foreign key so
+        the trail outlives the request
+      - `table_name` (text) - table that changed
+      - `record_id` (uuid) - id of the changed row
+      - `action` (text) - `insert`, `update` or `delete`
+      - `changed_fields` (text[]) - columns whose value changed
+      - `old_values` (jsonb) - previous values; the whole row for deletes, the
+        changed columns for updates
+      - `new_values` (jsonb) - new values; the whole row for inserts, the
+        changed columns for updates
+      - `changed_by` (uuid) - signed-in user who made the change, if any
+      - `changed_by_email` (text) - their email, null for system changes such as
+        scheduled jobs and token signing
+      - `changed_at` (timestamptz)
+
+  2. Changes
+    - Add the `audit_request_change()` trigger to every table that holds request
+      data: requests, security areas, role selections, copy user details,
+      approvals and role removals. Updates that only touch `updated_at` are not
+      logged
+    - Signing tokens, the notification outbox and the access ledger are not
+      audited: tokens and outbox rows are delivery plumbing, and the ledger is
+      derived from the audited requests
+
+  3. Security
+    - RLS enabled; users can read the trail of any request they can view
+    - There are no insert, update or delete policies. Only the trigger writes,
+      and a guard trigger rejects updates and deletes from any role
+*/
+
+CREATE TABLE IF NOT EXISTS request_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL,
+  table_name text NOT NULL,
+  record_id uuid,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  old_values jsonb,
+  new_values jsonb,
+  changed_by uuid DEFAULT auth.uid(),
+  changed_by_email text DEFAULT nullif(current_user_email(), ''),
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_audit_log_request_id
+ON request_audit_log(request_id, changed_at);
+
+ALTER TABLE request_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read the audit trail of visible requests"
+  ON request_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (can_view_request(request_id));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON request_audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'request_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON request_audit_log;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON request_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION audit_request_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_fields text[];
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+  v_row := coalesce(v_new, v_old);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO v_fields
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+      AND n.value IS DISTINCT FROM v_old -> n.key;
+
+    IF v_fields IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    SELECT jsonb_object_agg(key, v_old -> key), jsonb_object_agg(key, v_new -> key)
+    INTO v_old, v_new
+    FROM unnest(v_fields) AS key;
+  ELSE
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO v_fields
+    FROM jsonb_object_keys(v_row) AS key;
+  END IF;
+
+  INSERT INTO request_audit_log (request_id, table_name, record_id, action, changed_fields, old_values, new_values)
+  VALUES (
+    CASE WHEN TG_TABLE_NAME = 'security_role_requests'
+      THEN (v_row ->> 'id')::uuid
+      ELSE (v_row ->> 'request_id')::uuid
+    END,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::uuid,
+    lower(TG_OP),
+    v_fields,
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION audit_request_change() FROM PUBLIC, anon, authenticated;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'security_role_requests',
+    'security_areas',
+    'security_role_selections',
+    'hr_payroll_role_selections',
+    'epm_dwh_role_selections',
+    'copy_user_details',
+    'request_approvals',
+    'request_role_removals'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_request_change ON %I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_request_change AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_request_change()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
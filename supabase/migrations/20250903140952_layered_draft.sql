@@ -0,0 +1,232 @@
+/*
+  # Numbered request revisions with selective re-approval
+
+  1. New Tables
+    - `request_revisions`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references security_role_requests)
+      - `revision_number` (integer) - 1 for the submitted request, then one per
+        saved edit
+      - `snapshot` (jsonb) - the request, its security areas, role selections,
+        copy user details and role removals as of this revision
+      - `changed_sections` (text[]) - `contact`, `details`, `areas` and/or `roles`
+        that differ from the previous revision
+      - `created_by` (uuid), `created_by_email` (text), `created_at` (timestamptz)
+
+  2. Changes
+    - Add `current_revision` to `security_role_requests`
+    - Add `request_snapshot(request_id)`, the reviewable content of a request
+    - Add `record_request_revision(request_id)`, called when the submitter
+      finishes creating or editing a request. It stores a new revision when the
+      content changed and sends back for approval only the steps whose approver
+      attested to what changed:
+      - `contact` (phone, location, emails and names of the people involved):
+        no step is reset
+      - `details` (employee, agency, dates, justification): every step except
+        the user signature
+      - `areas` and `roles`: director steps and the security administrator
+      Steps that were denied, returned or cancelled go back to pending on every
+      resubmission. Steps that are still pending are left alone, so links already
+      emailed to those approvers keep working
+    - Existing requests get revision 1 from their current content
+    - `reset_request_approvals` is replaced by `record_request_revision` and dropped
+
+  3. Security
+    - RLS enabled on `request_revisions`; readable by anyone who can view the
+      request. Only `record_request_revision` writes to it, and only the
+      request's submitter can call it
+*/
+
+CREATE TABLE IF NOT EXISTS request_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES security_role_requests(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  changed_sections text[] NOT NULL DEFAULT '{}',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_by_email text DEFAULT nullif(current_user_email(), ''),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (request_id, revision_number)
+);
+
+ALTER TABLE security_role_requests
+ADD COLUMN IF NOT EXISTS current_revision integer NOT NULL DEFAULT 1;
+
+ALTER TABLE request_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read revisions of visible requests"
+  ON request_revisions
+  FOR SELECT
+  TO authenticated
+  USING (can_view_request(request_id));
+
+CREATE OR REPLACE FUNCTION request_snapshot(p_request_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_meta text[] := ARRAY['id', 'request_id', 'created_at', 'updated_at'];
+BEGIN
+  RETURN (
+    SELECT jsonb_build_object(
+      'request', to_jsonb(r) - ARRAY[
+        'id', 'created_at', 'updated_at', 'status', 'submitted_by',
+        'completed_by', 'completed_at', 'current_revision',
+        'access_end_warned_at', 'access_end_processed_at'
+      ],
+      'security_areas', coalesce((
+        SELECT jsonb_agg(to_jsonb(a) - v_meta ORDER BY a.area_type)
+        FROM security_areas a
+        WHERE a.request_id = r.id
+      ), '[]'::jsonb),
+      'role_selections', jsonb_build_object(
+        'security_role_selections',
+          (SELECT to_jsonb(t) - v_meta FROM security_role_selections t WHERE t.request_id = r.id),
+        'hr_payroll_role_selections',
+          (SELECT to_jsonb(t) - v_meta FROM hr_payroll_role_selections t WHERE t.request_id = r.id),
+        'epm_dwh_role_selections',
+          (SELECT to_jsonb(t) - v_meta FROM epm_dwh_role_selections t WHERE t.request_id = r.id)
+      ),
+      'copy_user_details', (
+        SELECT to_jsonb(c) - v_meta FROM copy_user_details c WHERE c.request_id = r.id
+      ),
+      'role_removals', coalesce((
+        SELECT jsonb_agg(
+          jsonb_build_object('role_table', x.role_table, 'role_column', x.role_column, 'role_label', x.role_label)
+          ORDER BY x.role_table, x.role_column
+        )
+        FROM request_role_removals x
+        WHERE x.request_id = r.id
+      ), '[]'::jsonb)
+    )
+    FROM security_role_requests r
+    WHERE r.id = p_request_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_snapshot(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_request_revision(p_request_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_contact_columns text[] := ARRAY[
+    'work_location', 'work_phone', 'email',
+    'submitter_name', 'submitter_email',
+    'supervisor_name', 'supervisor_email',
+    'security_admin_name', 'security_admin_email'
+  ];
+  v_snapshot jsonb;
+  v_previous request_revisions%ROWTYPE;
+  v_revision integer;
+  v_sections text[] := '{}';
+  v_reset_steps text[];
+  v_reset_ids uuid[];
+BEGIN
+  IF NOT is_request_submitter(p_request_id) THEN
+    RAISE EXCEPTION 'Only the submitter can revise this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_snapshot := request_snapshot(p_request_id);
+
+  SELECT * INTO v_previous
+  FROM request_revisions
+  WHERE request_id = p_request_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  v_revision := coalesce(v_previous.revision_number, 0);
+
+  IF v_previous.id IS NULL OR v_previous.snapshot IS DISTINCT FROM v_snapshot THEN
+    IF v_previous.id IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_snapshot -> 'request') n
+        WHERE n.key = ANY(v_contact_columns)
+          AND n.value IS DISTINCT FROM v_previous.snapshot -> 'request' -> n.key
+      ) THEN
+        v_sections := v_sections || 'contact';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_snapshot -> 'request') n
+        WHERE NOT n.key = ANY(v_contact_columns)
+          AND n.value IS DISTINCT FROM v_previous.snapshot -> 'request' -> n.key
+      ) THEN
+        v_sections := v_sections || 'details';
+      END IF;
+
+      IF v_snapshot -> 'security_areas' IS DISTINCT FROM v_previous.snapshot -> 'security_areas' THEN
+        v_sections := v_sections || 'areas';
+      END IF;
+
+      IF v_snapshot -> 'role_selections' IS DISTINCT FROM v_previous.snapshot -> 'role_selections'
+        OR v_snapshot -> 'copy_user_details' IS DISTINCT FROM v_previous.snapshot -> 'copy_user_details'
+        OR v_snapshot -> 'role_removals' IS DISTINCT FROM v_previous.snapshot -> 'role_removals' THEN
+        v_sections := v_sections || 'roles';
+      END IF;
+    END IF;
+
+    v_revision := v_revision + 1;
+
+    INSERT INTO request_revisions (request_id, revision_number, snapshot, changed_sections)
+    VALUES (p_request_id, v_revision, v_snapshot, v_sections);
+
+    UPDATE security_role_requests
+    SET current_revision = v_revision
+    WHERE id = p_request_id;
+  END IF;
+
+  -- Steps whose approver attested to a section that changed
+  IF 'details' = ANY(v_sections) THEN
+    SELECT array_agg(DISTINCT step) INTO v_reset_steps
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step <> 'user_signature';
+  ELSIF v_sections && ARRAY['areas', 'roles'] THEN
+    SELECT array_agg(DISTINCT step) INTO v_reset_steps
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step NOT IN ('user_signature', 'supervisor_approval');
+  END IF;
+
+  WITH reset AS (
+    UPDATE request_approvals
+    SET status = 'pending',
+        signature_data = CASE WHEN status = 'approved' THEN NULL ELSE signature_data END,
+        approved_at = CASE WHEN status = 'approved' THEN NULL ELSE approved_at END,
+        rejected_at = NULL,
+        signed_by_email = NULL,
+        signed_by_user_id = NULL,
+        signature_method = NULL
+    WHERE request_id = p_request_id
+      AND (
+        status IN ('denied', 'returned', 'cancelled')
+        OR (status = 'approved' AND step = ANY(coalesce(v_reset_steps, '{}')))
+      )
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_reset_ids FROM reset;
+
+  -- Links issued before the edit should not sign the new revision
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = ANY(coalesce(v_reset_ids, '{}'))
+    AND used_at IS NULL;
+
+  PERFORM enqueue_approver_notifications(p_request_id);
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_request_revision(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_request_revision(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS reset_request_approvals(uuid);
+
+-- Revision 1 for requests submitted before revisions were kept
+INSERT INTO request_revisions (request_id, revision_number, snapshot, created_by, created_by_email, created_at)
+SELECT r.id, 1, request_snapshot(r.id), r.submitted_by, r.submitter_email, r.created_at
+FROM security_role_requests r
+WHERE NOT EXISTS (
+  SELECT 1 FROM request_revisions v WHERE v.request_id = r.id
+);
@@ -0,0 +1,29 @@
+/*
+  # Indexes for filtering and paging the request list
+
+  1. Changes
+    - The request list is now filtered, sorted and paged in the database. Add
+      indexes for its sort columns and the filters that narrow it most:
+      - `security_role_requests`: submitted date, status and agency code
+      - `security_areas`: area type
+      - `request_approvals`: approver email of pending steps
+
+  2. Security
+    - No changes
+*/
+
+CREATE INDEX IF NOT EXISTS idx_security_role_requests_created_at
+ON security_role_requests(created_at DESC, id);
+
+CREATE INDEX IF NOT EXISTS idx_security_role_requests_status
+ON security_role_requests(status);
+
+CREATE INDEX IF NOT EXISTS idx_security_role_requests_agency_code
+ON security_role_requests(agency_code);
+
+CREATE INDEX IF NOT EXISTS idx_security_areas_area_type
+ON security_areas(area_type, request_id);
+
+CREATE INDEX IF NOT EXISTS idx_request_approvals_pending_approver
+ON request_approvals(lower(approver_email))
+WHERE status = 'pending';
@@ -0,0 +1,158 @@
+/*
+  # Agency approver directory
+
+  1. New Tables
+    - `agency_approvers`
+      - `id` (uuid, primary key)
+      - `agency_code` (text) - agency code from the agency list
+      - `role` (text) - `security_admin`, `accounting_director`, `hr_director`
+        or `elm_key_admin`
+      - `approver_name` (text)
+      - `approver_email` (text)
+      - `created_at`, `updated_at` (timestamptz)
+      - One approver per agency and role
+
+  2. Changes
+    - Add `hr_view_statewide` to `security_areas`. It was only recorded in the
+      placeholder HR director address, which is no longer used; existing HR
+      areas are backfilled from that address
+    - Add `fill_request_approvers()`: a blank security administrator on a
+      request is taken from the directory for the request's agency
+    - Add `fill_area_director()`: a blank director email on a security area is
+      taken from the directory (the accounting director/CFO, HR director or ELM
+      key administrator of the request's agency). HR / Payroll areas always
+      leave it blank, so their approval is routed by the directory alone. An
+      area that needs a director approval and has none fails with an error
+      rather than creating an approval step nobody can sign
+    - Both run before the existing triggers that create the approval steps
+    - Directory agency codes are stored upper-case and emails lower-case
+
+  3. Security
+    - RLS enabled; signed-in users can read the directory so the request form
+      can fill in approvers
+    - There are no write policies; the directory is maintained by
+      administrators
+*/
+
+CREATE TABLE IF NOT EXISTS agency_approvers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_code text NOT NULL,
+  role text NOT NULL CHECK (role IN ('security_admin', 'accounting_director', 'hr_director', 'elm_key_admin')),
+  approver_name text NOT NULL,
+  approver_email text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (agency_code, role)
+);
+
+ALTER TABLE agency_approvers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read the agency approver directory"
+  ON agency_approvers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE security_areas
+ADD COLUMN IF NOT EXISTS hr_view_statewide boolean NOT NULL DEFAULT false;
+
+UPDATE security_areas
+SET hr_view_statewide = true
+WHERE area_type = 'hr_payroll'
+  AND director_email = 'hr_statewide_access@state.mn.us';
+
+-- Directory role that approves each security area (EPM / Data Warehouse has none)
+CREATE OR REPLACE FUNCTION area_directory_role(p_area_type text)
+RETURNS text AS $$
+BEGIN
+  RETURN CASE p_area_type
+    WHEN 'accounting_procurement' THEN 'accounting_director'
+    WHEN 'hr_payroll' THEN 'hr_director'
+    WHEN 'elm' THEN 'elm_key_admin'
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION fill_request_approvers()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approver agency_approvers%ROWTYPE;
+BEGIN
+  IF coalesce(NEW.security_admin_email, '') = '' THEN
+    SELECT * INTO v_approver
+    FROM agency_approvers
+    WHERE agency_code = NEW.agency_code
+      AND role = 'security_admin';
+
+    IF FOUND THEN
+      NEW.security_admin_name := coalesce(nullif(NEW.security_admin_name, ''), v_approver.approver_name);
+      NEW.security_admin_email := v_approver.approver_email;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS fill_request_approvers ON security_role_requests;
+CREATE TRIGGER fill_request_approvers
+  BEFORE INSERT OR UPDATE OF agency_code, security_admin_email ON security_role_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_request_approvers();
+
+CREATE OR REPLACE FUNCTION fill_area_director()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_role text := area_directory_role(NEW.area_type);
+  v_agency_code text;
+  v_approver agency_approvers%ROWTYPE;
+BEGIN
+  IF v_role IS NULL OR coalesce(NEW.director_email, '') <> '' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT agency_code INTO v_agency_code
+  FROM security_role_requests
+  WHERE id = NEW.request_id;
+
+  SELECT * INTO v_approver
+  FROM agency_approvers
+  WHERE agency_code = v_agency_code
+    AND role = v_role;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No % is listed in the approver directory for agency %', replace(v_role, '_', ' '), v_agency_code;
+  END IF;
+
+  NEW.director_email := v_approver.approver_email;
+  -- HR / Payroll keeps the mainframe logon ID in director_name
+  IF NEW.area_type <> 'hr_payroll' THEN
+    NEW.director_name := coalesce(nullif(NEW.director_name, ''), v_approver.approver_name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS fill_area_director ON security_areas;
+CREATE TRIGGER fill_area_director
+  BEFORE INSERT OR UPDATE OF area_type, director_email ON security_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_area_director();
+
+CREATE OR REPLACE FUNCTION normalize_agency_approver()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.agency_code := upper(trim(NEW.agency_code));
+  NEW.approver_email := lower(trim(NEW.approver_email));
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS normalize_agency_approver ON agency_approvers;
+CREATE TRIGGER normalize_agency_approver
+  BEFORE INSERT OR UPDATE ON agency_approvers
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_agency_approver();
@@ -0,0 +1,830 @@
+/*
+  # Agency and business unit reference data
+
+  1. New Tables
+    - `reference_agencies`
+      - `code` (text, primary key) - three character agency code
+      - `name` (text)
+      - `category` (text) - `agency`, `health_licensing_board` or `smart_agency`;
+        health licensing boards and SMART agencies are picked from their own
+        list on the request form
+      - `is_active` (boolean) - inactive agencies are hidden from the forms but
+        still name the codes already on requests
+      - `created_at`, `updated_at` (timestamptz)
+    - `reference_business_units`
+      - `code` (text, primary key) - business unit code
+      - `description` (text)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `reference_data_admins`
+      - `email` (text, primary key) - sign-in email of a user who maintains the
+        reference data
+
+  2. Changes
+    - Seed both tables from the lists previously compiled into the app. The
+      "Health Licensing Boards" and "SMART" placeholder entries become the
+      categories above. J40 was listed for both Guardian Ad Litem and the
+      Minnesota Competency Attainment Board; only the first entry is seeded. The
+      judicial branch codes do not all agree with their business units (J4001 is
+      the competency attainment board) and should be reviewed with an import
+    - Add `is_reference_data_admin()`
+    - Add `import_reference_agencies(rows)` and
+      `import_reference_business_units(rows)`. Each replaces the table contents
+      with a CSV import in one transaction: new codes are added, changed rows are
+      updated and codes missing from the import are deactivated rather than
+      deleted. Imports with duplicate or blank codes are rejected
+
+  3. Security
+    - RLS enabled on all three tables; signed-in users can read the reference
+      data, and reference data admins can read the admin list
+    - There are no write policies. Changes go through the import functions,
+      which only reference data admins can run
+*/
+
+CREATE TABLE IF NOT EXISTS reference_agencies (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  category text NOT NULL DEFAULT 'agency' CHECK (category IN ('agency', 'health_licensing_board', 'smart_agency')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS reference_business_units (
+  code text PRIMARY KEY,
+  description text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS reference_data_admins (
+  email text PRIMARY KEY,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO reference_agencies (code, name, category)
+VALUES
+  ('G02', 'Administration', 'agency'),
+  ('G9K', 'Administrative Hearings', 'agency'),
+  ('B04', 'Agriculture', 'agency'),
+  ('B14', 'Animal Health', 'agency'),
+  ('G06', 'Attorney General', 'agency'),
+  ('B10', 'Cannabis Management Office', 'agency'),
+  ('P80', 'Cannabis Expungement Board', 'agency'),
+  ('B7G', 'Combative Sports Commission', 'agency'),
+  ('B13', 'Commerce', 'agency'),
+  ('B7P', 'Accountancy Brd', 'agency'),
+  ('B7E', 'Brd of Architect', 'agency'),
+  ('B26', 'MNCIFA', 'agency'),
+  ('P78', 'Corrections', 'agency'),
+  ('E37', 'Education', 'agency'),
+  ('B22', 'Employment', 'agency'),
+  ('B24', 'Econ Dev', 'agency'),
+  ('B20', 'Explore MN Tourism', 'agency'),
+  ('G09', 'Gambling Control', 'agency'),
+  ('G39', 'Governors Office', 'agency'),
+  ('H12', 'Health', 'agency'),
+  ('E9W', 'Higher Ed Facilities', 'agency'),
+  ('B34', 'Housing Finance Agency', 'agency'),
+  ('H51', 'Direct Care and Treatment (DCT)', 'agency'),
+  ('H55', 'Human Services', 'agency'),
+  ('H58', 'HS Children, Youth & Family (DCYF)', 'agency'),
+  ('G38', 'Investment Board', 'agency'),
+  ('B43', 'Iron Range R&R', 'agency'),
+  ('J33', 'Judicial', 'agency'),
+  ('J40', 'Guardian Ad Litem', 'agency'),
+  ('J50', 'Court of Appeals', 'agency'),
+  ('J58', 'Supreme Court', 'agency'),
+  ('J65', 'State Competency Attainment Board', 'agency'),
+  ('J70', 'Judicial Standards Brd', 'agency'),
+  ('B42', 'Labor & Industry', 'agency'),
+  ('L10', 'Leg Coord Comm (LCC)', 'agency'),
+  ('L49', 'Legislative Auditor', 'agency'),
+  ('G03', 'Lottery', 'agency'),
+  ('P01', 'Military Affairs', 'agency'),
+  ('G10', 'Minnesota Management & Budget', 'agency'),
+  ('G46', 'MN.IT', 'agency'),
+  ('E44', 'Mn State Academies', 'agency'),
+  ('E26', 'MinnState', 'agency'),
+  ('G62', 'MN State Retirement System', 'agency'),
+  ('R29', 'Natural Resources', 'agency'),
+  ('E60', 'Office of Higher Education', 'agency'),
+  ('E25', 'Perpich Ctr for Arts Education', 'agency'),
+  ('R32', 'Pollution Control', 'agency'),
+  ('J52', 'Public Defense', 'agency'),
+  ('G63', 'Public Employees Retire Assoc', 'agency'),
+  ('P07', 'Public Safety', 'agency'),
+  ('B82', 'Public Utilities Commission', 'agency'),
+  ('G67', 'Revenue', 'agency'),
+  ('G53', 'Secy of State', 'agency'),
+  ('L11', 'Senate', 'agency'),
+  ('G61', 'State Auditor', 'agency'),
+  ('G69', 'Teacher''s Retirement', 'agency'),
+  ('T79', 'Transportation', 'agency'),
+  ('H75', 'Veterans Affairs', 'agency'),
+  ('R9P', 'Water & Soil', 'agency'),
+  ('E77', 'Zoo', 'agency'),
+  ('B11', 'Cosmetology Examiners', 'health_licensing_board'),
+  ('B15', 'Barber Examiners', 'health_licensing_board'),
+  ('H7B', 'Medical Practice', 'health_licensing_board'),
+  ('H7C', 'Nursing', 'health_licensing_board'),
+  ('H7D', 'Pharmacy', 'health_licensing_board'),
+  ('H7F', 'Dentistry', 'health_licensing_board'),
+  ('H7H', 'Chiropractic Examiners', 'health_licensing_board'),
+  ('H7J', 'Optometry', 'health_licensing_board'),
+  ('H7K', 'Bd of Execs for LT Services & Supports', 'health_licensing_board'),
+  ('H7L', 'Social Work', 'health_licensing_board'),
+  ('H7M', 'Marriage & Family Therapy', 'health_licensing_board'),
+  ('H7Q', 'Podiatric Medicine', 'health_licensing_board'),
+  ('H7R', 'Veterinary Medicine', 'health_licensing_board'),
+  ('H7U', 'Dietetics & Nutrition Practice', 'health_licensing_board'),
+  ('H7V', 'Psychology', 'health_licensing_board'),
+  ('H7W', 'Physical Therapy', 'health_licensing_board'),
+  ('H7X', 'Behaviorial Health', 'health_licensing_board'),
+  ('H7Y', 'Occupational Therapy Practice Board', 'health_licensing_board'),
+  ('H7S', 'Emergency Medical Services Regulatory', 'health_licensing_board'),
+  ('B41', 'Workers Comp Court of Appeals (WCCA)', 'smart_agency'),
+  ('B9D', 'Amateur Sports Commission', 'smart_agency'),
+  ('E39', 'Prof. Educ. Lic. & Stand. Bd.', 'smart_agency'),
+  ('E50', 'Arts Board', 'smart_agency'),
+  ('G05', 'Racing Commission (MRC)', 'smart_agency'),
+  ('G17', 'Human Rights (MDHR)', 'smart_agency'),
+  ('G19', 'Indian Affairs Council', 'smart_agency'),
+  ('G45', 'Mediation Services (SEMA4 only)', 'smart_agency'),
+  ('G92', 'Ombudsperson for Families', 'smart_agency'),
+  ('G93', 'Ombudsperson For Am Ind Fams', 'smart_agency'),
+  ('G9J', 'Campaign Finance', 'smart_agency'),
+  ('G9L', 'Council for MNs of African Heritage', 'smart_agency'),
+  ('G9M', 'MN Council for Latino Affairs', 'smart_agency'),
+  ('G9N', 'Council on Asian-Pacific MNs', 'smart_agency'),
+  ('G9X', 'Capitol Area Architect (CAAPB)', 'smart_agency'),
+  ('G9Y', 'MN Council on Disability', 'smart_agency'),
+  ('J68', 'Tax Court', 'smart_agency'),
+  ('P08', 'Ombuds for Corrections', 'smart_agency'),
+  ('P7T', 'POST Board', 'smart_agency'),
+  ('P82', 'Clemency Review Board', 'smart_agency'),
+  ('P9E', 'Sentencing Guidelines', 'smart_agency'),
+  ('H8A', 'Foster Youth Ombudsperson', 'smart_agency'),
+  ('H9G', 'Ombud Mental Hlth & Dev Dis', 'smart_agency'),
+  ('G70', 'Secure Choice Retirement', 'smart_agency'),
+  ('G9P', 'LGBTQIA2S+ Minnesotans Council', 'smart_agency'),
+  ('G9V', 'Rare Disease Advisory Council', 'smart_agency')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO reference_business_units (code, description)
+VALUES
+  ('B0401', 'Agriculture Department'),
+  ('B0402', 'Agriculture Dept - US Bank'),
+  ('B1001', 'Office of Cannabis Management'),
+  ('B1101', 'Cosmetologist Examiners Board'),
+  ('B1301', 'Commerce Department'),
+  ('B1401', 'Animal Health Board'),
+  ('B1501', 'Barber Examiners Board'),
+  ('B2001', 'Explore Minnesota Tourism'),
+  ('B2101', 'Economic Security Dept'),
+  ('B2201', 'Employment & Economic Develop'),
+  ('B2202', 'DEED Grants and Projects'),
+  ('B2203', 'Sponsorships and Memberships'),
+  ('B2204', 'SSB'),
+  ('B2401', 'Public Facilities Authority'),
+  ('B2501', 'Science & Technology Authority'),
+  ('B2601', 'Climate Innovn Finance Authrty'),
+  ('B3401', 'Housing Finance Agency'),
+  ('B4101', 'Workers'' Comp Court of Appeals'),
+  ('B4201', 'Labor and Industry Department'),
+  ('B4202', 'OSHA Compliance'),
+  ('B4203', 'BPV, Boats & Hobby Boiler'),
+  ('B4204', 'WC Vocational Rehab Unit'),
+  ('B4205', 'Labor Standards'),
+  ('B4206', 'WC Compliance, Records & Train'),
+  ('B4207', 'WC Special Compensation Fund'),
+  ('B4208', 'WC ALTERNATIVE DISPUTE RESOLUT'),
+  ('B4301', 'Iron Range Resources'),
+  ('B7E01', 'Architecture, Engineering Bd'),
+  ('B7G01', 'Combative Sports Commission'),
+  ('B7P01', 'Accountancy Board'),
+  ('B7S01', 'Private Detectives Board'),
+  ('B8201', 'Public Utilities Commission'),
+  ('B9D01', 'Amateur Sports Commission'),
+  ('B9V01', 'Agriculture Utilization Resrch'),
+  ('BA000', 'MNDOT District 3 Baxter'),
+  ('BA413', 'MNDOT District 3 Remer'),
+  ('BA415', 'MNDOT District 3 Motley'),
+  ('BA419', 'MNDOT District 3 Little Falls'),
+  ('BA438', 'MNDOT District 3 Aitkin'),
+  ('BA442', 'MNDOT District 3 Pine River'),
+  ('BA443', 'MNDOT District 3 Baxter Maint'),
+  ('BA445', 'MNDOT District 3 Isle'),
+  ('BA450', 'MNDOT District 3 Wadena'),
+  ('BA458', 'MNDOT District 3 Long Prairie'),
+  ('BA462', 'MNDOT District 3 Garrison'),
+  ('BA468', 'MNDOT District 3 Little Falls'),
+  ('BA471', 'MNDOT District 3 Isle'),
+  ('BA999', 'MNDOT District 3 Sign Shop'),
+  ('BJ000', 'MNDOT District 2 Bemidji'),
+  ('BJ136', 'MNDOT District 2 Talmoon'),
+  ('BJ300', 'MNDOT District 2 Yard'),
+  ('BJ316', 'MNDOT District 2 Walker'),
+  ('BJ317', 'MNDOT District 2 Bagley'),
+  ('BJ318', 'MNDOT District 2 Bridge'),
+  ('BJ319', 'MNDOT District 2 Deer River'),
+  ('BJ320', 'MNDOT DIstrict 2 Baudette'),
+  ('BJ321', 'MNDOT District 2 Grygla'),
+  ('BJ322', 'MNDOT District 2 Northome'),
+  ('BJ323', 'MNDOT District 2 Roseau'),
+  ('BJ329', 'MNDOT District 2 Park Rapids'),
+  ('BJ330', 'MNDOT District 2'),
+  ('BJ999', 'MNDOT District 2 Sign Shop'),
+  ('CM000', 'MNDOT Central Map Sales'),
+  ('CO000', 'MNDOT Central Office Inventory'),
+  ('CO777', 'MNDOT CO International'),
+  ('CR000', 'MNDOT District 2 Crookston'),
+  ('CR511', 'MNDOT District 2 Warren'),
+  ('CR512', 'MNDOT Dist 2 Theif River Falls'),
+  ('CR516', 'MNDOT District 2 Hallock'),
+  ('CR517', 'MNDOT District 2 Ada'),
+  ('CR524', 'MNDOT District 2 Erskine'),
+  ('CR526', 'MNDOT District 2 Karlstad'),
+  ('CR528', 'MNDOT Dist 2 East Grand Forks'),
+  ('CR530', 'MNDOT District 2 Crookston'),
+  ('CR999', 'MNDOT District 2 Sign Shop'),
+  ('CS000', 'MNDOT Central Shop'),
+  ('CS111', 'MNDOT Central Shop Plow Comp'),
+  ('DL000', 'MNDOT District 4'),
+  ('DL611', 'MNDOT District 4 Brknrdge'),
+  ('DL615', 'MNDOT District 4 Fergus Falls'),
+  ('DL616', 'MNDOT District 4 DL TS'),
+  ('DL623', 'MNDOT District 4 Moorhead'),
+  ('DL624', 'MNDOT District 4 Barnsville'),
+  ('DL625', 'MNDOT District 4 Perham'),
+  ('DL629', 'MNDOT District 4 Hawley'),
+  ('DL636', 'MNDOT District 4 Henning'),
+  ('DL640', 'MNDOT District 4 Mahnomen'),
+  ('DL654', 'MNDOT District 4 Pelican Rapid'),
+  ('DL771', 'MNDOT DOT DIST 4 ERHARD PIT'),
+  ('DL915', 'MNDOT District 4 FF Field Mech'),
+  ('DL916', 'MNDOT District 4 DL Field Mech'),
+  ('DL999', 'MNDOT District 4 Sign Shop'),
+  ('DU000', 'MNDOT District 1 Duluth'),
+  ('DU002', 'MNDOT Dist 1 West Field Mech'),
+  ('DU003', 'MNDOT Dist 1 North Field Mech'),
+  ('DU004', 'MNDOT Dist 1 East Field Mech'),
+  ('DU005', 'MNDOT Dist 1 CNTL Field Mech'),
+  ('DU006', 'MNDOT DIST 1 South Field Mech'),
+  ('DU023', 'MNDOT Distric 1 Floodwood Aggr'),
+  ('DU034', 'MNDOT District 1 McGrath Aggr'),
+  ('DU111', 'MNDOT District 1 Canyon Salt S'),
+  ('DU143', 'MNDOT District 1 Grand Rapids'),
+  ('DU200', 'MNDOT District 1 Arbo Salt Shd'),
+  ('DU210', 'MNDOT District 1 BF Salt Shed'),
+  ('DU211', 'MNDOT District 1 Grand Marais'),
+  ('DU218', 'MNDOT District 1 Thompson Hill'),
+  ('DU219', 'MNDOT District 1 Silver S Salt'),
+  ('DU220', 'MNDOT District 1 Jacobson Salt'),
+  ('DU222', 'MNDOT District 1 Floodwood'),
+  ('DU223', 'MNDOT District 1 Lester Salt'),
+  ('DU224', 'MNDOT District 1 Silver Bay'),
+  ('DU225', 'MNDOT District 1 Libby Salt'),
+  ('DU226', 'MNDOT District 1 Illgen City'),
+  ('DU229', 'MNDOT District 1 Pine City'),
+  ('DU230', 'MNDOT District 1 Sandstone'),
+  ('DU240', 'MNDOT District 1 Talmoon Salt'),
+  ('DU245', 'MNDOT District 1 Two Harbors'),
+  ('DU246', 'MNDOT District 1 Carlton'),
+  ('DU248', 'MNDOT District 1 Fond Du Lac'),
+  ('DU253', 'MNDOT District 1 Carlton Brdg'),
+  ('DU256', 'MNDOT District 1 Nopeming'),
+  ('DU257', 'MNDOT District 1 Moose Lake'),
+  ('DU262', 'MNDOT District 1 Saginaw Salt'),
+  ('DU266', 'MNDOT District 1 McGregor'),
+  ('DU276', 'MNDOT District 1 Nopeming Guar'),
+  ('DU290', 'MNDOT District 1 Nopeming Land'),
+  ('DU298', 'MNDOT District 1 Metro/Pike Lk'),
+  ('DU500', 'MN DOT DIST 1 MOORHEAD PIT'),
+  ('DU888', 'MNDOT District 1 Duluth OS'),
+  ('DU999', 'MNDOT District 1 Sign Shop'),
+  ('E2501', 'Perpich Ctr For Arts Education'),
+  ('E2601', 'MN State Colleges/Universities'),
+  ('E3701', 'Education Department'),
+  ('E3702', 'Dept of Education –Non-Federal'),
+  ('E3901', 'Prof Educator Licensing Std Bd'),
+  ('E4001', 'Historical Society'),
+  ('E4401', 'Minnesota State Academies'),
+  ('E5001', 'Arts Board'),
+  ('E6001', 'Office of Higher Education'),
+  ('E7701', 'Zoological Board'),
+  ('E8101', 'University of Minnesota'),
+  ('E9501', 'Humanities Center'),
+  ('E9701', 'Science Museum'),
+  ('E9W01', 'Higher Ed Facilities Authority'),
+  ('EC000', 'MNDOT Elect. Comm Oakdale'),
+  ('EC010', 'MNDOT Elect. Comm Duluth'),
+  ('EC020', 'MNDOT Elect. Comm VA'),
+  ('EC030', 'MNDOT Elect. Comm TRF'),
+  ('EC040', 'MNDOT Elect. Comm Brainerd'),
+  ('EC050', 'MNDOT Elect. Comm St. Cloud'),
+  ('EC054', 'MNDOT Elect Comm Willmar'),
+  ('EC060', 'MNDOT Elect. Comm DL'),
+  ('EC070', 'MNDOT Elect. Comm GV'),
+  ('EC080', 'MNDOT Elect. Comm Rochester'),
+  ('EC084', 'MNDOT Elect. Comm Owatonna'),
+  ('EC090', 'MNDOT Elect. Comm Mankato'),
+  ('EC100', 'MNDOT Elect Comm Marshall'),
+  ('EC110', 'MNDOT Elect. Comm Oakdale'),
+  ('EC115', 'MNDOT Elect. Comm Waters Edge'),
+  ('EC120', 'MNDOT Elect. Comm Grand Rapids'),
+  ('EC130', 'MNDOT Elect. Comm Bemidji'),
+  ('EC160', 'MNDOT Elect. Comm Windom'),
+  ('ES000', 'MNDOT Electrical Services'),
+  ('ES001', 'MNDOT Electrical Services 1'),
+  ('G0201', 'Administration Department'),
+  ('G0202', 'Mn Geospatial Info Office'),
+  ('G0203', 'Minnesota Bookstore'),
+  ('G0204', 'Central Mail'),
+  ('G0205', 'Parking'),
+  ('G0206', 'Materials Transfer'),
+  ('G0207', 'Surplus Services'),
+  ('G0208', 'Fleet Services'),
+  ('G0209', 'Admin - Facilities Management'),
+  ('G0210', 'Admin/State Procurement'),
+  ('G0211', 'Admin - Real Estate & Constr'),
+  ('G0212', 'Admin - Risk Management'),
+  ('G0213', 'Risk Management - Workers Comp'),
+  ('G0214', 'Financial Mgmt & Reporting'),
+  ('G0215', 'Data Practices Office'),
+  ('G0216', 'Admin FMR Smart'),
+  ('G0217', 'Admin HR Smart'),
+  ('G0218', 'Admin Demography'),
+  ('G0219', 'State Hist Preservation Office'),
+  ('G0220', 'Office of State Archaeology'),
+  ('G0301', 'Lottery'),
+  ('G0501', 'Racing Commission'),
+  ('G0601', 'Attorney General'),
+  ('G0901', 'Gambling Control Board'),
+  ('G1001', 'Minnesota Management & Budget'),
+  ('G1002', 'SEGIP'),
+  ('G1601', 'Admin Cap Project & Relocation'),
+  ('G1701', 'Human Rights Department'),
+  ('G1901', 'Indian Affairs Council'),
+  ('G3801', 'Investment Board'),
+  ('G3901', 'Governors Office'),
+  ('G4501', 'Mediation Services Department'),
+  ('G4601', 'MN.IT'),
+  ('G5301', 'Secretary of State'),
+  ('G6101', 'Office of State Auditor'),
+  ('G6201', 'Minn State Retirement System'),
+  ('G6301', 'Public Employees Retire Assoc'),
+  ('G6302', 'PERA - US BANK'),
+  ('G6701', 'Revenue Department'),
+  ('G6901', 'Teachers Retirement Assoc'),
+  ('G7001', 'MN Secure Choice Retirement Bd'),
+  ('G8H01', 'MMB Higher Education'),
+  ('G8S01', 'MMB Intergovernmental Aids'),
+  ('G9001', 'Revenue Intergovt Payments'),
+  ('G9201', 'Ombudsperson for Families'),
+  ('G9301', 'Ombud American Indian Families'),
+  ('G9601', 'Uniform Laws Commission'),
+  ('G9J01', 'Campaign Finance Board'),
+  ('G9K01', 'Administrative Hearings'),
+  ('G9L01', 'Council for Minnesotans of Afr'),
+  ('G9M01', 'Minnesota Council on Latino Af'),
+  ('G9N01', 'Asian Pacific Council'),
+  ('G9P01', 'LGBTQIA2S+ Minnesotans Council'),
+  ('G9Q01', 'MMB Debt Service'),
+  ('G9R01', 'MMB Non-Operating'),
+  ('G9T01', 'MMB Treasury Non Operating'),
+  ('G9V01', 'Rare Disease Advisory Council'),
+  ('G9X01', 'Capitol Area Architect'),
+  ('G9Y01', 'MN State Council on Disability'),
+  ('GCA01', 'ACH Clearing'),
+  ('GF000', 'MNDOT Metro District GV'),
+  ('GF110', 'MNDOT Metro Dist. Cedar Fuel'),
+  ('GF111', 'MNDOT Metro Dist. GV Mech'),
+  ('GF129', 'MNDOT Metro Dist. Shak Fuel'),
+  ('GF130', 'MNDOT Metro Dist. Camden Fuel'),
+  ('GF131', 'MNDOT Metro Dist. GV Fuel'),
+  ('GF133', 'MNDOT Metro Dist. Jordan Fuel'),
+  ('GF140', 'MNDOT Metro Dist. Anoka Fuel'),
+  ('GF163', 'MNDOT Metro Dist. PLY Fuel'),
+  ('GF179', 'MNDOT Metro Dist. SLP Fuel'),
+  ('GF186', 'MNDOT Metro Dist. EP Fuel'),
+  ('GF187', 'MNDOT Metro Dist. MG Fuel'),
+  ('GF196', 'MNDOT Metro Dist. EP Fuel'),
+  ('GF222', 'MNDOT Metro Dist Chaska Mech'),
+  ('GF333', 'MNDOT Metro Dist. Camden TS'),
+  ('GF444', 'MNDOT Metro Dist. EP TS'),
+  ('GF555', 'MNDOT Metro Dist. Cedar Mech'),
+  ('GF665', 'MAPLE GROVE FIELD MECH TRUCK'),
+  ('GF666', 'MNDOT Metro Dist. MG TS'),
+  ('GF667', 'MNDOT Metro Dist GF Mech TR'),
+  ('GF777', 'MNDOT Metro Dist. PLY TS'),
+  ('GF888', 'MNDOT METRO DIST. SLP TS'),
+  ('GF910', 'MNDOT Metro Dist. Cedar TS'),
+  ('GF926', 'MNDOT Metro Dist Chaska Maint'),
+  ('GF929', 'MNDOT Metro Dist. Shak TS'),
+  ('GF930', 'MNDOT Metro Dist. Camden TS'),
+  ('GF931', 'MNDOT Metro Dist GV TS'),
+  ('GF933', 'MNDOT Metro Dist. Jordan TS'),
+  ('GF940', 'MNDOT Metro Dist. Anoka TS'),
+  ('GF963', 'MNDOT Metro Dist PLY TS'),
+  ('GF979', 'MNDOT Metro Dist. SLP TS'),
+  ('GF986', 'MNDOT Metro Dist. EP TS'),
+  ('GF987', 'MNDOT Metro Dist. MG TS'),
+  ('GF999', 'MNDOT Metro Dist. GV Sign'),
+  ('GPR01', 'Payroll Clearing'),
+  ('H1201', 'Health Department'),
+  ('H5101', 'Direct Care and Treatment'),
+  ('H5110', 'DCT Billing'),
+  ('H5111', 'MSI Billing'),
+  ('H5501', 'Human Services Department'),
+  ('H5502', 'Grants and Projects'),
+  ('H5503', 'HealthCare Recoveries'),
+  ('H5504', 'Other Counties and Tribes'),
+  ('H5505', 'Parent Fees'),
+  ('H5506', 'Parent Usage'),
+  ('H5507', 'Estate Claims'),
+  ('H5508', 'Licensing'),
+  ('H5509', 'DHS Other'),
+  ('H5510', 'SOS Business Office'),
+  ('H5511', 'MSOP Business Office'),
+  ('H5512', 'MAEPD'),
+  ('H5513', 'Alternative Care'),
+  ('H5514', 'MSHO'),
+  ('H5515', 'MDHO'),
+  ('H5516', 'Special Needs Basic Care'),
+  ('H5517', 'Nursing Home Surcharge'),
+  ('H5518', 'Hospital Surcharge'),
+  ('H5519', 'HMO Surcharge'),
+  ('H5520', 'ICFDD Surcharge'),
+  ('H5521', 'ECPN'),
+  ('H5522', 'SIRS'),
+  ('H5523', 'MinnesotaCare Operations'),
+  ('H5524', 'NSR'),
+  ('H5525', 'MinnesotaCare Overpayments'),
+  ('H5526', 'PROVIDER CREDIT BALANCES'),
+  ('H5599', 'DHS - DOR Collections'),
+  ('H5801', 'Children Youth & Families Dept'),
+  ('H6001', 'MN Insurance Marketplace'),
+  ('H6002', 'MNsure'),
+  ('H7501', 'Veterans Affairs Department'),
+  ('H7B01', 'Medical Practice Board'),
+  ('H7C01', 'Nursing Board'),
+  ('H7D01', 'Pharmacy Board'),
+  ('H7F01', 'Dentistry Board'),
+  ('H7H01', 'Chiropractic Examiners Board'),
+  ('H7J01', 'Optometry Board'),
+  ('H7K01', 'Exec for LT Svcs & Supports Bd'),
+  ('H7L01', 'Social Work Board'),
+  ('H7M01', 'Marriage and Family Therapy Bd'),
+  ('H7Q01', 'Podiatric Medicine'),
+  ('H7R01', 'Veterinary Medicine Board'),
+  ('H7S01', 'Emergency Medical Services Off'),
+  ('H7U01', 'Dietetics & Nutrition Practice'),
+  ('H7V01', 'Psychology Board'),
+  ('H7W01', 'Physical Therapy Board'),
+  ('H7X01', 'Behavioral Health & Therapy Bd'),
+  ('H7Y01', 'Occupational Therapy Pract Bd'),
+  ('H8A01', 'Foster Youth Ombudsperson'),
+  ('H8S01', 'Emergency Medical Services Off'),
+  ('H9G01', 'Ombudsman MH/DD'),
+  ('J3301', 'Trial Courts'),
+  ('J4001', 'STATE COMPETENCY ATTAINMENT BD'),
+  ('J5001', 'State Guardian Ad Litem'),
+  ('J5201', 'Public Defense Board'),
+  ('J5801', 'Court of Appeals'),
+  ('J6101', 'Appellate Counsel & Trg Office'),
+  ('J6301', 'State Board of Civil Legal Aid'),
+  ('J6501', 'Supreme Court'),
+  ('J6801', 'Tax Court'),
+  ('J7001', 'Judicial Standards Board'),
+  ('L1001', 'Legislature Coordinating Comm'),
+  ('L1101', 'Senate'),
+  ('L1201', 'House'),
+  ('L4901', 'Legislative Auditor'),
+  ('LAB00', 'MDH/MDA Lab'),
+  ('MK000', 'MNDOT District 7 Mankato'),
+  ('MK415', 'MNDOT District 7 Blue Earth TS'),
+  ('MK416', 'MNDOT District 7 Wells TS'),
+  ('MK418', 'MNDOT District 7 St. Peter TS'),
+  ('MK421', 'MNDOT District 7 Waseca TS'),
+  ('MK423', 'MNDOT District 7 Mapleton TS'),
+  ('MK424', 'MNDOT District 7 Courtland TS'),
+  ('MK430', 'MNDOT District 7 LeSueur TS'),
+  ('MK437', 'MNDOT District 7 Montgomery TS'),
+  ('MK438', 'MNDOT District 7 Gaylord TS'),
+  ('MK492', 'MNDOT District 7 Green Isle TS'),
+  ('MK494', 'MNDOT District 7 Field Mech'),
+  ('MK700', 'MNDOT District 7 Mankato Yard'),
+  ('MK717', 'MNDOT District 7 Watervil Salt'),
+  ('MK718', 'MNDOT District 7 Alden Salt'),
+  ('MK997', 'MNDOT District 7 Mankato Brg'),
+  ('MK999', 'MNDOT Dist 7 Mankato Sign Shop'),
+  ('ML000', 'MNDOT District 8 Marshall'),
+  ('ML999', 'MNDOT District 8 Marshall Sign'),
+  ('MN001', 'State of Minnesota'),
+  ('MO000', 'MNDOT District 4 Morris'),
+  ('MO781', 'MNDOT District 4 Wheaton Pit'),
+  ('MO782', 'MNDOT District 4 Graceville Pi'),
+  ('MO783', 'MNDOT DISTRICT 4 BRUSHVALE PIT'),
+  ('MO802', 'MNDOT District 4 Appleton'),
+  ('MO806', 'MNDOT District 4 Wheaton'),
+  ('MO807', 'MNDOT District 4 Beardsley'),
+  ('MO808', 'MNDOT District 4 Glenwood'),
+  ('MO809', 'MNDOT District 4 Barrett Salt'),
+  ('MO816', 'MNDOT District 4 Evansville'),
+  ('MO818', 'MNDOT District 4 Alexanndria'),
+  ('MO819', 'MNDOT District 4 Ortonville'),
+  ('MO820', 'MNDOT District 4 Morris HQ'),
+  ('MO821', 'MNDOT District 4 Morris Cold'),
+  ('MO822', 'MNDOT District 4 Benson'),
+  ('MO900', 'MNDOT District 4 Morris Bldg'),
+  ('MO907', 'MNDOT District 4 Morris East'),
+  ('MO908', 'MNDOT District 4 Morris West'),
+  ('MO918', 'MNDOT District 4 Alexandria'),
+  ('MO999', 'MNDOT District 4 Sign Shop'),
+  ('OD000', 'MNDOT Metro Dist. Oakdale'),
+  ('OD111', 'MNDOT Metro Dist Maryland Mech'),
+  ('OD117', 'MNDOT Metro Dist Maplewood'),
+  ('OD118', 'MNDOT Metro Dist. AH TS'),
+  ('OD138', 'MNDOT Metro Dist Oak TS'),
+  ('OD139', 'MNDOT Metro Dist FL TS'),
+  ('OD140', 'MNDOT Metro Dist. NB TS'),
+  ('OD141', 'MNDOT Metro Dist. Lakeville TS'),
+  ('OD152', 'MNDOT Metro Dist. Mendota TS'),
+  ('OD153', 'MNDOT Metro Dist. Hastings TS'),
+  ('OD165', 'MNDOT Metro Dist. Maryland TS'),
+  ('OD222', 'MNDOT Metro Dist Hasting Mech'),
+  ('OD333', 'MNDOT Metro Dist FL Mech'),
+  ('OD444', 'MNDOT Metro Dist Oak Mech'),
+  ('OD445', 'MNDOT Metro Dist OD Mech TR'),
+  ('OD555', 'MNDOT Metro Dist. Hasting Mech'),
+  ('OD666', 'MNDOT Metro Dist. AH Mech'),
+  ('OD777', 'MNDOT Metro Mendota Mech'),
+  ('OD999', 'MNDOT Dist Oak Sign'),
+  ('OS000', 'MNDOT Sign Shop'),
+  ('OS001', 'MNDOT Sign Shop Finished Goods'),
+  ('OW000', 'MNDOT District 6 Owatonna'),
+  ('OW301', 'MNDOT District 6 Austin Stock'),
+  ('OW302', 'MNDOT District 6 AlbertLea SP'),
+  ('OW303', 'MNDOT District 6 Redwing Stock'),
+  ('OW305', 'MNDOT District 6 Owatonna Stoc'),
+  ('OW317', 'MNDOT District 6 Northfield'),
+  ('OW319', 'MNDOT District 6 Albert Lea'),
+  ('OW328', 'MNDOT District 6 Faribault'),
+  ('OW331', 'MNDOT District 6 Cannon Falls'),
+  ('OW339', 'MNDOT District 6 Zumbrota'),
+  ('OW349', 'MNDOT District 6 Austin'),
+  ('OW354', 'MNDOT District 6 Redwing'),
+  ('OW361', 'MNDOT District 6 Dodge Center'),
+  ('OW659', 'MNDOT DIST 6 BLOOMING PR SALT'),
+  ('OW662', 'MNDOT DIST 6 FARIBAULT SALT'),
+  ('OW663', 'MNDOT DIST 6 KASSON SALT'),
+  ('OW664', 'MN DOT DIST 6 LE ROY SALT SHED'),
+  ('OW999', 'MNDOT District 6 Sign Shop'),
+  ('P0101', 'Military Affairs Department'),
+  ('P0701', 'Public Safety Department'),
+  ('P0702', 'Homeland Security'),
+  ('P0703', 'BCA'),
+  ('P0704', 'Fire Marshal'),
+  ('P0705', 'State Patrol'),
+  ('P0706', 'AGED'),
+  ('P0707', 'DVS'),
+  ('P0708', 'Pipeline Safety'),
+  ('P0801', 'Ombudsperson for Corrections'),
+  ('P7801', 'Corrections Department'),
+  ('P7T01', 'Peace Officers Board (POST)'),
+  ('P8001', 'Cannabis Expungement Board'),
+  ('P8201', 'Clemency Review Commission'),
+  ('P9E01', 'Sentencing Guidelines Comm'),
+  ('R2801', 'Minn Conservation Corps'),
+  ('R2901', 'Natural Resources Department'),
+  ('R3201', 'Pollution Control Agency'),
+  ('R9P01', 'Water and Soil Resources Board'),
+  ('RO000', 'MNDOT District 6 Rochester'),
+  ('RO109', 'MNDOT Dist 6 Rochester Bridge'),
+  ('RO218', 'MNDOT District 6 Winona'),
+  ('RO219', 'MNDOT District 6 Winona Bridge'),
+  ('RO220', 'MNDOT District 6 Stewartville'),
+  ('RO229', 'MNDOT District 6 St. Charles'),
+  ('RO252', 'MNDOT District 6 Dresbach'),
+  ('RO270', 'MNDOT DIST 6 ROCHESTER MAINT'),
+  ('RO601', 'MN DOT DIST 6 RUSHFORD SALT SH'),
+  ('RO602', 'MNDOT District 6 Chatfield'),
+  ('RO603', 'MNDOT District 6 Caledonia'),
+  ('RO605', 'MNDOT District 6 La Cresent'),
+  ('RO606', 'MNDOT District 6 Houston'),
+  ('RO607', 'MN DOT DIST 6 PRESTON SALT SHE'),
+  ('RO609', 'MNDOT District 6 Spring Valley'),
+  ('RO611', 'MN DOT DIST 6 WABASHA SALT SHE'),
+  ('RO614', 'MN DOT DIST 6 WILSON SALT SHED'),
+  ('RO999', 'MNDOT District 6 Sign Shop'),
+  ('SC000', 'MNDOT District 3 St. Cloud'),
+  ('SC471', 'MNDOT DISTRICT 3 ISLE'),
+  ('SC707', 'MNDOT District 3 Paynesville'),
+  ('SC708', 'MNDOT District 3 Cambridge'),
+  ('SC713', 'MNDOT District 3 Mora'),
+  ('SC714', 'MNDOT District 3 Foley'),
+  ('SC715', 'CLEARWATER TRUCK STATION'),
+  ('SC740', 'MNDOT Distric 3 Albany'),
+  ('SC741', 'MNDOT Distric 3 Elk River'),
+  ('SC742', 'MNDOT District 3 Monticello'),
+  ('SC749', 'MNDOT District 3 Milaca'),
+  ('SC753', 'MNDOT District 3 Buffalo'),
+  ('SC772', 'MNDOT District 3 Sauk Centre'),
+  ('SC900', 'MNDOT Dist 3 St. Cloud Maint'),
+  ('SC999', 'MNDOT District 3 Sign Shop'),
+  ('SSC00', 'MDH Support Services Center'),
+  ('T7901', 'Transportation Department'),
+  ('T7902', 'Transportation Restitution'),
+  ('T7903', 'Transportation Misc Interest'),
+  ('T7904', 'Transportation Joint Projects'),
+  ('T79FA', 'Transportation Project Billing'),
+  ('T9B01', 'Metropolitan Council/Transport'),
+  ('VA000', 'MNDOT District 1 Virginia'),
+  ('VA002', 'HIBBING WEST FIELD MECHANIC'),
+  ('VA012', 'MNDOT District 1 Cook'),
+  ('VA022', 'MNDOT District 1 Ely'),
+  ('VA023', 'MNDOT District 1 VA Salt Sand'),
+  ('VA027', 'MNDOT District 1 VA Guardrail'),
+  ('VA033', 'MNDOT District 1 Little Fork'),
+  ('VA040', 'MNDOT District 1 Intl Falls'),
+  ('VA055', 'MNDOT District 1 Hibbing'),
+  ('VA056', 'MNDOT District 1 Deer Lake'),
+  ('VA100', 'MNDOT District 1 Biwabik'),
+  ('VA120', 'MNDOT District 1 Melrude'),
+  ('VA130', 'MNDOT District 1 Tower'),
+  ('VA300', 'MNDOT District 1 Big Falls'),
+  ('VA310', 'MNDOT District 1 Buck Lake'),
+  ('VA320', 'MNDOT District 1 Kinmount'),
+  ('VA500', 'MN DOT DIST 1 TOGO PIT'),
+  ('VA700', 'MNDOT District 1 Angora'),
+  ('VA999', 'MNDOT District 1 Sign Shop'),
+  ('WE000', 'MNDOT METRO DIST ROSEVILLE IN'),
+  ('WI000', 'MNDOT District 7 Windom'),
+  ('WI444', 'MNDOT District 7 Windom Stock'),
+  ('WI555', 'MNDOT District 7 Windom Const'),
+  ('WI609', 'MNDIT District 7 Luverne'),
+  ('WI613', 'MNDOT District 7 Worthington'),
+  ('WI614', 'MNDOT District 7 Windom Yard'),
+  ('WI616', 'MNDOT District 7 Jackson'),
+  ('WI620', 'MNDOT District 7 Fairmont'),
+  ('WI627', 'MNDOT District 7 Sleepy Eye'),
+  ('WI629', 'MNDOT District 7 Adrian'),
+  ('WI632', 'MNDOT District 7 St. James'),
+  ('WI694', 'MNDOT District 7 Sherburn'),
+  ('WI695', 'MNDOT District 7 Madelia'),
+  ('WI697', 'MNDOT District 7 Windom Bridge'),
+  ('WI997', 'MNDOT District 7 Windom Bridge'),
+  ('WI999', 'MNDOT Dist 7 Windom Sign Shop'),
+  ('WL000', 'MNDOT District 8 Willmar'),
+  ('WL023', 'MNDOT District 8 Willmar Road'),
+  ('WL521', 'MNDOT District 8 Madison Fuel'),
+  ('WL523', 'MNDOT District 8 Willmar Fuel'),
+  ('WL703', 'MNDOT District 8 Glencoe SP'),
+  ('WL704', 'MNDOT Dist 8 Montevideo SP'),
+  ('WL705', 'MNDOT District 8 Litchfield SP'),
+  ('WL706', 'MNDOT District 8 Hutchinson SP'),
+  ('WL723', 'MNDOT District 8 Willmar Yard'),
+  ('WL802', 'MNDOT District 8 Pipestone SP'),
+  ('WL807', 'MNDOT District 8 Tracy SP'),
+  ('WL814', 'MNDOT District 8 Ivanhoe SP'),
+  ('WL815', 'MNDOT District 8 Olivia SP'),
+  ('WL821', 'MNDOT District 8 Madison SP'),
+  ('WL823', 'MNDOT District 8 Marshall SP'),
+  ('WL834', 'MNDOT District 8 Slayton SP'),
+  ('WL836', 'MNDOT Dist 8 Redwood Falls SP'),
+  ('WL839', 'MNDOT Dist 8 Granite Falls SP'),
+  ('WL999', 'MNDOT District 8 Willmar Sign')
+ON CONFLICT (code) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION is_reference_data_admin()
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM reference_data_admins
+    WHERE lower(email) = current_user_email()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_reference_data_admin() TO authenticated;
+
+ALTER TABLE reference_agencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reference_business_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reference_data_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read reference agencies"
+  ON reference_agencies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read reference business units"
+  ON reference_business_units
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Reference data admins can read the admin list"
+  ON reference_data_admins
+  FOR SELECT
+  TO authenticated
+  USING (is_reference_data_admin());
+
+-- Rows are { "code", "name", "category" }
+CREATE OR REPLACE FUNCTION import_reference_agencies(p_rows jsonb)
+RETURNS void AS $$
+DECLARE
+  v_duplicate text;
+BEGIN
+  IF NOT is_reference_data_admin() THEN
+    RAISE EXCEPTION 'Only reference data admins can import agencies';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_rows) r
+    WHERE coalesce(trim(r ->> 'code'), '') = '' OR coalesce(trim(r ->> 'name'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every agency needs a code and a name';
+  END IF;
+
+  SELECT upper(trim(r ->> 'code')) INTO v_duplicate
+  FROM jsonb_array_elements(p_rows) r
+  GROUP BY upper(trim(r ->> 'code'))
+  HAVING count(*) > 1
+  LIMIT 1;
+
+  IF v_duplicate IS NOT NULL THEN
+    RAISE EXCEPTION 'Agency code % appears more than once', v_duplicate;
+  END IF;
+
+  INSERT INTO reference_agencies (code, name, category, is_active)
+  SELECT upper(trim(r ->> 'code')), trim(r ->> 'name'), coalesce(nullif(r ->> 'category', ''), 'agency'), true
+  FROM jsonb_array_elements(p_rows) r
+  ON CONFLICT (code) DO UPDATE SET
+    name = EXCLUDED.name,
+    category = EXCLUDED.category,
+    is_active = true,
+    updated_at = now()
+  WHERE reference_agencies.name IS DISTINCT FROM EXCLUDED.name
+    OR reference_agencies.category IS DISTINCT FROM EXCLUDED.category
+    OR NOT reference_agencies.is_active;
+
+  UPDATE reference_agencies
+  SET is_active = false,
+      updated_at = now()
+  WHERE is_active
+    AND code NOT IN (SELECT upper(trim(r ->> 'code')) FROM jsonb_array_elements(p_rows) r);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rows are { "code", "description" }
+CREATE OR REPLACE FUNCTION import_reference_business_units(p_rows jsonb)
+RETURNS void AS $$
+DECLARE
+  v_duplicate text;
+BEGIN
+  IF NOT is_reference_data_admin() THEN
+    RAISE EXCEPTION 'Only reference data admins can import business units';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_rows) r
+    WHERE coalesce(trim(r ->> 'code'), '') = '' OR coalesce(trim(r ->> 'description'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every business unit needs a code and a description';
+  END IF;
+
+  SELECT upper(trim(r ->> 'code')) INTO v_duplicate
+  FROM jsonb_array_elements(p_rows) r
+  GROUP BY upper(trim(r ->> 'code'))
+  HAVING count(*) > 1
+  LIMIT 1;
+
+  IF v_duplicate IS NOT NULL THEN
+    RAISE EXCEPTION 'Business unit code % appears more than once', v_duplicate;
+  END IF;
+
+  INSERT INTO reference_business_units (code, description, is_active)
+  SELECT upper(trim(r ->> 'code')), trim(r ->> 'description'), true
+  FROM jsonb_array_elements(p_rows) r
+  ON CONFLICT (code) DO UPDATE SET
+    description = EXCLUDED.description,
+    is_active = true,
+    updated_at = now()
+  WHERE reference_business_units.description IS DISTINCT FROM EXCLUDED.description
+    OR NOT reference_business_units.is_active;
+
+  UPDATE reference_business_units
+  SET is_active = false,
+      updated_at = now()
+  WHERE is_active
+    AND code NOT IN (SELECT upper(trim(r ->> 'code')) FROM jsonb_array_elements(p_rows) r);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION import_reference_agencies(jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION import_reference_business_units(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_reference_agencies(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION import_reference_business_units(jsonb) TO authenticated;
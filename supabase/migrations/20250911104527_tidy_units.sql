@@ -0,0 +1,138 @@
+/*
+  # Business unit lists stored as arrays
+
+  1. Changes
+    - `security_role_selections`: `other_business_units`,
+      `writeoff_approval_business_units`,
+      `credit_invoice_approval_business_units` and
+      `physical_inventory_business_units` change from free text to `text[]`.
+      Existing values are split on commas, semicolons and whitespace and
+      upper-cased; blank values become NULL
+    - Add `split_business_units(text)`, used for the conversion
+    - `apply_request_to_access` also records non-empty arrays, so business unit
+      lists keep appearing in the access ledger
+    - Ledger entries that hold the old text values are converted the same
+      way, so current access keeps comparing equal. Revision snapshots keep the
+      values they were taken with
+
+  2. Security
+    - No changes
+*/
+
+CREATE OR REPLACE FUNCTION split_business_units(p_text text)
+RETURNS text[] AS $$
+BEGIN
+  RETURN (
+    SELECT array_agg(upper(code) ORDER BY position)
+    FROM regexp_split_to_table(coalesce(p_text, ''), '[\s,;]+') WITH ORDINALITY AS t(code, position)
+    WHERE code <> ''
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE security_role_selections
+  ALTER COLUMN other_business_units TYPE text[] USING split_business_units(other_business_units),
+  ALTER COLUMN writeoff_approval_business_units TYPE text[] USING split_business_units(writeoff_approval_business_units),
+  ALTER COLUMN credit_invoice_approval_business_units TYPE text[] USING split_business_units(credit_invoice_approval_business_units),
+  ALTER COLUMN physical_inventory_business_units TYPE text[] USING split_business_units(physical_inventory_business_units);
+
+CREATE OR REPLACE FUNCTION apply_request_to_access(p_request_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+  v_key text;
+  v_table text;
+  v_row jsonb;
+BEGIN
+  SELECT * INTO v_request
+  FROM security_role_requests
+  WHERE id = p_request_id;
+
+  IF NOT FOUND OR v_request.status <> 'completed' THEN
+    RETURN;
+  END IF;
+
+  v_key := employee_access_key(v_request.employee_id, v_request.email);
+  IF v_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO employee_access (employee_key, employee_id, employee_name, email, agency_code, last_request_id, updated_at)
+  VALUES (v_key, v_request.employee_id, v_request.employee_name, v_request.email, v_request.agency_code, v_request.id, now())
+  ON CONFLICT (employee_key) DO UPDATE SET
+    employee_id = EXCLUDED.employee_id,
+    employee_name = EXCLUDED.employee_name,
+    email = EXCLUDED.email,
+    agency_code = EXCLUDED.agency_code,
+    last_request_id = EXCLUDED.last_request_id,
+    updated_at = now();
+
+  IF v_request.request_type = 'remove' AND v_request.remove_all_access THEN
+    DELETE FROM employee_access_entries
+    WHERE employee_key = v_key;
+    RETURN;
+  END IF;
+
+  -- Roles and settings granted by the request
+  IF v_request.request_type IN ('add', 'change') THEN
+    FOREACH v_table IN ARRAY ARRAY[
+      'security_role_selections',
+      'hr_payroll_role_selections',
+      'epm_dwh_role_selections'
+    ]
+    LOOP
+      EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE request_id = $1', v_table)
+      INTO v_row
+      USING p_request_id;
+
+      IF v_row IS NOT NULL THEN
+        INSERT INTO employee_access_entries (employee_key, role_table, role_column, value, granted_request_id, granted_at)
+        SELECT v_key, v_table, e.key, e.value, p_request_id, now()
+        FROM jsonb_each(v_row) e
+        WHERE e.key NOT IN (
+            'id', 'request_id', 'created_at', 'updated_at',
+            'role_justification', 'elm_role_justification', 'supervisor_approval'
+          )
+          AND (
+            e.value = 'true'::jsonb
+            OR (jsonb_typeof(e.value) = 'string' AND e.value #>> '{}' <> '')
+            OR (jsonb_typeof(e.value) = 'array' AND jsonb_array_length(e.value) > 0)
+          )
+        ON CONFLICT (employee_key, role_table, role_column) DO UPDATE SET
+          value = EXCLUDED.value,
+          granted_request_id = EXCLUDED.granted_request_id,
+          granted_at = EXCLUDED.granted_at;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Roles revoked by the request
+  DELETE FROM employee_access_entries e
+  USING request_role_removals r
+  WHERE r.request_id = p_request_id
+    AND e.employee_key = v_key
+    AND e.role_table = r.role_table
+    AND e.role_column = r.role_column;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_request_to_access(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Existing ledger entries; text that holds no codes is dropped
+DELETE FROM employee_access_entries
+WHERE role_table = 'security_role_selections'
+  AND role_column IN (
+    'other_business_units', 'writeoff_approval_business_units',
+    'credit_invoice_approval_business_units', 'physical_inventory_business_units'
+  )
+  AND jsonb_typeof(value) = 'string'
+  AND split_business_units(value #>> '{}') IS NULL;
+
+UPDATE employee_access_entries
+SET value = to_jsonb(split_business_units(value #>> '{}'))
+WHERE role_table = 'security_role_selections'
+  AND role_column IN (
+    'other_business_units', 'writeoff_approval_business_units',
+    'credit_invoice_approval_business_units', 'physical_inventory_business_units'
+  )
+  AND jsonb_typeof(value) = 'string';
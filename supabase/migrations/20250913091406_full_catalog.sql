@@ -0,0 +1,72 @@
+/*
+  # Store every HR / Payroll component on the form
+
+  1. Changes
+    - `hr_payroll_role_selections`: add a boolean column for each Human
+      Resources component the SWIFT form lists but that had nowhere to be
+      saved (Emergency Contact view and employment data, Health & Safety,
+      Job Data, Labor Relations, Manage Competencies, Personal Data, Physical
+      Exams, Position Data and Position Funding). The role selection page
+      showed these checkboxes, but their selections were dropped on save
+    - The role catalog in the app maps each checkbox to its column; the access
+      ledger and revision snapshots pick up the new columns without changes
+    - Existing revision snapshots of HR / Payroll selections get the new
+      columns as `false`, so the next revision of an existing request is not
+      reported as a role change
+
+  2. Security
+    - No changes; existing policies cover the new columns
+*/
+
+ALTER TABLE hr_payroll_role_selections
+  ADD COLUMN IF NOT EXISTS emergency_contact_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS employment_data_update_general boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS health_safety_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS job_data_correct boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS job_data_update boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS job_data_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS labor_relations_update boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS labor_relations_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS manage_competencies_update boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS manage_competencies_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS personal_data_correct boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS personal_data_update boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS personal_data_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS physical_exams_update boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS physical_exams_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS position_data_correct boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS position_data_update boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS position_data_view boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS position_funding_correct boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS position_funding_update boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS position_funding_view boolean DEFAULT false;
+
+UPDATE request_revisions
+SET snapshot = jsonb_set(
+  snapshot,
+  '{role_selections,hr_payroll_role_selections}',
+  (snapshot #> '{role_selections,hr_payroll_role_selections}') || jsonb_build_object(
+    'emergency_contact_view', false,
+    'employment_data_update_general', false,
+    'health_safety_view', false,
+    'job_data_correct', false,
+    'job_data_update', false,
+    'job_data_view', false,
+    'labor_relations_update', false,
+    'labor_relations_view', false,
+    'manage_competencies_update', false,
+    'manage_competencies_view', false,
+    'personal_data_correct', false,
+    'personal_data_update', false,
+    'personal_data_view', false,
+    'physical_exams_update', false,
+    'physical_exams_view', false,
+    'position_data_correct', false,
+    'position_data_update', false,
+    'position_data_view', false,
+    'position_funding_correct', false,
+    'position_funding_update', false,
+    'position_funding_view', false
+  )
+)
+WHERE jsonb_typeof(snapshot #> '{role_selections,hr_payroll_role_selections}') = 'object';
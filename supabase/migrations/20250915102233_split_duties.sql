@@ -0,0 +1,233 @@
+/*
+  # Segregation of duties rules
+
+  1. New Tables
+    - `sod_rules`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - shown to requesters and approvers
+      - `description` (text) - why the duties conflict
+      - `duties` (jsonb) - two or more duties, each `{ "label", "roles" }` where
+        `roles` lists `table.column` keys of the roles and settings that perform
+        the duty. A request conflicts with the rule when it holds at least one
+        role of every duty
+      - `enforcement` (text) - `block` rejects the request; `justify` lets it
+        through with a mitigating control justification
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `request_sod_justifications`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references security_role_requests)
+      - `rule_id` (uuid, references sod_rules)
+      - `justification` (text) - the mitigating control for a `justify` conflict
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - Seed rules for voucher entry and voucher approval, billing creation and
+      billing supervision, and journal entry and GL agency approval. All three
+      require a justification
+    - Add `request_role_keys(request_id)`, the `table.column` keys of the roles
+      and settings a request holds, counted the same way as the access ledger
+    - Add `request_sod_conflicts(request_id)`, the active rules a request
+      conflicts with and their justifications
+    - A request's content is checked before each revision is stored, so
+      submitting or resubmitting a request with a blocked conflict, or with a
+      conflict that has no justification, fails
+    - Justifications are recorded in the request audit log
+
+  3. Security
+    - RLS enabled on both tables. Signed-in users can read the rules; reference
+      data admins maintain them
+    - Justifications are readable with the request and writable by its submitter
+*/
+
+CREATE TABLE IF NOT EXISTS sod_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  duties jsonb NOT NULL CHECK (jsonb_typeof(duties) = 'array' AND jsonb_array_length(duties) >= 2),
+  enforcement text NOT NULL DEFAULT 'justify' CHECK (enforcement IN ('block', 'justify')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS request_sod_justifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES security_role_requests(id) ON DELETE CASCADE,
+  rule_id uuid NOT NULL REFERENCES sod_rules(id) ON DELETE CASCADE,
+  justification text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (request_id, rule_id)
+);
+
+INSERT INTO sod_rules (name, description, duties) VALUES
+  (
+    'Voucher entry and approval',
+    'The person who enters a voucher should not also approve it for payment.',
+    '[
+      { "label": "Enter vouchers", "roles": ["security_role_selections.voucher_entry"] },
+      { "label": "Approve vouchers", "roles": [
+        "security_role_selections.voucher_approver_1",
+        "security_role_selections.voucher_approver_2",
+        "security_role_selections.voucher_approver_3"
+      ] }
+    ]'::jsonb
+  ),
+  (
+    'Billing creation and supervision',
+    'The person who creates bills should not also supervise and finalize them.',
+    '[
+      { "label": "Create bills", "roles": ["security_role_selections.billing_create"] },
+      { "label": "Supervise billing", "roles": ["security_role_selections.billing_supervisor"] }
+    ]'::jsonb
+  ),
+  (
+    'Journal entry and approval',
+    'The person who enters general ledger journals should not also approve them.',
+    '[
+      { "label": "Enter journals", "roles": ["security_role_selections.journal_entry_online"] },
+      { "label": "Approve journals", "roles": ["security_role_selections.gl_agency_approver"] }
+    ]'::jsonb
+  )
+ON CONFLICT (name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION request_role_keys(p_request_id uuid)
+RETURNS text[] AS $$
+DECLARE
+  v_keys text[] := '{}';
+  v_table text;
+  v_row jsonb;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'security_role_selections',
+    'hr_payroll_role_selections',
+    'epm_dwh_role_selections'
+  ]
+  LOOP
+    EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE request_id = $1', v_table)
+    INTO v_row
+    USING p_request_id;
+
+    IF v_row IS NOT NULL THEN
+      v_keys := v_keys || coalesce((
+        SELECT array_agg(v_table || '.' || e.key)
+        FROM jsonb_each(v_row) e
+        WHERE e.value = 'true'::jsonb
+          OR (jsonb_typeof(e.value) = 'string' AND e.value #>> '{}' <> '')
+          OR (jsonb_typeof(e.value) = 'array' AND jsonb_array_length(e.value) > 0)
+      ), '{}');
+    END IF;
+  END LOOP;
+
+  RETURN v_keys;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_sod_conflicts(p_request_id uuid)
+RETURNS TABLE (rule_id uuid, rule_name text, enforcement text, justification text) AS $$
+DECLARE
+  v_keys text[] := request_role_keys(p_request_id);
+BEGIN
+  RETURN QUERY
+  SELECT r.id, r.name, r.enforcement, j.justification
+  FROM sod_rules r
+  LEFT JOIN request_sod_justifications j
+    ON j.rule_id = r.id AND j.request_id = p_request_id
+  WHERE r.is_active
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(r.duties) d
+      WHERE NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(d -> 'roles') k
+        WHERE k = ANY(v_keys)
+      )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_role_keys(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_sod_conflicts(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_sod_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_conflict record;
+BEGIN
+  FOR v_conflict IN SELECT * FROM request_sod_conflicts(NEW.request_id) LOOP
+    IF v_conflict.enforcement = 'block' THEN
+      RAISE EXCEPTION 'The roles in segregation of duties rule "%" cannot be requested together', v_conflict.rule_name
+        USING ERRCODE = 'check_violation';
+    ELSIF coalesce(btrim(v_conflict.justification), '') = '' THEN
+      RAISE EXCEPTION 'Segregation of duties rule "%" needs a mitigating control justification', v_conflict.rule_name
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_sod_rules ON request_revisions;
+CREATE TRIGGER enforce_sod_rules
+  BEFORE INSERT ON request_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_sod_rules();
+
+ALTER TABLE sod_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE request_sod_justifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read segregation of duties rules"
+  ON sod_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Reference data admins can insert segregation of duties rules"
+  ON sod_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_reference_data_admin());
+
+CREATE POLICY "Reference data admins can update segregation of duties rules"
+  ON sod_rules
+  FOR UPDATE
+  TO authenticated
+  USING (is_reference_data_admin())
+  WITH CHECK (is_reference_data_admin());
+
+CREATE POLICY "Reference data admins can delete segregation of duties rules"
+  ON sod_rules
+  FOR DELETE
+  TO authenticated
+  USING (is_reference_data_admin());
+
+CREATE POLICY "Users can read request sod justifications for visible requests"
+  ON request_sod_justifications
+  FOR SELECT
+  TO authenticated
+  USING (can_view_request(request_id));
+
+CREATE POLICY "Submitters can insert request sod justifications"
+  ON request_sod_justifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_request_submitter(request_id));
+
+CREATE POLICY "Submitters can update request sod justifications"
+  ON request_sod_justifications
+  FOR UPDATE
+  TO authenticated
+  USING (is_request_submitter(request_id))
+  WITH CHECK (is_request_submitter(request_id));
+
+CREATE POLICY "Submitters can delete request sod justifications"
+  ON request_sod_justifications
+  FOR DELETE
+  TO authenticated
+  USING (is_request_submitter(request_id));
+
+DROP TRIGGER IF EXISTS audit_request_change ON request_sod_justifications;
+CREATE TRIGGER audit_request_change
+  AFTER INSERT OR UPDATE OR DELETE ON request_sod_justifications
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_request_change();
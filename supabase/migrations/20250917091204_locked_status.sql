@@ -0,0 +1,208 @@
+/*
+  # Keep request status and approval steps out of submitters' hands
+
+  1. Changes
+    - Submitters can only create approval steps that are pending and unsigned,
+      and can no longer delete approval steps. Steps are removed with their
+      request or area
+    - Add the `guard_request_workflow` trigger on `security_role_requests`.
+      Requests are inserted as `pending` and unsigned by completion, and
+      signed-in users cannot change `status`, `completed_by`, `completed_at` or
+      `current_revision` directly. Status changes go through the signing and
+      revision functions, which run as their owner; completion is still made
+      by a direct update until it has its own function
+    - `record_request_revision` puts a returned request back to `pending`, so
+      resubmitting no longer needs a status update from the client
+
+  2. Security
+    - Replaces the "Submitters can create approvals for their requests" policy
+    - Drops the "Submitters can delete approvals for their requests" policy
+*/
+
+DROP POLICY IF EXISTS "Submitters can create approvals for their requests" ON request_approvals;
+DROP POLICY IF EXISTS "Submitters can delete approvals for their requests" ON request_approvals;
+
+CREATE POLICY "Submitters can create approvals for their requests"
+  ON request_approvals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_request_submitter(request_id)
+    AND status = 'pending'
+    AND signature_data IS NULL
+    AND approved_at IS NULL
+    AND rejected_at IS NULL
+    AND signed_by_email IS NULL
+    AND signed_by_user_id IS NULL
+    AND signature_method IS NULL
+  );
+
+CREATE OR REPLACE FUNCTION guard_request_workflow()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Functions that move a request along run as their owner; only writes made
+  -- directly by signed-in users are checked
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'pending'
+      OR NEW.completed_by IS NOT NULL
+      OR NEW.completed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'New requests must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    NEW.current_revision := 1;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.current_revision IS DISTINCT FROM OLD.current_revision
+    OR (
+      NEW.status IS DISTINCT FROM OLD.status
+      AND NEW.status IS DISTINCT FROM 'completed'
+    )
+    OR (
+      NEW.status IS NOT DISTINCT FROM OLD.status
+      AND (
+        NEW.completed_by IS DISTINCT FROM OLD.completed_by
+        OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+      )
+    ) THEN
+    RAISE EXCEPTION 'The status of a request changes only through the approval process'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_request_workflow ON security_role_requests;
+CREATE TRIGGER guard_request_workflow
+  BEFORE INSERT OR UPDATE ON security_role_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_request_workflow();
+
+CREATE OR REPLACE FUNCTION record_request_revision(p_request_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_contact_columns text[] := ARRAY[
+    'work_location', 'work_phone', 'email',
+    'submitter_name', 'submitter_email',
+    'supervisor_name', 'supervisor_email',
+    'security_admin_name', 'security_admin_email'
+  ];
+  v_snapshot jsonb;
+  v_previous request_revisions%ROWTYPE;
+  v_revision integer;
+  v_sections text[] := '{}';
+  v_reset_steps text[];
+  v_reset_ids uuid[];
+BEGIN
+  IF NOT is_request_submitter(p_request_id) THEN
+    RAISE EXCEPTION 'Only the submitter can revise this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_snapshot := request_snapshot(p_request_id);
+
+  SELECT * INTO v_previous
+  FROM request_revisions
+  WHERE request_id = p_request_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  v_revision := coalesce(v_previous.revision_number, 0);
+
+  IF v_previous.id IS NULL OR v_previous.snapshot IS DISTINCT FROM v_snapshot THEN
+    IF v_previous.id IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_snapshot -> 'request') n
+        WHERE n.key = ANY(v_contact_columns)
+          AND n.value IS DISTINCT FROM v_previous.snapshot -> 'request' -> n.key
+      ) THEN
+        v_sections := v_sections || 'contact';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_snapshot -> 'request') n
+        WHERE NOT n.key = ANY(v_contact_columns)
+          AND n.value IS DISTINCT FROM v_previous.snapshot -> 'request' -> n.key
+      ) THEN
+        v_sections := v_sections || 'details';
+      END IF;
+
+      IF v_snapshot -> 'security_areas' IS DISTINCT FROM v_previous.snapshot -> 'security_areas' THEN
+        v_sections := v_sections || 'areas';
+      END IF;
+
+      IF v_snapshot -> 'role_selections' IS DISTINCT FROM v_previous.snapshot -> 'role_selections'
+        OR v_snapshot -> 'copy_user_details' IS DISTINCT FROM v_previous.snapshot -> 'copy_user_details'
+        OR v_snapshot -> 'role_removals' IS DISTINCT FROM v_previous.snapshot -> 'role_removals' THEN
+        v_sections := v_sections || 'roles';
+      END IF;
+    END IF;
+
+    v_revision := v_revision + 1;
+
+    INSERT INTO request_revisions (request_id, revision_number, snapshot, changed_sections)
+    VALUES (p_request_id, v_revision, v_snapshot, v_sections);
+
+    UPDATE security_role_requests
+    SET current_revision = v_revision
+    WHERE id = p_request_id;
+  END IF;
+
+  -- Resubmitting a returned request puts it back in the approval chain. This
+  -- comes before the reset so the returned steps can go back to pending.
+  UPDATE security_role_requests
+  SET status = 'pending'
+  WHERE id = p_request_id
+    AND status = 'returned';
+
+  -- Steps whose approver attested to a section that changed
+  IF 'details' = ANY(v_sections) THEN
+    SELECT array_agg(DISTINCT step) INTO v_reset_steps
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step <> 'user_signature';
+  ELSIF v_sections && ARRAY['areas', 'roles'] THEN
+    SELECT array_agg(DISTINCT step) INTO v_reset_steps
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step NOT IN ('user_signature', 'supervisor_approval');
+  END IF;
+
+  WITH reset AS (
+    UPDATE request_approvals
+    SET status = 'pending',
+        signature_data = CASE WHEN status = 'approved' THEN NULL ELSE signature_data END,
+        approved_at = CASE WHEN status = 'approved' THEN NULL ELSE approved_at END,
+        rejected_at = NULL,
+        signed_by_email = NULL,
+        signed_by_user_id = NULL,
+        signature_method = NULL
+    WHERE request_id = p_request_id
+      AND (
+        status IN ('denied', 'returned', 'cancelled')
+        OR (status = 'approved' AND step = ANY(coalesce(v_reset_steps, '{}')))
+      )
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_reset_ids FROM reset;
+
+  -- Links issued before the edit should not sign the new revision
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = ANY(coalesce(v_reset_ids, '{}'))
+    AND used_at IS NULL;
+
+  PERFORM enqueue_approver_notifications(p_request_id);
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_request_revision(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_request_revision(uuid) TO authenticated;
@@ -0,0 +1,126 @@
+/*
+  # Complete requests through a checked function
+
+  1. Changes
+    - Add `complete_request(request_id, completed_by)`. Only the security
+      administrator who signed the request's last step can call it, and only
+      once every approval step of the request is approved. It marks the
+      request `completed`, which applies it to the access ledger
+    - `apply_completed_request_to_access` refuses any change to `completed`
+      that does not come from `complete_request`
+    - `guard_request_workflow` no longer lets signed-in users set `status`,
+      `completed_by` or `completed_at` directly, including for completion
+
+  2. Security
+    - `complete_request` is callable by signed-in users and checks the caller
+      itself
+*/
+
+CREATE OR REPLACE FUNCTION complete_request(p_request_id uuid, p_completed_by text)
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM security_role_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step = 'security_admin_approval'
+      AND lower(approver_email) = current_user_email()
+  ) THEN
+    RAISE EXCEPTION 'Only the security administrator of this request can complete it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_request.status IN ('completed', 'denied', 'returned') THEN
+    RAISE EXCEPTION 'This request has been % and cannot be completed', v_request.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM request_approvals
+    WHERE request_id = p_request_id
+      AND status <> 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Every approval step must be approved before the request is completed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF coalesce(btrim(p_completed_by), '') = '' THEN
+    RAISE EXCEPTION 'Enter the name of the person completing the request'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lets apply_completed_request_to_access tell this update from any other
+  PERFORM set_config('app.completing_request', p_request_id::text, true);
+
+  UPDATE security_role_requests
+  SET status = 'completed',
+      completed_by = btrim(p_completed_by),
+      completed_at = now()
+  WHERE id = p_request_id;
+
+  PERFORM set_config('app.completing_request', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION complete_request(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_request(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION apply_completed_request_to_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    IF current_setting('app.completing_request', true) IS DISTINCT FROM NEW.id::text THEN
+      RAISE EXCEPTION 'Requests can only be completed by their security administrator once every step is approved'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM apply_request_to_access(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION guard_request_workflow()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Functions that move a request along run as their owner; only writes made
+  -- directly by signed-in users are checked
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'pending'
+      OR NEW.completed_by IS NOT NULL
+      OR NEW.completed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'New requests must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    NEW.current_revision := 1;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.completed_by IS DISTINCT FROM OLD.completed_by
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.current_revision IS DISTINCT FROM OLD.current_revision THEN
+    RAISE EXCEPTION 'The status of a request changes only through the approval process'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,213 @@
+/*
+  # Review links only for the approver, signed by a known user
+
+  1. Changes
+    - `issue_approval_signing_token` can only be called by the service role,
+      which the `send-notifications` edge function uses to email a step's
+      approver. It no longer checks the caller's access to the request
+    - Tokens issued by signed-in users before this change are invalidated
+    - `verify_approval_signer` requires a signed-in user for review links as
+      well; the token only shows the link came from the approver's email
+    - `sign_request_approval` and `reject_request_approval` record the
+      signed-in user who acted on the step in `signed_by_email` and
+      `signed_by_user_id`, rather than the step's approver address
+
+  2. Security
+    - `issue_approval_signing_token` is revoked from signed-in users and
+      granted to `service_role`
+    - `get_approval_for_signing`, `sign_request_approval` and
+      `reject_request_approval` are revoked from `anon`
+*/
+
+CREATE OR REPLACE FUNCTION issue_approval_signing_token(
+  p_approval_id uuid,
+  p_expires_in interval DEFAULT interval '7 days'
+)
+RETURNS text AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+  v_token text;
+BEGIN
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval % not found', p_approval_id;
+  END IF;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO approval_signing_tokens (approval_id, token_hash, expires_at)
+  VALUES (p_approval_id, encode(digest(v_token, 'sha256'), 'hex'), now() + p_expires_in);
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION issue_approval_signing_token(uuid, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_approval_signing_token(uuid, interval) TO service_role;
+
+-- Links copied by submitters were issued by a signed-in user; the edge function
+-- issues its tokens without one
+UPDATE approval_signing_tokens
+SET used_at = now()
+WHERE created_by IS NOT NULL
+  AND used_at IS NULL;
+
+-- Work out how the caller is allowed to act on an approval step.
+-- Returns 'token' or 'authenticated', or raises if neither check passes.
+CREATE OR REPLACE FUNCTION verify_approval_signer(p_approval_id uuid, p_token text)
+RETURNS text AS $$
+DECLARE
+  v_approver_email text;
+BEGIN
+  SELECT approver_email INTO v_approver_email
+  FROM request_approvals
+  WHERE id = p_approval_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval % not found', p_approval_id;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to act on this approval step'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF coalesce(p_token, '') <> '' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM approval_signing_tokens
+      WHERE approval_id = p_approval_id
+        AND token_hash = encode(digest(p_token, 'sha256'), 'hex')
+        AND used_at IS NULL
+        AND expires_at > now()
+    ) THEN
+      RAISE EXCEPTION 'This signing link is invalid, has expired or has already been used'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN 'token';
+  END IF;
+
+  IF lower(v_approver_email) <> current_user_email() THEN
+    RAISE EXCEPTION 'Only the assigned approver can act on this step'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN 'authenticated';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Approve a step after verifying the signer
+CREATE OR REPLACE FUNCTION sign_request_approval(
+  p_approval_id uuid,
+  p_signature_data text,
+  p_comments text DEFAULT NULL,
+  p_token text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_method text;
+  v_approval request_approvals%ROWTYPE;
+BEGIN
+  v_method := verify_approval_signer(p_approval_id, p_token);
+
+  IF coalesce(p_signature_data, '') = '' THEN
+    RAISE EXCEPTION 'A signature is required';
+  END IF;
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id
+  FOR UPDATE;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  UPDATE request_approvals
+  SET status = 'approved',
+      signature_data = p_signature_data,
+      approved_at = now(),
+      comments = nullif(trim(p_comments), ''),
+      signed_by_email = current_user_email(),
+      signed_by_user_id = auth.uid(),
+      signature_method = v_method
+  WHERE id = p_approval_id;
+
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = p_approval_id
+    AND used_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deny or return a request from a single approval step
+CREATE OR REPLACE FUNCTION reject_request_approval(
+  p_approval_id uuid,
+  p_action text,
+  p_reason text,
+  p_token text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+  v_method text;
+BEGIN
+  IF p_action NOT IN ('denied', 'returned') THEN
+    RAISE EXCEPTION 'Unsupported approval action: %', p_action;
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to deny or return a request';
+  END IF;
+
+  v_method := verify_approval_signer(p_approval_id, p_token);
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id
+  FOR UPDATE;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  UPDATE request_approvals
+  SET status = p_action,
+      comments = trim(p_reason),
+      rejected_at = now(),
+      signed_by_email = current_user_email(),
+      signed_by_user_id = auth.uid(),
+      signature_method = v_method
+  WHERE id = p_approval_id;
+
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = p_approval_id
+    AND used_at IS NULL;
+
+  -- Stop the remaining approval chain
+  UPDATE request_approvals
+  SET status = 'cancelled'
+  WHERE request_id = v_approval.request_id
+    AND id <> p_approval_id
+    AND status = 'pending';
+
+  UPDATE security_role_requests
+  SET status = p_action
+  WHERE id = v_approval.request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_approval_for_signing(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION sign_request_approval(uuid, text, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reject_request_approval(uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_approval_for_signing(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION sign_request_approval(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_request_approval(uuid, text, text, text) TO authenticated;
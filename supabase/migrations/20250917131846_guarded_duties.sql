@@ -0,0 +1,119 @@
+/*
+  # Check segregation of duties where requests are approved and completed
+
+  1. Changes
+    - Add `check_request_sod_rules(request_id)`, which raises when a request
+      holds a blocked conflict or a conflict without a justification
+    - `enforce_sod_rules` on `request_revisions` uses it, as before
+    - Add the `enforce_sod_rules_on_approval` trigger on `request_approvals`:
+      no step can be approved while the request's conflicts are unresolved,
+      whether or not a revision was recorded after the roles were saved
+    - `complete_request` checks the rules again before the request is applied
+      to the access ledger
+
+  2. Security
+    - `check_request_sod_rules` is not callable by clients
+*/
+
+CREATE OR REPLACE FUNCTION check_request_sod_rules(p_request_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_conflict record;
+BEGIN
+  FOR v_conflict IN SELECT * FROM request_sod_conflicts(p_request_id) LOOP
+    IF v_conflict.enforcement = 'block' THEN
+      RAISE EXCEPTION 'The roles in segregation of duties rule "%" cannot be requested together', v_conflict.rule_name
+        USING ERRCODE = 'check_violation';
+    ELSIF coalesce(btrim(v_conflict.justification), '') = '' THEN
+      RAISE EXCEPTION 'Segregation of duties rule "%" needs a mitigating control justification', v_conflict.rule_name
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION check_request_sod_rules(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_sod_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM check_request_sod_rules(NEW.request_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION enforce_sod_rules_on_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    PERFORM check_request_sod_rules(NEW.request_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_sod_rules_on_approval ON request_approvals;
+CREATE TRIGGER enforce_sod_rules_on_approval
+  BEFORE UPDATE ON request_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_sod_rules_on_approval();
+
+CREATE OR REPLACE FUNCTION complete_request(p_request_id uuid, p_completed_by text)
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM security_role_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step = 'security_admin_approval'
+      AND lower(approver_email) = current_user_email()
+  ) THEN
+    RAISE EXCEPTION 'Only the security administrator of this request can complete it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_request.status IN ('completed', 'denied', 'returned') THEN
+    RAISE EXCEPTION 'This request has been % and cannot be completed', v_request.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM request_approvals
+    WHERE request_id = p_request_id
+      AND status <> 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Every approval step must be approved before the request is completed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM check_request_sod_rules(p_request_id);
+
+  IF coalesce(btrim(p_completed_by), '') = '' THEN
+    RAISE EXCEPTION 'Enter the name of the person completing the request'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lets apply_completed_request_to_access tell this update from any other
+  PERFORM set_config('app.completing_request', p_request_id::text, true);
+
+  UPDATE security_role_requests
+  SET status = 'completed',
+      completed_by = btrim(p_completed_by),
+      completed_at = now()
+  WHERE id = p_request_id;
+
+  PERFORM set_config('app.completing_request', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,166 @@
+/*
+  # Approval steps for generated removal requests
+
+  1. Changes
+    - Add `create_removal_approvals(request_id)`, which creates the supervisor
+      and security administrator steps of a removal request, the two steps the
+      removal chain keeps
+    - `process_non_employee_access_ends` creates those steps for each removal
+      request it generates, so the request is routed to its approvers and the
+      security administrator can complete it once both have signed
+    - Generated removal requests that are still pending without any approval
+      steps get them now
+
+  2. Security
+    - `create_removal_approvals` is not callable by clients
+*/
+
+CREATE OR REPLACE FUNCTION create_removal_approvals(p_request_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM security_role_requests
+  WHERE id = p_request_id;
+
+  IF coalesce(v_request.supervisor_email, '') <> '' THEN
+    INSERT INTO request_approvals (request_id, step, approver_email)
+    VALUES (p_request_id, 'supervisor_approval', v_request.supervisor_email)
+    ON CONFLICT (request_id, step) DO NOTHING;
+  END IF;
+
+  IF coalesce(v_request.security_admin_email, '') <> '' THEN
+    INSERT INTO request_approvals (request_id, step, approver_email)
+    VALUES (p_request_id, 'security_admin_approval', v_request.security_admin_email)
+    ON CONFLICT (request_id, step) DO NOTHING;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_removal_approvals(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION process_non_employee_access_ends()
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+  v_removal_id uuid;
+BEGIN
+  -- Warn before access ends
+  FOR v_request IN
+    SELECT * FROM security_role_requests
+    WHERE is_non_employee
+      AND request_type = 'add'
+      AND status = 'completed'
+      AND access_end_date IS NOT NULL
+      AND access_end_date >= current_date
+      AND access_end_date <= current_date + 14
+      AND access_end_warned_at IS NULL
+  LOOP
+    IF coalesce(v_request.security_admin_email, '') <> '' THEN
+      INSERT INTO notification_outbox (request_id, event, recipient_email)
+      VALUES (v_request.id, 'access_end_approaching', v_request.security_admin_email);
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_warned_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+
+  -- Generate a removal request once the end date has passed
+  FOR v_request IN
+    SELECT * FROM security_role_requests
+    WHERE is_non_employee
+      AND request_type = 'add'
+      AND status = 'completed'
+      AND access_end_date IS NOT NULL
+      AND access_end_date < current_date
+      AND access_end_processed_at IS NULL
+  LOOP
+    SELECT id INTO v_removal_id
+    FROM security_role_requests
+    WHERE source_request_id = v_request.id
+      AND request_type = 'remove'
+    LIMIT 1;
+
+    IF v_removal_id IS NULL THEN
+      INSERT INTO security_role_requests (
+        request_type,
+        source_request_id,
+        remove_all_access,
+        start_date,
+        employee_name,
+        employee_id,
+        is_non_employee,
+        non_employee_type,
+        access_end_date,
+        security_measures,
+        work_location,
+        work_phone,
+        email,
+        agency_name,
+        agency_code,
+        justification,
+        submitter_name,
+        submitter_email,
+        supervisor_name,
+        supervisor_email,
+        security_admin_name,
+        security_admin_email,
+        submitted_by,
+        status
+      )
+      VALUES (
+        'remove',
+        v_request.id,
+        true,
+        current_date,
+        v_request.employee_name,
+        v_request.employee_id,
+        true,
+        v_request.non_employee_type,
+        v_request.access_end_date,
+        v_request.security_measures,
+        v_request.work_location,
+        v_request.work_phone,
+        v_request.email,
+        v_request.agency_name,
+        v_request.agency_code,
+        format('Non-employee access ended on %s. Generated automatically to remove all access.', to_char(v_request.access_end_date, 'MM/DD/YYYY')),
+        'Automated access review',
+        v_request.security_admin_email,
+        v_request.supervisor_name,
+        v_request.supervisor_email,
+        v_request.security_admin_name,
+        v_request.security_admin_email,
+        NULL,
+        'pending'
+      )
+      RETURNING id INTO v_removal_id;
+
+      PERFORM create_removal_approvals(v_removal_id);
+
+      IF coalesce(v_request.security_admin_email, '') <> '' THEN
+        INSERT INTO notification_outbox (request_id, event, recipient_email)
+        VALUES (v_removal_id, 'access_end_passed', v_request.security_admin_email);
+      END IF;
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_processed_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION process_non_employee_access_ends() FROM PUBLIC, anon, authenticated;
+
+-- Removals generated before their steps were created
+SELECT create_removal_approvals(r.id)
+FROM security_role_requests r
+WHERE r.request_type = 'remove'
+  AND r.source_request_id IS NOT NULL
+  AND r.status = 'pending'
+  AND NOT EXISTS (
+    SELECT 1 FROM request_approvals a WHERE a.request_id = r.id
+  );
@@ -0,0 +1,100 @@
+/*
+  # Scheduled delivery of the notification outbox
+
+  1. Changes
+    - `notification_outbox` gets a `sending` status and `claimed_at`. Rows are
+      claimed before they are delivered, so overlapping runs of the
+      `send-notifications` edge function never send the same email twice
+    - Add `claim_notification_outbox(limit)`, which moves up to `limit` pending
+      rows to `sending` with `FOR UPDATE SKIP LOCKED` and counts the attempt.
+      Rows left in `sending` for 15 minutes by a run that died are claimed again
+    - Add `invoke_send_notifications()`, which calls the edge function with
+      pg_net when emails are waiting. The project URL and service role key are
+      read from the Vault secrets `project_url` and `service_role_key`; without
+      them nothing is sent and a warning is logged
+    - Schedule `invoke_send_notifications()` every minute with pg_cron
+
+  2. Security
+    - `claim_notification_outbox` is only callable by the service role
+    - `invoke_send_notifications` is not callable by clients
+*/
+
+ALTER TABLE notification_outbox
+ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+ALTER TABLE notification_outbox DROP CONSTRAINT IF EXISTS notification_outbox_status_check;
+ALTER TABLE notification_outbox
+ADD CONSTRAINT notification_outbox_status_check
+CHECK (status IN ('pending', 'sending', 'sent', 'failed'));
+
+CREATE OR REPLACE FUNCTION claim_notification_outbox(p_limit integer DEFAULT 25)
+RETURNS SETOF notification_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_outbox o
+  SET status = 'sending',
+      claimed_at = now(),
+      attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT id FROM notification_outbox
+    WHERE status = 'pending'
+      OR (status = 'sending' AND claimed_at < now() - interval '15 minutes')
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_notification_outbox(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notification_outbox(integer) TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION invoke_send_notifications()
+RETURNS void AS $$
+DECLARE
+  v_project_url text;
+  v_service_role_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM notification_outbox WHERE status IN ('pending', 'sending')) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO v_service_role_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF coalesce(v_project_url, '') = '' OR coalesce(v_service_role_key, '') = '' THEN
+    RAISE WARNING 'Notifications are queued but the project_url or service_role_key Vault secret is missing';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(v_project_url, '/') || '/functions/v1/send-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION invoke_send_notifications() FROM PUBLIC, anon, authenticated;
+
+-- Deliver queued emails every minute
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'send-notifications';
+
+SELECT cron.schedule(
+  'send-notifications',
+  '* * * * *',
+  $$SELECT invoke_send_notifications()$$
+);
@@ -0,0 +1,85 @@
+/*
+  # Maintain the agency approver directory and re-route placeholder HR approvers
+
+  1. Changes
+    - Reference data admins can add, change and remove `agency_approvers` rows
+      from the Reference Data page. Directory agency codes must be an agency
+      on the reference list
+    - Add `reroute_placeholder_hr_approvers(agency_code)`. Pending HR / Payroll
+      areas still routed to one of the retired `hr_*_access@state.mn.us`
+      placeholder addresses are moved to the agency's HR director from the
+      directory. The area update runs `sync_area_approvals`, which moves the
+      pending approval step, invalidates links sent to the placeholder and
+      emails the director
+    - Adding or changing an agency's HR director re-routes that agency's
+      placeholder areas; existing areas are re-routed now for agencies already
+      in the directory
+
+  2. Security
+    - INSERT, UPDATE and DELETE policies on `agency_approvers` for reference
+      data admins only; reading is unchanged
+    - `reroute_placeholder_hr_approvers` is not callable by clients
+*/
+
+CREATE POLICY "Reference data admins can add agency approvers"
+  ON agency_approvers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_reference_data_admin());
+
+CREATE POLICY "Reference data admins can update agency approvers"
+  ON agency_approvers
+  FOR UPDATE
+  TO authenticated
+  USING (is_reference_data_admin())
+  WITH CHECK (is_reference_data_admin());
+
+CREATE POLICY "Reference data admins can delete agency approvers"
+  ON agency_approvers
+  FOR DELETE
+  TO authenticated
+  USING (is_reference_data_admin());
+
+-- Normalized codes only; the request form looks approvers up by agency code
+ALTER TABLE agency_approvers
+ADD CONSTRAINT agency_approvers_agency_code_fkey
+FOREIGN KEY (agency_code) REFERENCES reference_agencies (code);
+
+ALTER TABLE agency_approvers
+ADD CONSTRAINT agency_approvers_approver_email_check
+CHECK (approver_email ~* '^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$');
+
+CREATE OR REPLACE FUNCTION reroute_placeholder_hr_approvers(p_agency_code text DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  UPDATE security_areas s
+  SET director_email = d.approver_email
+  FROM security_role_requests r, agency_approvers d
+  WHERE s.request_id = r.id
+    AND s.area_type = 'hr_payroll'
+    AND s.director_email LIKE 'hr\_%\_access@state.mn.us'
+    AND r.status = 'pending'
+    AND d.agency_code = r.agency_code
+    AND d.role = 'hr_director'
+    AND (p_agency_code IS NULL OR r.agency_code = p_agency_code);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reroute_placeholder_hr_approvers(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reroute_hr_approvers_on_directory_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM reroute_placeholder_hr_approvers(NEW.agency_code);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reroute_hr_approvers_on_directory_change ON agency_approvers;
+CREATE TRIGGER reroute_hr_approvers_on_directory_change
+  AFTER INSERT OR UPDATE ON agency_approvers
+  FOR EACH ROW
+  WHEN (NEW.role = 'hr_director')
+  EXECUTE FUNCTION reroute_hr_approvers_on_directory_change();
+
+SELECT reroute_placeholder_hr_approvers();
@@ -0,0 +1,105 @@
+/*
+  # Reset approvals when a request's roles or areas change
+
+  1. Changes
+    - Add `reset_approvals_on_access_change()`, run after every change to a
+      request's role selections, security areas or role removals. When a
+      signed-in user changes them on a pending or returned request, the
+      director and security administrator steps that were already approved go
+      back to pending, their signing links are invalidated and the approvers
+      are emailed again. This matches what `record_request_revision` does for
+      the `areas` and `roles` sections, without depending on the client
+      calling it after the role pages save
+    - Updates that leave a row unchanged, such as re-saving a role page, reset
+      nothing. Changes made by definer functions (approver routing, generated
+      removal requests) and cascaded deletes are not client edits and reset
+      nothing
+
+  2. Security
+    - The trigger function runs as definer so it can reset approval steps the
+      submitter cannot update
+*/
+
+CREATE OR REPLACE FUNCTION reset_approvals_on_access_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_request_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.request_id ELSE NEW.request_id END;
+  v_reset_ids uuid[];
+BEGIN
+  -- Only edits made through the API; current_user is the definer's inside functions
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND to_jsonb(NEW) - 'updated_at' = to_jsonb(OLD) - 'updated_at' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM security_role_requests
+    WHERE id = v_request_id
+      AND status IN ('pending', 'returned')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  WITH reset AS (
+    UPDATE request_approvals
+    SET status = 'pending',
+        signature_data = NULL,
+        approved_at = NULL,
+        signed_by_email = NULL,
+        signed_by_user_id = NULL,
+        signature_method = NULL
+    WHERE request_id = v_request_id
+      AND status = 'approved'
+      AND step NOT IN ('user_signature', 'supervisor_approval')
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_reset_ids FROM reset;
+
+  IF v_reset_ids IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Links issued before the change should not sign the new roles
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = ANY(v_reset_ids)
+    AND used_at IS NULL;
+
+  PERFORM enqueue_approver_notifications(v_request_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reset_approvals_on_access_change ON security_role_selections;
+CREATE TRIGGER reset_approvals_on_access_change
+  AFTER INSERT OR UPDATE OR DELETE ON security_role_selections
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_approvals_on_access_change();
+
+DROP TRIGGER IF EXISTS reset_approvals_on_access_change ON hr_payroll_role_selections;
+CREATE TRIGGER reset_approvals_on_access_change
+  AFTER INSERT OR UPDATE OR DELETE ON hr_payroll_role_selections
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_approvals_on_access_change();
+
+DROP TRIGGER IF EXISTS reset_approvals_on_access_change ON epm_dwh_role_selections;
+CREATE TRIGGER reset_approvals_on_access_change
+  AFTER INSERT OR UPDATE OR DELETE ON epm_dwh_role_selections
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_approvals_on_access_change();
+
+DROP TRIGGER IF EXISTS reset_approvals_on_access_change ON security_areas;
+CREATE TRIGGER reset_approvals_on_access_change
+  AFTER INSERT OR UPDATE OR DELETE ON security_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_approvals_on_access_change();
+
+DROP TRIGGER IF EXISTS reset_approvals_on_access_change ON request_role_removals;
+CREATE TRIGGER reset_approvals_on_access_change
+  AFTER INSERT OR UPDATE OR DELETE ON request_role_removals
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_approvals_on_access_change();
@@ -0,0 +1,15 @@
+/*
+  # Approval steps change only through the signing functions
+
+  1. Changes
+    - Drop the "Approvers can update their own approvals" policy. It let an
+      approver update their row directly: move it to another request or step,
+      mark it approved without a signature, or write their own signer details.
+      Approving, denying and returning go through `sign_request_approval` and
+      `reject_request_approval`, which run as definer and are unaffected
+
+  2. Security
+    - Signed-in users have no UPDATE policy on `request_approvals`
+*/
+
+DROP POLICY IF EXISTS "Approvers can update their own approvals" ON request_approvals;
@@ -0,0 +1,131 @@
+/*
+  # Submitters cannot approve or complete their own requests
+
+  1. Changes
+    - `sign_request_approval` rejects the request's submitter on every step
+      except `user_signature`. The submitter enters the supervisor, security
+      administrator and director addresses, so they could otherwise route a
+      step to themselves and sign it
+    - `complete_request` rejects the request's submitter for the same reason
+
+  2. Security
+    - Grants are unchanged
+*/
+
+-- Approve a step after verifying the signer
+CREATE OR REPLACE FUNCTION sign_request_approval(
+  p_approval_id uuid,
+  p_signature_data text,
+  p_comments text DEFAULT NULL,
+  p_token text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_method text;
+  v_approval request_approvals%ROWTYPE;
+BEGIN
+  v_method := verify_approval_signer(p_approval_id, p_token);
+
+  IF coalesce(p_signature_data, '') = '' THEN
+    RAISE EXCEPTION 'A signature is required';
+  END IF;
+
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE id = p_approval_id
+  FOR UPDATE;
+
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This approval step has already been %', v_approval.status;
+  END IF;
+
+  -- The submitter chooses the approvers, so they cannot be one of them
+  IF v_approval.step <> 'user_signature' AND EXISTS (
+    SELECT 1 FROM security_role_requests
+    WHERE id = v_approval.request_id
+      AND submitted_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You submitted this request and cannot approve it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE request_approvals
+  SET status = 'approved',
+      signature_data = p_signature_data,
+      approved_at = now(),
+      comments = nullif(trim(p_comments), ''),
+      signed_by_email = current_user_email(),
+      signed_by_user_id = auth.uid(),
+      signature_method = v_method
+  WHERE id = p_approval_id;
+
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = p_approval_id
+    AND used_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION complete_request(p_request_id uuid, p_completed_by text)
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM security_role_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step = 'security_admin_approval'
+      AND lower(approver_email) = current_user_email()
+  ) THEN
+    RAISE EXCEPTION 'Only the security administrator of this request can complete it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_request.submitted_by = auth.uid() THEN
+    RAISE EXCEPTION 'You submitted this request and cannot complete it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_request.status IN ('completed', 'denied', 'returned') THEN
+    RAISE EXCEPTION 'This request has been % and cannot be completed', v_request.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM request_approvals
+    WHERE request_id = p_request_id
+      AND status <> 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Every approval step must be approved before the request is completed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM check_request_sod_rules(p_request_id);
+
+  IF coalesce(btrim(p_completed_by), '') = '' THEN
+    RAISE EXCEPTION 'Enter the name of the person completing the request'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lets apply_completed_request_to_access tell this update from any other
+  PERFORM set_config('app.completing_request', p_request_id::text, true);
+
+  UPDATE security_role_requests
+  SET status = 'completed',
+      completed_by = btrim(p_completed_by),
+      completed_at = now()
+  WHERE id = p_request_id;
+
+  PERFORM set_config('app.completing_request', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
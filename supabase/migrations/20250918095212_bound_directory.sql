@@ -0,0 +1,222 @@
+/*
+  # Approvers listed in the directory are always used
+
+  1. Changes
+    - `fill_request_approvers()` and `fill_area_director()` take the security
+      administrator and area director from the agency approver directory
+      whenever it lists one, replacing what the submitter entered. Approvers
+      are only typed in for roles the directory has no entry for. Changing a
+      listed approver is done by a reference data admin in the directory
+    - Add `route_approval_step(request_id, step, approver_email)`, which moves
+      a step to a new approver. A signature given by the previous approver is
+      cleared, as are approvals of later steps, signing links are invalidated
+      and the new approver is emailed when it is their turn
+    - Add `reroute_to_directory(agency_code)`, which moves open requests of
+      an agency to its directory approvers. It replaces
+      `reroute_placeholder_hr_approvers`; placeholder HR approvers are a case
+      of an approver that differs from the directory
+    - Adding or changing a directory entry reroutes that agency's open
+      requests, and every agency's open requests are rerouted now
+
+  2. Security
+    - `route_approval_step` and `reroute_to_directory` are not callable by
+      clients
+*/
+
+CREATE OR REPLACE FUNCTION fill_request_approvers()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approver agency_approvers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_approver
+  FROM agency_approvers
+  WHERE agency_code = NEW.agency_code
+    AND role = 'security_admin';
+
+  IF FOUND THEN
+    NEW.security_admin_name := v_approver.approver_name;
+    NEW.security_admin_email := v_approver.approver_email;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Also runs when only the name is edited, so it cannot drift from the directory
+DROP TRIGGER IF EXISTS fill_request_approvers ON security_role_requests;
+CREATE TRIGGER fill_request_approvers
+  BEFORE INSERT OR UPDATE OF agency_code, security_admin_name, security_admin_email ON security_role_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_request_approvers();
+
+CREATE OR REPLACE FUNCTION fill_area_director()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_role text := area_directory_role(NEW.area_type);
+  v_agency_code text;
+  v_approver agency_approvers%ROWTYPE;
+BEGIN
+  IF v_role IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT agency_code INTO v_agency_code
+  FROM security_role_requests
+  WHERE id = NEW.request_id;
+
+  SELECT * INTO v_approver
+  FROM agency_approvers
+  WHERE agency_code = v_agency_code
+    AND role = v_role;
+
+  IF NOT FOUND THEN
+    IF coalesce(NEW.director_email, '') = '' THEN
+      RAISE EXCEPTION 'No % is listed in the approver directory for agency %', replace(v_role, '_', ' '), v_agency_code;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  NEW.director_email := v_approver.approver_email;
+  -- HR / Payroll keeps the mainframe logon ID in director_name
+  IF NEW.area_type <> 'hr_payroll' THEN
+    NEW.director_name := v_approver.approver_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS fill_area_director ON security_areas;
+CREATE TRIGGER fill_area_director
+  BEFORE INSERT OR UPDATE OF area_type, director_name, director_email ON security_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_area_director();
+
+CREATE OR REPLACE FUNCTION route_approval_step(p_request_id uuid, p_step text, p_approver_email text)
+RETURNS void AS $$
+DECLARE
+  v_approval request_approvals%ROWTYPE;
+  v_reset_ids uuid[];
+BEGIN
+  SELECT * INTO v_approval
+  FROM request_approvals
+  WHERE request_id = p_request_id
+    AND step = p_step
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR coalesce(p_approver_email, '') = ''
+    OR lower(v_approval.approver_email) IS NOT DISTINCT FROM lower(p_approver_email) THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM security_role_requests
+    WHERE id = p_request_id
+      AND status = 'completed'
+  ) THEN
+    RETURN;
+  END IF;
+
+  UPDATE request_approvals
+  SET approver_email = p_approver_email,
+      notified_at = NULL
+  WHERE id = v_approval.id;
+
+  -- The previous approver's signature, and the later signatures that relied on
+  -- it, do not carry over to the new approver
+  WITH reset AS (
+    UPDATE request_approvals
+    SET status = 'pending',
+        signature_data = NULL,
+        approved_at = NULL,
+        signed_by_email = NULL,
+        signed_by_user_id = NULL,
+        signature_method = NULL
+    WHERE request_id = p_request_id
+      AND status = 'approved'
+      AND (id = v_approval.id OR approval_step_order(step) > approval_step_order(p_step))
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_reset_ids FROM reset;
+
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = ANY(v_reset_ids || v_approval.id)
+    AND used_at IS NULL;
+
+  PERFORM enqueue_approver_notifications(p_request_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION route_approval_step(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reroute_to_directory(p_agency_code text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_request record;
+  v_area record;
+BEGIN
+  FOR v_request IN
+    SELECT id, agency_code
+    FROM security_role_requests
+    WHERE status IN ('pending', 'returned')
+      AND (p_agency_code IS NULL OR agency_code = p_agency_code)
+  LOOP
+    -- fill_request_approvers replaces the security administrator from the directory
+    UPDATE security_role_requests r
+    SET security_admin_email = d.approver_email
+    FROM agency_approvers d
+    WHERE r.id = v_request.id
+      AND d.agency_code = r.agency_code
+      AND d.role = 'security_admin'
+      AND lower(r.security_admin_email) IS DISTINCT FROM d.approver_email;
+
+    PERFORM route_approval_step(v_request.id, 'security_admin_approval', d.approver_email)
+    FROM agency_approvers d
+    WHERE d.agency_code = v_request.agency_code
+      AND d.role = 'security_admin';
+
+    -- fill_area_director does the same for the areas' directors
+    UPDATE security_areas s
+    SET director_email = d.approver_email
+    FROM agency_approvers d
+    WHERE s.request_id = v_request.id
+      AND d.agency_code = v_request.agency_code
+      AND d.role = area_directory_role(s.area_type)
+      AND lower(s.director_email) IS DISTINCT FROM d.approver_email;
+
+    FOR v_area IN
+      SELECT area_approval_step(area_type) AS step, director_email
+      FROM security_areas
+      WHERE request_id = v_request.id
+        AND area_approval_step(area_type) IS NOT NULL
+    LOOP
+      PERFORM route_approval_step(v_request.id, v_area.step, v_area.director_email);
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reroute_to_directory(text) FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS reroute_hr_approvers_on_directory_change ON agency_approvers;
+DROP FUNCTION IF EXISTS reroute_hr_approvers_on_directory_change();
+DROP FUNCTION IF EXISTS reroute_placeholder_hr_approvers(text);
+
+CREATE OR REPLACE FUNCTION reroute_on_directory_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM reroute_to_directory(NEW.agency_code);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reroute_on_directory_change ON agency_approvers;
+CREATE TRIGGER reroute_on_directory_change
+  AFTER INSERT OR UPDATE ON agency_approvers
+  FOR EACH ROW
+  EXECUTE FUNCTION reroute_on_directory_change();
+
+SELECT reroute_to_directory();
@@ -0,0 +1,94 @@
+/*
+  # A changed approver gets the step
+
+  1. Changes
+    - Changing a request's `supervisor_email` or `security_admin_email` moves
+      the supervisor or security administrator step to the new address with
+      `route_approval_step`. A signature the previous approver gave is cleared,
+      along with the later steps, and the new approver is emailed. Revisions
+      still file these columns under contact details, which reset nothing else
+    - `sync_area_approvals` moves a director step to a new director with
+      `route_approval_step` whatever its status, rather than only while it is
+      pending, so an approval given by the previous director is not kept
+
+  2. Security
+    - No grant changes
+*/
+
+CREATE OR REPLACE FUNCTION route_request_approvers()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.supervisor_email IS DISTINCT FROM OLD.supervisor_email THEN
+    PERFORM route_approval_step(NEW.id, 'supervisor_approval', NEW.supervisor_email);
+  END IF;
+
+  IF NEW.security_admin_email IS DISTINCT FROM OLD.security_admin_email THEN
+    PERFORM route_approval_step(NEW.id, 'security_admin_approval', NEW.security_admin_email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS route_request_approvers ON security_role_requests;
+CREATE TRIGGER route_request_approvers
+  AFTER UPDATE OF supervisor_email, security_admin_email ON security_role_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION route_request_approvers();
+
+CREATE OR REPLACE FUNCTION sync_area_approvals(p_request_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_area record;
+  v_approval request_approvals%ROWTYPE;
+  v_changed boolean := false;
+BEGIN
+  -- Nothing to do while the request itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM security_role_requests WHERE id = p_request_id) THEN
+    RETURN;
+  END IF;
+
+  -- Add or update the director step for each selected area
+  FOR v_area IN
+    SELECT area_approval_step(area_type) AS step, director_email
+    FROM security_areas
+    WHERE request_id = p_request_id
+      AND area_approval_step(area_type) IS NOT NULL
+  LOOP
+    SELECT * INTO v_approval
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step = v_area.step;
+
+    IF NOT FOUND THEN
+      INSERT INTO request_approvals (request_id, step, approver_email)
+      VALUES (p_request_id, v_area.step, v_area.director_email);
+    ELSIF v_approval.approver_email IS DISTINCT FROM v_area.director_email THEN
+      -- Invalidates links sent to the previous director and emails the new one
+      PERFORM route_approval_step(p_request_id, v_area.step, v_area.director_email);
+    END IF;
+  END LOOP;
+
+  -- Drop pending director steps whose area was deselected; signed steps are kept
+  DELETE FROM request_approvals a
+  WHERE a.request_id = p_request_id
+    AND a.status = 'pending'
+    AND a.step IN ('accounting_director_approval', 'hr_director_approval', 'elm_admin_approval')
+    AND NOT EXISTS (
+      SELECT 1 FROM security_areas s
+      WHERE s.request_id = p_request_id
+        AND area_approval_step(s.area_type) = a.step
+    );
+
+  IF FOUND THEN
+    v_changed := true;
+  END IF;
+
+  -- Steps no longer blocked by a removed director get their email now
+  IF v_changed THEN
+    PERFORM enqueue_approver_notifications(p_request_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sync_area_approvals(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,78 @@
+/*
+  # Count current access in segregation-of-duties checks
+
+  1. Changes
+    - Add `request_held_role_keys(request_id)`, the `table.column` keys of the
+      access the request's employee already holds in `employee_access_entries`,
+      less the roles the request removes. Removal requests grant nothing and
+      hold no keys
+    - `request_sod_conflicts` checks the request's roles together with the
+      employee's current access, so conflicting duties cannot be split across
+      two requests. A rule only conflicts when the request adds one of its
+      roles; access the employee already held is not re-checked on unrelated
+      requests
+    - The revision, approval and completion checks all use
+      `request_sod_conflicts` and pick this up
+
+  2. Security
+    - `request_held_role_keys` is not callable by clients
+*/
+
+CREATE OR REPLACE FUNCTION request_held_role_keys(p_request_id uuid)
+RETURNS text[] AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM security_role_requests
+  WHERE id = p_request_id;
+
+  IF NOT FOUND OR v_request.request_type = 'remove' THEN
+    RETURN '{}';
+  END IF;
+
+  RETURN coalesce((
+    SELECT array_agg(e.role_table || '.' || e.role_column)
+    FROM employee_access_entries e
+    WHERE e.employee_key = employee_access_key(v_request.employee_id, v_request.email)
+      AND NOT EXISTS (
+        SELECT 1 FROM request_role_removals r
+        WHERE r.request_id = p_request_id
+          AND r.role_table = e.role_table
+          AND r.role_column = e.role_column
+      )
+  ), '{}');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_held_role_keys(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION request_sod_conflicts(p_request_id uuid)
+RETURNS TABLE (rule_id uuid, rule_name text, enforcement text, justification text) AS $$
+DECLARE
+  v_keys text[] := request_role_keys(p_request_id);
+  v_all_keys text[] := v_keys || request_held_role_keys(p_request_id);
+BEGIN
+  RETURN QUERY
+  SELECT r.id, r.name, r.enforcement, j.justification
+  FROM sod_rules r
+  LEFT JOIN request_sod_justifications j
+    ON j.rule_id = r.id AND j.request_id = p_request_id
+  WHERE r.is_active
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(r.duties) d
+      WHERE NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(d -> 'roles') k
+        WHERE k = ANY(v_all_keys)
+      )
+    )
+    AND EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(r.duties) d,
+        jsonb_array_elements_text(d -> 'roles') k
+      WHERE k = ANY(v_keys)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_sod_conflicts(uuid) FROM PUBLIC, anon, authenticated;
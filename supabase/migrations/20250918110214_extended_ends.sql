@@ -0,0 +1,164 @@
+/*
+  # End dates on non-employee change requests
+
+  1. Changes
+    - `security_role_requests_non_employee_details_check` only exempts removal
+      requests, so a change request for a non-employee also needs a type, an
+      access end date and security measures (existing rows are not
+      re-validated)
+    - `process_non_employee_access_ends` warns about and removes access granted
+      by completed change requests as well as add requests. Only the
+      employee's latest completed add or change request is followed, so a
+      change that moves the end date replaces the date of the request before it
+
+  2. Security
+    - No grant changes
+*/
+
+ALTER TABLE security_role_requests DROP CONSTRAINT IF EXISTS security_role_requests_non_employee_details_check;
+ALTER TABLE security_role_requests
+ADD CONSTRAINT security_role_requests_non_employee_details_check
+CHECK (
+  NOT is_non_employee
+  OR request_type = 'remove'
+  OR (
+    non_employee_type IS NOT NULL
+    AND access_end_date IS NOT NULL
+    AND coalesce(trim(security_measures), '') <> ''
+  )
+) NOT VALID;
+
+-- The employee's latest completed add or change request carries their end date
+CREATE OR REPLACE FUNCTION is_latest_access_grant(p_request security_role_requests)
+RETURNS boolean AS $$
+BEGIN
+  RETURN NOT EXISTS (
+    SELECT 1 FROM security_role_requests n
+    WHERE n.id <> p_request.id
+      AND n.request_type IN ('add', 'change')
+      AND n.status = 'completed'
+      AND employee_access_key(n.employee_id, n.email) = employee_access_key(p_request.employee_id, p_request.email)
+      AND coalesce(n.completed_at, n.created_at) > coalesce(p_request.completed_at, p_request.created_at)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_latest_access_grant(security_role_requests) FROM PUBLIC, anon, authenticated;
+
+-- Keep the warning window in sync with ACCESS_END_WARNING_DAYS in src/lib/nonEmployeeAccess.ts.
+CREATE OR REPLACE FUNCTION process_non_employee_access_ends()
+RETURNS void AS $$
+DECLARE
+  v_request security_role_requests%ROWTYPE;
+  v_removal_id uuid;
+BEGIN
+  -- Warn before access ends
+  FOR v_request IN
+    SELECT * FROM security_role_requests r
+    WHERE r.is_non_employee
+      AND r.request_type IN ('add', 'change')
+      AND r.status = 'completed'
+      AND r.access_end_date IS NOT NULL
+      AND r.access_end_date >= current_date
+      AND r.access_end_date <= current_date + 14
+      AND r.access_end_warned_at IS NULL
+      AND is_latest_access_grant(r)
+  LOOP
+    IF coalesce(v_request.security_admin_email, '') <> '' THEN
+      INSERT INTO notification_outbox (request_id, event, recipient_email)
+      VALUES (v_request.id, 'access_end_approaching', v_request.security_admin_email);
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_warned_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+
+  -- Generate a removal request once the end date has passed
+  FOR v_request IN
+    SELECT * FROM security_role_requests r
+    WHERE r.is_non_employee
+      AND r.request_type IN ('add', 'change')
+      AND r.status = 'completed'
+      AND r.access_end_date IS NOT NULL
+      AND r.access_end_date < current_date
+      AND r.access_end_processed_at IS NULL
+      AND is_latest_access_grant(r)
+  LOOP
+    SELECT id INTO v_removal_id
+    FROM security_role_requests
+    WHERE source_request_id = v_request.id
+      AND request_type = 'remove'
+    LIMIT 1;
+
+    IF v_removal_id IS NULL THEN
+      INSERT INTO security_role_requests (
+        request_type,
+        source_request_id,
+        remove_all_access,
+        start_date,
+        employee_name,
+        employee_id,
+        is_non_employee,
+        non_employee_type,
+        access_end_date,
+        security_measures,
+        work_location,
+        work_phone,
+        email,
+        agency_name,
+        agency_code,
+        justification,
+        submitter_name,
+        submitter_email,
+        supervisor_name,
+        supervisor_email,
+        security_admin_name,
+        security_admin_email,
+        submitted_by,
+        status
+      )
+      VALUES (
+        'remove',
+        v_request.id,
+        true,
+        current_date,
+        v_request.employee_name,
+        v_request.employee_id,
+        true,
+        v_request.non_employee_type,
+        v_request.access_end_date,
+        v_request.security_measures,
+        v_request.work_location,
+        v_request.work_phone,
+        v_request.email,
+        v_request.agency_name,
+        v_request.agency_code,
+        format('Non-employee access ended on %s. Generated automatically to remove all access.', to_char(v_request.access_end_date, 'MM/DD/YYYY')),
+        'Automated access review',
+        v_request.security_admin_email,
+        v_request.supervisor_name,
+        v_request.supervisor_email,
+        v_request.security_admin_name,
+        v_request.security_admin_email,
+        NULL,
+        'pending'
+      )
+      RETURNING id INTO v_removal_id;
+
+      PERFORM create_removal_approvals(v_removal_id);
+
+      IF coalesce(v_request.security_admin_email, '') <> '' THEN
+        INSERT INTO notification_outbox (request_id, event, recipient_email)
+        VALUES (v_removal_id, 'access_end_passed', v_request.security_admin_email);
+      END IF;
+    END IF;
+
+    UPDATE security_role_requests
+    SET access_end_processed_at = now()
+    WHERE id = v_request.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION process_non_employee_access_ends() FROM PUBLIC, anon, authenticated;
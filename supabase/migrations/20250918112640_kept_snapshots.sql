@@ -0,0 +1,167 @@
+/*
+  # Read old revision snapshots in the current shape
+
+  1. Changes
+    - Revision snapshots taken before business unit lists became arrays are
+      kept as they were stored, with the lists as text. Add
+      `normalize_request_snapshot(snapshot)`, which returns a snapshot with
+      those lists split into arrays the way the column conversion did
+    - `record_request_revision` compares the current content with the
+      normalized previous snapshot, so the first revision of an older request
+      is not reported as a role change
+
+  2. Security
+    - No grant changes
+*/
+
+-- Keep the columns in sync with businessUnitListColumns in src/lib/requestRevisions.ts
+CREATE OR REPLACE FUNCTION normalize_request_snapshot(p_snapshot jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_column text;
+  v_path text[];
+BEGIN
+  FOREACH v_column IN ARRAY ARRAY[
+    'other_business_units', 'writeoff_approval_business_units',
+    'credit_invoice_approval_business_units', 'physical_inventory_business_units'
+  ]
+  LOOP
+    v_path := ARRAY['role_selections', 'security_role_selections', v_column];
+
+    IF jsonb_typeof(p_snapshot #> v_path) = 'string' THEN
+      p_snapshot := jsonb_set(
+        p_snapshot,
+        v_path,
+        coalesce(to_jsonb(split_business_units(p_snapshot #>> v_path)), 'null'::jsonb)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN p_snapshot;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION record_request_revision(p_request_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_contact_columns text[] := ARRAY[
+    'work_location', 'work_phone', 'email',
+    'submitter_name', 'submitter_email',
+    'supervisor_name', 'supervisor_email',
+    'security_admin_name', 'security_admin_email'
+  ];
+  v_snapshot jsonb;
+  v_previous request_revisions%ROWTYPE;
+  v_previous_snapshot jsonb;
+  v_revision integer;
+  v_sections text[] := '{}';
+  v_reset_steps text[];
+  v_reset_ids uuid[];
+BEGIN
+  IF NOT is_request_submitter(p_request_id) THEN
+    RAISE EXCEPTION 'Only the submitter can revise this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_snapshot := request_snapshot(p_request_id);
+
+  SELECT * INTO v_previous
+  FROM request_revisions
+  WHERE request_id = p_request_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  v_revision := coalesce(v_previous.revision_number, 0);
+  v_previous_snapshot := normalize_request_snapshot(v_previous.snapshot);
+
+  IF v_previous.id IS NULL OR v_previous_snapshot IS DISTINCT FROM v_snapshot THEN
+    IF v_previous.id IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_snapshot -> 'request') n
+        WHERE n.key = ANY(v_contact_columns)
+          AND n.value IS DISTINCT FROM v_previous_snapshot -> 'request' -> n.key
+      ) THEN
+        v_sections := v_sections || 'contact';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_snapshot -> 'request') n
+        WHERE NOT n.key = ANY(v_contact_columns)
+          AND n.value IS DISTINCT FROM v_previous_snapshot -> 'request' -> n.key
+      ) THEN
+        v_sections := v_sections || 'details';
+      END IF;
+
+      IF v_snapshot -> 'security_areas' IS DISTINCT FROM v_previous_snapshot -> 'security_areas' THEN
+        v_sections := v_sections || 'areas';
+      END IF;
+
+      IF v_snapshot -> 'role_selections' IS DISTINCT FROM v_previous_snapshot -> 'role_selections'
+        OR v_snapshot -> 'copy_user_details' IS DISTINCT FROM v_previous_snapshot -> 'copy_user_details'
+        OR v_snapshot -> 'role_removals' IS DISTINCT FROM v_previous_snapshot -> 'role_removals' THEN
+        v_sections := v_sections || 'roles';
+      END IF;
+    END IF;
+
+    v_revision := v_revision + 1;
+
+    INSERT INTO request_revisions (request_id, revision_number, snapshot, changed_sections)
+    VALUES (p_request_id, v_revision, v_snapshot, v_sections);
+
+    UPDATE security_role_requests
+    SET current_revision = v_revision
+    WHERE id = p_request_id;
+  END IF;
+
+  -- Resubmitting a returned request puts it back in the approval chain. This
+  -- comes before the reset so the returned steps can go back to pending.
+  UPDATE security_role_requests
+  SET status = 'pending'
+  WHERE id = p_request_id
+    AND status = 'returned';
+
+  -- Steps whose approver attested to a section that changed
+  IF 'details' = ANY(v_sections) THEN
+    SELECT array_agg(DISTINCT step) INTO v_reset_steps
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step <> 'user_signature';
+  ELSIF v_sections && ARRAY['areas', 'roles'] THEN
+    SELECT array_agg(DISTINCT step) INTO v_reset_steps
+    FROM request_approvals
+    WHERE request_id = p_request_id
+      AND step NOT IN ('user_signature', 'supervisor_approval');
+  END IF;
+
+  WITH reset AS (
+    UPDATE request_approvals
+    SET status = 'pending',
+        signature_data = CASE WHEN status = 'approved' THEN NULL ELSE signature_data END,
+        approved_at = CASE WHEN status = 'approved' THEN NULL ELSE approved_at END,
+        rejected_at = NULL,
+        signed_by_email = NULL,
+        signed_by_user_id = NULL,
+        signature_method = NULL
+    WHERE request_id = p_request_id
+      AND (
+        status IN ('denied', 'returned', 'cancelled')
+        OR (status = 'approved' AND step = ANY(coalesce(v_reset_steps, '{}')))
+      )
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_reset_ids FROM reset;
+
+  -- Links issued before the edit should not sign the new revision
+  UPDATE approval_signing_tokens
+  SET used_at = now()
+  WHERE approval_id = ANY(coalesce(v_reset_ids, '{}'))
+    AND used_at IS NULL;
+
+  PERFORM enqueue_approver_notifications(p_request_id);
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_request_revision(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_request_revision(uuid) TO authenticated;
@@ -0,0 +1,15 @@
+/*
+  # Business day helpers are stable, not immutable
+
+  1. Changes
+    - `add_business_days` and `business_days_between` are declared `STABLE`.
+      Which weekday a `timestamptz` falls on depends on the session time zone,
+      so the same arguments do not always give the same result and the planner
+      must not fold or cache them as constants
+
+  2. Security
+    - No changes
+*/
+
+ALTER FUNCTION add_business_days(timestamptz, integer) STABLE;
+ALTER FUNCTION business_days_between(timestamptz, timestamptz) STABLE;
@@ -0,0 +1,50 @@
+/*
+  # Limit who can read the access ledger
+
+  1. Changes
+    - Add `can_view_employee_access(employee_key)`. An employee's current
+      access is visible to whoever can see one of that employee's requests
+      (its submitter, approvers and the security administrators of its agency)
+      and to the security administrators of the employee's agency
+    - Index requests by employee key for that lookup
+    - Employee pickers, copied access and access comparisons only find
+      employees the signed-in user can see
+
+  2. Security
+    - Replaces the "Users can read employee access" and "Users can read
+      employee access entries" policies, which let every signed-in user read
+      everyone's access
+*/
+
+CREATE INDEX IF NOT EXISTS idx_security_role_requests_employee_key
+ON security_role_requests(employee_access_key(employee_id, email));
+
+CREATE OR REPLACE FUNCTION can_view_employee_access(p_employee_key text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM employee_access
+    WHERE employee_key = p_employee_key
+      AND is_agency_security_admin(agency_code)
+  ) OR EXISTS (
+    SELECT 1 FROM security_role_requests
+    WHERE employee_access_key(employee_id, email) = p_employee_key
+      AND can_view_request(id)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can read employee access" ON employee_access;
+DROP POLICY IF EXISTS "Users can read employee access entries" ON employee_access_entries;
+
+CREATE POLICY "Users can read access of employees they can see"
+  ON employee_access
+  FOR SELECT
+  TO authenticated
+  USING (can_view_employee_access(employee_key));
+
+CREATE POLICY "Users can read access entries of employees they can see"
+  ON employee_access_entries
+  FOR SELECT
+  TO authenticated
+  USING (can_view_employee_access(employee_key));
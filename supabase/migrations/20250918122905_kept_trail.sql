@@ -0,0 +1,156 @@
+/*
+  # Audit trail readable after its request is gone, without signature images
+
+  1. Changes
+    - Add `agency_code` to `request_audit_log`, the agency of the request when
+      the change was made. Existing rows take it from their request, or from
+      the logged request row when the request has been deleted
+    - Security administrators of that agency can read the trail, including
+      the trail of deleted requests. Users who can view a request can still
+      read its trail
+    - `audit_request_change()` logs approval signatures as a SHA-256 hash of
+      the signature data instead of the drawn image. The hash can be checked
+      against a signature but does not hold a copy of it
+    - Signatures already logged are replaced with their hash. The append-only
+      guard is lifted only for that update
+
+  2. Security
+    - Adds the "Security administrators can read their agency's audit trail"
+      policy
+*/
+
+ALTER TABLE request_audit_log
+ADD COLUMN IF NOT EXISTS agency_code text;
+
+CREATE INDEX IF NOT EXISTS idx_request_audit_log_agency_code
+ON request_audit_log(agency_code, changed_at);
+
+CREATE POLICY "Security administrators can read their agency's audit trail"
+  ON request_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_agency_security_admin(agency_code));
+
+-- A logged row with its signature image replaced by a hash of it
+CREATE OR REPLACE FUNCTION hash_audit_signature(p_values jsonb)
+RETURNS jsonb AS $$
+BEGIN
+  IF jsonb_typeof(p_values -> 'signature_data') IS DISTINCT FROM 'string' THEN
+    RETURN p_values;
+  END IF;
+
+  RETURN jsonb_set(
+    p_values,
+    '{signature_data}',
+    to_jsonb('sha256:' || encode(sha256(convert_to(p_values ->> 'signature_data', 'UTF8')), 'hex'))
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION audit_request_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_fields text[];
+  v_request_id uuid;
+  v_agency_code text;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+  v_row := coalesce(v_new, v_old);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO v_fields
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+      AND n.value IS DISTINCT FROM v_old -> n.key;
+
+    IF v_fields IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    SELECT jsonb_object_agg(key, v_old -> key), jsonb_object_agg(key, v_new -> key)
+    INTO v_old, v_new
+    FROM unnest(v_fields) AS key;
+  ELSE
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO v_fields
+    FROM jsonb_object_keys(v_row) AS key;
+  END IF;
+
+  IF TG_TABLE_NAME = 'request_approvals' THEN
+    v_old := hash_audit_signature(v_old);
+    v_new := hash_audit_signature(v_new);
+  END IF;
+
+  IF TG_TABLE_NAME = 'security_role_requests' THEN
+    v_request_id := (v_row ->> 'id')::uuid;
+    v_agency_code := v_row ->> 'agency_code';
+  ELSE
+    v_request_id := (v_row ->> 'request_id')::uuid;
+
+    SELECT agency_code INTO v_agency_code
+    FROM security_role_requests
+    WHERE id = v_request_id;
+
+    -- Rows deleted along with their request
+    IF NOT FOUND THEN
+      SELECT agency_code INTO v_agency_code
+      FROM request_audit_log
+      WHERE request_id = v_request_id
+      ORDER BY changed_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  INSERT INTO request_audit_log (request_id, agency_code, table_name, record_id, action, changed_fields, old_values, new_values)
+  VALUES (
+    v_request_id,
+    v_agency_code,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::uuid,
+    lower(TG_OP),
+    v_fields,
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION audit_request_change() FROM PUBLIC, anon, authenticated;
+
+-- Existing rows; the only changes ever made to the trail
+ALTER TABLE request_audit_log DISABLE TRIGGER prevent_audit_log_changes;
+
+UPDATE request_audit_log l
+SET agency_code = coalesce(
+  (SELECT r.agency_code FROM security_role_requests r WHERE r.id = l.request_id),
+  (
+    SELECT coalesce(a.new_values, a.old_values) ->> 'agency_code'
+    FROM request_audit_log a
+    WHERE a.request_id = l.request_id
+      AND a.table_name = 'security_role_requests'
+      AND a.action IN ('insert', 'delete')
+    ORDER BY a.changed_at DESC
+    LIMIT 1
+  )
+)
+WHERE l.agency_code IS NULL;
+
+UPDATE request_audit_log
+SET old_values = hash_audit_signature(old_values),
+    new_values = hash_audit_signature(new_values)
+WHERE table_name = 'request_approvals'
+  AND (
+    jsonb_typeof(old_values -> 'signature_data') = 'string'
+    OR jsonb_typeof(new_values -> 'signature_data') = 'string'
+  );
+
+ALTER TABLE request_audit_log ENABLE TRIGGER prevent_audit_log_changes;